@@ -2,16 +2,20 @@ import type { Task, TaskComplexity, TaskSource } from "./estimator.js";
 
 const SOURCE_LOC_BASELINE: Record<TaskSource, number> = {
   lint: 8,
+  todo: 24,
   "test-gap": 48,
   "dead-code": 36,
+  security: 20,
   "github-issue": 88,
   custom: 40,
 };
 
 const SOURCE_COMPLEXITY_SCORE: Record<TaskSource, number> = {
   lint: 0,
+  todo: 1,
   "test-gap": 1,
   "dead-code": 1,
+  security: 1,
   "github-issue": 2,
   custom: 1,
 };
@@ -2,6 +2,7 @@ import { Command } from "commander";
 
 import { createAnalyzeCommand } from "./commands/analyze.js";
 import { createCompletionCommand } from "./commands/completion.js";
+import { createDelegateCommand } from "./commands/delegate.js";
 import { createDoctorCommand } from "./commands/doctor.js";
 import { createExplainCommand } from "./commands/explain.js";
 import { createInitCommand } from "./commands/init.js";
@@ -11,6 +12,7 @@ import { createPlanCommand } from "./commands/plan.js";
 import { createRunCommand } from "./commands/run/index.js";
 import { createScanCommand } from "./commands/scan.js";
 import { createStatusCommand } from "./commands/status.js";
+import { createTranscriptCommand } from "./commands/transcript.js";
 
 declare const __OAC_VERSION__: string;
 
@@ -32,8 +34,10 @@ function registerCommands(program: Command): void {
   program.addCommand(createLogCommand());
   program.addCommand(createLeaderboardCommand());
   program.addCommand(createStatusCommand());
+  program.addCommand(createTranscriptCommand());
   program.addCommand(createCompletionCommand());
   program.addCommand(createExplainCommand());
+  program.addCommand(createDelegateCommand());
 }
 
 export async function createCliProgram(): Promise<Command> {
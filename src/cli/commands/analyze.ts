@@ -4,9 +4,14 @@ import { Command } from "commander";
 
 import type { OacConfig } from "../../core/index.js";
 import { analyzeCodebase, persistContext } from "../../discovery/analyzer.js";
-import { createBacklog, persistBacklog } from "../../discovery/backlog.js";
+import {
+  createBacklog,
+  loadBacklog,
+  persistBacklog,
+  updateBacklog,
+} from "../../discovery/backlog.js";
 import { groupFindingsIntoEpics } from "../../discovery/epic-grouper.js";
-import { buildScanners } from "../../discovery/index.js";
+import { buildScanners, createScanners, parseScannerNames } from "../../discovery/index.js";
 import { cloneRepo, resolveRepo } from "../../repo/index.js";
 import { ensureGitHubAuth } from "../github-auth.js";
 
@@ -22,6 +27,7 @@ import {
 interface AnalyzeCommandOptions {
   repo?: string;
   force?: boolean;
+  scanners?: string;
   format: string;
 }
 
@@ -34,6 +40,10 @@ export function createAnalyzeCommand(): Command {
     .description("Deep codebase analysis — build module graph and group findings into epics")
     .option("--repo <owner/repo>", "Target repository (owner/repo or GitHub URL)")
     .option("--force", "Force re-analysis even if context is fresh", false)
+    .option(
+      "--scanners <names>",
+      "Comma-separated scanners to run, overriding config (lint,todo,test-gap,dead-code,security,github-issues)",
+    )
     .option("--format <format>", "Output format: table|json", "table")
     .action(async (options: AnalyzeCommandOptions, cmd) => {
       const globalOptions = getGlobalOptions(cmd);
@@ -43,6 +53,7 @@ export function createAnalyzeCommand(): Command {
       const config = await loadOptionalConfig(globalOptions.config, globalOptions.verbose, ui);
       const repoInput = resolveRepoInput(options.repo, config);
       const ghToken = ensureGitHubAuth();
+      const scanners = buildScannerList(config, Boolean(ghToken), options.scanners);
 
       // Resolve and clone repo
       const resolveSpinner = createSpinner(outputJson, "Resolving repository...");
@@ -53,9 +64,6 @@ export function createAnalyzeCommand(): Command {
       await cloneRepo(resolvedRepo);
       cloneSpinner?.succeed(`Repository ready at ${resolvedRepo.localPath}`);
 
-      // Build scanner list
-      const scanners = buildScannerList(config, Boolean(ghToken));
-
       // Analyze codebase
       const analyzeSpinner = createSpinner(outputJson, "Analyzing codebase...");
       const { codebaseMap, qualityReport } = await analyzeCodebase(resolvedRepo.localPath, {
@@ -77,7 +85,11 @@ export function createAnalyzeCommand(): Command {
       const contextDir = config?.analyze?.contextDir ?? ".oac/context";
       const persistSpinner = createSpinner(outputJson, "Persisting context...");
       await persistContext(resolvedRepo.localPath, codebaseMap, qualityReport, contextDir);
-      const backlog = createBacklog(resolvedRepo.fullName, resolvedRepo.git.headSha, epics);
+      // Merge into the existing backlog so completed/skipped epics stay that way
+      const existingBacklog = await loadBacklog(resolvedRepo.localPath, contextDir);
+      const backlog = existingBacklog
+        ? updateBacklog(existingBacklog, epics, [], resolvedRepo.git.headSha)
+        : createBacklog(resolvedRepo.fullName, resolvedRepo.git.headSha, epics);
       await persistBacklog(resolvedRepo.localPath, backlog, contextDir);
       persistSpinner?.succeed(`Context persisted to ${contextDir}/`);
 
@@ -146,6 +158,7 @@ inspect or force-refresh the analysis independently.
 Examples:
   $ oac analyze --repo owner/repo
   $ oac analyze --repo owner/repo --force
+  $ oac analyze --repo owner/repo --scanners lint,security
   $ oac analyze --repo owner/repo --format json`,
   );
 
@@ -160,6 +173,13 @@ function normalizeOutputFormat(value: string): OutputFormat {
   throw new Error(`Unsupported --format value "${value}". Use "table" or "json".`);
 }
 
-function buildScannerList(config: OacConfig | null, hasGitHubAuth: boolean) {
+function buildScannerList(
+  config: OacConfig | null,
+  hasGitHubAuth: boolean,
+  scannerOption: string | undefined,
+) {
+  if (scannerOption) {
+    return createScanners(parseScannerNames(scannerOption));
+  }
   return buildScanners(config, hasGitHubAuth).instances;
 }
@@ -10,7 +10,9 @@ const SUBCOMMANDS = [
   "log",
   "leaderboard",
   "status",
+  "transcript",
   "completion",
+  "delegate",
 ];
 
 const GLOBAL_OPTIONS = [
@@ -35,6 +37,7 @@ const COMMAND_OPTIONS: Record<string, string[]> = {
     "--timeout",
     "--source",
     "--retry-failed",
+    "--all",
   ],
   scan: ["--repo", "--scanners", "--max-findings"],
   analyze: ["--repo"],
@@ -42,6 +45,8 @@ const COMMAND_OPTIONS: Record<string, string[]> = {
   log: ["--limit", "--repo", "--source", "--since"],
   leaderboard: ["--limit", "--repo", "--format"],
   status: ["--watch"],
+  transcript: ["--run", "--type", "--limit"],
+  delegate: ["--status", "--repo", "--agent", "--reason", "--tokens", "--provider", "--mode"],
   init: [],
   doctor: [],
 };
@@ -0,0 +1,169 @@
+import Table from "cli-table3";
+import { Command } from "commander";
+
+import { createEventBus } from "../../core/index.js";
+import {
+  DelegationManager,
+  type DelegationRecord,
+  type DelegationStatus,
+} from "../../organization/index.js";
+import {
+  createUi,
+  getGlobalOptions,
+  loadOptionalConfig,
+  parseInteger,
+  truncate,
+} from "../helpers.js";
+import { parseTokens } from "./run/index.js";
+import { runPipeline, validateRunOptions } from "./run/pipeline.js";
+
+interface DelegateListOptions {
+  status?: string;
+  repo?: string;
+}
+
+interface DelegateRunOptions {
+  tokens?: number;
+  provider?: string;
+  mode?: string;
+  timeout?: number;
+  dryRun?: boolean;
+}
+
+const STATUSES: DelegationStatus[] = ["pending", "accepted", "rejected", "completed"];
+
+export function createDelegateCommand(): Command {
+  const command = new Command("delegate");
+
+  command.description("Review and run tasks other repositories delegated (queue in ~/.oac)");
+
+  command
+    .command("list")
+    .description("List delegations, highest priority first")
+    .option("--status <status>", `Only this status: ${STATUSES.join(", ")}`)
+    .option("--repo <owner/repo>", "Only delegations from or to this repository")
+    .action(async (options: DelegateListOptions, cmd: Command) => {
+      const status = parseStatus(options.status);
+      const { manager, json } = await openQueue(cmd);
+      const delegations = await manager.listDelegations({ status, repo: options.repo });
+
+      if (json) {
+        console.log(JSON.stringify({ delegations }, null, 2));
+        return;
+      }
+      renderList(delegations);
+    });
+
+  command
+    .command("accept")
+    .description("Accept a pending delegation; the next `oac run` on its target repo runs it")
+    .argument("<id>", "Delegation id (or unique prefix)")
+    .option("--agent <id>", "Provider to assign instead of the role's agent")
+    .action(async (id: string, options: { agent?: string }, cmd: Command) => {
+      const { manager, json, ui } = await openQueue(cmd);
+      const record = await manager.acceptDelegation(id, options.agent);
+      printResolved(record, json, ui.green(`Accepted delegation ${record.id.slice(0, 8)}.`));
+      if (!json) {
+        console.log(`It runs with the next \`oac run --repo ${record.targetRepo}\`.`);
+      }
+    });
+
+  command
+    .command("reject")
+    .description("Reject a pending delegation")
+    .argument("<id>", "Delegation id (or unique prefix)")
+    .requiredOption("--reason <text>", "Why the delegation is rejected")
+    .action(async (id: string, options: { reason: string }, cmd: Command) => {
+      const { manager, json, ui } = await openQueue(cmd);
+      const record = await manager.rejectDelegation(id, options.reason);
+      printResolved(record, json, ui.yellow(`Rejected delegation ${record.id.slice(0, 8)}.`));
+    });
+
+  command
+    .command("run")
+    .description("Run one delegation now against its target repo (accepting it if pending)")
+    .argument("<id>", "Delegation id (or unique prefix)")
+    .option("--tokens <value>", 'Token budget (number or "unlimited")', parseTokens)
+    .option("--provider <ids>", "Agent provider id, or a comma-separated fallback chain")
+    .option("--mode <mode>", "Execution mode: new-pr|update-pr|direct-commit|branch-only")
+    .option("--timeout <seconds>", "Per-task timeout in seconds", parseInteger)
+    .option("--dry-run", "Show plan without executing the task", false)
+    .action(async (id: string, options: DelegateRunOptions, cmd: Command) => {
+      const { manager, globalOptions, ui } = await openQueue(cmd);
+      let record = await manager.getDelegation(id);
+      if (!record) {
+        throw new Error(`Delegation "${id}" not found.`);
+      }
+      if (record.status === "pending" && !options.dryRun) {
+        record = await manager.acceptDelegation(record.id);
+      } else if (record.status !== "accepted" && record.status !== "pending") {
+        throw new Error(
+          `Delegation "${record.id}" is ${record.status}; only pending or accepted delegations run.`,
+        );
+      }
+
+      const runOptions = { ...options, repo: record.targetRepo, delegation: record.id };
+      validateRunOptions(runOptions);
+      await runPipeline(runOptions, globalOptions, ui);
+    });
+
+  command.addHelpText(
+    "after",
+    `\nAccepted delegations also run as part of the next \`oac run\` on their target repo.
+
+Examples:
+  $ oac delegate list --status pending
+  $ oac delegate accept 3f2a9c1b
+  $ oac delegate reject 3f2a9c1b --reason "Out of scope for this repo"
+  $ oac delegate run 3f2a9c1b --tokens 50000`,
+  );
+
+  return command;
+}
+
+async function openQueue(cmd: Command) {
+  const globalOptions = getGlobalOptions(cmd);
+  const ui = createUi(globalOptions);
+  const config = await loadOptionalConfig(globalOptions.config, globalOptions.verbose, ui);
+  const manager = new DelegationManager(createEventBus(), config?.organization);
+  return { manager, globalOptions, ui, json: globalOptions.json };
+}
+
+function parseStatus(value: string | undefined): DelegationStatus | undefined {
+  if (!value) return undefined;
+  if (!(STATUSES as string[]).includes(value)) {
+    throw new Error(`Unknown status "${value}". Expected: ${STATUSES.join(", ")}.`);
+  }
+  return value as DelegationStatus;
+}
+
+function printResolved(record: DelegationRecord, json: boolean, message: string): void {
+  if (json) {
+    console.log(JSON.stringify({ delegation: record }, null, 2));
+    return;
+  }
+  console.log(message);
+}
+
+function renderList(delegations: DelegationRecord[]): void {
+  if (delegations.length === 0) {
+    console.log("No delegations found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["ID", "Status", "From", "To", "Priority", "Task", "Requested"],
+  });
+  for (const record of delegations) {
+    table.push([
+      record.id.slice(0, 8),
+      record.status,
+      record.sourceRepo,
+      record.targetRepo,
+      String(record.priority),
+      truncate(record.task.title, 40),
+      record.requestedAt.slice(0, 16).replace("T", " "),
+    ]);
+  }
+  console.log(table.toString());
+}
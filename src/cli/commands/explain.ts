@@ -2,8 +2,28 @@ import { resolve } from "node:path";
 
 import { Command } from "commander";
 
-import { loadBacklog, loadContext } from "../../discovery/index.js";
-import { createUi, getGlobalOptions, loadOptionalConfig } from "../helpers.js";
+import type { Epic, OacConfig, Task } from "../../core/index.js";
+import {
+  type GoalMatch,
+  type PriorityWeights,
+  type RawFinding,
+  findingToTask,
+  loadBacklog,
+  loadContext,
+  rankTasks,
+} from "../../discovery/index.js";
+import { buildTaskPrompt, epicAsTask, loadPromptTemplates } from "../../execution/index.js";
+import { resolveRepo } from "../../repo/index.js";
+import { createUi, getGlobalOptions, loadOptionalConfig, resolveRepoInput } from "../helpers.js";
+import { resolveContextAck } from "./run/context-policy.js";
+import { repoGoals, withOrganization } from "./run/organization.js";
+import { discoverRepoGuide } from "./run/repo-guide.js";
+import { withContextAck, withRepoGuide } from "./run/task.js";
+
+interface ExplainCommandOptions {
+  prompt?: boolean;
+  repo?: string;
+}
 
 export function createExplainCommand(): Command {
   const command = new Command("explain");
@@ -11,7 +31,15 @@ export function createExplainCommand(): Command {
   command
     .description("Explain why a task or epic was selected and what the agent would do")
     .argument("<id>", "Task or epic ID (from scan / analyze / run --dry-run output)")
-    .action(async (id: string, _options, cmd) => {
+    .option(
+      "--prompt",
+      "Print the final prompt the agent would receive for an epic or backlog task (not for scanned tasks)",
+    )
+    .option(
+      "--repo <owner/repo>",
+      "Repository whose organization role and goals apply with --prompt (as in oac run)",
+    )
+    .action(async (id: string, options: ExplainCommandOptions, cmd) => {
       const globalOptions = getGlobalOptions(cmd);
       const ui = createUi(globalOptions);
       const config = await loadOptionalConfig(globalOptions.config, globalOptions.verbose, ui);
@@ -36,6 +64,16 @@ export function createExplainCommand(): Command {
         return;
       }
 
+      if (options.prompt) {
+        await printAgentPrompt(
+          id,
+          { repoPath, repo: options.repo, config, backlog },
+          globalOptions.json,
+          ui,
+        );
+        return;
+      }
+
       // Search findings
       const finding = context?.qualityReport.findings.find(
         (f) => f.title === id || f.filePath === id,
@@ -59,58 +97,27 @@ export function createExplainCommand(): Command {
         return;
       }
 
+      const goals = repoGoals(
+        config?.organization,
+        backlog?.repoFullName ?? context?.qualityReport.repoFullName ?? "",
+      );
+      const ranking = finding ? rankTasks([findingToTask(finding, "")], { goals })[0] : undefined;
+      const goalMatches = epic
+        ? rankTasks(epic.subtasks, { goals }).filter((task) => readGoalMatch(task))
+        : [];
+
       if (globalOptions.json) {
-        console.log(JSON.stringify({ finding: finding ?? null, epic: epic ?? null }, null, 2));
+        console.log(JSON.stringify(explainJson(finding, epic, ranking, goalMatches), null, 2));
         return;
       }
 
       if (epic) {
-        console.log(ui.bold("Epic"));
-        console.log(`  ${ui.blue("ID:")}        ${epic.id}`);
-        console.log(`  ${ui.blue("Title:")}     ${epic.title}`);
-        console.log(`  ${ui.blue("Scope:")}     ${epic.scope}`);
-        console.log(`  ${ui.blue("Priority:")}  ${epic.priority}`);
-        console.log(`  ${ui.blue("Status:")}    ${epic.status}`);
-        console.log(`  ${ui.blue("Tasks:")}     ${epic.subtasks.length}`);
-        console.log("");
-        console.log(ui.dim("Description:"));
-        console.log(`  ${epic.description}`);
-        if (epic.subtasks.length > 0) {
-          console.log("");
-          console.log(ui.dim("Task IDs:"));
-          for (const subtask of epic.subtasks) {
-            console.log(`  - ${subtask.id}`);
-          }
-        }
+        printEpic(ui, epic, goalMatches);
       }
 
-      if (finding) {
+      if (finding && ranking) {
         if (epic) console.log("");
-        console.log(ui.bold("Finding"));
-        console.log(`  ${ui.blue("Title:")}      ${finding.title}`);
-        console.log(`  ${ui.blue("Source:")}     ${finding.source.replace(/-/g, " ")}`);
-        console.log(`  ${ui.blue("Scanner:")}   ${finding.scannerId}`);
-        console.log(`  ${ui.blue("Severity:")}  ${colorSeverity(ui, finding.severity)}`);
-        console.log(`  ${ui.blue("Complexity:")} ${finding.complexity}`);
-        console.log(`  ${ui.blue("File:")}      ${finding.filePath}`);
-        if (finding.module) {
-          console.log(`  ${ui.blue("Module:")}    ${finding.module}`);
-        }
-        if (finding.line) {
-          console.log(`  ${ui.blue("Line:")}      ${finding.line}`);
-        }
-        console.log("");
-        console.log(ui.dim("Description:"));
-        console.log(`  ${finding.description}`);
-        console.log("");
-        console.log(ui.dim("What the agent would do:"));
-        console.log("  1. Check out a clean branch for this task");
-        console.log(
-          `  2. Open ${finding.filePath}${finding.line ? ` at line ${finding.line}` : ""}`,
-        );
-        console.log("  3. Apply the fix described above");
-        console.log("  4. Run tests and linters to verify");
-        console.log("  5. Create a PR with the changes");
+        printFinding(ui, finding, ranking);
       }
     });
 
@@ -118,12 +125,187 @@ export function createExplainCommand(): Command {
     "after",
     `\nExamples:
   $ oac explain "Add tests for client.ts"
-  $ oac explain src/lib/client.ts`,
+  $ oac explain src/lib/client.ts
+  $ oac explain --prompt epic-3f2a9c1b
+
+--prompt renders epics and the tasks of the analyze backlog. Tasks that
+\`oac run\` scans on the fly have no stable ID to look up.`,
   );
 
   return command;
 }
 
+/**
+ * Print the prompt exactly as `oac run` hands it to the agent for an epic or
+ * an epic subtask: prompt templates, organization role and goals, context
+ * policy acknowledgement and repo guide included. Roles and goals are looked
+ * up under the resolved repository name, as run does.
+ */
+async function printAgentPrompt(
+  id: string,
+  source: {
+    repoPath: string;
+    /** `--repo`; the first configured repo when omitted. */
+    repo?: string;
+    config: OacConfig | null;
+    backlog: Awaited<ReturnType<typeof loadBacklog>>;
+  },
+  json: boolean,
+  ui: import("chalk").ChalkInstance,
+): Promise<void> {
+  const { repoPath, config, backlog } = source;
+  const fail = (message: string) => {
+    if (json) {
+      console.log(JSON.stringify({ error: message, id }, null, 2));
+    } else {
+      console.error(ui.red(message));
+    }
+    process.exitCode = 1;
+  };
+  const templates = await loadPromptTemplates(repoPath, config?.execution.prompts);
+  const epics = backlog?.epics ?? [];
+  const epic = epics.find((candidate) => candidate.id === id);
+  const task = epic
+    ? epicAsTask(epic, templates)
+    : epics.flatMap((candidate) => candidate.subtasks).find((subtask) => subtask.id === id);
+
+  if (!task) {
+    fail(
+      `No epic or task with ID "${id}" found in the backlog. --prompt only covers epics and their tasks from \`oac analyze\`.`,
+    );
+    return;
+  }
+
+  let repoFullName: string;
+  try {
+    repoFullName = (await resolveRepo(resolveRepoInput(source.repo, config))).fullName;
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+    return;
+  }
+
+  const [contextAck, repoGuide] = await Promise.all([
+    resolveContextAck(repoPath, config, ui, true),
+    discoverRepoGuide(repoPath),
+  ]);
+  const prompt = buildTaskPrompt(
+    withOrganization(
+      withRepoGuide(withContextAck(task, contextAck), repoGuide),
+      config?.organization,
+      repoFullName,
+    ),
+    templates,
+  );
+
+  if (json) {
+    console.log(JSON.stringify({ id: task.id, prompt }, null, 2));
+  } else {
+    console.log(prompt);
+  }
+}
+
+const BREAKDOWN_LABELS: Record<keyof PriorityWeights, string> = {
+  impactScore: "Impact",
+  feasibilityScore: "Feasibility",
+  freshnessScore: "Freshness",
+  issueSignals: "Issue signals",
+  tokenEfficiency: "Token efficiency",
+  goalAlignment: "Goal alignment",
+};
+
+function explainJson(
+  finding: RawFinding | undefined,
+  epic: Epic | undefined,
+  ranking: Task | undefined,
+  goalMatches: Task[],
+): Record<string, unknown> {
+  return {
+    finding: finding ?? null,
+    epic: epic ?? null,
+    ranking: ranking
+      ? {
+          priority: ranking.priority,
+          priorityBreakdown: ranking.metadata.priorityBreakdown,
+          goalMatch: readGoalMatch(ranking) ?? null,
+        }
+      : null,
+    goalMatches: goalMatches.map((task) => ({ taskId: task.id, ...readGoalMatch(task) })),
+  };
+}
+
+function readGoalMatch(task: Task): GoalMatch | undefined {
+  const value = task.metadata.goalMatch;
+  return typeof value === "object" && value !== null ? (value as GoalMatch) : undefined;
+}
+
+function formatGoalMatch(match: GoalMatch): string {
+  return `${match.goalTitle} (priority ${match.goalPriority}): +${match.boost} via ${match.matchedOn.join(", ")}`;
+}
+
+function printEpic(ui: import("chalk").ChalkInstance, epic: Epic, goalMatches: Task[]): void {
+  console.log(ui.bold("Epic"));
+  console.log(`  ${ui.blue("ID:")}        ${epic.id}`);
+  console.log(`  ${ui.blue("Title:")}     ${epic.title}`);
+  console.log(`  ${ui.blue("Scope:")}     ${epic.scope}`);
+  console.log(`  ${ui.blue("Priority:")}  ${epic.priority}`);
+  console.log(`  ${ui.blue("Status:")}    ${epic.status}`);
+  console.log(`  ${ui.blue("Tasks:")}     ${epic.subtasks.length}`);
+  console.log("");
+  console.log(ui.dim("Description:"));
+  console.log(`  ${epic.description}`);
+  if (epic.subtasks.length > 0) {
+    console.log("");
+    console.log(ui.dim("Task IDs:"));
+    for (const subtask of epic.subtasks) {
+      console.log(`  - ${subtask.id}`);
+    }
+  }
+  if (goalMatches.length > 0) {
+    console.log("");
+    console.log(ui.dim("Tasks serving organization goals:"));
+    for (const task of goalMatches) {
+      const match = readGoalMatch(task);
+      if (match) console.log(`  - ${task.id}: ${formatGoalMatch(match)}`);
+    }
+  }
+}
+
+function printFinding(ui: import("chalk").ChalkInstance, finding: RawFinding, ranking: Task): void {
+  console.log(ui.bold("Finding"));
+  console.log(`  ${ui.blue("Title:")}      ${finding.title}`);
+  console.log(`  ${ui.blue("Source:")}     ${finding.source.replace(/-/g, " ")}`);
+  console.log(`  ${ui.blue("Scanner:")}   ${finding.scannerId}`);
+  console.log(`  ${ui.blue("Severity:")}  ${colorSeverity(ui, finding.severity)}`);
+  console.log(`  ${ui.blue("Complexity:")} ${finding.complexity}`);
+  console.log(`  ${ui.blue("File:")}      ${finding.filePath}`);
+  if (finding.module) {
+    console.log(`  ${ui.blue("Module:")}    ${finding.module}`);
+  }
+  if (finding.line) {
+    console.log(`  ${ui.blue("Line:")}      ${finding.line}`);
+  }
+  console.log("");
+  console.log(ui.dim("Description:"));
+  console.log(`  ${finding.description}`);
+  console.log("");
+  console.log(ui.dim(`Priority breakdown (total ${ranking.priority}):`));
+  const breakdown = ranking.metadata.priorityBreakdown as PriorityWeights;
+  for (const [key, label] of Object.entries(BREAKDOWN_LABELS)) {
+    console.log(`  ${`${label}:`.padEnd(18)} ${breakdown[key as keyof PriorityWeights]}`);
+  }
+  const goalMatch = readGoalMatch(ranking);
+  if (goalMatch) {
+    console.log(`  ${ui.blue("Goal:")} ${formatGoalMatch(goalMatch)}`);
+  }
+  console.log("");
+  console.log(ui.dim("What the agent would do:"));
+  console.log("  1. Check out a clean branch for this task");
+  console.log(`  2. Open ${finding.filePath}${finding.line ? ` at line ${finding.line}` : ""}`);
+  console.log("  3. Apply the fix described above");
+  console.log("  4. Run tests and linters to verify");
+  console.log("  5. Create a PR with the changes");
+}
+
 function colorSeverity(
   ui: import("chalk").ChalkInstance,
   severity: "info" | "warning" | "error",
@@ -3,12 +3,7 @@ import Table from "cli-table3";
 import { Command } from "commander";
 import { buildExecutionPlan } from "../../budget/index.js";
 import type { OacConfig } from "../../core/index.js";
-import {
-  CompositeScanner,
-  LintScanner,
-  type Scanner,
-  rankTasks,
-} from "../../discovery/index.js";
+import { CompositeScanner, LintScanner, type Scanner, rankTasks } from "../../discovery/index.js";
 import { cloneRepo, resolveRepo } from "../../repo/index.js";
 import { ensureGitHubAuth } from "../github-auth.js";
 
@@ -25,6 +20,7 @@ import {
   resolveRepoInput,
   truncate,
 } from "../helpers.js";
+import { repoGoals } from "./run/organization.js";
 
 interface PlanCommandOptions {
   repo?: string;
@@ -77,7 +73,9 @@ export function createPlanCommand(): Command {
       });
       scanSpinner?.succeed(`Discovered ${scannedTasks.length} raw task(s)`);
 
-      const rankedTasks = rankTasks(scannedTasks).filter((task) => task.priority >= minPriority);
+      const rankedTasks = rankTasks(scannedTasks, {
+        goals: repoGoals(config?.organization, resolvedRepo.fullName),
+      }).filter((task) => task.priority >= minPriority);
 
       const estimateSpinner = createSpinner(
         outputJson,
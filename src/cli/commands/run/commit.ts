@@ -0,0 +1,39 @@
+import { execa } from "execa";
+import type { Task } from "../../../core/index.js";
+import { filterRealChanges } from "../../../core/index.js";
+
+/**
+ * Commit whatever the agent left in the sandbox and list the real files the
+ * task branch changes relative to `origin/<baseBranch>`.
+ */
+export async function commitSandboxChanges(
+  sandboxPath: string,
+  task: Task,
+  baseBranch: string,
+  subject = `[OAC] ${task.title}`,
+): Promise<{ hasChanges: boolean; filesChanged: string[] }> {
+  try {
+    // Stage and commit any uncommitted changes (staged + unstaged + untracked)
+    const statusResult = await execa("git", ["status", "--porcelain"], { cwd: sandboxPath });
+    if (statusResult.stdout.trim()) {
+      await execa("git", ["add", "-A"], { cwd: sandboxPath });
+      await execa("git", ["commit", "-m", `${subject}\n\nAutomated contribution by OAC.`], {
+        cwd: sandboxPath,
+      });
+    }
+
+    // Detect ALL changes vs the base branch — covers both OAC-committed and
+    // agent-committed changes (e.g. Claude Code with --dangerously-skip-permissions
+    // can commit directly during execution).
+    const diffResult = await execa("git", ["diff", "--name-only", `origin/${baseBranch}`, "HEAD"], {
+      cwd: sandboxPath,
+    });
+    const allChangedFiles = diffResult.stdout.trim().split("\n").filter(Boolean);
+    // Exclude .oac/ metadata files — only count real code changes
+    const changedFiles = filterRealChanges(allChangedFiles);
+
+    return { hasChanges: changedFiles.length > 0, filesChanged: changedFiles };
+  } catch {
+    return { hasChanges: false, filesChanged: [] };
+  }
+}
@@ -0,0 +1,333 @@
+import { execa } from "execa";
+
+import type { Task, TokenEstimate } from "../../../core/index.js";
+import type { AgentProvider } from "../../../execution/index.js";
+import { runReviewStage } from "./review.js";
+import type {
+  CandidateOutcome,
+  CompetitionSettings,
+  PipelineContext,
+  ReviewSettings,
+  RunMode,
+  TaskRunResult,
+} from "./types.js";
+
+/** Score weights; a perfect candidate scores 100. */
+const GATE_WEIGHT = 60;
+const CRITIC_WEIGHT = 30;
+const SIZE_WEIGHT = 10;
+
+export interface CandidateSpec {
+  /** 1-based candidate number. */
+  candidate: number;
+  adapter: AgentProvider;
+  /** Index into `promptVariants`, when variants are configured. */
+  variant?: number;
+}
+
+/** Competition settings in effect for a run; direct commits have no branches to compete. */
+export function competitionForMode(
+  mode: RunMode,
+  settings: CompetitionSettings | undefined,
+): CompetitionSettings | undefined {
+  return mode === "direct-commit" ? undefined : settings;
+}
+
+/** Opt-in per task source or priority threshold. */
+export function isCompetitive(task: Task, settings: CompetitionSettings | undefined): boolean {
+  if (!settings) return false;
+  if ((settings.sources as string[]).includes(task.source)) return true;
+  return settings.minPriority !== undefined && task.priority >= settings.minPriority;
+}
+
+/**
+ * Every candidate of a competing task runs it in full, so the plan charges
+ * `candidates` times its estimate. Other tasks' estimates are returned as is.
+ */
+export function chargeCompetitions(
+  tasks: Task[],
+  estimates: Map<string, TokenEstimate>,
+  settings: CompetitionSettings | undefined,
+): Map<string, TokenEstimate> {
+  if (!settings) return estimates;
+
+  const charged = new Map(estimates);
+  for (const task of tasks) {
+    const estimate = estimates.get(task.id);
+    if (estimate && isCompetitive(task, settings)) {
+      charged.set(task.id, scaleEstimate(estimate, settings.candidates));
+    }
+  }
+  return charged;
+}
+
+/** One candidate's share of a competing task's planned (charged) estimate. */
+export function candidateEstimate(
+  estimate: TokenEstimate,
+  settings: CompetitionSettings,
+): TokenEstimate {
+  return scaleEstimate(estimate, 1 / settings.candidates);
+}
+
+function scaleEstimate(estimate: TokenEstimate, factor: number): TokenEstimate {
+  return {
+    ...estimate,
+    contextTokens: Math.round(estimate.contextTokens * factor),
+    promptTokens: Math.round(estimate.promptTokens * factor),
+    expectedOutputTokens: Math.round(estimate.expectedOutputTokens * factor),
+    totalEstimatedTokens: Math.round(estimate.totalEstimatedTokens * factor),
+    ...(estimate.estimatedCostUsd !== undefined
+      ? { estimatedCostUsd: estimate.estimatedCostUsd * factor }
+      : {}),
+  };
+}
+
+/** Candidates rotate through the providers and the prompt variants independently. */
+export function planCandidates(
+  settings: CompetitionSettings,
+  adapters: AgentProvider[],
+): CandidateSpec[] {
+  return Array.from({ length: settings.candidates }, (_, index) => ({
+    candidate: index + 1,
+    adapter: adapters[index % adapters.length],
+    variant:
+      settings.promptVariants.length > 0 ? index % settings.promptVariants.length : undefined,
+  }));
+}
+
+export function withPromptVariant(task: Task, variant: string | undefined): Task {
+  if (!variant?.trim()) return task;
+  return { ...task, description: `${task.description}\n\n${variant.trim()}` };
+}
+
+/**
+ * 0–100, or `undefined` for a candidate that failed (or was blocked or
+ * rejected) and cannot win. Up to 60 points for the share of validation gates
+ * passed, up to 30 for the critic (approval weighted by confidence; full
+ * marks when the critic is off) and up to 10 for a small diff.
+ */
+export function scoreCandidate(result: TaskRunResult, maxDiffLines: number): number | undefined {
+  if (!result.execution.success) return undefined;
+
+  const gates = result.validation?.results ?? [];
+  const passedShare =
+    gates.length === 0 ? 1 : gates.filter((gate) => gate.status === "passed").length / gates.length;
+  const { review } = result;
+  const critic = !review ? 1 : review.verdict === "approve" ? review.confidence : 0;
+  const lines = result.validation?.linesChanged ?? 0;
+  const size = Math.max(0, 1 - lines / maxDiffLines);
+
+  const score = GATE_WEIGHT * passedShare + CRITIC_WEIGHT * critic + SIZE_WEIGHT * size;
+  return Math.round(score * 10) / 10;
+}
+
+/** Highest score wins; fewer tokens, then the earlier candidate, break ties. */
+export function pickWinner(outcomes: CandidateOutcome[]): CandidateOutcome | undefined {
+  return outcomes
+    .filter((outcome) => outcome.score !== undefined)
+    .sort(
+      (a, b) =>
+        (b.score as number) - (a.score as number) ||
+        a.tokensUsed - b.tokensUsed ||
+        a.candidate - b.candidate,
+    )[0];
+}
+
+/**
+ * Best-of-N: run the task once per candidate in its own sandbox, judge each
+ * result with the validation gates and, with `critic` set, the reviewer,
+ * then keep the best-scoring branch. Losing sandboxes and branches are
+ * removed, so only the winner can be pushed. The returned result carries the
+ * tokens of every candidate and the per-candidate breakdown in `candidates`.
+ */
+export async function runCompetition(
+  ctx: PipelineContext,
+  params: {
+    entry: { task: Task; estimate: TokenEstimate };
+    jobId: string;
+    settings: CompetitionSettings;
+    adapters: AgentProvider[];
+    /** Execute one candidate in a fresh sandbox. */
+    run: (spec: CandidateSpec, task: Task, jobId: string) => Promise<TaskRunResult>;
+    /** Validation without repair rounds. */
+    validate: (result: TaskRunResult) => Promise<TaskRunResult>;
+    /** Critic settings and dedicated reviewer; used when `settings.critic` is set. */
+    review?: { settings: ReviewSettings; reviewer?: AgentProvider };
+    repoPath: string;
+    baseBranch: string;
+    maxDiffLines: number;
+    timeoutSeconds: number;
+  },
+): Promise<TaskRunResult> {
+  const { entry, settings } = params;
+  const specs = planCandidates(settings, params.adapters);
+
+  // A candidate that throws loses; the others still finish and get judged.
+  const settled = await Promise.allSettled(
+    specs.map((spec) =>
+      params.run(
+        spec,
+        withPromptVariant(entry.task, settings.promptVariants[spec.variant ?? -1]),
+        `${params.jobId}-c${spec.candidate}`,
+      ),
+    ),
+  );
+  const executed = settled.map((outcome, index) =>
+    outcome.status === "fulfilled"
+      ? outcome.value
+      : failedCandidate(entry, specs[index], outcome.reason),
+  );
+
+  // Judge one candidate at a time: validation gates run the repo's own test suite.
+  const judged: TaskRunResult[] = [];
+  for (const [index, result] of executed.entries()) {
+    judged.push(
+      await judgeCandidate(ctx, result, specs[index], params).catch(
+        (error: unknown): TaskRunResult => ({
+          ...result,
+          status: "failed",
+          execution: { ...result.execution, success: false, error: errorMessage(error) },
+        }),
+      ),
+    );
+  }
+
+  const outcomes = judged.map((result, index) => toOutcome(result, specs[index], params));
+  const winner = pickWinner(outcomes);
+  if (winner) winner.winner = true;
+
+  await Promise.all(
+    judged.map((result, index) =>
+      outcomes[index].winner ? undefined : discardCandidate(result, params.repoPath),
+    ),
+  );
+
+  const tokensUsed = outcomes.reduce((sum, outcome) => sum + outcome.tokensUsed, 0);
+  const chosen = winner ? judged[winner.candidate - 1] : judged[0];
+  reportCompetition(ctx, entry.task, outcomes, winner);
+
+  return {
+    ...chosen,
+    jobId: params.jobId,
+    task: entry.task,
+    estimate: entry.estimate,
+    sandbox: winner ? chosen.sandbox : undefined,
+    candidates: outcomes,
+    execution: {
+      ...chosen.execution,
+      totalTokensUsed: tokensUsed,
+      ...(winner
+        ? {}
+        : {
+            success: false,
+            error: `All ${outcomes.length} candidates failed: ${outcomes
+              .map((outcome) => `#${outcome.candidate} ${outcome.error ?? "failed"}`)
+              .join("; ")}`,
+          }),
+    },
+  };
+}
+
+async function judgeCandidate(
+  ctx: PipelineContext,
+  result: TaskRunResult,
+  spec: CandidateSpec,
+  params: {
+    settings: CompetitionSettings;
+    validate: (result: TaskRunResult) => Promise<TaskRunResult>;
+    review?: { settings: ReviewSettings; reviewer?: AgentProvider };
+    baseBranch: string;
+    timeoutSeconds: number;
+  },
+): Promise<TaskRunResult> {
+  if (!result.execution.success) return result;
+
+  const validated = await params.validate(result);
+  if (!params.settings.critic || !params.review || !validated.execution.success) {
+    return validated;
+  }
+  // The critic only scores here: no repair rounds, and a rejection disqualifies.
+  return runReviewStage(ctx, validated, {
+    settings: { ...params.review.settings, enabled: true, onReject: "drop", maxRounds: 0 },
+    reviewer: params.review.reviewer ?? spec.adapter,
+    repoGuide: ctx.repoGuide,
+    baseBranch: params.baseBranch,
+    timeoutSeconds: params.timeoutSeconds,
+  });
+}
+
+/** The result of a candidate whose run threw before it produced one. */
+function failedCandidate(
+  entry: { task: Task; estimate: TokenEstimate },
+  spec: CandidateSpec,
+  error: unknown,
+): TaskRunResult {
+  return {
+    task: entry.task,
+    estimate: entry.estimate,
+    provider: spec.adapter.id,
+    execution: {
+      success: false,
+      exitCode: 1,
+      totalTokensUsed: 0,
+      filesChanged: [],
+      duration: 0,
+      error: errorMessage(error),
+    },
+    status: "failed",
+    attempts: 1,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toOutcome(
+  result: TaskRunResult,
+  spec: CandidateSpec,
+  params: { maxDiffLines: number },
+): CandidateOutcome {
+  return {
+    candidate: spec.candidate,
+    provider: result.provider ?? spec.adapter.id,
+    variant: spec.variant,
+    branchName: result.sandbox?.branchName,
+    tokensUsed: result.execution.totalTokensUsed,
+    score: scoreCandidate(result, params.maxDiffLines),
+    validationPassed: result.validation?.passed,
+    linesChanged: result.validation?.linesChanged,
+    verdict: result.review?.verdict,
+    winner: false,
+    error: result.execution.success ? undefined : result.execution.error,
+  };
+}
+
+async function discardCandidate(result: TaskRunResult, repoPath: string): Promise<void> {
+  if (!result.sandbox) return;
+  await result.sandbox.cleanup().catch(() => undefined);
+  await execa("git", ["branch", "-D", result.sandbox.branchName], {
+    cwd: repoPath,
+    reject: false,
+  });
+}
+
+function reportCompetition(
+  ctx: PipelineContext,
+  task: Task,
+  outcomes: CandidateOutcome[],
+  winner: CandidateOutcome | undefined,
+): void {
+  if (ctx.suppressOutput) return;
+  if (!winner) {
+    console.warn(ctx.ui.yellow(`[oac] No candidate succeeded for "${task.title}".`));
+    return;
+  }
+  if (ctx.globalOptions.verbose) {
+    console.log(
+      ctx.ui.blue(
+        `[oac] "${task.title}": candidate ${winner.candidate} of ${outcomes.length} (${winner.provider}) won with score ${winner.score}.`,
+      ),
+    );
+  }
+}
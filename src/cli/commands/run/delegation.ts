@@ -0,0 +1,121 @@
+import type { Epic, Task } from "../../../core/index.js";
+import type { DelegationActivity, DelegationRecord } from "../../../organization/index.js";
+import type { DelegationActivityRecord } from "../../../tracking/index.js";
+import type { PipelineContext, TaskRunResult } from "./types.js";
+import { ConfigError } from "./types.js";
+
+/** The delegation a task came from; kept in `task.metadata.delegation`. */
+export interface TaskDelegation {
+  id: string;
+  sourceRepo: string;
+  reason: string;
+}
+
+/** The delegated task, ranked at the delegation's priority. */
+export function delegationAsTask(record: DelegationRecord): Task {
+  const delegation: TaskDelegation = {
+    id: record.id,
+    sourceRepo: record.sourceRepo,
+    reason: record.reason,
+  };
+  return {
+    ...record.task,
+    priority: record.priority,
+    metadata: { ...record.task.metadata, delegation },
+  };
+}
+
+/** Wrap a delegated task as a single-subtask epic for the epic pipeline. */
+export function delegationAsEpic(task: Task): Epic {
+  const delegation = readTaskDelegation(task);
+  return {
+    id: `delegation-${(delegation?.id ?? task.id).slice(0, 8)}`,
+    title: task.title,
+    description: task.description,
+    scope: "root",
+    subtasks: [task],
+    contextFiles: [],
+    status: "pending",
+    priority: task.priority,
+    estimatedTokens: 0,
+    createdAt: task.discoveredAt,
+    metadata: { delegation },
+  };
+}
+
+/** Carry an epic's delegation over to the task `epicAsTask` built from it. */
+export function withEpicDelegation(task: Task, epic: Epic): Task {
+  const delegation = epic.metadata.delegation;
+  if (!delegation) return task;
+  return { ...task, metadata: { ...task.metadata, delegation } };
+}
+
+export function readTaskDelegation(task: Task): TaskDelegation | undefined {
+  const value = task.metadata.delegation;
+  return typeof value === "object" && value !== null ? (value as TaskDelegation) : undefined;
+}
+
+/**
+ * Accepted delegations to run against `repoFullName`. With
+ * `options.delegation` (set by `oac delegate run`) only that one, which must
+ * target this repo and be accepted (or still pending, for a dry run).
+ */
+export async function loadDelegatedTasks(
+  ctx: PipelineContext,
+  repoFullName: string,
+): Promise<Task[]> {
+  if (!ctx.delegations) return [];
+
+  const wanted = ctx.options.delegation;
+  if (!wanted) {
+    const accepted = await ctx.delegations.getAcceptedDelegations(repoFullName);
+    if (accepted.length > 0 && !ctx.suppressOutput) {
+      console.log(ctx.ui.blue(`[oac] Picked up ${accepted.length} accepted delegation(s).`));
+    }
+    return accepted.map(delegationAsTask);
+  }
+
+  const record = await ctx.delegations.getDelegation(wanted);
+  const runnable =
+    record?.status === "accepted" || (record?.status === "pending" && ctx.options.dryRun);
+  if (!record || !runnable || record.targetRepo.toLowerCase() !== repoFullName.toLowerCase()) {
+    throw new ConfigError(`No accepted delegation "${wanted}" targets ${repoFullName}.`);
+  }
+  return [delegationAsTask(record)];
+}
+
+/**
+ * Mark delegations whose task succeeded in this run as completed; failed
+ * ones stay accepted and are picked up again by the next run.
+ */
+export async function completeDelegations(
+  ctx: PipelineContext,
+  results: TaskRunResult[],
+): Promise<void> {
+  if (!ctx.delegations) return;
+
+  for (const result of results) {
+    const delegation = readTaskDelegation(result.task);
+    if (!delegation || !result.execution.success) continue;
+    try {
+      await ctx.delegations.completeDelegation(delegation.id, result.execution, result.pr?.url);
+    } catch (error) {
+      if (!ctx.suppressOutput) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(ctx.ui.yellow(`[oac] Could not complete delegation: ${message}`));
+      }
+    }
+  }
+}
+
+/** Delegation activity as recorded in the contribution log of `repoFullName`. */
+export function toDelegationLogEntries(
+  activity: DelegationActivity[],
+  repoFullName: string,
+): DelegationActivityRecord[] {
+  const repo = repoFullName.toLowerCase();
+  return activity.map((item) => ({
+    ...item,
+    direction: item.targetRepo.toLowerCase() === repo ? "incoming" : "outgoing",
+  }));
+}
@@ -16,14 +16,36 @@ import {
   persistContext,
   updateBacklog,
 } from "../../../discovery/index.js";
-import { epicAsTask } from "../../../execution/index.js";
+import { type AgentProvider, epicAsTask } from "../../../execution/index.js";
 import type { resolveRepo } from "../../../repo/index.js";
 import { createSpinner, formatInteger, truncate } from "../../helpers.js";
+import { withEpicDelegation } from "./delegation.js";
+import { withOrganization } from "./organization.js";
 import { createPullRequest, pushBranchOnly } from "./pr.js";
-import { createVerboseEventLogger, executeWithAgent, resolveAdapter } from "./task.js";
+import type { RepairAgent } from "./repair.js";
+import { runReviewStage } from "./review.js";
+import {
+  adapterFor,
+  countRetries,
+  emitPrCreated,
+  resolveAdapters,
+  resolveReviewer,
+  resolveRoleRouting,
+  runWithEngine,
+  withContextAck,
+  withRepoGuide,
+} from "./task.js";
 import { writeTracking } from "./tracking.js";
-import type { ContextAck, PipelineContext, RunMode, TaskRunResult } from "./types.js";
+import type {
+  PipelineContext,
+  PrSettings,
+  ReviewSettings,
+  RunMode,
+  TaskRunResult,
+  ValidationSettings,
+} from "./types.js";
 import { formatBudgetDisplay, formatDuration } from "./types.js";
+import { runValidationStage } from "./validation.js";
 
 export async function tryLoadOrAnalyzeEpics(
   ctx: PipelineContext,
@@ -61,7 +83,7 @@ export async function tryLoadOrAnalyzeEpics(
 
   const analyzeSpinner = createSpinner(ctx.suppressOutput, "Auto-analyzing codebase...");
 
-  const scanners = buildScannerList(config, Boolean(ghToken));
+  const scanners = buildScanners(config, Boolean(ghToken)).instances;
   const { codebaseMap, qualityReport } = await analyzeCodebase(resolvedRepo.localPath, {
     scanners,
     repoFullName: resolvedRepo.fullName,
@@ -93,11 +115,6 @@ export async function tryLoadOrAnalyzeEpics(
   return getPendingEpics(backlog);
 }
 
-/** @deprecated Use {@link buildScanners} from discovery/scanner-factory instead. */
-export function buildScannerList(config: OacConfig | null, hasGitHubAuth: boolean) {
-  return buildScanners(config, hasGitHubAuth).instances;
-}
-
 function makeStubEstimate(taskId: string, providerId: string, tokens: number): TokenEstimate {
   return {
     taskId,
@@ -111,40 +128,46 @@ function makeStubEstimate(taskId: string, providerId: string, tokens: number): T
   };
 }
 
-async function executeEpicEntry(
-  entry: { epic: Epic; estimatedTokens: number },
+async function completeEpicEntry(
+  result: TaskRunResult,
   params: {
-    adapter: import("../../../execution/index.js").AgentProvider;
     resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>;
-    providerId: string;
-    timeoutSeconds: number;
     mode: RunMode;
     ghToken?: string;
-    contextAck?: ContextAck;
-    repoGuide?: import("./repo-guide.js").RepoGuide;
-    ctx?: PipelineContext;
-    activeSpinner?: import("ora").Ora | null;
+    ctx: PipelineContext;
+    validation?: ValidationSettings;
+    repair?: RepairAgent;
+    review?: ReviewSettings;
+    reviewer?: AgentProvider;
+    timeoutSeconds: number;
+    pr?: PrSettings;
   },
 ): Promise<TaskRunResult> {
-  const { adapter, resolvedRepo, providerId, timeoutSeconds, mode, ghToken, contextAck, repoGuide, ctx, activeSpinner } = params;
-  const task = withRepoGuide(withContextAck(epicAsTask(entry.epic), contextAck), repoGuide);
-  const estimate = makeStubEstimate(task.id, providerId, entry.estimatedTokens);
-
-  const onEvent = ctx ? createVerboseEventLogger(ctx, entry.epic.title, activeSpinner) : undefined;
-  const result = await executeWithAgent({
-    task,
-    estimate,
-    adapter,
+  const { resolvedRepo, mode, ghToken, ctx } = params;
+  const validationParams = {
+    settings: params.validation,
     repoPath: resolvedRepo.localPath,
     baseBranch: resolvedRepo.meta.defaultBranch,
-    timeoutSeconds,
-    onEvent,
-  });
-  const { execution, sandbox } = result;
+    repair: params.repair,
+  };
+  let validated =
+    mode === "direct-commit" ? result : await runValidationStage(ctx, result, validationParams);
+  if (mode !== "direct-commit" && params.review && params.reviewer) {
+    validated = await runReviewStage(ctx, validated, {
+      settings: params.review,
+      reviewer: params.reviewer,
+      repoGuide: ctx.repoGuide,
+      baseBranch: resolvedRepo.meta.defaultBranch,
+      timeoutSeconds: params.timeoutSeconds,
+      repair: params.repair,
+      revalidate: (repaired) => runValidationStage(ctx, repaired, validationParams),
+    });
+  }
+  const { task, execution, sandbox } = validated;
 
   let pr: TaskRunResult["pr"];
   if (mode === "branch-only" && execution.success && sandbox) {
-    await pushBranchOnly({ sandbox, ghToken });
+    await pushBranchOnly({ sandbox, ghToken, fork: resolvedRepo.fork });
   } else if ((mode === "new-pr" || mode === "update-pr") && execution.success && sandbox) {
     pr =
       (await createPullRequest({
@@ -154,10 +177,17 @@ async function executeEpicEntry(
         repoFullName: resolvedRepo.fullName,
         baseBranch: resolvedRepo.meta.defaultBranch,
         ghToken,
+        fork: resolvedRepo.fork,
+        draft: validated.validation?.action === "draft" || validated.review?.action === "draft",
+        validation: validated.validation,
+        review: validated.review,
+        settings: params.pr,
       })) ?? undefined;
   }
 
-  return { task, estimate, execution, sandbox, pr };
+  const taskResult: TaskRunResult = { ...validated, pr };
+  emitPrCreated(ctx, taskResult);
+  return taskResult;
 }
 
 export async function runEpicPipeline(
@@ -167,9 +197,12 @@ export async function runEpicPipeline(
     resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>;
     config: OacConfig | null;
     providerId: string;
+    /** Ordered fallback chain; defaults to `[providerId]`. */
+    providerIds?: string[];
     totalBudget: number;
     concurrency: number;
     timeoutSeconds: number;
+    maxAttempts: number;
     mode: RunMode;
     ghToken?: string;
     contextDir: string;
@@ -182,6 +215,7 @@ export async function runEpicPipeline(
     totalBudget,
     concurrency,
     timeoutSeconds,
+    maxAttempts,
     mode,
     ghToken,
     contextDir,
@@ -220,48 +254,75 @@ export async function runEpicPipeline(
     return [];
   }
 
-  // Execute selected epics concurrently
-  const { adapter } = await resolveAdapter(providerId);
+  // Execute selected epics through the engine (retries, backoff, SIGINT abort)
+  const adapters = await resolveAdapters(ctx, params.providerIds ?? [providerId]);
+  const { roleRouter, agents } = await resolveRoleRouting(ctx, adapters);
+  const reviewer = await resolveReviewer(ctx, params.config?.execution.review);
 
-  let epicCompletedCount = 0;
   const epicTotal = epicPlan.selectedEpics.length;
   const executionSpinner = createSpinner(ctx.suppressOutput, `Executing ${epicTotal} epic(s)...`);
 
-  const epicQueue = new PQueue({ concurrency });
-  const allTaskResults = await Promise.all(
-    epicPlan.selectedEpics.map(
-      (entry) =>
-        epicQueue.add(async (): Promise<TaskRunResult> => {
-          if (!ctx.suppressOutput) {
-            console.log(
-              ctx.ui.blue(
-                `\n[oac] Executing epic: ${entry.epic.title} (${entry.epic.subtasks.length} subtasks)`,
-              ),
-            );
-          }
+  for (const entry of epicPlan.selectedEpics) {
+    ctx.eventBus.emit("task:selected", {
+      task: epicAsTask(entry.epic, ctx.promptTemplates),
+      reason: "planned",
+      repo: resolvedRepo.fullName,
+    });
+  }
 
-          const result = await executeEpicEntry(entry, {
-            adapter,
+  const executedEpics = await runWithEngine(ctx, {
+    entries: epicPlan.selectedEpics.map((entry) => {
+      const task = withOrganization(
+        withRepoGuide(
+          withContextAck(
+            withEpicDelegation(epicAsTask(entry.epic, ctx.promptTemplates), entry.epic),
+            ctx.contextAck,
+          ),
+          ctx.repoGuide,
+        ),
+        ctx.organization,
+        resolvedRepo.fullName,
+      );
+      return { task, estimate: makeStubEstimate(task.id, providerId, entry.estimatedTokens) };
+    }),
+    adapters,
+    roleRouter,
+    resolvedRepo,
+    concurrency,
+    timeoutSeconds,
+    maxAttempts,
+    budget: params.config?.budget,
+    activeSpinner: executionSpinner,
+    onProgress: (settled, total) => {
+      if (executionSpinner) {
+        const pct = Math.round((settled / total) * 100);
+        executionSpinner.text = `Executing epics... (${settled}/${total} — ${pct}%)`;
+      }
+    },
+  });
+  executionSpinner?.succeed("Epic execution finished");
+
+  const completionQueue = new PQueue({ concurrency });
+  const allTaskResults = await Promise.all(
+    executedEpics.map(
+      (executed) =>
+        completionQueue.add(async (): Promise<TaskRunResult> => {
+          const result = await completeEpicEntry(executed, {
             resolvedRepo,
-            providerId,
-            timeoutSeconds,
             mode,
             ghToken,
-            contextAck: ctx.contextAck,
-            repoGuide: ctx.repoGuide,
             ctx,
-            activeSpinner: executionSpinner,
+            validation: params.config?.execution.validation,
+            repair: { adapter: adapterFor(agents, executed.provider), timeoutSeconds },
+            review: params.config?.execution.review,
+            reviewer: reviewer ?? adapterFor(agents, executed.provider),
+            timeoutSeconds,
+            pr: params.config?.execution.pr,
           });
 
-          epicCompletedCount += 1;
-          if (executionSpinner) {
-            const pct = Math.round((epicCompletedCount / epicTotal) * 100);
-            executionSpinner.text = `Executing epics... (${epicCompletedCount}/${epicTotal} — ${pct}%)`;
-          }
-
           if (!ctx.suppressOutput) {
             const icon = result.execution.success ? ctx.ui.green("[OK]") : ctx.ui.red("[X]");
-            console.log(`${icon} ${entry.epic.title}`);
+            console.log(`${icon} ${result.task.title}`);
             if (result.pr) console.log(`    PR #${result.pr.number}: ${result.pr.url}`);
           }
 
@@ -269,7 +330,6 @@ export async function runEpicPipeline(
         }) as Promise<TaskRunResult>,
     ),
   );
-  executionSpinner?.succeed("Epic execution finished");
 
   // Update backlog with completed epics
   const completedIds = allTaskResults.filter((r) => r.execution.success).map((r) => r.task.id);
@@ -321,7 +381,9 @@ function printEpicSummary(
   totalBudget: number,
 ): void {
   const completed = results.filter((t) => t.execution.success).length;
-  const failed = results.length - completed;
+  const aborted = results.filter((t) => t.status === "aborted").length;
+  const failed = results.length - completed - aborted;
+  const retries = countRetries(results);
   const prsCreated = results.filter((t) => Boolean(t.pr)).length;
   const tokensUsed = results.reduce((sum, t) => sum + t.execution.totalTokensUsed, 0);
   const duration = (Date.now() - ctx.runStartedAt) / 1000;
@@ -339,6 +401,8 @@ function printEpicSummary(
             deferredEpics: epicPlan.deferredEpics.length,
             epicsCompleted: completed,
             epicsFailed: failed,
+            epicsAborted: aborted,
+            retries,
             prsCreated,
             tokensUsed,
             tokensBudgeted: totalBudget,
@@ -356,6 +420,12 @@ function printEpicSummary(
   console.log(ctx.ui.bold("Run Summary (Epic Mode)"));
   console.log(`  Epics completed: ${completed}/${results.length}`);
   console.log(`  Epics failed:    ${failed}`);
+  if (aborted > 0) {
+    console.log(`  Epics aborted:   ${aborted}`);
+  }
+  if (retries > 0) {
+    console.log(`  Retries:         ${retries}`);
+  }
   console.log(`  PRs created:     ${prsCreated}`);
   console.log(
     `  Tokens used:     ${formatInteger(tokensUsed)} / ${formatBudgetDisplay(totalBudget)}`,
@@ -411,34 +481,3 @@ function renderEpicPlanTable(
     }
   }
 }
-
-function withContextAck(
-  task: import("../../../core/index.js").Task,
-  contextAck: ContextAck | undefined,
-): import("../../../core/index.js").Task {
-  if (!contextAck) return task;
-  return {
-    ...task,
-    metadata: {
-      ...task.metadata,
-      contextAck,
-    },
-  };
-}
-
-function withRepoGuide(
-  task: import("../../../core/index.js").Task,
-  repoGuide: import("./repo-guide.js").RepoGuide | undefined,
-): import("../../../core/index.js").Task {
-  if (!repoGuide) return task;
-  return {
-    ...task,
-    metadata: {
-      ...task.metadata,
-      repoGuide: {
-        content: repoGuide.content,
-        digest: repoGuide.digest,
-      },
-    },
-  };
-}
@@ -4,7 +4,7 @@ import { createUi, getGlobalOptions, parseInteger } from "../../helpers.js";
 import { runPipeline, validateRunOptions } from "./pipeline.js";
 import type { RunCommandOptions } from "./types.js";
 
-function parseTokens(value: string): number {
+export function parseTokens(value: string): number {
   if (value.toLowerCase() === "unlimited") {
     return UNLIMITED_BUDGET;
   }
@@ -19,14 +19,18 @@ export function createRunCommand(): Command {
     .description("Run the full OAC pipeline — analyze, plan, and execute in one command")
     .option("--repo <owner/repo>", "Target repository (owner/repo or GitHub URL)")
     .option("--tokens <value>", 'Token budget (number or "unlimited")', parseTokens)
-    .option("--provider <id>", "Agent provider id")
+    .option("--provider <ids>", "Agent provider id, or a comma-separated fallback chain")
     .option("--concurrency <number>", "Maximum parallel task executions", parseInteger)
     .option("--dry-run", "Show plan without executing tasks", false)
     .option("--mode <mode>", "Execution mode: new-pr|update-pr|direct-commit|branch-only")
     .option("--max-tasks <number>", "Maximum number of discovered tasks to consider", parseInteger)
     .option("--timeout <seconds>", "Per-task timeout in seconds", parseInteger)
-    .option("--source <source>", "Filter tasks by source: lint, github-issue, test-gap")
+    .option(
+      "--source <source>",
+      "Filter tasks by source: lint, todo, github-issue, test-gap, dead-code, security",
+    )
     .option("--retry-failed", "Re-run only failed tasks from the most recent run", false)
+    .option("--all", "Run every repository in `repos` with one shared token budget", false)
     .action(async (options: RunCommandOptions, cmd) => {
       const globalOptions = getGlobalOptions(cmd);
       const ui = createUi(globalOptions);
@@ -42,12 +46,16 @@ into epics, and executes them — no separate scan/analyze step required.
 If no oac.config.ts exists, pass --repo to get started immediately:
   $ oac run --repo owner/repo
 
+With several repos configured, \`oac run\` (or \`oac run --all\`) scans them all
+and plans one budget across the merged task pool.
+
 Examples:
   $ oac run --repo owner/repo --tokens 50000
   $ oac run --repo owner/repo --provider codex --concurrency 4
   $ oac run --repo owner/repo --dry-run
   $ oac run --repo owner/repo --source lint --max-tasks 10
   $ oac run --repo owner/repo --retry-failed
+  $ oac run --all --tokens 200000
 
 Exit Codes:
   0   All tasks/epics completed successfully (or dry-run)
@@ -0,0 +1,462 @@
+import type { ChalkInstance } from "chalk";
+import Table from "cli-table3";
+import PQueue from "p-queue";
+import { type ExecutionPlan, buildExecutionPlan } from "../../../budget/index.js";
+import type { OacConfig, Task, TokenEstimate } from "../../../core/index.js";
+import type { resolveRepo } from "../../../repo/index.js";
+import { formatInteger, truncate } from "../../helpers.js";
+import { chargeCompetitions, competitionForMode } from "./competition.js";
+import { loadDelegatedTasks } from "./delegation.js";
+import { prepareRepo } from "./prepare.js";
+import {
+  collectCandidateTasks,
+  estimateCandidates,
+  executePlan,
+  printEmptySummary,
+  renderTaskResults,
+} from "./task.js";
+import { writeTracking } from "./tracking.js";
+import type {
+  MultiRepoRunSummaryOutput,
+  PipelineContext,
+  RunCommandOptions,
+  RunMode,
+  RunSummaryOutput,
+  TaskRunResult,
+} from "./types.js";
+import { ConfigError, formatBudgetDisplay, formatDuration, resolveExitCode } from "./types.js";
+
+type ResolvedRepo = Awaited<ReturnType<typeof resolveRepo>>;
+
+/** Joins repo and task id into an id that is unique across the merged candidate pool. */
+const POOL_ID_SEPARATOR = "::";
+
+/** One repo of a multi-repo run, with its own copy of the pipeline context. */
+interface RepoRun {
+  ctx: PipelineContext;
+  resolvedRepo: ResolvedRepo;
+  candidateTasks: Task[];
+}
+
+interface RepoRunResult extends RepoRun {
+  plan: ExecutionPlan;
+  completedTasks: TaskRunResult[];
+  logPath?: string;
+}
+
+/** A configured repo and the base branch its tasks branch from and target. */
+export interface RunRepo {
+  name: string;
+  /** The repo's default branch when omitted. */
+  branch?: string;
+}
+
+interface MultiRepoParams {
+  repos: RunRepo[];
+  config: OacConfig | null;
+  providerId: string;
+  providerIds: string[];
+  totalBudget: number;
+  concurrency: number;
+  timeoutSeconds: number;
+  maxAttempts: number;
+  mode: RunMode;
+  ghToken: string | undefined;
+}
+
+/** The `repos` config entries, with plain names expanded to entries without a branch. */
+export function configuredRepos(config: OacConfig | null): RunRepo[] {
+  return (config?.repos ?? []).map((repo) => (typeof repo === "string" ? { name: repo } : repo));
+}
+
+/**
+ * The repos a run covers when it runs them all: every configured repo with
+ * `--all`, or without `--repo` when more than one is configured. `undefined`
+ * means a single-repo run.
+ */
+export function resolveRunRepos(
+  options: RunCommandOptions,
+  config: OacConfig | null,
+): RunRepo[] | undefined {
+  const repos = configuredRepos(config);
+
+  if (options.all) {
+    if (repos.length === 0) {
+      throw new ConfigError("--all needs at least one repository in the `repos` config.");
+    }
+    return repos;
+  }
+  if (options.repo || options.retryFailed || options.delegation) {
+    return undefined;
+  }
+  return repos.length > 1 ? repos : undefined;
+}
+
+/**
+ * Scan every repo, plan the merged candidate pool against the one budget, then
+ * execute each repo's share of the plan. Repos that fail to resolve or clone
+ * are skipped with a warning.
+ */
+export async function runMultiRepoPipeline(
+  ctx: PipelineContext,
+  params: MultiRepoParams,
+): Promise<void> {
+  const { config, providerId, totalBudget } = params;
+  const runs = await prepareRepos(ctx, params);
+  const repoNames = runs.map((run) => run.resolvedRepo.fullName);
+
+  const pool = runs.flatMap((run) =>
+    run.candidateTasks.map((task) => toPoolTask(run.resolvedRepo.fullName, task)),
+  );
+  if (pool.length === 0) {
+    printEmptySummary(ctx, repoNames.join(", "), providerId, totalBudget);
+    return;
+  }
+
+  const estimates = chargeCompetitions(
+    pool,
+    await estimateCandidates(ctx, pool, ctx.options, config),
+    competitionForMode(params.mode, config?.execution.competition),
+  );
+  const repoPlans = splitPlanByRepo(buildExecutionPlan(pool, estimates, totalBudget), repoNames);
+
+  if (ctx.options.dryRun) {
+    const planned = runs.map((run) => ({
+      ...run,
+      plan: repoPlans.get(run.resolvedRepo.fullName) ?? emptyPlan(),
+      completedTasks: [],
+    }));
+    printMultiRepoSummary(ctx, { results: planned, providerId, totalBudget });
+    return;
+  }
+
+  const results = await executeRepoPlans(ctx, runs, repoPlans, params);
+  printMultiRepoSummary(ctx, { results, providerId, totalBudget });
+  process.exitCode = resolveExitCode(results.flatMap((result) => result.completedTasks));
+}
+
+/**
+ * Split a plan over the merged pool into one plan per repo, with the original
+ * task ids restored. A repo's budget is the sum of its selected estimates.
+ */
+export function splitPlanByRepo(
+  plan: ExecutionPlan,
+  repoNames: string[],
+): Map<string, ExecutionPlan> {
+  const plans = new Map(repoNames.map((name) => [name, emptyPlan()]));
+
+  for (const entry of plan.selectedTasks) {
+    const { repo, task, estimate } = fromPoolTask(entry.task, entry.estimate);
+    const repoPlan = plans.get(repo);
+    if (!repoPlan) continue;
+    repoPlan.totalBudget += estimate.totalEstimatedTokens;
+    repoPlan.selectedTasks.push({ task, estimate, cumulativeBudgetUsed: repoPlan.totalBudget });
+  }
+  for (const entry of plan.deferredTasks) {
+    const { repo, task, estimate } = fromPoolTask(entry.task, entry.estimate);
+    plans.get(repo)?.deferredTasks.push({ task, estimate, reason: entry.reason });
+  }
+
+  return plans;
+}
+
+/** The task as it enters the merged pool, its id prefixed with the repo. */
+export function toPoolTask(repoFullName: string, task: Task): Task {
+  return { ...task, id: `${repoFullName}${POOL_ID_SEPARATOR}${task.id}` };
+}
+
+function fromPoolTask(task: Task, estimate: TokenEstimate) {
+  const separator = task.id.indexOf(POOL_ID_SEPARATOR);
+  const id = task.id.slice(separator + POOL_ID_SEPARATOR.length);
+  return {
+    repo: task.id.slice(0, separator),
+    task: { ...task, id },
+    estimate: { ...estimate, taskId: id },
+  };
+}
+
+function emptyPlan(): ExecutionPlan {
+  return {
+    totalBudget: 0,
+    selectedTasks: [],
+    deferredTasks: [],
+    reserveTokens: 0,
+    remainingTokens: 0,
+  };
+}
+
+async function prepareRepos(ctx: PipelineContext, params: MultiRepoParams): Promise<RepoRun[]> {
+  const { config, mode, ghToken } = params;
+  const runs: RepoRun[] = [];
+
+  for (const repo of params.repos) {
+    // Context ack, repo guide and prompt templates differ per repo.
+    const repoCtx: PipelineContext = { ...ctx };
+    try {
+      const resolvedRepo = await prepareRepo(repoCtx, {
+        repoInput: repo.name,
+        branch: repo.branch,
+        config,
+        mode,
+        ghToken,
+      });
+      const delegatedTasks = await loadDelegatedTasks(repoCtx, resolvedRepo.fullName);
+      const candidateTasks = await collectCandidateTasks(
+        repoCtx,
+        ctx.options,
+        config,
+        ghToken,
+        resolvedRepo,
+        delegatedTasks,
+      );
+      runs.push({ ctx: repoCtx, resolvedRepo, candidateTasks });
+    } catch (error) {
+      if (!ctx.suppressOutput) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(ctx.ui.yellow(`[oac] Skipping ${repo.name}: ${message}`));
+      }
+    }
+  }
+
+  if (runs.length === 0) {
+    throw new ConfigError("None of the configured repositories could be prepared.");
+  }
+  return runs;
+}
+
+/**
+ * Run each repo's plan with `execution.repoConcurrency` parallel tasks, as
+ * many repos at a time as fit in `concurrency`.
+ */
+async function executeRepoPlans(
+  ctx: PipelineContext,
+  runs: RepoRun[],
+  repoPlans: Map<string, ExecutionPlan>,
+  params: MultiRepoParams,
+): Promise<RepoRunResult[]> {
+  const { config, providerId, concurrency } = params;
+  const perRepo = Math.min(config?.execution.repoConcurrency ?? concurrency, concurrency);
+  const reposInFlight = Math.max(1, Math.floor(concurrency / perRepo));
+  const queue = new PQueue({ concurrency: reposInFlight });
+
+  return Promise.all(
+    runs.map(
+      (run) =>
+        queue.add(async (): Promise<RepoRunResult> => {
+          const { fullName } = run.resolvedRepo;
+          const plan = repoPlans.get(fullName) ?? emptyPlan();
+          if (plan.selectedTasks.length === 0) {
+            return { ...run, plan, completedTasks: [] };
+          }
+
+          // Spinners of repos running side by side would overwrite each other.
+          const repoCtx = reposInFlight > 1 ? { ...run.ctx, suppressOutput: true } : run.ctx;
+          if (!ctx.suppressOutput) {
+            console.log(
+              ctx.ui.blue(`[oac] ${fullName}: executing ${plan.selectedTasks.length} task(s)`),
+            );
+          }
+
+          const completedTasks = await executePlan(repoCtx, {
+            plan,
+            providerId,
+            providerIds: params.providerIds,
+            resolvedRepo: run.resolvedRepo,
+            concurrency: perRepo,
+            timeoutSeconds: params.timeoutSeconds,
+            maxAttempts: params.maxAttempts,
+            mode: params.mode,
+            ghToken: params.ghToken,
+            validation: config?.execution.validation,
+            review: config?.execution.review,
+            competition: config?.execution.competition,
+            budget: config?.budget,
+            pr: config?.execution.pr,
+          });
+          const logPath = await writeTracking(repoCtx, {
+            resolvedRepo: run.resolvedRepo,
+            providerId,
+            totalBudget: plan.totalBudget,
+            candidateTasks: run.candidateTasks,
+            completedTasks,
+          });
+
+          if (!ctx.suppressOutput) {
+            const succeeded = completedTasks.filter((result) => result.execution.success).length;
+            console.log(
+              ctx.ui.blue(
+                `[oac] ${fullName}: ${succeeded}/${completedTasks.length} task(s) succeeded`,
+              ),
+            );
+          }
+          return { ...run, plan, completedTasks, logPath };
+        }) as Promise<RepoRunResult>,
+    ),
+  );
+}
+
+export function summarizeRepoRuns(
+  ctx: PipelineContext,
+  params: {
+    results: Array<Pick<RepoRunResult, "resolvedRepo" | "plan" | "completedTasks" | "logPath">>;
+    providerId: string;
+    totalBudget: number;
+  },
+): MultiRepoRunSummaryOutput {
+  const dryRun = Boolean(ctx.options.dryRun);
+  const repos = params.results.map(({ resolvedRepo, plan, completedTasks, logPath }) => {
+    const tasksCompleted = completedTasks.filter((t) => t.execution.success).length;
+    const tasksAborted = completedTasks.filter((t) => t.status === "aborted").length;
+    const summary: RunSummaryOutput = {
+      runId: ctx.runId,
+      repo: resolvedRepo.fullName,
+      provider: params.providerId,
+      dryRun,
+      selectedTasks: plan.selectedTasks.length,
+      deferredTasks: plan.deferredTasks.length,
+      tasksCompleted,
+      tasksFailed: completedTasks.length - tasksCompleted - tasksAborted,
+      tasksAborted,
+      prsCreated: completedTasks.filter((t) => Boolean(t.pr)).length,
+      tokensUsed: completedTasks.reduce((sum, t) => sum + t.execution.totalTokensUsed, 0),
+      tokensBudgeted: plan.totalBudget,
+      logPath,
+    };
+    return summary;
+  });
+  const total = (key: "selectedTasks" | "deferredTasks" | "tasksCompleted" | "tasksFailed") =>
+    repos.reduce((sum, repo) => sum + repo[key], 0);
+
+  return {
+    runId: ctx.runId,
+    provider: params.providerId,
+    dryRun,
+    repos,
+    selectedTasks: total("selectedTasks"),
+    deferredTasks: total("deferredTasks"),
+    tasksCompleted: total("tasksCompleted"),
+    tasksFailed: total("tasksFailed"),
+    prsCreated: repos.reduce((sum, repo) => sum + repo.prsCreated, 0),
+    tokensUsed: repos.reduce((sum, repo) => sum + repo.tokensUsed, 0),
+    tokensBudgeted: params.totalBudget,
+  };
+}
+
+function printMultiRepoSummary(
+  ctx: PipelineContext,
+  params: {
+    results: RepoRunResult[];
+    providerId: string;
+    totalBudget: number;
+  },
+): void {
+  const { results } = params;
+  const summary = summarizeRepoRuns(ctx, params);
+
+  if (ctx.outputJson) {
+    const repos = results.map((result) => ({
+      repo: result.resolvedRepo.fullName,
+      plan: result.plan,
+      tasks: result.completedTasks,
+    }));
+    console.log(JSON.stringify({ summary, repos }, null, 2));
+    return;
+  }
+
+  if (!ctx.globalOptions.quiet) {
+    for (const result of results) {
+      console.log("");
+      console.log(ctx.ui.bold(result.resolvedRepo.fullName));
+      if (summary.dryRun) {
+        renderRepoPlan(ctx.ui, result.plan);
+      } else {
+        renderTaskResults(ctx.ui, result.completedTasks);
+      }
+    }
+  }
+
+  console.log("");
+  console.log(ctx.ui.bold(summary.dryRun ? "Plan by Repository" : "Run Summary by Repository"));
+  console.log(renderRepoSummaryTable(summary));
+  console.log(
+    `  Tokens ${summary.dryRun ? "planned" : "used"}: ${formatInteger(
+      summary.dryRun ? sumBudgets(summary) : summary.tokensUsed,
+    )} / ${formatBudgetDisplay(summary.tokensBudgeted)}`,
+  );
+  if (summary.dryRun) {
+    console.log(ctx.ui.blue("Dry run complete. No tasks were executed."));
+    return;
+  }
+  console.log(`  Duration:    ${formatDuration((Date.now() - ctx.runStartedAt) / 1000)}`);
+  printFailedTasks(ctx.ui, results);
+}
+
+function sumBudgets(summary: MultiRepoRunSummaryOutput): number {
+  return summary.repos.reduce((sum, repo) => sum + repo.tokensBudgeted, 0);
+}
+
+function renderRepoSummaryTable(summary: MultiRepoRunSummaryOutput): string {
+  const table = new Table({
+    head: summary.dryRun
+      ? ["Repository", "Selected", "Deferred", "Budget share"]
+      : ["Repository", "Selected", "Completed", "Failed", "PRs", "Tokens used", "Budget share"],
+  });
+
+  for (const repo of summary.repos) {
+    table.push(
+      summary.dryRun
+        ? [
+            repo.repo,
+            String(repo.selectedTasks),
+            String(repo.deferredTasks),
+            formatInteger(repo.tokensBudgeted),
+          ]
+        : [
+            repo.repo,
+            String(repo.selectedTasks),
+            String(repo.tasksCompleted),
+            String(repo.tasksFailed),
+            String(repo.prsCreated),
+            formatInteger(repo.tokensUsed),
+            formatInteger(repo.tokensBudgeted),
+          ],
+    );
+  }
+  return table.toString();
+}
+
+function renderRepoPlan(ui: ChalkInstance, plan: ExecutionPlan): void {
+  if (plan.selectedTasks.length === 0) {
+    console.log(ui.yellow("  No tasks selected for execution."));
+  }
+  for (const [index, entry] of plan.selectedTasks.entries()) {
+    console.log(
+      `  ${index + 1}. ${truncate(entry.task.title, 64)} (${formatInteger(
+        entry.estimate.totalEstimatedTokens,
+      )} tokens, priority ${entry.task.priority})`,
+    );
+  }
+  for (const deferred of plan.deferredTasks) {
+    console.log(
+      ui.dim(
+        `  - ${truncate(deferred.task.title, 64)} (deferred: ${deferred.reason.replaceAll("_", " ")})`,
+      ),
+    );
+  }
+}
+
+function printFailedTasks(ui: ChalkInstance, results: RepoRunResult[]): void {
+  const failed = results.flatMap((result) =>
+    result.completedTasks
+      .filter((task) => !task.execution.success)
+      .map((task) => ({ repo: result.resolvedRepo.fullName, task })),
+  );
+  if (failed.length === 0) return;
+
+  console.log("");
+  console.log(ui.red(`Failed Tasks (${failed.length}):`));
+  for (const { repo, task } of failed) {
+    const reason = task.execution.error ? `: ${truncate(task.execution.error, 120)}` : "";
+    console.log(`  ${ui.red("✗")} [${repo}] ${truncate(task.task.title, 60)}${reason}`);
+  }
+}
@@ -0,0 +1,92 @@
+import type { Task } from "../../../core/index.js";
+import { type AgentProvider, adapterRegistry } from "../../../execution/index.js";
+import {
+  type AgentRole,
+  GoalContextInjector,
+  type OrganizationConfig,
+  type OrganizationGoal,
+  RoleRouter,
+} from "../../../organization/index.js";
+import type { GoalAlignment } from "../../../tracking/index.js";
+
+/** What `organization` config says about one task; kept in `task.metadata.organization`. */
+export interface TaskOrganization {
+  role?: { id: string; name: string; agent: string; systemPrompt?: string };
+  /** Mission / project / goal lines rendered into the agent prompt. */
+  goalContext?: string;
+  goalAlignment?: GoalAlignment;
+}
+
+/**
+ * Attach the task's role and goal alignment, resolved against the repo it
+ * runs in. Tasks no role or goal applies to are returned unchanged.
+ */
+export function withOrganization(
+  task: Task,
+  organization: OrganizationConfig | undefined,
+  repoFullName: string,
+): Task {
+  if (!organization) return task;
+
+  const role = new RoleRouter(organization.roles, []).getRoleForTask(task, repoFullName);
+  const injector = new GoalContextInjector(organization);
+  const { mission, project, goal } = injector.resolveAlignment(repoFullName, task);
+  const goalAlignment: GoalAlignment = {
+    missionStatement: mission?.statement,
+    projectId: project?.id,
+    goalId: goal?.id,
+    goalTitle: goal?.title,
+  };
+  const aligned = Object.values(goalAlignment).some((value) => value !== undefined);
+
+  if (!role && !aligned) return task;
+
+  const details: TaskOrganization = {
+    role: role
+      ? { id: role.id, name: role.name, agent: role.agent, systemPrompt: role.systemPrompt }
+      : undefined,
+    goalContext: injector.resolveContext(repoFullName, task),
+    goalAlignment: aligned ? goalAlignment : undefined,
+  };
+  return { ...task, metadata: { ...task.metadata, organization: details } };
+}
+
+/** Goals of the repo's `organization` project, for `rankTasks`. */
+export function repoGoals(
+  organization: OrganizationConfig | undefined,
+  repoFullName: string,
+): OrganizationGoal[] {
+  return organization ? new GoalContextInjector(organization).findGoalsForRepo(repoFullName) : [];
+}
+
+export function readTaskOrganization(task: Task): TaskOrganization | undefined {
+  const value = task.metadata.organization;
+  return typeof value === "object" && value !== null ? (value as TaskOrganization) : undefined;
+}
+
+/** Provider ids the roles ask for that the run's provider chain does not include. */
+export function missingRoleAgents(
+  organization: OrganizationConfig | undefined,
+  adapters: AgentProvider[],
+): string[] {
+  const known = new Set(adapters.map((adapter) => adapter.id));
+  const wanted = canonicalRoles(organization).map((role) => role.agent);
+  return [...new Set(wanted)].filter((agent) => !known.has(agent));
+}
+
+/** Routes role-owned tasks to the role's agent; `undefined` when no roles are configured. */
+export function createRoleRouter(
+  organization: OrganizationConfig | undefined,
+  agents: AgentProvider[],
+): RoleRouter | undefined {
+  const roles = canonicalRoles(organization);
+  return roles.length > 0 ? new RoleRouter(roles, agents) : undefined;
+}
+
+/** Roles with provider aliases (e.g. `codex-cli`) resolved to adapter ids. */
+function canonicalRoles(organization: OrganizationConfig | undefined): AgentRole[] {
+  return (organization?.roles ?? []).map((role) => ({
+    ...role,
+    agent: adapterRegistry.resolveId(role.agent),
+  }));
+}
@@ -1,21 +1,25 @@
 import { randomUUID } from "node:crypto";
 
 import { select } from "@inquirer/prompts";
-import type { OacConfig } from "../../../core/index.js";
-import { cloneRepo, resolveRepo } from "../../../repo/index.js";
+import { type OacConfig, createEventBus } from "../../../core/index.js";
+import { registerCustomAgents } from "../../../execution/index.js";
+import { DelegationManager } from "../../../organization/index.js";
+import type { resolveRepo } from "../../../repo/index.js";
+import { createRunStatusWriter } from "../../../tracking/index.js";
 import { checkGitHubScopes, ensureGitHubAuth } from "../../github-auth.js";
 import {
   type GlobalCliOptions,
-  createSpinner,
   loadOptionalConfig,
   resolveBudget,
-  resolveProviderId,
+  resolveProviderChain,
   resolveRepoInput,
 } from "../../helpers.js";
 import { loadCliPreferences } from "../../preferences.js";
-import { resolveContextAck } from "./context-policy.js";
-import { discoverRepoGuide } from "./repo-guide.js";
+import { competitionForMode } from "./competition.js";
+import { delegationAsEpic, loadDelegatedTasks } from "./delegation.js";
 import { runEpicPipeline, tryLoadOrAnalyzeEpics } from "./epic.js";
+import { configuredRepos, resolveRunRepos, runMultiRepoPipeline } from "./multi-repo.js";
+import { prepareRepo } from "./prepare.js";
 import { runRetryPipeline } from "./retry.js";
 import {
   discoverTasks,
@@ -29,6 +33,7 @@ import type { PipelineContext, RunCommandOptions, RunMode } from "./types.js";
 import {
   ConfigError,
   DEFAULT_CONCURRENCY,
+  DEFAULT_MAX_RETRIES,
   DEFAULT_TIMEOUT_SECONDS,
   formatBudgetDisplay,
   resolveExitCode,
@@ -47,75 +52,155 @@ export async function runPipeline(
     suppressOutput: globalOptions.json || globalOptions.quiet,
     runId: randomUUID(),
     runStartedAt: Date.now(),
+    eventBus: createEventBus(),
+    // Created up front so the per-repo copies of a multi-repo run share one cache.
+    agentAvailability: new Map(),
   };
 
   const config = await loadOptionalConfig(globalOptions.config, globalOptions.verbose, ui);
   const preferences = await loadCliPreferences(process.cwd());
-  const providerId = resolveProviderId(options.provider, config);
+  registerCustomAgents(config?.provider.customAgents ?? {});
+  const providerIds = resolveProviderChain(options.provider, config);
+  const providerId = providerIds[0];
   const totalBudget = resolveBudget(options.tokens, config);
   const mode = await resolveMode(options.mode, config, preferences.effective, ctx.suppressOutput);
   const concurrency = resolveConcurrency(options.concurrency, config);
   const timeoutSeconds = resolveTimeout(options.timeout, config);
+  const maxAttempts = (config?.execution.maxRetries ?? DEFAULT_MAX_RETRIES) + 1;
   const ghToken = ensureGitHubAuth();
 
   printGitHubAuthWarnings(ctx, ghToken);
   printRunHeader(ctx, totalBudget, concurrency);
 
-  const repoInput = resolveRepoInput(options.repo, config);
-
-  const resolveSpinner = createSpinner(ctx.suppressOutput, "Resolving repository...");
-  const resolvedRepo = await resolveRepo(repoInput);
-  resolveSpinner?.succeed(`Resolved ${resolvedRepo.fullName}`);
-
-  const cloneSpinner = createSpinner(ctx.suppressOutput, "Preparing local clone...");
-  await cloneRepo(resolvedRepo);
-  cloneSpinner?.succeed(`Repository ready at ${resolvedRepo.localPath}`);
-
-  ctx.contextAck = await resolveContextAck(resolvedRepo.localPath, config, ui, ctx.suppressOutput);
-
-  ctx.repoGuide = await discoverRepoGuide(resolvedRepo.localPath);
-  if (ctx.repoGuide && !ctx.suppressOutput) {
-    console.log(ui.blue(`[oac] Repo guide loaded: ${ctx.repoGuide.path}`));
+  ctx.organization = config?.organization;
+  ctx.delegations = new DelegationManager(ctx.eventBus, config?.organization);
+
+  const repos = resolveRunRepos(options, config);
+  const resolvedRepo = repos
+    ? undefined
+    : await prepareRepo(ctx, {
+        repoInput: resolveRepoInput(options.repo, config),
+        // Without --repo the first configured repo runs, on its configured branch.
+        branch: options.repo?.trim() ? undefined : configuredRepos(config)[0]?.branch,
+        config,
+        mode,
+        ghToken,
+      });
+
+  const statusWriter = options.dryRun
+    ? undefined
+    : createRunStatusWriter({
+        repoPath: process.cwd(),
+        runId: ctx.runId,
+        agent: providerId,
+        eventBus: ctx.eventBus,
+        qualifyTaskIds: Boolean(repos),
+      });
+  await statusWriter?.start();
+
+  try {
+    const params = {
+      config,
+      providerId,
+      providerIds,
+      totalBudget,
+      concurrency,
+      timeoutSeconds,
+      maxAttempts,
+      mode,
+      ghToken,
+    };
+    if (resolvedRepo) {
+      await executeRun(ctx, { ...params, resolvedRepo });
+    } else {
+      await runMultiRepoPipeline(ctx, { ...params, repos: repos ?? [] });
+    }
+  } finally {
+    await statusWriter?.finish();
   }
+}
+
+async function executeRun(
+  ctx: PipelineContext,
+  params: {
+    config: OacConfig | null;
+    resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>;
+    providerId: string;
+    providerIds: string[];
+    totalBudget: number;
+    concurrency: number;
+    timeoutSeconds: number;
+    maxAttempts: number;
+    mode: RunMode;
+    ghToken: string | undefined;
+  },
+): Promise<void> {
+  const { options } = ctx;
+  const {
+    config,
+    resolvedRepo,
+    providerId,
+    providerIds,
+    totalBudget,
+    concurrency,
+    timeoutSeconds,
+    maxAttempts,
+    mode,
+    ghToken,
+  } = params;
 
   // ── Retry-failed shortcut ──────────────────────────────────
   if (options.retryFailed) {
     const retryResults = await runRetryPipeline(ctx, {
       resolvedRepo,
       providerId,
+      providerIds,
       totalBudget,
       concurrency,
       timeoutSeconds,
+      maxAttempts,
       mode,
       ghToken,
+      validation: config?.execution.validation,
+      review: config?.execution.review,
+      competition: config?.execution.competition,
+      budget: config?.budget,
+      pr: config?.execution.pr,
     });
     process.exitCode = resolveExitCode(retryResults);
     return;
   }
 
+  const delegatedTasks = await loadDelegatedTasks(ctx, resolvedRepo.fullName);
+
   // ── Try epic-based execution (auto-analyze if needed) ────
   const autoAnalyze = config?.analyze?.autoAnalyze ?? true;
   const contextDir = config?.analyze?.contextDir ?? ".oac/context";
   const staleAfterMs = config?.analyze?.staleAfterMs ?? 86_400_000;
 
-  const epics = await tryLoadOrAnalyzeEpics(ctx, {
-    resolvedRepo,
-    config,
-    ghToken,
-    autoAnalyze,
-    contextDir,
-    staleAfterMs,
-  });
+  // `oac delegate run` executes just the delegated task.
+  const epics = options.delegation
+    ? null
+    : await tryLoadOrAnalyzeEpics(ctx, {
+        resolvedRepo,
+        config,
+        ghToken,
+        autoAnalyze,
+        contextDir,
+        staleAfterMs,
+      });
 
   if (epics && epics.length > 0) {
     const epicResults = await runEpicPipeline(ctx, {
-      epics,
+      epics: [...delegatedTasks.map(delegationAsEpic), ...epics],
       resolvedRepo,
       config,
       providerId,
+      providerIds,
       totalBudget,
       concurrency,
       timeoutSeconds,
+      maxAttempts,
       mode,
       ghToken,
       contextDir,
@@ -125,7 +210,15 @@ export async function runPipeline(
   }
 
   // ── Fallback: task-based execution (existing behavior) ──
-  const { candidateTasks, plan } = await discoverTasks(ctx, options, config, ghToken, resolvedRepo);
+  const { candidateTasks, plan } = await discoverTasks(
+    ctx,
+    options,
+    config,
+    ghToken,
+    resolvedRepo,
+    delegatedTasks,
+    competitionForMode(mode, config?.execution.competition),
+  );
 
   if (candidateTasks.length === 0) {
     printEmptySummary(ctx, resolvedRepo.fullName, providerId, totalBudget);
@@ -140,11 +233,18 @@ export async function runPipeline(
   const completedTasks = await executePlan(ctx, {
     plan,
     providerId,
+    providerIds,
     resolvedRepo,
     concurrency,
     timeoutSeconds,
+    maxAttempts,
     mode,
     ghToken,
+    validation: config?.execution.validation,
+    review: config?.execution.review,
+    competition: config?.execution.competition,
+    budget: config?.budget,
+    pr: config?.execution.pr,
   });
 
   await writeTracking(ctx, {
@@ -210,6 +310,10 @@ export function validateRunOptions(options: RunCommandOptions): void {
   if (typeof options.maxTasks === "number" && options.maxTasks <= 0) {
     throw new ConfigError("--max-tasks must be greater than zero when provided.");
   }
+
+  if (options.all && (options.repo || options.retryFailed)) {
+    throw new ConfigError("--all cannot be combined with --repo or --retry-failed.");
+  }
 }
 
 async function resolveMode(
@@ -4,12 +4,26 @@ import {
   findOacPRByTitle,
   findOacPRForIssue,
 } from "../../../core/github-pr-cache.js";
-import type { Task } from "../../../core/index.js";
-import type { ExecutionOutcome, SandboxInfo, TaskRunResult } from "./types.js";
+import { PrSchema, type Task } from "../../../core/index.js";
+import { type RepoFork, ownersForFiles, readCodeowners } from "../../../repo/index.js";
+import type {
+  ExecutionOutcome,
+  PrSettings,
+  ReviewOutcome,
+  SandboxInfo,
+  TaskRunResult,
+  ValidationOutcome,
+} from "./types.js";
 import { PR_CREATION_TIMEOUT_MS } from "./types.js";
 
 const OAC_PR_TITLE_PREFIX = "[OAC]";
 
+const GATE_MARKS: Record<ValidationOutcome["results"][number]["status"], string> = {
+  passed: "✅",
+  failed: "❌",
+  skipped: "⏭️",
+};
+
 export async function createPullRequest(input: {
   task: Task;
   execution: ExecutionOutcome;
@@ -17,6 +31,16 @@ export async function createPullRequest(input: {
   repoFullName: string;
   baseBranch: string;
   ghToken?: string;
+  /** When set, the branch is pushed to this fork and a cross-repo PR is opened. */
+  fork?: RepoFork;
+  /** Open the PR as a draft (e.g. because validation gates failed). */
+  draft?: boolean;
+  /** Validation gate results to list in the PR body. */
+  validation?: ValidationOutcome;
+  /** Critic-pass verdict to summarize in the PR body. */
+  review?: ReviewOutcome;
+  /** `execution.pr` settings; schema defaults when omitted. */
+  settings?: PrSettings;
 }): Promise<TaskRunResult["pr"] | undefined> {
   if (!input.sandbox) {
     return undefined;
@@ -30,91 +54,23 @@ export async function createPullRequest(input: {
   }
 
   const { branchName, sandboxPath } = input.sandbox;
+  const settings = input.settings ?? PrSchema.parse(undefined);
+  const draft = prOpensAsDraft(settings, input);
 
   try {
     const ghEnv = buildGhEnv(input.ghToken);
 
-    // Pre-PR guard: check for duplicate OAC PRs (single API call for both checks)
-    if (input.ghToken) {
-      const oacPRs = await fetchOpenOacPRs(input.repoFullName, input.ghToken);
-
-      if (input.task.linkedIssue) {
-        const duplicate = findOacPRForIssue(oacPRs, input.task.linkedIssue.number);
-        if (duplicate) {
-          console.warn(
-            `[oac] Skipping PR: existing OAC PR #${duplicate} already targets issue #${input.task.linkedIssue.number}`,
-          );
-          return undefined;
-        }
-      } else {
-        const prTitle = `${OAC_PR_TITLE_PREFIX} ${input.task.title}`;
-        const duplicate = findOacPRByTitle(oacPRs, prTitle);
-        if (duplicate) {
-          console.warn(
-            `[oac] Skipping PR: existing OAC PR #${duplicate} already has title "${prTitle}"`,
-          );
-          return undefined;
-        }
-      }
+    if (input.ghToken && (await hasDuplicatePr(input.task, input.repoFullName, input.ghToken))) {
+      return undefined;
     }
 
-    const pushed = await pushBranchFromSandbox(input.sandbox, ghEnv);
+    const pushed = await pushBranchFromSandbox(input.sandbox, ghEnv, input.fork?.remoteName);
     if (!pushed) {
       return undefined;
     }
 
-    // Create PR using gh CLI
-    const prTitle = `[OAC] ${input.task.title}`;
-    const prBodyLines = [
-      "## Summary",
-      "",
-      input.task.description || `Automated contribution for task "${input.task.title}".`,
-      "",
-    ];
-
-    // Auto-resolve: link PR to GitHub issue so it closes on merge
-    if (input.task.linkedIssue) {
-      prBodyLines.push(`Closes #${input.task.linkedIssue.number}`, "");
-    }
-
-    prBodyLines.push(
-      "## Context",
-      "",
-      `- **Task source:** ${input.task.source}`,
-      `- **Complexity:** ${input.task.complexity}`,
-      `- **Tokens used:** ${input.execution.totalTokensUsed}`,
-      `- **Files changed:** ${input.execution.filesChanged.length}`,
-    );
-
-    if (input.task.linkedIssue) {
-      prBodyLines.push(`- **Resolves:** #${input.task.linkedIssue.number}`);
-    }
-
-    const contextAck = readContextAck(input.task);
-    if (contextAck) {
-      prBodyLines.push("", "## Repository Policy Acknowledgement", "");
-      prBodyLines.push("- **Context files read:**");
-      for (const file of contextAck.files.slice(0, 5)) {
-        prBodyLines.push(`  - \`${file}\``);
-      }
-      if (contextAck.summary.length > 0) {
-        prBodyLines.push("", "- **Policy summary used:**");
-        for (const line of contextAck.summary.slice(0, 5)) {
-          prBodyLines.push(`  - ${line}`);
-        }
-      }
-      if (contextAck.digest) {
-        prBodyLines.push("", `- **Context digest:** \`${contextAck.digest}\``);
-      }
-    }
-
-    prBodyLines.push(
-      "",
-      "---",
-      "*This PR was automatically generated by [OAC](https://github.com/Open330/open-agent-contribution).*",
-    );
-
-    const prBody = prBodyLines.join("\n");
+    const prTitle = `${OAC_PR_TITLE_PREFIX} ${input.task.title}`;
+    const prBody = buildPrBody(input, draft);
 
     const ghResult = await execa(
       "gh",
@@ -128,9 +84,10 @@ export async function createPullRequest(input: {
         "--body",
         prBody,
         "--head",
-        branchName,
+        input.fork ? `${input.fork.owner}:${branchName}` : branchName,
         "--base",
         input.baseBranch,
+        ...(draft ? ["--draft"] : []),
       ],
       { cwd: sandboxPath, env: ghEnv, timeout: PR_CREATION_TIMEOUT_MS },
     );
@@ -140,6 +97,16 @@ export async function createPullRequest(input: {
     const prNumberMatch = prUrl.match(/\/pull\/(\d+)/);
     const prNumber = prNumberMatch ? Number.parseInt(prNumberMatch[1], 10) : 0;
 
+    await applyPrSettings(prUrl, {
+      settings,
+      task: input.task,
+      files: realFiles,
+      repoFullName: input.repoFullName,
+      sandboxPath,
+      ghEnv,
+      fork: input.fork,
+    });
+
     return {
       number: prNumber,
       url: prUrl,
@@ -152,16 +119,110 @@ export async function createPullRequest(input: {
   }
 }
 
+/** Pre-PR guard: an open OAC PR already targets the task's issue or has its title. */
+async function hasDuplicatePr(task: Task, repoFullName: string, ghToken: string): Promise<boolean> {
+  // Single API call for both checks
+  const oacPRs = await fetchOpenOacPRs(repoFullName, ghToken);
+
+  if (task.linkedIssue) {
+    const duplicate = findOacPRForIssue(oacPRs, task.linkedIssue.number);
+    if (duplicate) {
+      console.warn(
+        `[oac] Skipping PR: existing OAC PR #${duplicate} already targets issue #${task.linkedIssue.number}`,
+      );
+      return true;
+    }
+    return false;
+  }
+
+  const prTitle = `${OAC_PR_TITLE_PREFIX} ${task.title}`;
+  const duplicate = findOacPRByTitle(oacPRs, prTitle);
+  if (duplicate) {
+    console.warn(`[oac] Skipping PR: existing OAC PR #${duplicate} already has title "${prTitle}"`);
+    return true;
+  }
+  return false;
+}
+
+function buildPrBody(
+  input: {
+    task: Task;
+    execution: ExecutionOutcome;
+    validation?: ValidationOutcome;
+    review?: ReviewOutcome;
+  },
+  draft: boolean,
+): string {
+  const prBodyLines = buildSummaryLines(input.task);
+
+  // Auto-resolve: link PR to GitHub issue so it closes on merge
+  if (input.task.linkedIssue) {
+    prBodyLines.push(`Closes #${input.task.linkedIssue.number}`, "");
+  }
+
+  prBodyLines.push(
+    "## Context",
+    "",
+    `- **Task source:** ${input.task.source}`,
+    `- **Complexity:** ${input.task.complexity}`,
+    `- **Tokens used:** ${input.execution.totalTokensUsed}`,
+    `- **Files changed:** ${input.execution.filesChanged.length}`,
+  );
+
+  if (input.task.linkedIssue) {
+    prBodyLines.push(`- **Resolves:** #${input.task.linkedIssue.number}`);
+  }
+
+  if (input.validation) {
+    prBodyLines.push(...buildValidationLines(input.validation, draft));
+  }
+
+  if (input.review) {
+    prBodyLines.push("", ...buildReviewLines(input.review));
+  }
+
+  prBodyLines.push(...buildContextAckLines(input.task));
+
+  prBodyLines.push(
+    "",
+    "---",
+    "*This PR was automatically generated by [OAC](https://github.com/Open330/open-agent-contribution).*",
+  );
+
+  return prBodyLines.join("\n");
+}
+
+function buildContextAckLines(task: Task): string[] {
+  const contextAck = readContextAck(task);
+  if (!contextAck) return [];
+
+  const lines = ["", "## Repository Policy Acknowledgement", "", "- **Context files read:**"];
+  for (const file of contextAck.files.slice(0, 5)) {
+    lines.push(`  - \`${file}\``);
+  }
+  if (contextAck.summary.length > 0) {
+    lines.push("", "- **Policy summary used:**");
+    for (const line of contextAck.summary.slice(0, 5)) {
+      lines.push(`  - ${line}`);
+    }
+  }
+  if (contextAck.digest) {
+    lines.push("", `- **Context digest:** \`${contextAck.digest}\``);
+  }
+  return lines;
+}
+
 export async function pushBranchOnly(input: {
   sandbox?: SandboxInfo;
   ghToken?: string;
+  fork?: RepoFork;
 }): Promise<boolean> {
   if (!input.sandbox) {
     return false;
   }
 
   const ghEnv = buildGhEnv(input.ghToken);
-  return await pushBranchFromSandbox(input.sandbox, ghEnv);
+  return await pushBranchFromSandbox(input.sandbox, ghEnv, input.fork?.remoteName);
 }
 
 function buildGhEnv(ghToken: string | undefined): Record<string, string> {
@@ -176,9 +237,10 @@ function buildGhEnv(ghToken: string | undefined): Record<string, string> {
 async function pushBranchFromSandbox(
   sandbox: SandboxInfo,
   ghEnv: Record<string, string>,
+  remoteName = "origin",
 ): Promise<boolean> {
   try {
-    await execa("git", ["push", "--set-upstream", "origin", sandbox.branchName], {
+    await execa("git", ["push", "--set-upstream", remoteName, sandbox.branchName], {
       cwd: sandbox.sandboxPath,
       env: ghEnv,
       timeout: PR_CREATION_TIMEOUT_MS,
@@ -191,6 +253,255 @@ async function pushBranchFromSandbox(
   }
 }
 
+function buildValidationLines(validation: ValidationOutcome, draft: boolean): string[] {
+  if (validation.results.length === 0 && !validation.warnings) return [];
+
+  const lines = ["", "## Validation", ""];
+  for (const result of validation.results) {
+    const mark = GATE_MARKS[result.status];
+    const note =
+      result.status === "skipped"
+        ? " (skipped: dependencies not installed)"
+        : result.timedOut
+          ? " (timed out)"
+          : "";
+    lines.push(`- ${mark} **${result.gate}:** \`${result.command}\`${note}`);
+  }
+  for (const warning of validation.warnings ?? []) {
+    lines.push(`- ⚠️ ${warning}`);
+  }
+  if (!validation.passed) {
+    lines.push(
+      "",
+      "> Some validation gates failed, so this PR was opened as a draft. The command output is recorded in the OAC contribution log.",
+    );
+  } else if (draft && validation.warnings) {
+    lines.push("", "> The diff check raised warnings, so this PR was opened as a draft.");
+  }
+  return lines;
+}
+
+/**
+ * Draft when the caller asks for it (failed gates, unconvinced reviewer), with
+ * `execution.pr.draft`, or when the diff check warned and `draftOnWarnings` is on.
+ */
+export function prOpensAsDraft(
+  settings: PrSettings,
+  input: { draft?: boolean; validation?: ValidationOutcome },
+): boolean {
+  const warned = (input.validation?.warnings?.length ?? 0) > 0;
+  return Boolean(input.draft) || settings.draft || (settings.draftOnWarnings && warned);
+}
+
+/** `execution.pr.labels` plus the labels `labelsBySource` maps the task's source to. */
+export function resolvePrLabels(settings: PrSettings, task: Task): string[] {
+  return [...new Set([...settings.labels, ...(settings.labelsBySource[task.source] ?? [])])];
+}
+
+/** `execution.pr.reviewers`, plus the CODEOWNERS of `files` with `codeownersReviewers`. */
+export async function resolvePrReviewers(
+  settings: PrSettings,
+  repoPath: string,
+  files: string[],
+): Promise<string[]> {
+  const owners = settings.codeownersReviewers
+    ? ownersForFiles(await readCodeowners(repoPath), files)
+    : [];
+  return [...new Set([...settings.reviewers, ...owners])];
+}
+
+/**
+ * Labels, reviewers and assignees are added once the PR exists: `gh pr
+ * create` fails outright on an unknown label or reviewer, which would leave a
+ * pushed branch without a PR. Each failure here is only a warning.
+ */
+async function applyPrSettings(
+  prUrl: string,
+  input: {
+    settings: PrSettings;
+    task: Task;
+    files: string[];
+    repoFullName: string;
+    sandboxPath: string;
+    ghEnv: Record<string, string>;
+    fork?: RepoFork;
+  },
+): Promise<void> {
+  // Only the upstream repo's maintainers can label or request reviews on a cross-repo PR.
+  if (input.fork) return;
+
+  const { settings, sandboxPath, ghEnv } = input;
+  const labels = resolvePrLabels(settings, input.task);
+  const edits = [
+    {
+      flag: "--add-label",
+      kind: "labels",
+      values: settings.createLabels
+        ? await ensureLabels(input.repoFullName, labels, sandboxPath, ghEnv)
+        : labels,
+    },
+    {
+      flag: "--add-reviewer",
+      kind: "reviewers",
+      values: await resolvePrReviewers(settings, sandboxPath, input.files),
+    },
+    { flag: "--add-assignee", kind: "assignees", values: settings.assignees },
+  ];
+
+  for (const edit of edits) {
+    if (edit.values.length === 0) continue;
+    try {
+      await execa("gh", ["pr", "edit", prUrl, edit.flag, edit.values.join(",")], {
+        cwd: sandboxPath,
+        env: ghEnv,
+        timeout: PR_CREATION_TIMEOUT_MS,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[oac] Could not add ${edit.kind} to ${prUrl}: ${message}`);
+    }
+  }
+}
+
+/** Create the labels `repoFullName` lacks; returns the labels that can be applied. */
+async function ensureLabels(
+  repoFullName: string,
+  labels: string[],
+  cwd: string,
+  ghEnv: Record<string, string>,
+): Promise<string[]> {
+  if (labels.length === 0) return [];
+
+  const options = { cwd, env: ghEnv, timeout: PR_CREATION_TIMEOUT_MS };
+  let existing: Set<string>;
+  try {
+    const { stdout } = await execa(
+      "gh",
+      ["label", "list", "--repo", repoFullName, "--json", "name", "--limit", "1000"],
+      options,
+    );
+    const listed = JSON.parse(stdout) as Array<{ name: string }>;
+    existing = new Set(listed.map((label) => label.name.toLowerCase()));
+  } catch {
+    // Listing failed; let `gh pr edit` report any label that is missing.
+    return labels;
+  }
+
+  const available: string[] = [];
+  for (const label of labels) {
+    if (existing.has(label.toLowerCase())) {
+      available.push(label);
+      continue;
+    }
+    try {
+      await execa(
+        "gh",
+        ["label", "create", label, "--repo", repoFullName, "--description", "Added by OAC"],
+        options,
+      );
+      available.push(label);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[oac] Could not create label "${label}" in ${repoFullName}: ${message}`);
+    }
+  }
+  return available;
+}
+
+const REVIEW_VERDICT_LABELS: Record<ReviewOutcome["verdict"], string> = {
+  approve: "✅ approved",
+  request_changes: "📝 changes requested",
+  reject: "❌ rejected",
+};
+
+/** Most review comments listed in a PR body; the rest are counted. */
+const MAX_REVIEW_COMMENTS = 10;
+
+export function buildReviewLines(review: ReviewOutcome): string[] {
+  const rounds = review.rounds > 0 ? ` after ${review.rounds} repair round(s)` : "";
+  const lines = [
+    "## Automated Review",
+    "",
+    `- **Verdict:** ${REVIEW_VERDICT_LABELS[review.verdict]}${rounds} (confidence ${review.confidence.toFixed(2)})`,
+    `- **Reviewer:** ${review.reviewer}`,
+  ];
+  if (review.summary) {
+    lines.push("", review.summary);
+  }
+  if (review.comments.length > 0) {
+    lines.push("");
+    for (const comment of review.comments.slice(0, MAX_REVIEW_COMMENTS)) {
+      const location = comment.path
+        ? `\`${comment.path}${comment.line ? `:${comment.line}` : ""}\`: `
+        : "";
+      lines.push(`- ${location}${comment.body}`);
+    }
+    const hidden = review.comments.length - MAX_REVIEW_COMMENTS;
+    if (hidden > 0) {
+      lines.push(`- …and ${hidden} more comment(s)`);
+    }
+  }
+  if (review.action === "draft") {
+    lines.push("", "> The reviewer did not approve this change, so this PR was opened as a draft.");
+  }
+  return lines;
+}
+
+function buildSummaryLines(task: Task): string[] {
+  if (task.source === "security") {
+    return buildSecuritySummaryLines(task);
+  }
+
+  return [
+    "## Summary",
+    "",
+    task.description || `Automated contribution for task "${task.title}".`,
+    "",
+  ];
+}
+
+/**
+ * Security PRs are built from structured finding metadata only. The task
+ * description is deliberately not used: for secret findings the matched text
+ * is the credential itself, and a public PR body is the worst place for it.
+ */
+function buildSecuritySummaryLines(task: Task): string[] {
+  const metadata = task.metadata ?? {};
+  const category = readString(metadata.securityCategory);
+  const rule = readString(metadata.pattern);
+  const remediation = readString(metadata.remediation);
+  const filePath = readString(metadata.filePath);
+  const line = typeof metadata.line === "number" ? metadata.line : undefined;
+
+  const lines = ["## Security Finding", ""];
+  if (category) lines.push(`- **Category:** ${category}`);
+  if (rule) lines.push(`- **Rule:** \`${rule}\``);
+  if (filePath) {
+    lines.push(`- **Location:** \`${line ? `${filePath}:${line}` : filePath}\``);
+  } else if (task.targetFiles.length > 0) {
+    lines.push("- **Files:**");
+    for (const file of task.targetFiles.slice(0, 10)) {
+      lines.push(`  - \`${file}\``);
+    }
+  }
+  lines.push("");
+
+  if (remediation) {
+    lines.push(`**Remediation:** ${remediation}`, "");
+  }
+
+  lines.push(
+    "> The matched source text is intentionally omitted. If this finding is a real credential,",
+    "> rotate it — removing it from the code does not revoke it or purge it from git history.",
+    "",
+  );
+  return lines;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value : undefined;
+}
+
 function readContextAck(task: Task):
   | {
       files: string[];
@@ -223,4 +534,3 @@ function readContextAck(task: Task):
       : undefined;
   return { files, summary, digest };
 }
-
@@ -0,0 +1,106 @@
+import type { OacConfig } from "../../../core/index.js";
+import { loadPromptTemplates } from "../../../execution/index.js";
+import { cloneRepo, needsFork, prepareFork, resolveRepo } from "../../../repo/index.js";
+import { createSpinner } from "../../helpers.js";
+import { resolveContextAck } from "./context-policy.js";
+import { discoverRepoGuide } from "./repo-guide.js";
+import type { PipelineContext, RunMode } from "./types.js";
+
+/**
+ * Resolve and clone `repoInput`, then load what the run needs from the clone
+ * (context ack, repo guide, prompt templates) onto `ctx`. With `branch`, that
+ * branch stands in for the default branch: it is cloned, task branches start
+ * from it and PRs target it.
+ */
+export async function prepareRepo(
+  ctx: PipelineContext,
+  params: {
+    repoInput: string;
+    branch?: string;
+    config: OacConfig | null;
+    mode: RunMode;
+    ghToken: string | undefined;
+  },
+): Promise<Awaited<ReturnType<typeof resolveRepo>>> {
+  const { repoInput, branch, config, mode, ghToken } = params;
+  const { ui } = ctx;
+
+  const resolveSpinner = createSpinner(ctx.suppressOutput, `Resolving ${repoInput}...`);
+  const resolved = await resolveRepo(repoInput);
+  const resolvedRepo = branch
+    ? { ...resolved, meta: { ...resolved.meta, defaultBranch: branch } }
+    : resolved;
+  resolveSpinner?.succeed(`Resolved ${resolvedRepo.fullName}`);
+
+  const cloneSpinner = createSpinner(ctx.suppressOutput, "Preparing local clone...");
+  await cloneRepo(resolvedRepo);
+  cloneSpinner?.succeed(`Repository ready at ${resolvedRepo.localPath}`);
+
+  if (!ctx.options.dryRun) {
+    await prepareForkIfNeeded(ctx, resolvedRepo, config, mode, ghToken);
+  }
+
+  ctx.contextAck = await resolveContextAck(resolvedRepo.localPath, config, ui, ctx.suppressOutput);
+
+  ctx.repoGuide = await discoverRepoGuide(resolvedRepo.localPath);
+  if (ctx.repoGuide && !ctx.suppressOutput) {
+    console.log(ui.blue(`[oac] Repo guide loaded: ${ctx.repoGuide.path}`));
+  }
+
+  ctx.promptTemplates = await loadPromptTemplates(
+    resolvedRepo.localPath,
+    config?.execution.prompts,
+  );
+  const overridden = Object.keys(ctx.promptTemplates);
+  if (overridden.length > 0 && !ctx.suppressOutput) {
+    console.log(ui.blue(`[oac] Prompt templates overridden: ${overridden.join(", ")}`));
+  }
+
+  return resolvedRepo;
+}
+
+/**
+ * Without push permission on upstream, branches go to a fork (created on
+ * demand) and PRs are opened cross-repo. Direct commits cannot be forked.
+ */
+async function prepareForkIfNeeded(
+  ctx: PipelineContext,
+  resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>,
+  config: OacConfig | null,
+  mode: RunMode,
+  ghToken: string | undefined,
+): Promise<void> {
+  if (!needsFork(resolvedRepo)) return;
+
+  if (mode === "direct-commit") {
+    if (!ctx.suppressOutput) {
+      console.log(
+        ctx.ui.yellow(
+          `[oac] Warning: no push permission on ${resolvedRepo.fullName}; direct commits will be rejected.`,
+        ),
+      );
+    }
+    return;
+  }
+
+  const forkConfig = config?.execution.fork;
+  if (forkConfig && !forkConfig.enabled) return;
+
+  const forkSpinner = createSpinner(
+    ctx.suppressOutput,
+    `No push permission on ${resolvedRepo.fullName} — preparing fork...`,
+  );
+  const fork = await prepareFork(resolvedRepo, {
+    organization: forkConfig?.organization,
+    token: ghToken,
+  });
+  forkSpinner?.succeed(`Using fork ${fork.fullName}`);
+
+  if (!fork.synced && !ctx.suppressOutput) {
+    console.log(
+      ctx.ui.yellow(
+        `[oac] Warning: could not sync ${fork.fullName} with upstream: ${fork.syncError ?? "unknown error"}`,
+      ),
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import type { ValidationGateReport, ValidationResult } from "../../../completion/index.js";
+import type { Task } from "../../../core/index.js";
+import { type AgentProvider, executeTask as workerExecuteTask } from "../../../execution/index.js";
+import { commitSandboxChanges } from "./commit.js";
+import type { PipelineContext, TaskRunResult } from "./types.js";
+
+/** Outcome of checking a sandbox: diff policy plus the repo's own gates. */
+export interface SandboxCheck {
+  passed: boolean;
+  diff: ValidationResult;
+  gates: ValidationGateReport;
+}
+
+/** The agent that produced a change, reused to repair it. */
+export interface RepairAgent {
+  adapter: AgentProvider;
+  timeoutSeconds: number;
+}
+
+export interface RepairAttempt {
+  tokensUsed: number;
+  /** Real files the task branch changes after the round was committed. */
+  filesChanged: string[];
+  error?: string;
+}
+
+/** `diff` when the diff policy rejected the change, then each failed gate. */
+export function repairTriggers(check: SandboxCheck): string[] {
+  const triggers = check.diff.valid ? [] : ["diff"];
+  for (const result of check.gates.results) {
+    if (result.status === "failed") triggers.push(result.gate);
+  }
+  return triggers;
+}
+
+/**
+ * Follow-up instructions for the agent: the original task plus the exact
+ * diff violations and the output of every failed gate.
+ */
+export function buildRepairPrompt(task: Task, check: SandboxCheck): string {
+  const lines = [
+    "Your previous changes for this task are already in the working tree, but they did not pass validation.",
+    "Fix the problems below while keeping the intended change. Do not revert the task.",
+    "",
+    "Original task:",
+    task.description,
+  ];
+
+  if (!check.diff.valid) {
+    lines.push("", "Diff policy violations:", ...check.diff.errors.map((error) => `- ${error}`));
+  }
+
+  for (const result of check.gates.results) {
+    if (result.status !== "failed") continue;
+    const exit = result.timedOut ? "timed out" : `exit code ${result.exitCode ?? "unknown"}`;
+    lines.push("", `Failed ${result.gate} gate: \`${result.command}\` (${exit})`);
+    if (result.output) {
+      lines.push("```", result.output, "```");
+    }
+  }
+
+  lines.push(
+    "",
+    "Re-run the failing commands to confirm they pass before you finish.",
+    "Do not disable, skip or delete checks or tests to make them pass.",
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Re-invoke the agent in the task's sandbox with follow-up instructions (see
+ * {@link buildRepairPrompt}) and commit what it changed. Agent errors are
+ * reported, not thrown, so the caller can still re-check whatever the agent
+ * left behind.
+ */
+export async function runRepairRound(
+  ctx: PipelineContext,
+  result: TaskRunResult,
+  params: {
+    agent: RepairAgent;
+    /** Replaces the task description for this run. */
+    instructions: string;
+    /** What is being fixed; used in the commit message. */
+    reason: "validation" | "review";
+    round: number;
+    tokenBudget: number;
+    baseBranch: string;
+  },
+): Promise<RepairAttempt> {
+  const { sandbox, task } = result;
+  if (!sandbox) {
+    return { tokensUsed: 0, filesChanged: result.execution.filesChanged, error: "No sandbox." };
+  }
+
+  const jobId = result.jobId ?? task.id;
+  ctx.eventBus.emit("execution:progress", {
+    jobId,
+    tokensUsed: result.execution.totalTokensUsed,
+    stage: "completion:repair",
+  });
+
+  const repairTask: Task = { ...task, description: params.instructions };
+  let tokensUsed = 0;
+  let error: string | undefined;
+  try {
+    const execution = await workerExecuteTask(
+      params.agent.adapter,
+      repairTask,
+      { path: sandbox.sandboxPath, branchName: sandbox.branchName, cleanup: sandbox.cleanup },
+      ctx.eventBus,
+      {
+        executionId: jobId,
+        tokenBudget: params.tokenBudget,
+        timeoutMs: params.agent.timeoutSeconds * 1_000,
+        prompts: ctx.promptTemplates,
+      },
+    );
+    tokensUsed = execution.totalTokensUsed;
+    if (!execution.success) {
+      error = execution.error ?? `Agent exited with code ${execution.exitCode}.`;
+    }
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  const commit = await commitSandboxChanges(
+    sandbox.sandboxPath,
+    task,
+    params.baseBranch,
+    `[OAC] Fix ${params.reason} for ${task.title} (repair ${params.round})`,
+  );
+
+  return { tokensUsed, filesChanged: commit.filesChanged, error };
+}
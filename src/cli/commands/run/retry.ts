@@ -10,9 +10,19 @@ import {
   contributionLogSchema,
 } from "../../../tracking/index.js";
 import { createSpinner, estimateTaskMap, formatInteger } from "../../helpers.js";
+import { chargeCompetitions, competitionForMode } from "./competition.js";
 import { executePlan, printFinalSummary } from "./task.js";
 import { writeTracking } from "./tracking.js";
-import type { PipelineContext, RunMode, TaskRunResult } from "./types.js";
+import type {
+  BudgetSettings,
+  CompetitionSettings,
+  PipelineContext,
+  PrSettings,
+  ReviewSettings,
+  RunMode,
+  TaskRunResult,
+  ValidationSettings,
+} from "./types.js";
 
 async function readMostRecentContributionLog(
   repoPath: string,
@@ -61,15 +71,30 @@ export async function runRetryPipeline(
   params: {
     resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>;
     providerId: string;
+    providerIds?: string[];
     totalBudget: number;
     concurrency: number;
     timeoutSeconds: number;
+    maxAttempts: number;
     mode: RunMode;
     ghToken?: string;
+    validation?: ValidationSettings;
+    review?: ReviewSettings;
+    competition?: CompetitionSettings;
+    budget?: BudgetSettings;
+    pr?: PrSettings;
   },
 ): Promise<TaskRunResult[]> {
-  const { resolvedRepo, providerId, totalBudget, concurrency, timeoutSeconds, mode, ghToken } =
-    params;
+  const {
+    resolvedRepo,
+    providerId,
+    totalBudget,
+    concurrency,
+    timeoutSeconds,
+    maxAttempts,
+    mode,
+    ghToken,
+  } = params;
 
   const retrySpinner = createSpinner(ctx.suppressOutput, "Loading most recent contribution log...");
   const log = await readMostRecentContributionLog(resolvedRepo.localPath);
@@ -95,7 +120,12 @@ export async function runRetryPipeline(
   );
 
   const retryTasks = failedEntries.map(taskFromContributionEntry);
-  const estimates = await estimateTaskMap(retryTasks, providerId);
+  // Retried tasks compete like fresh ones, so each is charged once per candidate.
+  const estimates = chargeCompetitions(
+    retryTasks,
+    await estimateTaskMap(retryTasks, providerId),
+    competitionForMode(mode, params.competition),
+  );
   const plan = buildExecutionPlan(retryTasks, estimates, totalBudget);
 
   if (plan.selectedTasks.length === 0) {
@@ -116,11 +146,18 @@ export async function runRetryPipeline(
   const completedTasks = await executePlan(ctx, {
     plan,
     providerId,
+    providerIds: params.providerIds,
     resolvedRepo,
     concurrency,
     timeoutSeconds,
+    maxAttempts,
     mode,
     ghToken,
+    validation: params.validation,
+    review: params.review,
+    competition: params.competition,
+    budget: params.budget,
+    pr: params.pr,
   });
 
   await writeTracking(ctx, {
@@ -0,0 +1,349 @@
+import { readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+
+import { execa } from "execa";
+import { z } from "zod";
+
+import type { Task } from "../../../core/index.js";
+import type { AgentProvider } from "../../../execution/index.js";
+import { type RepairAgent, runRepairRound } from "./repair.js";
+import type { RepoGuide } from "./repo-guide.js";
+import type {
+  PipelineContext,
+  RepairRound,
+  ReviewOutcome,
+  ReviewSettings,
+  TaskRunResult,
+} from "./types.js";
+
+/** Where the reviewer writes its verdict, relative to the sandbox. */
+export const REVIEW_VERDICT_FILE = ".oac/review.json";
+
+/** Diffs beyond this many characters are cut off in the reviewer prompt. */
+const MAX_REVIEW_DIFF_CHARS = 60_000;
+
+const ReviewVerdictSchema = z.object({
+  verdict: z.enum(["approve", "request_changes", "reject"]),
+  confidence: z.coerce
+    .number()
+    .transform((value) => Math.min(1, Math.max(0, value)))
+    .default(0.5),
+  summary: z.string().default(""),
+  comments: z
+    .array(
+      z.object({
+        path: z.string().optional(),
+        line: z.coerce.number().int().positive().optional().catch(undefined),
+        body: z.string().min(1),
+      }),
+    )
+    .default([]),
+});
+
+export type ReviewVerdict = z.output<typeof ReviewVerdictSchema>;
+
+/**
+ * The reviewer sees the task, the repo guide and the diff, and answers with a
+ * JSON verdict written to {@link REVIEW_VERDICT_FILE}. A file works the same
+ * for every adapter, whatever its stdout protocol.
+ */
+export function buildReviewPrompt(task: Task, diff: string, repoGuide?: RepoGuide): string {
+  const truncated = diff.length > MAX_REVIEW_DIFF_CHARS;
+  const lines = [
+    "You are reviewing a proposed change before it is opened as a pull request on a repository",
+    "maintained by other people. Do not modify any file other than the verdict file below.",
+    "",
+    "Task:",
+    `Title: ${task.title}`,
+    `Source: ${task.source}`,
+    task.description,
+  ];
+
+  if (repoGuide) {
+    lines.push("", `Repository guide (${repoGuide.path}):`, repoGuide.content.trim());
+  }
+
+  lines.push(
+    "",
+    truncated ? `Diff (first ${MAX_REVIEW_DIFF_CHARS} characters):` : "Diff:",
+    "```diff",
+    truncated ? diff.slice(0, MAX_REVIEW_DIFF_CHARS) : diff,
+    "```",
+    "",
+    "Check correctness, that the change does only what the task asks, that it follows the",
+    "conventions of the surrounding code, and whether it is safe to merge.",
+    `Then write your verdict as JSON to \`${REVIEW_VERDICT_FILE}\`:`,
+    '{"verdict": "approve" | "request_changes" | "reject", "confidence": 0.0-1.0, "summary": "...",',
+    ' "comments": [{"path": "src/file.ts", "line": 12, "body": "..."}]}',
+    "- approve: ready to open as-is.",
+    "- request_changes: the approach is right but the comments must be addressed first.",
+    "- reject: the change should not be submitted (wrong, harmful or out of scope).",
+  );
+
+  return lines.join("\n");
+}
+
+/** Follow-up instructions for the original agent after a negative review. */
+export function buildReviewRepairPrompt(task: Task, review: ReviewVerdict): string {
+  const lines = [
+    "A reviewer looked at your changes for this task and asked for changes.",
+    "Your previous changes are already in the working tree. Address every point below while",
+    "keeping the intended change. Do not revert the task.",
+    "",
+    "Original task:",
+    task.description,
+    "",
+    `Review summary: ${review.summary || "(none)"}`,
+  ];
+
+  if (review.comments.length > 0) {
+    lines.push("", "Comments:");
+    for (const comment of review.comments) {
+      const location = comment.path
+        ? `${comment.path}${comment.line ? `:${comment.line}` : ""}: `
+        : "";
+      lines.push(`- ${location}${comment.body}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/** Parse a verdict from the verdict file, else from the last JSON line of the agent output. */
+export function parseReviewVerdict(
+  fileContent: string | undefined,
+  output: string[],
+): ReviewVerdict | undefined {
+  const candidates = [fileContent ?? "", ...[...output].reverse()];
+  for (const candidate of candidates) {
+    const trimmed = candidate.trim();
+    if (!trimmed.startsWith("{")) continue;
+    try {
+      const parsed = ReviewVerdictSchema.safeParse(JSON.parse(trimmed));
+      if (parsed.success) return parsed.data;
+    } catch {} // not JSON — keep looking
+  }
+  return undefined;
+}
+
+/**
+ * Critic pass between validation and the PR: a reviewer agent judges the
+ * diff. With `onReject: "repair"`, change requests and rejections go back to
+ * the task's agent for up to `maxRounds` rounds, each followed by a fresh
+ * review. What is still not approved afterwards opens as a draft PR (change
+ * request) or is dropped (rejection).
+ */
+export async function runReviewStage(
+  ctx: PipelineContext,
+  result: TaskRunResult,
+  params: {
+    settings: ReviewSettings;
+    reviewer: AgentProvider;
+    repoGuide?: RepoGuide;
+    baseBranch: string;
+    timeoutSeconds: number;
+    /** Agent that made the change; without it feedback cannot be repaired. */
+    repair?: RepairAgent;
+    /** Re-run validation after a repair round, before the next review. */
+    revalidate?: (result: TaskRunResult) => Promise<TaskRunResult>;
+  },
+): Promise<TaskRunResult> {
+  const { settings } = params;
+  if (!settings.enabled || !result.sandbox || !result.execution.success) {
+    return result;
+  }
+
+  let current = result;
+  let rounds = 0;
+  let tokensUsed = 0;
+  const repairRounds: RepairRound[] = [];
+
+  for (;;) {
+    const reviewed = await reviewOnce(ctx, current, params);
+    tokensUsed += reviewed.tokensUsed;
+    const verdict = reviewed.verdict ?? missingVerdict(reviewed.error);
+    const effective = effectiveVerdict(verdict, settings);
+
+    const lastRound = repairRounds.at(-1);
+    if (lastRound) {
+      lastRound.passed = effective === "approve";
+    }
+
+    const canRepair =
+      effective !== "approve" && settings.onReject === "repair" && rounds < settings.maxRounds;
+    if (!canRepair || !params.repair) {
+      const action = REVIEW_ACTIONS[effective];
+      const review: ReviewOutcome = {
+        reviewer: params.reviewer.id,
+        ...verdict,
+        rounds,
+        tokensUsed,
+        action,
+      };
+      return finishReview(ctx, current, review, repairRounds);
+    }
+
+    rounds += 1;
+    const attempt = await runRepairRound(ctx, current, {
+      agent: params.repair,
+      instructions: buildReviewRepairPrompt(current.task, verdict),
+      reason: "review",
+      round: rounds,
+      tokenBudget: settings.tokenBudget,
+      baseBranch: params.baseBranch,
+    });
+    current = {
+      ...current,
+      execution: {
+        ...current.execution,
+        totalTokensUsed: current.execution.totalTokensUsed + attempt.tokensUsed,
+        filesChanged: attempt.filesChanged,
+      },
+    };
+    repairRounds.push({
+      round: rounds,
+      trigger: ["review"],
+      tokensUsed: attempt.tokensUsed,
+      passed: false,
+      error: attempt.error,
+    });
+
+    if (params.revalidate) {
+      current = await params.revalidate(current);
+      if (!current.execution.success) {
+        const review: ReviewOutcome = {
+          reviewer: params.reviewer.id,
+          ...verdict,
+          rounds,
+          tokensUsed,
+          action: "dropped",
+        };
+        return finishReview(ctx, current, review, repairRounds);
+      }
+    }
+  }
+}
+
+const REVIEW_ACTIONS: Record<ReviewVerdict["verdict"], ReviewOutcome["action"]> = {
+  approve: "none",
+  request_changes: "draft",
+  reject: "dropped",
+};
+
+function missingVerdict(error: string | undefined): ReviewVerdict {
+  return {
+    verdict: "request_changes",
+    confidence: 0,
+    summary: `Reviewer returned no verdict${error ? `: ${error}` : "."}`,
+    comments: [],
+  };
+}
+
+/** An approval below `minConfidence` counts as a change request. */
+function effectiveVerdict(
+  verdict: ReviewVerdict,
+  settings: ReviewSettings,
+): ReviewVerdict["verdict"] {
+  return verdict.verdict === "approve" && verdict.confidence < settings.minConfidence
+    ? "request_changes"
+    : verdict.verdict;
+}
+
+function finishReview(
+  ctx: PipelineContext,
+  result: TaskRunResult,
+  review: ReviewOutcome,
+  repairRounds: RepairRound[],
+): TaskRunResult {
+  const current: TaskRunResult = {
+    ...result,
+    review,
+    execution: {
+      ...result.execution,
+      totalTokensUsed: result.execution.totalTokensUsed + review.tokensUsed,
+    },
+    ...(repairRounds.length > 0
+      ? { repairRounds: [...(result.repairRounds ?? []), ...repairRounds] }
+      : {}),
+  };
+
+  if (review.action !== "none" && result.execution.success && !ctx.suppressOutput) {
+    const consequence = review.action === "dropped" ? "dropping the change" : "opening PR as draft";
+    console.warn(
+      ctx.ui.yellow(
+        `[oac] Review of "${result.task.title}": ${review.verdict} (confidence ${review.confidence.toFixed(2)}); ${consequence}.`,
+      ),
+    );
+  }
+
+  if (review.action !== "dropped" || !result.execution.success) {
+    return current;
+  }
+  return {
+    ...current,
+    execution: {
+      ...current.execution,
+      success: false,
+      error: `Rejected by reviewer: ${review.summary || review.verdict}`,
+    },
+  };
+}
+
+async function reviewOnce(
+  ctx: PipelineContext,
+  result: TaskRunResult,
+  params: {
+    settings: ReviewSettings;
+    reviewer: AgentProvider;
+    repoGuide?: RepoGuide;
+    baseBranch: string;
+    timeoutSeconds: number;
+  },
+): Promise<{ verdict?: ReviewVerdict; tokensUsed: number; error?: string }> {
+  const sandboxPath = (result.sandbox as NonNullable<TaskRunResult["sandbox"]>).sandboxPath;
+  const jobId = result.jobId ?? result.task.id;
+  ctx.eventBus.emit("execution:progress", {
+    jobId,
+    tokensUsed: result.execution.totalTokensUsed,
+    stage: "completion:review",
+  });
+
+  const { stdout: diff } = await execa("git", ["diff", `origin/${params.baseBranch}`], {
+    cwd: sandboxPath,
+    reject: false,
+  });
+
+  const verdictPath = join(sandboxPath, REVIEW_VERDICT_FILE);
+  await rm(verdictPath, { force: true });
+
+  const output: string[] = [];
+  let tokensUsed = 0;
+  let error: string | undefined;
+  try {
+    const execution = params.reviewer.execute({
+      executionId: `${jobId}-review`,
+      workingDirectory: sandboxPath,
+      prompt: buildReviewPrompt(result.task, diff, params.repoGuide),
+      targetFiles: result.execution.filesChanged,
+      tokenBudget: params.settings.tokenBudget,
+      allowCommits: false,
+      timeoutMs: params.timeoutSeconds * 1_000,
+    });
+    for await (const event of execution.events) {
+      if (event.type === "output" && event.stream === "stdout") output.push(event.content);
+      if (event.type === "tokens") tokensUsed = Math.max(tokensUsed, event.cumulativeTokens);
+    }
+    const agentResult = await execution.result;
+    tokensUsed = Math.max(tokensUsed, agentResult.totalTokensUsed);
+    if (!agentResult.success) error = agentResult.error;
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  const fileContent = await readFile(verdictPath, "utf8").catch(() => undefined);
+  // The reviewer must not change the task branch: drop the verdict and anything else it left.
+  await execa("git", ["reset", "-q", "--hard", "HEAD"], { cwd: sandboxPath, reject: false });
+  await execa("git", ["clean", "-fdq"], { cwd: sandboxPath, reject: false });
+
+  return { verdict: parseReviewVerdict(fileContent, output), tokensUsed, error };
+}
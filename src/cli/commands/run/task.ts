@@ -1,18 +1,24 @@
+import { randomUUID } from "node:crypto";
+
 import type { ChalkInstance } from "chalk";
 import Table from "cli-table3";
-import { execa } from "execa";
 import PQueue from "p-queue";
 import { buildExecutionPlan } from "../../../budget/index.js";
-import type { OacConfig, Task, TokenEstimate } from "../../../core/index.js";
-import { createEventBus, filterRealChanges } from "../../../core/index.js";
+import type { OacConfig, OacEventBus, Task, TokenEstimate } from "../../../core/index.js";
+import { ValidationSchema, createEventBus, filterRealChanges } from "../../../core/index.js";
 import { type ScannerName, buildScanners, rankTasks } from "../../../discovery/index.js";
 import {
   type AgentProvider,
+  ExecutionEngine,
+  type JobRunner,
+  type PromptTemplates,
   adapterRegistry,
   createSandbox,
   executeTask as workerExecuteTask,
 } from "../../../execution/index.js";
+import type { RoleRouter } from "../../../organization/index.js";
 import type { resolveRepo } from "../../../repo/index.js";
+import { openTranscript } from "../../../tracking/index.js";
 import {
   createSpinner,
   estimateTaskMap,
@@ -21,19 +27,41 @@ import {
   resolveProviderId,
   truncate,
 } from "../../helpers.js";
+import { commitSandboxChanges } from "./commit.js";
+import {
+  candidateEstimate,
+  chargeCompetitions,
+  competitionForMode,
+  isCompetitive,
+  runCompetition,
+} from "./competition.js";
+import {
+  createRoleRouter,
+  missingRoleAgents,
+  repoGoals,
+  withOrganization,
+} from "./organization.js";
 import { createPullRequest, pushBranchOnly } from "./pr.js";
+import type { RepairAgent } from "./repair.js";
+import { runReviewStage } from "./review.js";
 import { writeContributionToSandbox } from "./tracking.js";
 import type {
+  BudgetSettings,
+  CompetitionSettings,
   ContextAck,
   ExecutionOutcome,
   PipelineContext,
+  PrSettings,
+  ReviewSettings,
   RunCommandOptions,
   RunMode,
   RunSummaryOutput,
   SandboxInfo,
   TaskRunResult,
+  ValidationSettings,
 } from "./types.js";
-import { formatBudgetDisplay, formatDuration } from "./types.js";
+import { EXIT_INTERRUPTED, formatBudgetDisplay, formatDuration } from "./types.js";
+import { runValidationStage } from "./validation.js";
 
 export async function discoverTasks(
   ctx: PipelineContext,
@@ -41,55 +69,117 @@ export async function discoverTasks(
   config: OacConfig | null,
   ghToken: string | undefined,
   resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>,
+  /** Accepted delegations; always candidates, ahead of the scanned tasks. */
+  delegatedTasks: Task[] = [],
+  /** Competition settings in effect for the run; competing tasks are charged per candidate. */
+  competition?: CompetitionSettings,
 ) {
-  const forceScanner = options.source ? sourceToScannerName(options.source) : undefined;
-  const scannerSelection = selectScannersFromConfig(config, Boolean(ghToken), forceScanner);
+  const candidateTasks = await collectCandidateTasks(
+    ctx,
+    options,
+    config,
+    ghToken,
+    resolvedRepo,
+    delegatedTasks,
+  );
+  const estimates = chargeCompetitions(
+    candidateTasks,
+    await estimateCandidates(ctx, candidateTasks, options, config),
+    competition,
+  );
+  const plan = buildExecutionPlan(candidateTasks, estimates, resolveBudget(options.tokens, config));
+
+  return { ...resolvedRepo, candidateTasks, plan, fullName: resolvedRepo.fullName };
+}
+
+/** Scanned tasks of the repo that pass the priority, source and count filters, ranked. */
+export async function collectCandidateTasks(
+  ctx: PipelineContext,
+  options: RunCommandOptions,
+  config: OacConfig | null,
+  ghToken: string | undefined,
+  resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>,
+  delegatedTasks: Task[] = [],
+): Promise<Task[]> {
+  // `oac delegate run` executes just the delegated task.
+  const scannedTasks = options.delegation
+    ? []
+    : await scanTasks(ctx, options, config, ghToken, resolvedRepo);
   const minPriority = config?.discovery.minPriority ?? 20;
   const maxTasks = options.maxTasks ?? undefined;
 
-  const scanSpinner = createSpinner(
-    ctx.suppressOutput,
-    `Running scanners: ${scannerSelection.enabled.join(", ")}`,
-  );
-  const scannedTasks = await scannerSelection.scanner.scan(resolvedRepo.localPath, {
-    exclude: config?.discovery.exclude,
-    maxTasks: config?.discovery.maxTasks,
-    issueLabels: config?.discovery.issueLabels,
-    repo: resolvedRepo,
-  });
-  scanSpinner?.succeed(`Discovered ${scannedTasks.length} raw task(s)`);
-
-  let candidateTasks = rankTasks(scannedTasks).filter((task) => task.priority >= minPriority);
+  let candidateTasks = rankTasks(scannedTasks, {
+    goals: repoGoals(config?.organization, resolvedRepo.fullName),
+  }).filter((task) => task.priority >= minPriority);
   if (options.source) {
     candidateTasks = candidateTasks.filter((task) => task.source === options.source);
   }
+  candidateTasks = [...delegatedTasks, ...candidateTasks];
   if (typeof maxTasks === "number") {
     candidateTasks = candidateTasks.slice(0, maxTasks);
   }
+  return candidateTasks;
+}
+
+export async function estimateCandidates(
+  ctx: PipelineContext,
+  candidateTasks: Task[],
+  options: RunCommandOptions,
+  config: OacConfig | null,
+): Promise<Map<string, TokenEstimate>> {
+  if (candidateTasks.length === 0) {
+    return new Map<string, TokenEstimate>();
+  }
 
   const estimateSpinner = createSpinner(
     ctx.suppressOutput,
     `Estimating tokens for ${candidateTasks.length} task(s)...`,
   );
-  const estimates =
-    candidateTasks.length > 0
-      ? await estimateTaskMap(
-          candidateTasks,
-          resolveProviderId(options.provider, config),
-          (done, total) => {
-            if (estimateSpinner) {
-              const pct = Math.round((done / total) * 100);
-              estimateSpinner.text = `Estimating tokens... (${done}/${total} — ${pct}%)`;
-            }
-          },
-        )
-      : new Map<string, TokenEstimate>();
-  if (candidateTasks.length > 0) estimateSpinner?.succeed("Token estimation completed");
-  else estimateSpinner?.stop();
+  const estimates = await estimateTaskMap(
+    candidateTasks,
+    resolveProviderId(options.provider, config),
+    (done, total) => {
+      if (estimateSpinner) {
+        const pct = Math.round((done / total) * 100);
+        estimateSpinner.text = `Estimating tokens... (${done}/${total} — ${pct}%)`;
+      }
+    },
+  );
+  estimateSpinner?.succeed("Token estimation completed");
+  return estimates;
+}
 
-  const plan = buildExecutionPlan(candidateTasks, estimates, resolveBudget(options.tokens, config));
+async function scanTasks(
+  ctx: PipelineContext,
+  options: RunCommandOptions,
+  config: OacConfig | null,
+  ghToken: string | undefined,
+  resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>,
+): Promise<Task[]> {
+  const forceScanner = options.source ? sourceToScannerName(options.source) : undefined;
+  const scannerSelection = selectScannersFromConfig(config, Boolean(ghToken), forceScanner);
 
-  return { ...resolvedRepo, candidateTasks, plan, fullName: resolvedRepo.fullName };
+  const scanSpinner = createSpinner(
+    ctx.suppressOutput,
+    `Running scanners: ${scannerSelection.enabled.join(", ")}`,
+  );
+  const { tasks: scannedTasks, failures } = await scannerSelection.scanner.scanWithReport(
+    resolvedRepo.localPath,
+    {
+      exclude: config?.discovery.exclude,
+      maxTasks: config?.discovery.maxTasks,
+      issueLabels: config?.discovery.issueLabels,
+      repo: resolvedRepo,
+    },
+  );
+  scanSpinner?.succeed(`Discovered ${scannedTasks.length} raw task(s)`);
+  if (!ctx.suppressOutput) {
+    for (const failure of failures) {
+      console.log(ctx.ui.yellow(`[oac] Scanner "${failure.scannerName}" failed: ${failure.error}`));
+    }
+  }
+
+  return scannedTasks;
 }
 
 export function printEmptySummary(
@@ -194,58 +284,111 @@ export async function executePlan(
   params: {
     plan: ReturnType<typeof buildExecutionPlan>;
     providerId: string;
+    /** Ordered fallback chain; defaults to `[providerId]`. */
+    providerIds?: string[];
     resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>;
     concurrency: number;
     timeoutSeconds: number;
+    maxAttempts: number;
     mode: RunMode;
     ghToken?: string;
+    /** `execution.validation` settings; schema defaults when omitted. */
+    validation?: ValidationSettings;
+    /** `execution.review` settings; no critic pass when omitted. */
+    review?: ReviewSettings;
+    /** `execution.competition` settings; every task runs once when omitted. */
+    competition?: CompetitionSettings;
+    budget?: BudgetSettings;
+    /** `execution.pr` settings; schema defaults when omitted. */
+    pr?: PrSettings;
   },
 ): Promise<TaskRunResult[]> {
-  const { plan, providerId, resolvedRepo, concurrency, timeoutSeconds, mode, ghToken } = params;
-  const { adapter } = await resolveAdapter(providerId);
+  const {
+    plan,
+    providerId,
+    resolvedRepo,
+    concurrency,
+    timeoutSeconds,
+    maxAttempts,
+    mode,
+    ghToken,
+    validation,
+    review,
+    budget,
+  } = params;
+  const competition = competitionForMode(mode, params.competition);
+  const adapters = await resolveAdapters(ctx, params.providerIds ?? [providerId]);
+  const { roleRouter, agents } = await resolveRoleRouting(ctx, adapters);
+  const reviewer = await resolveReviewer(ctx, review);
 
   if (!ctx.suppressOutput && ctx.globalOptions.verbose) {
-    const avail = await adapter.checkAvailability();
-    console.log(
-      ctx.ui.green(`[oac] Using ${adapter.name} v${avail.version ?? "unknown"} for execution.`),
-    );
+    for (const adapter of adapters) {
+      const avail = await ctx.agentAvailability?.get(adapter.id);
+      console.log(
+        ctx.ui.green(`[oac] Using ${adapter.name} v${avail?.version ?? "unknown"} for execution.`),
+      );
+    }
   }
 
   const executionSpinner = createSpinner(
     ctx.suppressOutput,
     `Executing ${plan.selectedTasks.length} planned task(s)...`,
   );
-  let completedCount = 0;
-
-  const taskQueue = new PQueue({ concurrency });
-  const executedTasks = await Promise.all(
-    plan.selectedTasks.map(
-      (entry) =>
-        taskQueue.add(async (): Promise<TaskRunResult> => {
-          const taskForExecution = withRepoGuide(withContextAck(entry.task, ctx.contextAck), ctx.repoGuide);
-          const onEvent = createVerboseEventLogger(ctx, taskForExecution.title, executionSpinner);
-          const result = await executeWithAgent({
-            task: taskForExecution,
-            estimate: entry.estimate,
-            adapter,
-            repoPath: resolvedRepo.localPath,
-            baseBranch: resolvedRepo.meta.defaultBranch,
-            timeoutSeconds,
-            onEvent,
-          });
-          const { execution, sandbox } = result;
 
-          completedCount += 1;
-          if (executionSpinner) {
-            const total = plan.selectedTasks.length;
-            const pct = Math.round((completedCount / total) * 100);
-            executionSpinner.text = `Executing tasks... (${completedCount}/${total} — ${pct}%)`;
-          }
+  for (const entry of plan.selectedTasks) {
+    ctx.eventBus.emit("task:selected", {
+      task: entry.task,
+      reason: "planned",
+      repo: resolvedRepo.fullName,
+    });
+  }
 
-          return { task: taskForExecution, estimate: entry.estimate, execution, sandbox };
-        }) as Promise<TaskRunResult>,
+  const entries = plan.selectedTasks.map((entry) => ({
+    task: withOrganization(
+      withRepoGuide(withContextAck(entry.task, ctx.contextAck), ctx.repoGuide),
+      ctx.organization,
+      resolvedRepo.fullName,
     ),
-  );
+    estimate: entry.estimate,
+  }));
+  const competing = entries.filter((entry) => isCompetitive(entry.task, competition));
+
+  const executedTasks = await runWithEngine(ctx, {
+    entries: entries.filter((entry) => !competing.includes(entry)),
+    adapters,
+    roleRouter,
+    resolvedRepo,
+    concurrency,
+    timeoutSeconds,
+    maxAttempts,
+    budget,
+    activeSpinner: executionSpinner,
+    onProgress: (settled, total) => {
+      if (executionSpinner) {
+        const pct = Math.round((settled / total) * 100);
+        executionSpinner.text = `Executing tasks... (${settled}/${total} — ${pct}%)`;
+      }
+    },
+  });
+
+  if (competition && competing.length > 0) {
+    if (executionSpinner) {
+      executionSpinner.text = `Running ${competing.length} task(s) with ${competition.candidates} candidates each...`;
+    }
+    const competed = await runCompetitions(ctx, {
+      entries: competing,
+      settings: competition,
+      adapters,
+      resolvedRepo,
+      concurrency,
+      timeoutSeconds,
+      validation,
+      review,
+      reviewer,
+      budget,
+    });
+    executedTasks.push(...competed);
+  }
 
   executionSpinner?.succeed("Execution stage finished");
 
@@ -259,18 +402,34 @@ export async function executePlan(
             return result;
           }
 
+          const validated = await validateAndReview(ctx, result, {
+            repair: { adapter: adapterFor(agents, result.provider), timeoutSeconds },
+            validation,
+            review,
+            reviewer,
+            resolvedRepo,
+            timeoutSeconds,
+          });
+          if (!validated.execution.success) {
+            return validated;
+          }
+
           if (mode === "branch-only") {
-            await pushBranchOnly({ sandbox: result.sandbox, ghToken });
-            return result;
+            await pushBranchOnly({
+              sandbox: validated.sandbox,
+              ghToken,
+              fork: resolvedRepo.fork,
+            });
+            return validated;
           }
 
           // Write per-task contribution metadata into the sandbox so it's
           // included in the PR branch (closes the ".oac not in PR" gap).
-          if (result.sandbox) {
+          if (validated.sandbox) {
             await writeContributionToSandbox({
-              sandboxPath: result.sandbox.sandboxPath,
-              task: result.task,
-              execution: result.execution,
+              sandboxPath: validated.sandbox.sandboxPath,
+              task: validated.task,
+              execution: validated.execution,
               runId: ctx.runId,
               repoFullName: resolvedRepo.fullName,
               repoOwner: resolvedRepo.owner,
@@ -278,26 +437,36 @@ export async function executePlan(
           }
 
           // Quality gate: skip PR if no real files were changed
-          const realFiles = filterRealChanges(result.execution.filesChanged);
+          const realFiles = filterRealChanges(validated.execution.filesChanged);
           if (realFiles.length === 0) {
             if (!ctx.suppressOutput) {
               console.warn(
-                `[oac] Skipping PR for "${result.task.title}": no real file changes.`,
+                `[oac] Skipping PR for "${validated.task.title}": no real file changes.`,
               );
             }
-            return result;
+            return validated;
           }
 
           const pr = await createPullRequest({
-            task: result.task,
-            execution: result.execution,
-            sandbox: result.sandbox,
+            task: validated.task,
+            execution: validated.execution,
+            sandbox: validated.sandbox,
             repoFullName: resolvedRepo.fullName,
             baseBranch: resolvedRepo.meta.defaultBranch,
             ghToken,
+            fork: resolvedRepo.fork,
+            draft: opensAsDraft(validated),
+            validation: validated.validation,
+            review: validated.review,
+            settings: params.pr,
           });
 
-          return pr ? { ...result, pr } : result;
+          if (!pr) {
+            return validated;
+          }
+          const withPr = { ...validated, pr };
+          emitPrCreated(ctx, withPr);
+          return withPr;
         }) as Promise<TaskRunResult>,
     ),
   );
@@ -306,6 +475,135 @@ export async function executePlan(
   return completedTasks;
 }
 
+/** Failed gates or an unconvinced reviewer downgrade the PR to a draft. */
+function opensAsDraft(result: TaskRunResult): boolean {
+  return result.validation?.action === "draft" || result.review?.action === "draft";
+}
+
+/**
+ * Validation gates (with repair rounds), then the optional critic pass.
+ * Competing tasks already went through the gates while the winner was picked,
+ * and through the critic when `competition.critic` is set.
+ */
+async function validateAndReview(
+  ctx: PipelineContext,
+  result: TaskRunResult,
+  params: {
+    repair: RepairAgent;
+    validation?: ValidationSettings;
+    review?: ReviewSettings;
+    reviewer?: AgentProvider;
+    resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>;
+    timeoutSeconds: number;
+  },
+): Promise<TaskRunResult> {
+  const { repair, review, resolvedRepo } = params;
+  const validationParams = {
+    settings: params.validation,
+    repoPath: resolvedRepo.localPath,
+    baseBranch: resolvedRepo.meta.defaultBranch,
+    repair,
+  };
+  const validated = result.candidates
+    ? result
+    : await runValidationStage(ctx, result, validationParams);
+  if (!review || !validated.execution.success || validated.review) {
+    return validated;
+  }
+  return runReviewStage(ctx, validated, {
+    settings: review,
+    reviewer: params.reviewer ?? repair.adapter,
+    repoGuide: ctx.repoGuide,
+    baseBranch: resolvedRepo.meta.defaultBranch,
+    timeoutSeconds: params.timeoutSeconds,
+    repair,
+    revalidate: (repaired) => runValidationStage(ctx, repaired, validationParams),
+  });
+}
+
+/**
+ * Best-of-N execution for the tasks that opted into `execution.competition`.
+ * Candidates use `competition.providers` when set, else the run's provider
+ * chain; up to `concurrency` tasks compete at a time.
+ */
+async function runCompetitions(
+  ctx: PipelineContext,
+  params: {
+    entries: Array<{ task: Task; estimate: TokenEstimate }>;
+    settings: CompetitionSettings;
+    adapters: AgentProvider[];
+    resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>;
+    concurrency: number;
+    timeoutSeconds: number;
+    validation?: ValidationSettings;
+    review?: ReviewSettings;
+    reviewer?: AgentProvider;
+    budget?: BudgetSettings;
+  },
+): Promise<TaskRunResult[]> {
+  const { settings, resolvedRepo, timeoutSeconds } = params;
+  const pool =
+    settings.providers.length > 0
+      ? await resolveAdapters(ctx, settings.providers)
+      : params.adapters;
+  const validationSettings = params.validation ?? ValidationSchema.parse(undefined);
+  const queue = new PQueue({ concurrency: params.concurrency });
+
+  return Promise.all(
+    params.entries.map(
+      (entry) =>
+        queue.add(() =>
+          runCompetition(ctx, {
+            entry,
+            jobId: randomUUID(),
+            settings,
+            adapters: pool,
+            run: async (spec, task, jobId) => {
+              const attempt = await executeWithAgent({
+                task,
+                estimate: candidateEstimate(entry.estimate, settings),
+                adapter: spec.adapter,
+                repoPath: resolvedRepo.localPath,
+                baseBranch: resolvedRepo.meta.defaultBranch,
+                timeoutSeconds,
+                budget: params.budget,
+                jobId,
+                runId: ctx.runId,
+                branchSuffix: `-c${spec.candidate}`,
+                prompts: ctx.promptTemplates,
+                eventBus: ctx.eventBus,
+              });
+              return {
+                jobId,
+                task,
+                estimate: entry.estimate,
+                execution: attempt.execution,
+                sandbox: attempt.sandbox,
+                provider: spec.adapter.id,
+                transcript: attempt.transcript,
+                status: attempt.execution.success ? "completed" : "failed",
+                attempts: 1,
+              };
+            },
+            validate: (result) =>
+              runValidationStage(ctx, result, {
+                settings: validationSettings,
+                repoPath: resolvedRepo.localPath,
+                baseBranch: resolvedRepo.meta.defaultBranch,
+              }),
+            review: params.review
+              ? { settings: params.review, reviewer: params.reviewer }
+              : undefined,
+            repoPath: resolvedRepo.localPath,
+            baseBranch: resolvedRepo.meta.defaultBranch,
+            maxDiffLines: validationSettings.maxDiffLines,
+            timeoutSeconds,
+          }),
+        ) as Promise<TaskRunResult>,
+    ),
+  );
+}
+
 export function printFinalSummary(
   ctx: PipelineContext,
   params: {
@@ -319,7 +617,9 @@ export function printFinalSummary(
 ): void {
   const { plan, resolvedRepo, providerId, totalBudget, completedTasks } = params;
   const tasksCompleted = completedTasks.filter((t) => t.execution.success).length;
-  const tasksFailed = completedTasks.length - tasksCompleted;
+  const tasksAborted = completedTasks.filter((t) => t.status === "aborted").length;
+  const tasksFailed = completedTasks.length - tasksCompleted - tasksAborted;
+  const retries = countRetries(completedTasks);
   const prsCreated = completedTasks.filter((t) => Boolean(t.pr)).length;
   const tokensUsed = completedTasks.reduce((sum, t) => sum + t.execution.totalTokensUsed, 0);
   const runDurationSeconds = (Date.now() - ctx.runStartedAt) / 1000;
@@ -333,6 +633,8 @@ export function printFinalSummary(
     deferredTasks: plan.deferredTasks.length,
     tasksCompleted,
     tasksFailed,
+    tasksAborted,
+    retries,
     prsCreated,
     tokensUsed,
     tokensBudgeted: totalBudget,
@@ -351,6 +653,12 @@ export function printFinalSummary(
   console.log(ctx.ui.bold("Run Summary"));
   console.log(`  Tasks completed: ${tasksCompleted}/${completedTasks.length}`);
   console.log(`  Tasks failed:    ${tasksFailed}`);
+  if (tasksAborted > 0) {
+    console.log(`  Tasks aborted:   ${tasksAborted}`);
+  }
+  if (retries > 0) {
+    console.log(`  Retries:         ${retries}`);
+  }
   console.log(`  PRs created:     ${prsCreated}`);
   console.log(
     `  Tokens used:     ${formatInteger(tokensUsed)} / ${formatBudgetDisplay(totalBudget)}`,
@@ -372,7 +680,16 @@ export function printFinalSummary(
   }
 }
 
-export function selectScannersFromConfig(config: OacConfig | null, hasGitHubAuth: boolean, forceEnable?: ScannerName[]) {
+/** Attempts beyond the first, summed over all tasks. */
+export function countRetries(results: TaskRunResult[]): number {
+  return results.reduce((sum, result) => sum + Math.max(0, (result.attempts ?? 1) - 1), 0);
+}
+
+export function selectScannersFromConfig(
+  config: OacConfig | null,
+  hasGitHubAuth: boolean,
+  forceEnable?: ScannerName[],
+) {
   const { names, composite } = buildScanners(config, hasGitHubAuth, forceEnable);
   return { enabled: names, scanner: composite };
 }
@@ -385,14 +702,17 @@ export function selectScannersFromConfig(config: OacConfig | null, hasGitHubAuth
 function sourceToScannerName(source: string): ScannerName[] | undefined {
   const map: Record<string, ScannerName> = {
     lint: "lint",
+    todo: "todo",
     "test-gap": "test-gap",
+    "dead-code": "dead-code",
+    security: "security",
     "github-issue": "github-issues",
   };
   const name = map[source];
   return name ? [name] : undefined;
 }
 
-function withContextAck(task: Task, contextAck: ContextAck | undefined): Task {
+export function withContextAck(task: Task, contextAck: ContextAck | undefined): Task {
   if (!contextAck) {
     return task;
   }
@@ -406,7 +726,10 @@ function withContextAck(task: Task, contextAck: ContextAck | undefined): Task {
   };
 }
 
-function withRepoGuide(task: Task, repoGuide: import("./repo-guide.js").RepoGuide | undefined): Task {
+export function withRepoGuide(
+  task: Task,
+  repoGuide: import("./repo-guide.js").RepoGuide | undefined,
+): Task {
   if (!repoGuide) {
     return task;
   }
@@ -423,6 +746,170 @@ function withRepoGuide(task: Task, repoGuide: import("./repo-guide.js").RepoGuid
   };
 }
 
+/**
+ * Runs tasks through the {@link ExecutionEngine}. Transient agent failures
+ * (rate limits, timeouts, network errors) are retried with backoff up to
+ * `maxAttempts`, repeated failures open the agent's circuit breaker, and
+ * SIGINT aborts the run (a second SIGINT forces exit).
+ *
+ * Results are returned in input order and reflect the engine's final job
+ * state, so aborted jobs are reported as such rather than as plain failures.
+ */
+export async function runWithEngine(
+  ctx: PipelineContext,
+  params: {
+    entries: Array<{ task: Task; estimate: TokenEstimate }>;
+    /** Provider chain; later adapters take over when earlier ones are rate-limited or failing. */
+    adapters: AgentProvider[];
+    /** Sends role-owned tasks to their role's agent ahead of the chain. */
+    roleRouter?: RoleRouter;
+    resolvedRepo: Awaited<ReturnType<typeof resolveRepo>>;
+    concurrency: number;
+    timeoutSeconds: number;
+    maxAttempts: number;
+    budget?: BudgetSettings;
+    activeSpinner?: import("ora").Ora | null;
+    onProgress?: (settled: number, total: number) => void;
+  },
+): Promise<TaskRunResult[]> {
+  const { entries, adapters, resolvedRepo, timeoutSeconds, activeSpinner } = params;
+  const attempts = new Map<string, Awaited<ReturnType<typeof executeWithAgent>>>();
+  const attemptAgents = new Map<string, string>();
+
+  const runner: JobRunner = async (job, agent) => {
+    // Every attempt gets a fresh sandbox; drop the worktree of the one that failed.
+    await attempts
+      .get(job.id)
+      ?.sandbox.cleanup()
+      .catch(() => undefined);
+
+    const previousAgent = attemptAgents.get(job.id);
+    attemptAgents.set(job.id, agent.id);
+    if (previousAgent && previousAgent !== agent.id && job.error && !ctx.suppressOutput) {
+      activeSpinner?.clear();
+      console.warn(
+        ctx.ui.yellow(
+          `[oac] Task ${job.task.id}: ${previousAgent} failed (${job.error.code}), retrying with ${agent.id}`,
+        ),
+      );
+    }
+
+    const attempt = await executeWithAgent({
+      task: job.task,
+      estimate: job.estimate,
+      adapter: agent,
+      repoPath: resolvedRepo.localPath,
+      baseBranch: resolvedRepo.meta.defaultBranch,
+      timeoutSeconds,
+      budget: params.budget,
+      jobId: job.id,
+      runId: ctx.runId,
+      prompts: ctx.promptTemplates,
+      eventBus: ctx.eventBus,
+      onEvent: createVerboseEventLogger(ctx, job.task.title, activeSpinner),
+    });
+    attempts.set(job.id, attempt);
+
+    const { execution } = attempt;
+    return {
+      ...execution,
+      error: execution.success
+        ? undefined
+        : (execution.error ??
+          `Agent exited with code ${execution.exitCode} without real file changes.`),
+    };
+  };
+
+  const engine = new ExecutionEngine(adapters, ctx.eventBus, {
+    routing: "fallback",
+    concurrency: params.concurrency,
+    maxAttempts: params.maxAttempts,
+    repoPath: resolvedRepo.localPath,
+    repoFullName: resolvedRepo.fullName,
+    baseBranch: resolvedRepo.meta.defaultBranch,
+    taskTimeoutMs: timeoutSeconds * 1_000,
+    roleRouter: params.roleRouter,
+    runner,
+  });
+
+  let cumulativeBudgetUsed = 0;
+  const jobs = engine.enqueue({
+    totalBudget: entries.reduce((sum, entry) => sum + entry.estimate.totalEstimatedTokens, 0),
+    selectedTasks: entries.map((entry) => {
+      cumulativeBudgetUsed += entry.estimate.totalEstimatedTokens;
+      return { ...entry, cumulativeBudgetUsed };
+    }),
+    deferredTasks: [],
+    reserveTokens: 0,
+    remainingTokens: 0,
+  });
+
+  const jobIds = new Set(jobs.map((job) => job.id));
+  let settled = 0;
+  const onSettled = ({ jobId }: { jobId: string }) => {
+    if (!jobIds.has(jobId)) return;
+    settled += 1;
+    params.onProgress?.(settled, jobs.length);
+  };
+
+  let interrupted = false;
+  const onSigint = () => {
+    if (interrupted) {
+      process.exit(EXIT_INTERRUPTED);
+    }
+    interrupted = true;
+    if (!ctx.suppressOutput) {
+      activeSpinner?.clear();
+      console.log(
+        ctx.ui.yellow(
+          "\n[oac] Interrupted — aborting running tasks. Press Ctrl+C again to force exit.",
+        ),
+      );
+    }
+    void engine.abort();
+  };
+
+  ctx.eventBus.on("execution:completed", onSettled);
+  ctx.eventBus.on("execution:failed", onSettled);
+  process.on("SIGINT", onSigint);
+  try {
+    await engine.run();
+  } finally {
+    process.off("SIGINT", onSigint);
+    ctx.eventBus.off("execution:completed", onSettled);
+    ctx.eventBus.off("execution:failed", onSettled);
+  }
+
+  return jobs.map((job): TaskRunResult => {
+    const attempt = attempts.get(job.id);
+    const succeeded = job.status === "completed";
+    const execution: ExecutionOutcome = {
+      ...(attempt?.execution ?? {
+        exitCode: 1,
+        totalTokensUsed: 0,
+        filesChanged: [],
+        duration: 0,
+      }),
+      success: succeeded,
+    };
+    if (!succeeded) {
+      execution.error = job.error?.message ?? execution.error ?? "Task was not executed.";
+    }
+
+    return {
+      jobId: job.id,
+      task: job.task,
+      estimate: job.estimate,
+      execution,
+      sandbox: attempt?.sandbox,
+      provider: job.workerId,
+      transcript: attempt?.transcript,
+      status: job.status,
+      attempts: job.attempts,
+    };
+  });
+}
+
 export async function executeWithAgent(input: {
   task: Task;
   estimate: TokenEstimate;
@@ -430,36 +917,84 @@ export async function executeWithAgent(input: {
   repoPath: string;
   baseBranch: string;
   timeoutSeconds: number;
+  /** Warn/abort thresholds for the agent's token budget; worker defaults when omitted. */
+  budget?: BudgetSettings;
+  /** Execution id for the agent and `execution:progress` events; generated when omitted. */
+  jobId?: string;
+  /**
+   * Persist the agent's events to `.oac/transcripts/<runId>/<taskId>.jsonl`
+   * in the working directory, next to the run status `oac transcript` reads.
+   * Not under `repoPath`: the cache clone is cleaned before every run.
+   */
+  runId?: string;
+  /** Appended to the branch name, so parallel runs of one task get their own branch. */
+  branchSuffix?: string;
+  /** Prompt template overrides; built-in defaults when omitted. */
+  prompts?: PromptTemplates;
+  eventBus?: OacEventBus;
   onEvent?: (event: import("../../../execution/index.js").AgentEvent) => void;
-}): Promise<{ execution: ExecutionOutcome; sandbox: SandboxInfo }> {
+}): Promise<{
+  jobId: string;
+  execution: ExecutionOutcome;
+  sandbox: SandboxInfo;
+  /** Transcript path relative to the working directory, when one was written. */
+  transcript?: string;
+}> {
   const startedAt = Date.now();
+  const jobId = input.jobId ?? randomUUID();
   const taskSlug = input.task.id
     .replace(/[^a-zA-Z0-9-]/g, "-")
     .replace(/-+/g, "-")
     .slice(0, 30);
-  const branchName = `oac/${Date.now()}-${taskSlug}`;
+  const branchName = `oac/${Date.now()}-${taskSlug}${input.branchSuffix ?? ""}`;
 
   const sandbox = await createSandbox(input.repoPath, branchName, input.baseBranch);
-  const eventBus = createEventBus();
+  const eventBus = input.eventBus ?? createEventBus();
   const sandboxInfo: SandboxInfo = {
     branchName,
     sandboxPath: sandbox.path,
     cleanup: sandbox.cleanup,
   };
 
+  const transcript = input.runId
+    ? await openTranscript({
+        repoPath: process.cwd(),
+        runId: input.runId,
+        executionId: jobId,
+        start: { taskId: input.task.id, title: input.task.title, provider: input.adapter.id },
+      }).catch(() => undefined)
+    : undefined;
+  // Once the sandbox exists nothing below may throw: the caller owns its cleanup.
+  const finish = async (execution: ExecutionOutcome) => {
+    await transcript
+      ?.close({
+        success: execution.success,
+        totalTokensUsed: execution.totalTokensUsed,
+        filesChanged: execution.filesChanged,
+        error: execution.error,
+      })
+      .catch(() => undefined);
+    return { jobId, execution, sandbox: sandboxInfo, transcript: transcript?.relativePath };
+  };
+
   // Track tokens independently so they survive even if the agent throws
   let observedTokens = 0;
   const wrappedOnEvent = (event: import("../../../execution/index.js").AgentEvent) => {
     if (event.type === "tokens") {
       observedTokens = Math.max(observedTokens, event.cumulativeTokens);
     }
+    transcript?.record(event);
     input.onEvent?.(event);
   };
 
   try {
     const result = await workerExecuteTask(input.adapter, input.task, sandbox, eventBus, {
+      executionId: jobId,
       tokenBudget: input.estimate.totalEstimatedTokens,
       timeoutMs: input.timeoutSeconds * 1_000,
+      warnThreshold: input.budget?.warnThreshold,
+      enforceBudget: input.budget ? input.budget.enforcement === "enforce" : undefined,
+      prompts: input.prompts,
       onEvent: wrappedOnEvent,
     });
 
@@ -476,102 +1011,160 @@ export async function executeWithAgent(input: {
 
     const totalTokensUsed = Math.max(result.totalTokensUsed, observedTokens);
 
-    return {
-      execution: {
-        // Only count as success if there are real (non-metadata) file changes
-        success: result.success && commitResult.filesChanged.length > 0,
-        exitCode: result.exitCode,
-        totalTokensUsed,
-        filesChanged,
-        duration: result.duration > 0 ? result.duration / 1_000 : (Date.now() - startedAt) / 1_000,
-        error: result.error,
-      },
-      sandbox: sandboxInfo,
+    const execution: ExecutionOutcome = {
+      // Only count as success if there are real (non-metadata) file changes
+      success: result.success && commitResult.filesChanged.length > 0,
+      exitCode: result.exitCode,
+      totalTokensUsed,
+      filesChanged,
+      duration: result.duration > 0 ? result.duration / 1_000 : (Date.now() - startedAt) / 1_000,
+      error: result.error,
+      errorCode: result.errorCode,
     };
+    return finish(execution);
   } catch (error) {
     // Even on error, check if agent left real uncommitted changes
     const commitResult = await commitSandboxChanges(sandbox.path, input.task, input.baseBranch);
     if (commitResult.filesChanged.length > 0) {
-      return {
-        execution: {
-          success: true,
-          exitCode: 0,
-          totalTokensUsed: observedTokens,
-          filesChanged: commitResult.filesChanged,
-          duration: (Date.now() - startedAt) / 1_000,
-        },
-        sandbox: sandboxInfo,
+      const execution: ExecutionOutcome = {
+        success: true,
+        exitCode: 0,
+        totalTokensUsed: observedTokens,
+        filesChanged: commitResult.filesChanged,
+        duration: (Date.now() - startedAt) / 1_000,
       };
+      return finish(execution);
     }
 
     const message = error instanceof Error ? error.message : String(error);
-    return {
-      execution: {
-        success: false,
-        exitCode: 1,
-        totalTokensUsed: observedTokens,
-        filesChanged: [],
-        duration: (Date.now() - startedAt) / 1_000,
-        error: message,
-      },
-      sandbox: sandboxInfo,
+    const execution: ExecutionOutcome = {
+      success: false,
+      exitCode: 1,
+      totalTokensUsed: observedTokens,
+      filesChanged: [],
+      duration: (Date.now() - startedAt) / 1_000,
+      error: message,
     };
+    return finish(execution);
   }
 }
 
-async function commitSandboxChanges(
-  sandboxPath: string,
-  task: Task,
-  baseBranch: string,
-): Promise<{ hasChanges: boolean; filesChanged: string[] }> {
-  try {
-    // Stage and commit any uncommitted changes (staged + unstaged + untracked)
-    const statusResult = await execa("git", ["status", "--porcelain"], { cwd: sandboxPath });
-    if (statusResult.stdout.trim()) {
-      await execa("git", ["add", "-A"], { cwd: sandboxPath });
-      await execa(
-        "git",
-        ["commit", "-m", `[OAC] ${task.title}\n\nAutomated contribution by OAC.`],
-        { cwd: sandboxPath },
-      );
-    }
+/** Notify run observers (e.g. the status writer) that a PR was opened for a job. */
+export function emitPrCreated(ctx: PipelineContext, result: TaskRunResult): void {
+  if (result.jobId && result.pr) {
+    ctx.eventBus.emit("pr:created", { jobId: result.jobId, prUrl: result.pr.url });
+  }
+}
 
-    // Detect ALL changes vs the base branch — covers both OAC-committed and
-    // agent-committed changes (e.g. Claude Code with --dangerously-skip-permissions
-    // can commit directly during execution).
-    const diffResult = await execa("git", ["diff", "--name-only", `origin/${baseBranch}`, "HEAD"], {
-      cwd: sandboxPath,
-    });
-    const allChangedFiles = diffResult.stdout.trim().split("\n").filter(Boolean);
-    // Exclude .oac/ metadata files — only count real code changes
-    const changedFiles = filterRealChanges(allChangedFiles);
+/** The adapter that ran a task (for follow-up work such as repair), else the primary. */
+export function adapterFor(
+  adapters: AgentProvider[],
+  providerId: string | undefined,
+): AgentProvider {
+  return adapters.find((adapter) => adapter.id === providerId) ?? adapters[0];
+}
 
-    return { hasChanges: changedFiles.length > 0, filesChanged: changedFiles };
-  } catch {
-    return { hasChanges: false, filesChanged: [] };
+/**
+ * The dedicated reviewer from `execution.review.provider`, checked once up
+ * front. `undefined` when the critic pass is off or reuses each task's agent.
+ */
+export async function resolveReviewer(
+  ctx: PipelineContext,
+  settings: ReviewSettings | undefined,
+): Promise<AgentProvider | undefined> {
+  if (!settings?.enabled || !settings.provider) {
+    return undefined;
+  }
+  const [reviewer] = await resolveAdapters(ctx, [settings.provider]);
+  return reviewer;
+}
+
+/**
+ * Adds adapters for role agents outside the provider chain and builds the
+ * router that sends role-owned tasks to them. A role whose agent cannot be
+ * used leaves its tasks to the chain.
+ */
+export async function resolveRoleRouting(
+  ctx: PipelineContext,
+  adapters: AgentProvider[],
+): Promise<{ roleRouter?: RoleRouter; agents: AgentProvider[] }> {
+  const agents = [...adapters];
+  for (const agentId of missingRoleAgents(ctx.organization, adapters)) {
+    try {
+      agents.push(...(await resolveAdapters(ctx, [agentId])));
+    } catch (error) {
+      if (!ctx.suppressOutput) {
+        const reason = (error instanceof Error ? error.message : String(error)).split("\n")[0];
+        console.warn(
+          ctx.ui.yellow(
+            `[oac] ${reason} Tasks of roles using ${agentId} run on the provider chain.`,
+          ),
+        );
+      }
+    }
   }
+  return { roleRouter: createRoleRouter(ctx.organization, agents), agents };
 }
 
-export async function resolveAdapter(providerId: string): Promise<{ adapter: AgentProvider }> {
-  const normalizedId = adapterRegistry.resolveId(providerId);
-  const factory = adapterRegistry.get(providerId);
+/**
+ * Instantiates the provider chain in order and drops providers whose CLI is
+ * unavailable. Availability checks are cached on the run context, so epic,
+ * task and retry stages probe each CLI once per run. Throws when no provider
+ * of the chain is usable.
+ */
+export async function resolveAdapters(
+  ctx: PipelineContext,
+  providerIds: string[],
+): Promise<AgentProvider[]> {
+  const adapters: AgentProvider[] = [];
+  const unavailable: Array<{ id: string; reason: string }> = [];
+
+  for (const providerId of providerIds) {
+    const normalizedId = adapterRegistry.resolveId(providerId);
+    const factory = adapterRegistry.get(providerId);
+
+    if (!factory) {
+      const supported = adapterRegistry.registeredIds().join(", ");
+      throw new Error(
+        `Unknown provider "${providerId}". Supported providers: ${supported}.\nRun \`oac doctor\` to check your environment setup.`,
+      );
+    }
 
-  if (!factory) {
-    const supported = adapterRegistry.registeredIds().join(", ");
+    const adapter = factory();
+    ctx.agentAvailability ??= new Map();
+    let availability = ctx.agentAvailability.get(normalizedId);
+    if (!availability) {
+      availability = adapter.checkAvailability();
+      ctx.agentAvailability.set(normalizedId, availability);
+    }
+
+    const { available, error } = await availability;
+    if (available) {
+      adapters.push(adapter);
+    } else {
+      unavailable.push({ id: normalizedId, reason: error ?? "unknown reason" });
+    }
+  }
+
+  if (adapters.length === 0) {
+    const [only] = unavailable;
     throw new Error(
-      `Unknown provider "${providerId}". Supported providers: ${supported}.\nRun \`oac doctor\` to check your environment setup.`,
+      unavailable.length === 1
+        ? `Agent CLI "${only.id}" is not available: ${only.reason}.\nInstall the ${only.id} CLI or switch providers.\nRun \`oac doctor\` for setup instructions.`
+        : `None of the configured agent CLIs is available (${unavailable.map((entry) => entry.id).join(", ")}).\nRun \`oac doctor\` for setup instructions.`,
     );
   }
 
-  const adapter = factory();
-  const availability = await adapter.checkAvailability();
-  if (!availability.available) {
-    throw new Error(
-      `Agent CLI "${normalizedId}" is not available: ${availability.error ?? "unknown reason"}.\nInstall the ${normalizedId} CLI or switch providers.\nRun \`oac doctor\` for setup instructions.`,
+  if (unavailable.length > 0 && !ctx.suppressOutput) {
+    const skipped = unavailable.map((entry) => `${entry.id} (${entry.reason})`).join(", ");
+    console.warn(
+      ctx.ui.yellow(
+        `[oac] Skipping unavailable provider(s): ${skipped}. Using ${adapters.map((adapter) => adapter.id).join(" → ")}.`,
+      ),
     );
   }
 
-  return { adapter };
+  return adapters;
 }
 
 export function renderSelectedPlanTable(
@@ -626,7 +1219,11 @@ export function renderTaskResults(ui: ChalkInstance, taskResults: TaskRunResult[
   for (let index = 0; index < taskResults.length; index += 1) {
     const result = taskResults[index];
     const icon = result.execution.success ? ui.green("[OK]") : ui.red("[X]");
-    const status = result.execution.success ? ui.green("SUCCESS") : ui.red("FAILED");
+    const status = result.execution.success
+      ? ui.green("SUCCESS")
+      : result.status === "aborted"
+        ? ui.yellow("ABORTED")
+        : ui.red("FAILED");
 
     console.log(`${icon} [${index + 1}/${taskResults.length}] ${result.task.title}`);
     console.log(
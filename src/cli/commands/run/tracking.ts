@@ -4,9 +4,16 @@ import { join, resolve } from "node:path";
 import { execa } from "execa";
 
 import type { Task } from "../../../core/index.js";
-import type { ContributionLog } from "../../../tracking/index.js";
-import { writeContributionLog } from "../../../tracking/index.js";
+import type {
+  AlternativeTask,
+  ContributionLog,
+  DecisionContext,
+  DelegationActivityRecord,
+} from "../../../tracking/index.js";
+import { buildDecisionContext, writeContributionLog } from "../../../tracking/index.js";
 import { createSpinner } from "../../helpers.js";
+import { completeDelegations, readTaskDelegation, toDelegationLogEntries } from "./delegation.js";
+import { readTaskOrganization } from "./organization.js";
 import type {
   CompletionStatus,
   ExecutionOutcome,
@@ -14,6 +21,9 @@ import type {
   TaskRunResult,
 } from "./types.js";
 
+/** Unattempted tasks listed as alternatives in each decision context. */
+const MAX_ALTERNATIVE_TASKS = 5;
+
 export async function writeTracking(
   ctx: PipelineContext,
   params: {
@@ -33,6 +43,10 @@ export async function writeTracking(
   const { resolvedRepo, providerId, totalBudget, candidateTasks, completedTasks } = params;
   const runDurationSeconds = (Date.now() - ctx.runStartedAt) / 1000;
 
+  await completeDelegations(ctx, completedTasks);
+  const delegationActivity =
+    (await ctx.delegations?.getUnloggedActivity(resolvedRepo.fullName)) ?? [];
+
   const contributionLog = buildContributionLog({
     runId: ctx.runId,
     repoFullName: resolvedRepo.fullName,
@@ -43,12 +57,15 @@ export async function writeTracking(
     totalBudget,
     runDurationSeconds,
     discoveredTasks: candidateTasks.length,
+    candidateTasks,
     taskResults: completedTasks,
+    delegations: toDelegationLogEntries(delegationActivity, resolvedRepo.fullName),
   });
 
   const trackingSpinner = createSpinner(ctx.suppressOutput, "Writing contribution log...");
   try {
     const logPath = await writeContributionLog(contributionLog, resolvedRepo.localPath);
+    await ctx.delegations?.markActivityLogged(resolvedRepo.fullName, delegationActivity);
     trackingSpinner?.succeed(`Contribution log written: ${logPath}`);
     return logPath;
   } catch (error) {
@@ -71,29 +88,62 @@ export function buildContributionLog(input: {
   totalBudget: number;
   runDurationSeconds: number;
   discoveredTasks: number;
+  /** Discovered tasks; those not attempted are recorded as alternatives in decision contexts. */
+  candidateTasks?: Task[];
   taskResults: TaskRunResult[];
+  /** Delegation steps involving the repo that no earlier log recorded. */
+  delegations?: DelegationActivityRecord[];
 }): ContributionLog {
   const timestamp = new Date().toISOString();
   const contributor = resolveGithubUsername(input.repoOwner);
+  const attempted = new Set(input.taskResults.map((result) => result.task.id));
+  const alternatives = (input.candidateTasks ?? [])
+    .filter((task) => !attempted.has(task.id))
+    .slice(0, MAX_ALTERNATIVE_TASKS)
+    .map((task) => ({ taskId: task.id, title: task.title, reason: "Not selected for this run" }));
+  let budgetUsed = 0;
 
-  const contributionTasks = input.taskResults.map((result) => ({
-    taskId: result.task.id,
-    title: result.task.title,
-    source: result.task.source,
-    complexity: result.task.complexity,
-    status: deriveTaskStatus(result.execution),
-    tokensUsed: Math.max(0, Math.floor(result.execution.totalTokensUsed)),
-    duration: Math.max(0, result.execution.duration),
-    filesChanged: result.execution.filesChanged,
-    pr: result.pr,
-    linkedIssue: result.task.linkedIssue
-      ? {
-          number: result.task.linkedIssue.number,
-          url: result.task.linkedIssue.url,
-        }
-      : undefined,
-    error: result.execution.error,
-  }));
+  const contributionTasks = input.taskResults.map((result) => {
+    budgetUsed += result.estimate.totalEstimatedTokens;
+    return {
+      taskId: result.task.id,
+      title: result.task.title,
+      source: result.task.source,
+      complexity: result.task.complexity,
+      status: deriveTaskStatus(result.execution),
+      provider: result.provider,
+      transcript: result.transcript,
+      tokensUsed: Math.max(0, Math.floor(result.execution.totalTokensUsed)),
+      duration: Math.max(0, result.execution.duration),
+      filesChanged: result.execution.filesChanged,
+      pr: result.pr,
+      linkedIssue: result.task.linkedIssue
+        ? {
+            number: result.task.linkedIssue.number,
+            url: result.task.linkedIssue.url,
+          }
+        : undefined,
+      error: result.execution.error,
+      validation: result.validation
+        ? {
+            passed: result.validation.passed,
+            action: result.validation.action,
+            gates: result.validation.results,
+            diffErrors: result.validation.diffErrors,
+          }
+        : undefined,
+      repairRounds: result.repairRounds,
+      candidates: result.candidates?.map((candidate) => ({
+        ...candidate,
+        tokensUsed: Math.max(0, Math.floor(candidate.tokensUsed)),
+      })),
+      delegationId: readTaskDelegation(result.task)?.id,
+      decisionContext: buildTaskDecision(result, {
+        remainingBudget: Math.max(0, input.totalBudget - budgetUsed),
+        alternatives,
+      }),
+    };
+  });
 
   const tasksSucceeded = contributionTasks.filter((task) => task.status !== "failed").length;
   const tasksFailed = contributionTasks.length - tasksSucceeded;
@@ -132,10 +182,47 @@ export function buildContributionLog(input: {
       totalLinesAdded: 0,
       totalLinesRemoved: 0,
     },
+    delegations: input.delegations?.length ? input.delegations : undefined,
   };
 }
 
+/**
+ * Why the task ran and which mission, project and goal it served. Only
+ * recorded when `organization` config applies to the task.
+ */
+function buildTaskDecision(
+  result: TaskRunResult,
+  context: { remainingBudget: number; alternatives: AlternativeTask[] },
+): DecisionContext | undefined {
+  const organization = readTaskOrganization(result.task);
+  if (!organization) return undefined;
+
+  const reasons = [`Planned within the token budget (priority ${result.task.priority})`];
+  if (organization.role) {
+    reasons.push(`routed to role "${organization.role.name}" (${organization.role.agent})`);
+  }
+  if (organization.goalAlignment?.goalTitle) {
+    reasons.push(`serves goal "${organization.goalAlignment.goalTitle}"`);
+  }
+
+  return buildDecisionContext({
+    taskSelectionReason: reasons.join("; "),
+    alternativeTasks: context.alternatives,
+    goalAlignment: organization.goalAlignment,
+    budgetConsiderations: {
+      estimatedCost: Math.max(0, result.estimate.totalEstimatedTokens),
+      remainingBudget: context.remainingBudget,
+      priorityScore: result.task.priority,
+    },
+  });
+}
+
 export function deriveTaskStatus(execution: ExecutionOutcome): CompletionStatus {
+  // Stopped at its token budget: whatever the agent got done is kept as partial work.
+  if (execution.errorCode === "AGENT_TOKEN_LIMIT") {
+    return "partial";
+  }
+
   if (execution.success) {
     // Double-check: if all changed files are .oac/ metadata, it's not really a success
     const realFiles = execution.filesChanged.filter((f) => !f.startsWith(".oac/"));
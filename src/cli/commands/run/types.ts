@@ -1,6 +1,15 @@
 import type { ChalkInstance } from "chalk";
-import type { Task, TokenEstimate } from "../../../core/index.js";
+import type { ValidationGateResult } from "../../../completion/index.js";
+import type {
+  ExecutionErrorCode,
+  OacConfig,
+  OacEventBus,
+  Task,
+  TokenEstimate,
+} from "../../../core/index.js";
 import { UNLIMITED_BUDGET } from "../../../core/index.js";
+import type { AgentAvailability, JobStatus, PromptTemplates } from "../../../execution/index.js";
+import type { DelegationManager, OrganizationConfig } from "../../../organization/index.js";
 import type { GlobalCliOptions } from "../../helpers.js";
 import { formatInteger } from "../../helpers.js";
 
@@ -15,6 +24,10 @@ export interface RunCommandOptions {
   timeout?: number;
   source?: string;
   retryFailed?: boolean;
+  /** Run every repo in `repos` with one shared budget. */
+  all?: boolean;
+  /** Run only this accepted delegation (id or prefix); set by `oac delegate run`. */
+  delegation?: string;
 }
 
 export interface ContextAck {
@@ -38,6 +51,12 @@ export interface SandboxInfo {
 }
 
 export type RunMode = "new-pr" | "update-pr" | "direct-commit" | "branch-only";
+export type ValidationSettings = OacConfig["execution"]["validation"];
+export type ReviewSettings = OacConfig["execution"]["review"];
+export type CompetitionSettings = OacConfig["execution"]["competition"];
+export type PrSettings = OacConfig["execution"]["pr"];
+/** Per-task token budget enforcement (`budget.warnThreshold`, `budget.enforcement`). */
+export type BudgetSettings = Pick<OacConfig["budget"], "warnThreshold" | "enforcement">;
 export type SupportedScanner = "lint" | "github-issues" | "test-gap";
 export type CompletionStatus = "success" | "partial" | "failed";
 
@@ -48,13 +67,32 @@ export interface ExecutionOutcome {
   filesChanged: string[];
   duration: number;
   error?: string;
+  errorCode?: ExecutionErrorCode;
 }
 
 export interface TaskRunResult {
+  /** Execution id used for `execution:*` / `pr:*` events on the run event bus. */
+  jobId?: string;
   task: Task;
   estimate: TokenEstimate;
   execution: ExecutionOutcome;
   sandbox?: SandboxInfo;
+  /** Provider that ran the final attempt; differs from the primary after a fallback. */
+  provider?: string;
+  /** Agent transcript (`.oac/transcripts/<runId>/<taskId>.jsonl`), relative to the cwd. */
+  transcript?: string;
+  /** Final ExecutionEngine job state (`completed`, `failed` or `aborted`). */
+  status?: JobStatus;
+  /** Number of attempts the engine made, including retries. */
+  attempts?: number;
+  /** Post-execution lint/test/type-check gates run in the sandbox. */
+  validation?: ValidationOutcome;
+  /** Follow-up agent runs that tried to fix failed validation or review comments, in order. */
+  repairRounds?: RepairRound[];
+  /** Verdict of the critic pass (`execution.review`), when it ran. */
+  review?: ReviewOutcome;
+  /** Best-of-N candidates (`execution.competition`), winner included, in candidate order. */
+  candidates?: CandidateOutcome[];
   pr?: {
     number: number;
     url: string;
@@ -62,6 +100,70 @@ export interface TaskRunResult {
   };
 }
 
+export interface ValidationOutcome {
+  passed: boolean;
+  /** `draft`: the PR was opened as a draft; `blocked`: no PR or push happened. */
+  action: "none" | "draft" | "blocked";
+  results: ValidationGateResult[];
+  /** Diff check warnings, e.g. a diff close to `maxDiffLines`; they never block. */
+  warnings?: string[];
+  /** Diff policy violations (size, forbidden patterns, protected files); these always block. */
+  diffErrors?: string[];
+  /** Inserted plus deleted lines against the base branch. */
+  linesChanged?: number;
+}
+
+export interface CandidateOutcome {
+  /** 1-based candidate number. */
+  candidate: number;
+  provider: string;
+  /** Index into `execution.competition.promptVariants`, when variants are configured. */
+  variant?: number;
+  branchName?: string;
+  /** Tokens this candidate spent, including its critic review. */
+  tokensUsed: number;
+  /** 0–100; `undefined` when the candidate failed and could not be scored. */
+  score?: number;
+  validationPassed?: boolean;
+  linesChanged?: number;
+  verdict?: ReviewOutcome["verdict"];
+  winner: boolean;
+  error?: string;
+}
+
+export interface ReviewComment {
+  path?: string;
+  line?: number;
+  body: string;
+}
+
+export interface ReviewOutcome {
+  /** Provider that reviewed the final diff. */
+  reviewer: string;
+  verdict: "approve" | "request_changes" | "reject";
+  /** Reviewer's confidence in its verdict, 0–1. */
+  confidence: number;
+  summary: string;
+  comments: ReviewComment[];
+  /** Repair rounds run on review feedback. */
+  rounds: number;
+  tokensUsed: number;
+  /** `draft`: the PR was opened as a draft; `dropped`: no PR was opened. */
+  action: "none" | "draft" | "dropped";
+}
+
+export interface RepairRound {
+  /** 1-based round number. */
+  round: number;
+  /** What the round was asked to fix: `diff` and/or the failed gate names, or `review`. */
+  trigger: string[];
+  tokensUsed: number;
+  /** Whether every check (or the re-review) passed after the round. */
+  passed: boolean;
+  /** Set when the agent run itself failed. */
+  error?: string;
+}
+
 export interface RunSummaryOutput {
   runId: string;
   repo: string;
@@ -71,14 +173,33 @@ export interface RunSummaryOutput {
   deferredTasks: number;
   tasksCompleted: number;
   tasksFailed: number;
+  tasksAborted?: number;
+  retries?: number;
   prsCreated: number;
   tokensUsed: number;
   tokensBudgeted: number;
   logPath?: string;
 }
 
+/** Summary of a multi-repo run: one entry per repo plus run-wide totals. */
+export interface MultiRepoRunSummaryOutput {
+  runId: string;
+  provider: string;
+  dryRun: boolean;
+  repos: RunSummaryOutput[];
+  selectedTasks: number;
+  deferredTasks: number;
+  tasksCompleted: number;
+  tasksFailed: number;
+  prsCreated: number;
+  tokensUsed: number;
+  tokensBudgeted: number;
+}
+
 export const DEFAULT_TIMEOUT_SECONDS = 300;
 export const DEFAULT_CONCURRENCY = 2;
+/** Retries per task after the first attempt when `execution.maxRetries` is unset. */
+export const DEFAULT_MAX_RETRIES = 2;
 /** Timeout for git push / gh pr create operations (2 minutes). */
 export const PR_CREATION_TIMEOUT_MS = 120_000;
 
@@ -103,6 +224,8 @@ export const EXIT_CONFIG_ERROR = 2;
 export const EXIT_ALL_FAILED = 3;
 /** At least one task/epic succeeded but others failed. */
 export const EXIT_PARTIAL_SUCCESS = 4;
+/** A second SIGINT forced the run to exit before aborted tasks wound down. */
+export const EXIT_INTERRUPTED = 130;
 
 /**
  * Derive the appropriate exit code from a set of execution results.
@@ -125,8 +248,21 @@ export interface PipelineContext {
   suppressOutput: boolean;
   runId: string;
   runStartedAt: number;
+  /** Run-wide event bus; feeds `.oac/status.json` via the run status writer. */
+  eventBus: OacEventBus;
   contextAck?: ContextAck;
   repoGuide?: import("./repo-guide.js").RepoGuide;
+  /** Prompt template overrides from `.oac/prompts/` and `execution.prompts`. */
+  promptTemplates?: PromptTemplates;
+  /** Roles, mission and project goals from `organization`; routes tasks and feeds prompts. */
+  organization?: OrganizationConfig;
+  /** Persisted cross-repo delegation queue; accepted delegations become tasks of the run. */
+  delegations?: DelegationManager;
+  /**
+   * `checkAvailability()` results per provider id, shared by every stage of
+   * the run and by every repo of a multi-repo run.
+   */
+  agentAvailability?: Map<string, Promise<AgentAvailability>>;
 }
 
 export function formatBudgetDisplay(budget: number): string {
@@ -0,0 +1,170 @@
+import { runValidationGates, validateDiff } from "../../../completion/index.js";
+import { ValidationSchema, filterRealChanges } from "../../../core/index.js";
+import {
+  type RepairAgent,
+  type SandboxCheck,
+  buildRepairPrompt,
+  repairTriggers,
+  runRepairRound,
+} from "./repair.js";
+import type { PipelineContext, RepairRound, TaskRunResult, ValidationSettings } from "./types.js";
+
+/**
+ * Check the task's sandbox once the agent is done: the diff policy
+ * (`maxDiffLines`, forbidden patterns, protected files) and the repo's lint,
+ * test and type-check commands. With `repair.maxRounds` set, failures are
+ * handed back to the same agent in the same sandbox until the checks pass or
+ * the rounds or `repair.tokenBudget` run out.
+ *
+ * Diff violations always block. Failing gates either downgrade the PR to a
+ * draft or block it (`execution.validation.onFailure`); a blocked task is
+ * reported as failed so it shows up in the summary and in `--retry-failed`.
+ */
+export async function runValidationStage(
+  ctx: PipelineContext,
+  result: TaskRunResult,
+  params: {
+    settings?: ValidationSettings;
+    repoPath: string;
+    baseBranch: string;
+    /** Agent used for repair rounds; without it failures are reported as-is. */
+    repair?: RepairAgent;
+  },
+): Promise<TaskRunResult> {
+  const { sandbox, execution } = result;
+  if (!sandbox || !execution.success || filterRealChanges(execution.filesChanged).length === 0) {
+    return result;
+  }
+
+  const settings = params.settings ?? ValidationSchema.parse(undefined);
+  let current = result;
+  let check = await checkSandbox(ctx, current, settings, params);
+
+  const repairRounds: RepairRound[] = [];
+  let repairTokens = 0;
+  while (
+    !check.passed &&
+    params.repair &&
+    repairRounds.length < settings.repair.maxRounds &&
+    repairTokens < settings.repair.tokenBudget
+  ) {
+    const round = repairRounds.length + 1;
+    const trigger = repairTriggers(check);
+    const attempt = await runRepairRound(ctx, current, {
+      agent: params.repair,
+      instructions: buildRepairPrompt(current.task, check),
+      reason: "validation",
+      round,
+      tokenBudget: settings.repair.tokenBudget - repairTokens,
+      baseBranch: params.baseBranch,
+    });
+    repairTokens += attempt.tokensUsed;
+    current = {
+      ...current,
+      execution: {
+        ...current.execution,
+        totalTokensUsed: current.execution.totalTokensUsed + attempt.tokensUsed,
+        filesChanged: attempt.filesChanged,
+      },
+    };
+
+    check = await checkSandbox(ctx, current, settings, params);
+    repairRounds.push({
+      round,
+      trigger,
+      tokensUsed: attempt.tokensUsed,
+      passed: check.passed,
+      error: attempt.error,
+    });
+    if (attempt.error) {
+      break;
+    }
+  }
+
+  if (repairRounds.length > 0) {
+    current = { ...current, repairRounds: [...(current.repairRounds ?? []), ...repairRounds] };
+  }
+
+  const diffErrors = check.diff.valid ? undefined : check.diff.errors;
+  const warnings = check.diff.warnings.length > 0 ? check.diff.warnings : undefined;
+  if (check.passed) {
+    return {
+      ...current,
+      validation: {
+        ...check.gates,
+        action: "none",
+        warnings,
+        linesChanged: check.diff.linesChanged,
+      },
+    };
+  }
+
+  const failedGates = check.gates.results
+    .filter((gate) => gate.status === "failed")
+    .map((gate) => gate.gate);
+  const action = diffErrors || settings.onFailure === "block" ? "blocked" : "draft";
+
+  if (!ctx.suppressOutput) {
+    const consequence = action === "blocked" ? "PR blocked" : "opening PR as draft";
+    const repaired = repairRounds.length > 0 ? ` after ${repairRounds.length} repair round(s)` : "";
+    console.warn(
+      ctx.ui.yellow(
+        `[oac] Validation failed for "${current.task.title}" (${repairTriggers(check).join(", ")})${repaired}; ${consequence}.`,
+      ),
+    );
+  }
+
+  const validation = {
+    ...check.gates,
+    passed: false,
+    action,
+    warnings,
+    diffErrors,
+    linesChanged: check.diff.linesChanged,
+  } as const;
+  if (action === "draft") {
+    return { ...current, validation };
+  }
+
+  return {
+    ...current,
+    validation,
+    execution: {
+      ...current.execution,
+      success: false,
+      error: diffErrors
+        ? `Diff validation failed: ${diffErrors.join(" ")}`
+        : `Validation gates failed: ${failedGates.join(", ")}`,
+    },
+  };
+}
+
+async function checkSandbox(
+  ctx: PipelineContext,
+  result: TaskRunResult,
+  settings: ValidationSettings,
+  params: { repoPath: string; baseBranch: string },
+): Promise<SandboxCheck> {
+  const sandboxPath = result.sandbox?.sandboxPath ?? params.repoPath;
+  const jobId = result.jobId ?? result.task.id;
+
+  ctx.eventBus.emit("execution:progress", {
+    jobId,
+    tokensUsed: result.execution.totalTokensUsed,
+    stage: "completion:validateDiff",
+  });
+  const diff = await validateDiff(
+    sandboxPath,
+    { maxDiffLines: settings.maxDiffLines },
+    { baseRef: `origin/${params.baseBranch}` },
+  );
+
+  ctx.eventBus.emit("execution:progress", {
+    jobId,
+    tokensUsed: result.execution.totalTokensUsed,
+    stage: "completion:validationGates",
+  });
+  const gates = await runValidationGates(sandboxPath, settings);
+
+  return { passed: diff.valid && gates.passed, diff, gates };
+}
@@ -4,10 +4,15 @@ import { Command } from "commander";
 import type { OacConfig } from "../../core/index.js";
 import {
   CompositeScanner,
+  DeadCodeScanner,
   GitHubIssuesScanner,
   LintScanner,
   type Scanner,
+  type ScannerFailure,
+  SecurityScanner,
   TestGapScanner,
+  TodoScanner,
+  createCustomScanners,
   rankTasks,
 } from "../../discovery/index.js";
 import { cloneRepo, resolveRepo } from "../../repo/index.js";
@@ -22,6 +27,7 @@ import {
   resolveRepoInput,
   truncate,
 } from "../helpers.js";
+import { repoGoals } from "./run/organization.js";
 
 interface ScanCommandOptions {
   repo?: string;
@@ -31,9 +37,24 @@ interface ScanCommandOptions {
 }
 
 type OutputFormat = "table" | "json";
-type SupportedScanner = "lint" | "github-issues" | "test-gap";
-
-const SUPPORTED_SCANNERS: SupportedScanner[] = ["lint", "github-issues", "test-gap"];
+type SupportedScanner =
+  | "lint"
+  | "todo"
+  | "github-issues"
+  | "test-gap"
+  | "dead-code"
+  | "security"
+  | "custom";
+
+const SUPPORTED_SCANNERS: SupportedScanner[] = [
+  "lint",
+  "todo",
+  "github-issues",
+  "test-gap",
+  "dead-code",
+  "security",
+  "custom",
+];
 
 export function createScanCommand(): Command {
   const command = new Command("scan");
@@ -41,7 +62,10 @@ export function createScanCommand(): Command {
   command
     .description("Quick task discovery — list individual issues ranked by priority")
     .option("--repo <owner/repo>", "Target repository (owner/repo or GitHub URL)")
-    .option("--scanners <names>", "Comma-separated scanner filter (lint,test-gap)")
+    .option(
+      "--scanners <names>",
+      "Comma-separated scanner filter (lint,todo,test-gap,dead-code,security,custom)",
+    )
     .option("--min-priority <number>", "Minimum priority threshold (0-100)", parseInteger, 20)
     .option("--format <format>", "Output format: table|json", "table")
     .action(async (options: ScanCommandOptions, cmd) => {
@@ -81,18 +105,21 @@ export function createScanCommand(): Command {
         `Running scanners: ${scannerSelection.enabled.join(", ")}`,
       );
 
-      const scannedTasks = await scannerSelection.scanner.scan(resolvedRepo.localPath, {
-        exclude: config?.discovery.exclude,
-        maxTasks: config?.discovery.maxTasks,
-        issueLabels: config?.discovery.issueLabels,
-        repo: resolvedRepo,
-      });
+      const { tasks: scannedTasks, failures } = await scannerSelection.scanner.scanWithReport(
+        resolvedRepo.localPath,
+        {
+          exclude: config?.discovery.exclude,
+          maxTasks: config?.discovery.maxTasks,
+          issueLabels: config?.discovery.issueLabels,
+          repo: resolvedRepo,
+        },
+      );
 
       scanSpinner?.succeed(`Scanned ${resolvedRepo.fullName}`);
 
-      const rankedTasks = rankTasks(scannedTasks).filter(
-        (task) => task.priority >= options.minPriority,
-      );
+      const rankedTasks = rankTasks(scannedTasks, {
+        goals: repoGoals(config?.organization, resolvedRepo.fullName),
+      }).filter((task) => task.priority >= options.minPriority);
 
       if (outputJson) {
         console.log(
@@ -103,6 +130,7 @@ export function createScanCommand(): Command {
               minPriority: options.minPriority,
               totalTasks: rankedTasks.length,
               tasks: rankedTasks,
+              failures,
             },
             null,
             2,
@@ -111,6 +139,8 @@ export function createScanCommand(): Command {
         return;
       }
 
+      printScannerFailures(ui, failures);
+
       if (rankedTasks.length === 0) {
         console.log(ui.yellow("No tasks discovered for the selected criteria."));
         return;
@@ -154,6 +184,18 @@ Examples:
   return command;
 }
 
+function printScannerFailures(ui: ChalkInstance, failures: ScannerFailure[]): void {
+  if (failures.length === 0) {
+    return;
+  }
+
+  console.log(ui.yellow(`${failures.length} scanner(s) failed:`));
+  for (const failure of failures) {
+    console.log(ui.yellow(`  - ${failure.scannerName}: ${failure.error}`));
+  }
+  console.log("");
+}
+
 function normalizeOutputFormat(value: string): OutputFormat {
   const normalized = value.trim().toLowerCase();
   if (normalized === "table" || normalized === "json") {
@@ -187,8 +229,12 @@ function selectScanners(
     const normalized = scannerName.toLowerCase();
     if (
       normalized === "lint" ||
+      normalized === "todo" ||
       normalized === "github-issues" ||
-      normalized === "test-gap"
+      normalized === "test-gap" ||
+      normalized === "dead-code" ||
+      normalized === "security" ||
+      normalized === "custom"
     ) {
       enabled.push(normalized as SupportedScanner);
     } else {
@@ -203,9 +249,13 @@ function selectScanners(
     );
   }
 
-  const scannerInstances: Scanner[] = uniqueEnabled.map((name) => {
+  const scannerInstances: Scanner[] = uniqueEnabled.flatMap((name): Scanner | Scanner[] => {
+    if (name === "custom") return createCustomScanners(config?.discovery.customScanners ?? []);
     if (name === "github-issues") return new GitHubIssuesScanner();
+    if (name === "todo") return new TodoScanner();
     if (name === "test-gap") return new TestGapScanner();
+    if (name === "dead-code") return new DeadCodeScanner();
+    if (name === "security") return new SecurityScanner();
     return new LintScanner();
   });
 
@@ -228,12 +278,24 @@ function scannersFromConfig(
   if (config.discovery.scanners.lint) {
     configured.push("lint");
   }
+  if (config.discovery.scanners.todo) {
+    configured.push("todo");
+  }
   if (config.discovery.scanners.testGap) {
     configured.push("test-gap");
   }
+  if (config.discovery.scanners.deadCode) {
+    configured.push("dead-code");
+  }
+  if (config.discovery.scanners.security) {
+    configured.push("security");
+  }
   if (hasGitHubAuth) {
     configured.push("github-issues");
   }
+  if (config.discovery.customScanners.length > 0) {
+    configured.push("custom");
+  }
 
   if (configured.length === 0) {
     return null;
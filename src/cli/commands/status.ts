@@ -1,31 +1,20 @@
 import { readFile } from "node:fs/promises";
-import { resolve } from "node:path";
 
 import { Command } from "commander";
 
 import { isRecord } from "../../core/utils.js";
-import { getGlobalOptions } from "../helpers.js";
+import {
+  type RunStatus,
+  type RunStatusTask,
+  isRunStatusStale,
+  resolveRunStatusPath,
+} from "../../tracking/index.js";
+import { formatInteger, getGlobalOptions } from "../helpers.js";
 
 interface StatusCommandOptions {
   watch?: boolean;
 }
 
-interface RunStatus {
-  runId: string;
-  startedAt: string;
-  agent: string;
-  tasks: RunStatusTask[];
-}
-
-interface RunStatusTask {
-  taskId: string;
-  title: string;
-  status: "pending" | "running" | "completed" | "failed";
-  startedAt?: string;
-  completedAt?: string;
-  error?: string;
-}
-
 const WATCH_INTERVAL_MS = 2_000;
 
 export function createStatusCommand(): Command {
@@ -75,7 +64,7 @@ export function createStatusCommand(): Command {
 }
 
 async function readRunStatus(repoPath: string): Promise<RunStatus | null> {
-  const statusPath = resolve(repoPath, ".oac", "status.json");
+  const statusPath = resolveRunStatusPath(repoPath);
 
   try {
     const raw = await readFile(statusPath, "utf8");
@@ -114,6 +103,10 @@ function parseRunStatus(payload: unknown): RunStatus {
     startedAt,
     agent,
     tasks: tasks.map((task, index) => parseRunStatusTask(task, index)),
+    pid: readOptionalNumber(payload.pid),
+    updatedAt: readOptionalString(payload.updatedAt),
+    finishedAt: readOptionalString(payload.finishedAt),
+    tokensUsed: readOptionalNumber(payload.tokensUsed),
   };
 }
 
@@ -132,7 +125,11 @@ function parseRunStatusTask(task: unknown, index: number): RunStatusTask {
   if (
     typeof taskId !== "string" ||
     typeof title !== "string" ||
-    (status !== "pending" && status !== "running" && status !== "completed" && status !== "failed")
+    (status !== "pending" &&
+      status !== "running" &&
+      status !== "completed" &&
+      status !== "failed" &&
+      status !== "aborted")
   ) {
     throw new Error(`Invalid task at index ${String(index)} in .oac/status.json.`);
   }
@@ -156,9 +153,20 @@ function parseRunStatusTask(task: unknown, index: number): RunStatusTask {
     startedAt,
     completedAt,
     error,
+    tokensUsed: readOptionalNumber(task.tokensUsed),
+    stage: readOptionalString(task.stage),
+    prUrl: readOptionalString(task.prUrl),
   };
 }
 
+function readOptionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function readOptionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
 function renderStatusOutput(status: RunStatus | null, outputJson: boolean): void {
   if (outputJson) {
     if (!status) {
@@ -175,10 +183,12 @@ function renderStatusOutput(status: RunStatus | null, outputJson: boolean): void
       return;
     }
 
+    const stale = isRunStatusStale(status);
     console.log(
       JSON.stringify(
         {
-          active: true,
+          active: !status.finishedAt && !stale,
+          stale,
           status,
         },
         null,
@@ -193,19 +203,35 @@ function renderStatusOutput(status: RunStatus | null, outputJson: boolean): void
     return;
   }
 
+  if (isRunStatusStale(status)) {
+    const owner = status.pid !== undefined ? ` (process ${String(status.pid)} is gone)` : "";
+    console.log(
+      `Stale run detected${owner}: last update ${status.updatedAt ?? status.startedAt}. The run likely crashed.`,
+    );
+  } else if (status.finishedAt) {
+    console.log(`Run finished at ${status.finishedAt}`);
+  }
+
   const runningTasks = status.tasks.filter((task) => task.status === "running");
   const completedTasks = status.tasks.filter((task) => task.status === "completed");
   const failedTasks = status.tasks.filter((task) => task.status === "failed");
+  const abortedTasks = status.tasks.filter((task) => task.status === "aborted");
 
   console.log(`Run ID: ${status.runId}`);
   console.log(`Start Time: ${status.startedAt}`);
   console.log(`Agent: ${status.agent}`);
+  if (status.tokensUsed !== undefined) {
+    console.log(`Tokens Used: ${formatInteger(status.tokensUsed)}`);
+  }
   console.log(
     `Tasks In Progress (${String(runningTasks.length)}): ${formatTaskList(runningTasks)}`,
   );
   console.log(
     `Completed Tasks (${String(completedTasks.length)}): ${formatTaskList(completedTasks)}`,
   );
+  if (abortedTasks.length > 0) {
+    console.log(`Aborted Tasks (${String(abortedTasks.length)}): ${formatTaskList(abortedTasks)}`);
+  }
 
   if (failedTasks.length === 0) {
     console.log("Errors: none");
@@ -223,7 +249,21 @@ function formatTaskList(tasks: RunStatusTask[]): string {
     return "-";
   }
 
-  return tasks.map((task) => `${task.taskId} (${task.title})`).join(", ");
+  return tasks.map(formatTask).join(", ");
+}
+
+function formatTask(task: RunStatusTask): string {
+  const details = [task.title];
+  if (task.status === "running" && task.stage) {
+    details.push(task.stage);
+  }
+  if (task.tokensUsed) {
+    details.push(`${formatInteger(task.tokensUsed)} tokens`);
+  }
+  if (task.prUrl) {
+    details.push(task.prUrl);
+  }
+  return `${task.taskId} (${details.join(", ")})`;
 }
 
 function isFileNotFoundError(error: unknown): boolean {
@@ -0,0 +1,229 @@
+import { resolve } from "node:path";
+
+import type { ChalkInstance } from "chalk";
+import Table from "cli-table3";
+import { Command } from "commander";
+
+import {
+  type TranscriptEntry,
+  type TranscriptSummary,
+  listTranscripts,
+  readTranscript,
+} from "../../tracking/index.js";
+import { createUi, formatInteger, getGlobalOptions, parseInteger, truncate } from "../helpers.js";
+
+interface TranscriptCommandOptions {
+  run?: string;
+  type?: string;
+  limit: number;
+}
+
+const EVENT_TYPES = ["output", "tool_use", "file_edit", "tokens", "error"] as const;
+const SPARK_LEVELS = "▁▂▃▄▅▆▇█";
+const CURVE_WIDTH = 40;
+
+export function createTranscriptCommand(): Command {
+  const command = new Command("transcript");
+
+  command
+    .description("List and inspect persisted agent transcripts")
+    .argument("[task]", "Task id (or unique prefix) to print")
+    .option("--run <id>", "Only transcripts of this run (id or prefix)")
+    .option("--type <types>", `Event types to print (comma-separated: ${EVENT_TYPES.join(", ")})`)
+    .option("--limit <number>", "Max transcripts to list", parseInteger, 20)
+    .action(async (task: string | undefined, options: TranscriptCommandOptions, cmd) => {
+      if (options.limit <= 0) {
+        throw new Error("--limit must be a positive integer.");
+      }
+
+      const globalOptions = getGlobalOptions(cmd);
+      const ui = createUi(globalOptions);
+      const repoPath = process.cwd();
+
+      const summaries = (await listTranscripts(repoPath)).filter((summary) =>
+        options.run ? summary.runId.startsWith(options.run) : true,
+      );
+
+      if (!task) {
+        const listed = summaries.slice(0, options.limit);
+        if (globalOptions.json) {
+          console.log(JSON.stringify({ total: summaries.length, transcripts: listed }, null, 2));
+          return;
+        }
+        renderList(listed);
+        return;
+      }
+
+      const summary = findTranscript(summaries, task);
+      const types = parseTypes(options.type);
+      const entries = await readTranscript(resolve(repoPath, summary.relativePath));
+
+      if (globalOptions.json) {
+        const visible = entries.filter((entry) => isVisible(entry, types, true));
+        console.log(JSON.stringify({ transcript: summary, entries: visible }, null, 2));
+        return;
+      }
+      renderTranscript(ui, summary, entries, types);
+    });
+
+  command.addHelpText(
+    "after",
+    `\nExamples:
+  $ oac transcript
+  $ oac transcript --run 3f2a
+  $ oac transcript a1b2c3 --type tool_use,file_edit`,
+  );
+
+  return command;
+}
+
+function parseTypes(value: string | undefined): Set<string> | undefined {
+  if (!value) return undefined;
+
+  const types = value
+    .split(",")
+    .map((type) => type.trim())
+    .filter(Boolean);
+  const unknown = types.filter((type) => !(EVENT_TYPES as readonly string[]).includes(type));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown event type(s): ${unknown.join(", ")}. Expected: ${EVENT_TYPES.join(", ")}.`,
+    );
+  }
+  return new Set(types);
+}
+
+/**
+ * `start`/`end` frames are always kept. Without `--type`, token updates are
+ * left out of the pretty output (they are summarized as a curve instead).
+ */
+function isVisible(entry: TranscriptEntry, types: Set<string> | undefined, json: boolean): boolean {
+  if (entry.type === "start" || entry.type === "end") return true;
+  if (types) return types.has(entry.type);
+  return json || entry.type !== "tokens";
+}
+
+/** Newest run wins when the same task ran in several runs. */
+function findTranscript(summaries: TranscriptSummary[], task: string): TranscriptSummary {
+  const exact = summaries.find((summary) => summary.taskId === task);
+  if (exact) return exact;
+
+  const matches = summaries.filter((summary) => summary.taskId.startsWith(task));
+  const runs = new Set(matches.map((summary) => summary.runId));
+  if (matches.length === 0) {
+    throw new Error(`No transcript found for task "${task}".`);
+  }
+  if (matches.length > runs.size) {
+    throw new Error(`Task prefix "${task}" is ambiguous; use a longer prefix.`);
+  }
+  return matches[0];
+}
+
+function renderList(summaries: TranscriptSummary[]): void {
+  if (summaries.length === 0) {
+    console.log("No transcripts found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["Started", "Run", "Task", "Title", "Provider", "Events", "Tokens", "Result"],
+  });
+  for (const summary of summaries) {
+    table.push([
+      summary.startedAt ? summary.startedAt.slice(0, 16).replace("T", " ") : "-",
+      summary.runId.slice(0, 8),
+      summary.taskId.slice(0, 12),
+      truncate(summary.title ?? "-", 40),
+      summary.provider ?? "-",
+      String(summary.events),
+      formatInteger(summary.totalTokensUsed),
+      summary.success === undefined ? "-" : summary.success ? "success" : "failed",
+    ]);
+  }
+  console.log(table.toString());
+}
+
+function renderTranscript(
+  ui: ChalkInstance,
+  summary: TranscriptSummary,
+  entries: TranscriptEntry[],
+  types: Set<string> | undefined,
+): void {
+  console.log(ui.bold(summary.title ?? summary.taskId));
+  console.log(ui.dim(`${summary.relativePath} · ${summary.provider ?? "unknown provider"}`));
+  console.log("");
+
+  let startedAt = Date.parse(entries[0]?.ts ?? "");
+  for (const entry of entries) {
+    if (entry.type === "start") startedAt = Date.parse(entry.ts);
+    if (!isVisible(entry, types, false)) continue;
+
+    const line = formatEntry(ui, entry);
+    if (line) {
+      const offset = ((Date.parse(entry.ts) - startedAt) / 1_000).toFixed(1).padStart(7);
+      console.log(`${ui.dim(`+${offset}s`)}  ${line}`);
+    }
+  }
+
+  const curve = tokenCurve(entries);
+  if (curve) {
+    console.log("");
+    console.log(`Tokens ${curve}`);
+  }
+}
+
+function formatEntry(ui: ChalkInstance, entry: TranscriptEntry): string | undefined {
+  switch (entry.type) {
+    case "start":
+      return ui.blue(`▶ ${String(entry.provider)} started (${entry.executionId})`);
+    case "end":
+      return entry.success
+        ? ui.green(`■ finished · ${formatInteger(Number(entry.totalTokensUsed) || 0)} tokens`)
+        : ui.red(`■ failed · ${String(entry.error ?? "no error message")}`);
+    case "output": {
+      const content = String(entry.content ?? "");
+      return entry.stream === "stderr" ? ui.yellow(`│ ${content}`) : ui.dim(`│ ${content}`);
+    }
+    case "tool_use":
+      return `${ui.cyan(`⚙ ${String(entry.tool)}`)} ${truncate(JSON.stringify(entry.input) ?? "", 120)}`;
+    case "file_edit":
+      return ui.magenta(`✎ ${String(entry.action)} ${String(entry.path)}`);
+    case "tokens":
+      return ui.dim(
+        `Σ ${formatInteger(Number(entry.cumulativeTokens) || 0)} tokens (in ${formatInteger(Number(entry.inputTokens) || 0)}, out ${formatInteger(Number(entry.outputTokens) || 0)})`,
+      );
+    case "error":
+      return ui.red(`✖ ${String(entry.message)}`);
+    default:
+      return undefined;
+  }
+}
+
+/** Sparkline of cumulative tokens over the run, e.g. `▁▁▂▄▅▇█ 12,400`. */
+export function tokenCurve(entries: TranscriptEntry[]): string | undefined {
+  const points = entries
+    .filter((entry) => entry.type === "tokens" && typeof entry.cumulativeTokens === "number")
+    .map((entry) => ({ at: Date.parse(entry.ts), tokens: entry.cumulativeTokens as number }));
+  if (points.length === 0) return undefined;
+
+  const first = points[0].at;
+  const span = Math.max(1, points[points.length - 1].at - first);
+  const max = Math.max(1, ...points.map((point) => point.tokens));
+  const buckets = new Array<number>(Math.min(CURVE_WIDTH, points.length)).fill(0);
+
+  for (const point of points) {
+    const index = Math.min(
+      buckets.length - 1,
+      Math.floor(((point.at - first) / span) * buckets.length),
+    );
+    buckets[index] = Math.max(buckets[index], point.tokens);
+  }
+  for (let index = 1; index < buckets.length; index += 1) {
+    buckets[index] = Math.max(buckets[index], buckets[index - 1]);
+  }
+
+  const spark = buckets
+    .map((tokens) => SPARK_LEVELS[Math.round((tokens / max) * (SPARK_LEVELS.length - 1))])
+    .join("");
+  return `${spark} ${formatInteger(max)}`;
+}
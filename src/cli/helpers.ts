@@ -207,12 +207,26 @@ export function resolveProviderId(
   providerOption: string | undefined,
   config: OacConfig | null,
 ): string {
-  const fromFlag = providerOption?.trim();
-  if (fromFlag) {
-    return fromFlag;
-  }
+  return resolveProviderChain(providerOption, config)[0];
+}
 
-  return config?.provider.id ?? "claude-code";
+/**
+ * Ordered providers to try for a run: `--provider a,b` or `provider.id` when
+ * it is a list. The first entry is the primary provider used for estimates.
+ */
+export function resolveProviderChain(
+  providerOption: string | undefined,
+  config: OacConfig | null,
+): string[] {
+  const fromFlag = (providerOption ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+  const configured = config?.provider.id ?? "claude-code";
+  const chain =
+    fromFlag.length > 0 ? fromFlag : Array.isArray(configured) ? configured : [configured];
+
+  return [...new Set(chain)];
 }
 
 export function resolveBudget(tokensOption: number | undefined, config: OacConfig | null): number {
@@ -26,25 +26,37 @@ export interface DiffValidationConfig {
   protectedFiles?: string[];
 }
 
+export interface ValidateDiffOptions {
+  /**
+   * Compare against this ref instead of `HEAD`, so changes already committed
+   * on a task branch (e.g. `origin/main`) are validated too.
+   */
+  baseRef?: string;
+}
+
 export interface ValidationResult {
   valid: boolean;
   warnings: string[];
   errors: string[];
+  /** Inserted plus deleted lines against the base ref. */
+  linesChanged?: number;
 }
 
 export async function validateDiff(
   repoPath: string,
   config?: DiffValidationConfig | OacConfig,
+  options: ValidateDiffOptions = {},
 ): Promise<ValidationResult> {
   const git = simpleGit(repoPath);
+  const baseRef = options.baseRef ?? "HEAD";
   const settings = resolveValidationConfig(config);
   const warnings: string[] = [];
   const errors: string[] = [];
 
   const [diffSummary, changedFiles, patch] = await Promise.all([
-    readDiffSummary(git),
-    readChangedFiles(git),
-    readPatch(git),
+    readDiffSummary(git, baseRef),
+    readChangedFiles(git, baseRef),
+    readPatch(git, baseRef),
   ]);
 
   const totalLinesChanged = diffSummary.insertions + diffSummary.deletions;
@@ -76,19 +88,20 @@ export async function validateDiff(
     valid: errors.length === 0,
     warnings,
     errors,
+    linesChanged: totalLinesChanged,
   };
 }
 
-async function readDiffSummary(git: SimpleGit) {
+async function readDiffSummary(git: SimpleGit, baseRef: string) {
   try {
-    return await git.diffSummary(["HEAD"]);
+    return await git.diffSummary([baseRef]);
   } catch {
     return git.diffSummary();
   }
 }
 
-async function readChangedFiles(git: SimpleGit): Promise<string[]> {
-  const withHead = await tryGitDiff(git, ["--name-only", "HEAD"]);
+async function readChangedFiles(git: SimpleGit, baseRef: string): Promise<string[]> {
+  const withHead = await tryGitDiff(git, ["--name-only", baseRef]);
   const output = withHead ?? (await git.diff(["--name-only"]));
 
   return output
@@ -97,8 +110,8 @@ async function readChangedFiles(git: SimpleGit): Promise<string[]> {
     .filter((line) => line.length > 0);
 }
 
-async function readPatch(git: SimpleGit): Promise<string> {
-  const withHead = await tryGitDiff(git, ["--no-color", "--unified=0", "HEAD"]);
+async function readPatch(git: SimpleGit, baseRef: string): Promise<string> {
+  const withHead = await tryGitDiff(git, ["--no-color", "--unified=0", baseRef]);
   if (withHead !== undefined) {
     return withHead;
   }
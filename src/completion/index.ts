@@ -2,4 +2,5 @@ export * from "./types.js";
 export * from "./github-pr.js";
 export * from "./issue-linker.js";
 export * from "./diff-validator.js";
+export * from "./validation-gates.js";
 export * from "./handler.js";
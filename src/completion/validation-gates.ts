@@ -0,0 +1,396 @@
+import { access, readFile, rm } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import { execa } from "execa";
+import {
+  detectPackageManager,
+  findLockfile,
+  packageManagerExec,
+  packageManagerInstall,
+  packageManagerRunScript,
+} from "../core/index.js";
+
+const DEFAULT_GATE_TIMEOUT_MS = 10 * 60_000;
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "optionalDependencies"];
+/** Only the tail of a failing command's output is kept; that is where the errors are. */
+const OUTPUT_TAIL_CHARS = 4_000;
+
+export type ValidationGate = "lint" | "test" | "typeCheck";
+
+export interface ValidationGateSettings {
+  lint?: boolean;
+  test?: boolean;
+  typeCheck?: boolean;
+}
+
+export interface ValidationGateCommand {
+  gate: ValidationGate;
+  command: string;
+  args: string[];
+}
+
+export interface ValidationGateResult {
+  gate: ValidationGate;
+  /** Command line as it would be typed, e.g. `pnpm run lint`. */
+  command: string;
+  /** `skipped` when the gate could not run, e.g. because dependencies failed to install. */
+  status: "passed" | "failed" | "skipped";
+  exitCode: number | null;
+  durationMs: number;
+  timedOut: boolean;
+  /** Tail of the combined stdout/stderr; kept for failed and skipped gates. */
+  output?: string;
+}
+
+export interface ValidationGateReport {
+  passed: boolean;
+  results: ValidationGateResult[];
+}
+
+export interface RunValidationGatesOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Detect the repository's own lint, test and type-check commands. Each
+ * ecosystem present in the repo (package.json, Python, Go, Rust) contributes
+ * its commands; gates disabled in `settings` are left out.
+ */
+export async function detectValidationCommands(
+  repoPath: string,
+  settings: ValidationGateSettings = {},
+): Promise<ValidationGateCommand[]> {
+  const commands = [
+    ...(await detectJavaScriptCommands(repoPath)),
+    ...(await detectPythonCommands(repoPath)),
+    ...(await detectGoCommands(repoPath)),
+    ...(await detectRustCommands(repoPath)),
+  ];
+
+  return commands.filter((command) => settings[command.gate] !== false);
+}
+
+/**
+ * Run the detected validation commands in `repoPath` (normally the sandbox
+ * worktree after the agent finished) and report which gates failed.
+ *
+ * A worktree has no `node_modules`, so JavaScript dependencies are installed
+ * from the lockfile first and removed again afterwards. When that install
+ * fails, the JavaScript gates are reported as skipped rather than failed: the
+ * agent's change is not what broke them. Python tests and type checks are
+ * skipped the same way unless a virtual environment is active.
+ */
+export async function runValidationGates(
+  repoPath: string,
+  settings: ValidationGateSettings = {},
+  options: RunValidationGatesOptions = {},
+): Promise<ValidationGateReport> {
+  const commands = await detectValidationCommands(repoPath, settings);
+  if (commands.length === 0) {
+    return { passed: true, results: [] };
+  }
+
+  const javaScriptCommands = await detectJavaScriptCommands(repoPath);
+  const install = javaScriptCommands.length > 0 ? await installDependencies(repoPath, options) : {};
+
+  // Command line -> why its gate cannot run here.
+  const skipReasons = new Map<string, string>();
+  if (install.error !== undefined) {
+    for (const command of javaScriptCommands) skipReasons.set(commandLine(command), install.error);
+  }
+  const pythonEnvironment = missingPythonEnvironment();
+  if (pythonEnvironment !== undefined) {
+    for (const command of await detectPythonCommands(repoPath)) {
+      // Linters read the sources only; tests and mypy import the project's dependencies.
+      if (command.gate !== "lint") skipReasons.set(commandLine(command), pythonEnvironment);
+    }
+  }
+
+  const results: ValidationGateResult[] = [];
+  try {
+    for (const command of commands) {
+      const skipReason = skipReasons.get(commandLine(command));
+      results.push(
+        skipReason !== undefined
+          ? skippedGate(command, skipReason)
+          : await runGate(repoPath, command, options),
+      );
+    }
+  } finally {
+    await install.cleanup?.();
+  }
+
+  return {
+    passed: results.every((result) => result.status !== "failed"),
+    results,
+  };
+}
+
+async function runGate(
+  repoPath: string,
+  gateCommand: ValidationGateCommand,
+  options: RunValidationGatesOptions,
+): Promise<ValidationGateResult> {
+  const startedAt = Date.now();
+  const result = await execa(gateCommand.command, gateCommand.args, {
+    cwd: repoPath,
+    all: true,
+    reject: false,
+    stdin: "ignore",
+    timeout: options.timeoutMs ?? DEFAULT_GATE_TIMEOUT_MS,
+    cancelSignal: options.signal,
+    // CI keeps test runners out of watch mode; colour codes would clutter the log.
+    env: { CI: "true", FORCE_COLOR: "0", NO_COLOR: "1" },
+  });
+
+  const passed = result.exitCode === 0 && !result.timedOut && !result.isCanceled;
+  const output = typeof result.all === "string" ? result.all : "";
+
+  return {
+    gate: gateCommand.gate,
+    command: commandLine(gateCommand),
+    status: passed ? "passed" : "failed",
+    exitCode: result.exitCode ?? null,
+    durationMs: Date.now() - startedAt,
+    timedOut: Boolean(result.timedOut),
+    output: passed ? undefined : tail(output.trim(), OUTPUT_TAIL_CHARS) || result.shortMessage,
+  };
+}
+
+function skippedGate(gateCommand: ValidationGateCommand, reason: string): ValidationGateResult {
+  return {
+    gate: gateCommand.gate,
+    command: commandLine(gateCommand),
+    status: "skipped",
+    exitCode: null,
+    durationMs: 0,
+    timedOut: false,
+    output: `Dependencies not installed: ${reason}`,
+  };
+}
+
+function commandLine(command: { command: string; args: string[] }): string {
+  return [command.command, ...command.args].join(" ");
+}
+
+// ── Command detection ────────────────────────────────────────
+
+const TYPECHECK_SCRIPTS = ["typecheck", "type-check", "check-types", "tsc"];
+const NPM_PLACEHOLDER_TEST = /no test specified/i;
+
+async function detectJavaScriptCommands(repoPath: string): Promise<ValidationGateCommand[]> {
+  const packageJson = await readJson(resolve(repoPath, "package.json"));
+  if (!packageJson) {
+    return [];
+  }
+
+  const packageManager = await detectPackageManager(repoPath);
+  const scripts = toStringRecord(packageJson.scripts);
+  const commands: ValidationGateCommand[] = [];
+
+  if (scripts.lint) {
+    commands.push({ gate: "lint", ...packageManagerRunScript(packageManager, "lint") });
+  }
+  if (scripts.test && !NPM_PLACEHOLDER_TEST.test(scripts.test)) {
+    commands.push({ gate: "test", ...packageManagerRunScript(packageManager, "test") });
+  }
+
+  const typeCheckScript = TYPECHECK_SCRIPTS.find((name) => scripts[name]);
+  if (typeCheckScript) {
+    commands.push({
+      gate: "typeCheck",
+      ...packageManagerRunScript(packageManager, typeCheckScript),
+    });
+  } else if (await fileExists(resolve(repoPath, "tsconfig.json"))) {
+    commands.push({
+      gate: "typeCheck",
+      ...packageManagerExec(packageManager, ["tsc", "--noEmit"]),
+    });
+  }
+
+  return commands;
+}
+
+async function detectPythonCommands(repoPath: string): Promise<ValidationGateCommand[]> {
+  const pyproject = await readText(resolve(repoPath, "pyproject.toml"));
+  const setupCfg = await readText(resolve(repoPath, "setup.cfg"));
+  const isPython =
+    pyproject !== undefined ||
+    setupCfg !== undefined ||
+    (await fileExists(resolve(repoPath, "setup.py")));
+  if (!isPython) {
+    return [];
+  }
+
+  const config = `${pyproject ?? ""}\n${setupCfg ?? ""}`;
+  const commands: ValidationGateCommand[] = [];
+
+  if (
+    config.includes("[tool.ruff") ||
+    (await anyFileExists(repoPath, ["ruff.toml", ".ruff.toml"]))
+  ) {
+    commands.push({ gate: "lint", command: "ruff", args: ["check", "."] });
+  } else if (config.includes("[flake8]") || (await fileExists(resolve(repoPath, ".flake8")))) {
+    commands.push({ gate: "lint", command: "flake8", args: ["."] });
+  }
+
+  if (
+    config.includes("[tool.pytest") ||
+    (await anyFileExists(repoPath, ["pytest.ini", "conftest.py", "tests"]))
+  ) {
+    commands.push({ gate: "test", command: "python", args: ["-m", "pytest", "-q"] });
+  }
+
+  if (
+    config.includes("[tool.mypy") ||
+    config.includes("[mypy") ||
+    (await fileExists(resolve(repoPath, "mypy.ini")))
+  ) {
+    commands.push({ gate: "typeCheck", command: "mypy", args: ["."] });
+  }
+
+  return commands;
+}
+
+async function detectGoCommands(repoPath: string): Promise<ValidationGateCommand[]> {
+  if (!(await fileExists(resolve(repoPath, "go.mod")))) {
+    return [];
+  }
+
+  return [
+    { gate: "lint", command: "go", args: ["vet", "./..."] },
+    { gate: "test", command: "go", args: ["test", "./..."] },
+    { gate: "typeCheck", command: "go", args: ["build", "./..."] },
+  ];
+}
+
+async function detectRustCommands(repoPath: string): Promise<ValidationGateCommand[]> {
+  if (!(await fileExists(resolve(repoPath, "Cargo.toml")))) {
+    return [];
+  }
+
+  return [
+    { gate: "lint", command: "cargo", args: ["clippy", "--quiet", "--", "-D", "warnings"] },
+    { gate: "test", command: "cargo", args: ["test", "--quiet"] },
+    { gate: "typeCheck", command: "cargo", args: ["check", "--quiet"] },
+  ];
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/**
+ * Install the dependencies `package.json` declares with the lockfile's
+ * package manager (npm without a lockfile), unless `node_modules` already exists. `cleanup` removes
+ * what was installed so it cannot end up in the agent's commit; `error` is
+ * set when the install failed.
+ */
+async function installDependencies(
+  repoPath: string,
+  options: RunValidationGatesOptions,
+): Promise<{ error?: string; cleanup?: () => Promise<void> }> {
+  const packageJson = await readJson(resolve(repoPath, "package.json"));
+  const declaresDependencies = DEPENDENCY_FIELDS.some(
+    (field) => Object.keys(toStringRecord(packageJson?.[field])).length > 0,
+  );
+  const nodeModules = resolve(repoPath, "node_modules");
+  if (!declaresDependencies || (await fileExists(nodeModules))) {
+    return {};
+  }
+
+  const cleanup = async () => {
+    await rm(nodeModules, { recursive: true, force: true }).catch(() => undefined);
+  };
+  const lockfile = await findLockfile(repoPath);
+  const install = packageManagerInstall(lockfile?.manager ?? "npm", lockfile !== undefined);
+  const result = await execa(install.command, install.args, {
+    cwd: repoPath,
+    all: true,
+    reject: false,
+    stdin: "ignore",
+    timeout: options.timeoutMs ?? DEFAULT_GATE_TIMEOUT_MS,
+    cancelSignal: options.signal,
+    env: { CI: "true", FORCE_COLOR: "0", NO_COLOR: "1" },
+  });
+
+  if (result.exitCode === 0 && !result.timedOut && !result.isCanceled) {
+    return { cleanup };
+  }
+
+  const output = typeof result.all === "string" ? result.all.trim() : "";
+  return {
+    error: `\`${commandLine(install)}\` failed: ${tail(output, OUTPUT_TAIL_CHARS) || result.shortMessage}`,
+    cleanup,
+  };
+}
+
+/**
+ * Why the project's Python dependencies are not available, or `undefined`
+ * when OAC runs inside a virtualenv or conda environment (the gates inherit
+ * it). OAC does not create one: installing a Python project is too varied to
+ * guess, and a bare interpreter fails on the first import.
+ */
+function missingPythonEnvironment(): string | undefined {
+  if (process.env.VIRTUAL_ENV || process.env.CONDA_PREFIX) {
+    return undefined;
+  }
+  return "no Python virtual environment is active (VIRTUAL_ENV or CONDA_PREFIX)";
+}
+
+async function readJson(filePath: string): Promise<Record<string, unknown> | undefined> {
+  const raw = await readText(filePath);
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function readText(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+
+  const record: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === "string" && entry.trim().length > 0) {
+      record[key] = entry;
+    }
+  }
+  return record;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function anyFileExists(repoPath: string, names: string[]): Promise<boolean> {
+  for (const name of names) {
+    if (await fileExists(resolve(repoPath, name))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function tail(text: string, maxChars: number): string {
+  return text.length > maxChars ? `…${text.slice(-maxChars)}` : text;
+}
@@ -24,19 +24,85 @@ export const RepoTargetSchema = z.union([
     .strict(),
 ]);
 
+const FieldPathSchema = z.string().min(1);
+
+export const CustomAgentOutputSchema = z.discriminatedUnion("format", [
+  z.object({ format: z.literal("text") }).strict(),
+  z
+    .object({
+      format: z.literal("jsonl"),
+      /** Dot paths into each JSON line, e.g. `usage.input_tokens`. */
+      tokens: z
+        .object({
+          input: FieldPathSchema.optional(),
+          output: FieldPathSchema.optional(),
+          total: FieldPathSchema.optional(),
+        })
+        .strict()
+        .default({}),
+      fileEdit: z
+        .object({
+          path: FieldPathSchema,
+          /** Field holding `create`, `modify` or `delete`; edits count as `modify` without it. */
+          action: FieldPathSchema.optional(),
+          /** Only lines whose fields equal these values are file edits, e.g. `{ type: "edit" }`. */
+          when: z.record(FieldPathSchema, z.string()).default({}),
+        })
+        .strict()
+        .optional(),
+      /** Field holding an error message; lines where it is set become error events. */
+      error: FieldPathSchema.optional(),
+    })
+    .strict(),
+]);
+
+export const CustomAgentSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    /** Binary to run, resolved on PATH. */
+    command: z.string().min(1),
+    /** Argument template; `{prompt}` and `{cwd}` are substituted per task. */
+    args: z.array(z.string()).default(["{prompt}"]),
+    /** Arguments for the availability/version probe. */
+    versionArgs: z.array(z.string()).default(["--version"]),
+    output: CustomAgentOutputSchema.default({ format: "text" }),
+    /** Extra environment variables for the agent process. */
+    env: z.record(z.string(), z.string()).default({}),
+    /** Host variables to pass through; the whole environment when omitted. */
+    passEnv: z.array(z.string().min(1)).optional(),
+  })
+  .strict()
+  .refine((agent) => agent.args.some((arg) => arg.includes("{prompt}")), {
+    message: "args must contain a {prompt} placeholder",
+    path: ["args"],
+  });
+
+export type CustomAgentConfig = z.output<typeof CustomAgentSchema>;
+
 export const ProviderSchema = z
   .object({
-    id: z.string().min(1).default("claude-code"),
+    /** Provider id, or an ordered fallback chain such as `["claude-code", "codex"]`. */
+    id: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).default("claude-code"),
     options: z.record(z.string(), z.unknown()).default({}),
+    /** Command-line agents run through the generic adapter, keyed by the id used in `provider.id`. */
+    customAgents: z.record(z.string().min(1), CustomAgentSchema).default({}),
   })
   .strict()
   .default({});
 
+/** Budget behaviour shared by the config defaults and the worker, which also runs without a config. */
+export const DEFAULT_BUDGET_WARN_THRESHOLD = 0.8;
+export const DEFAULT_BUDGET_ENFORCEMENT = "enforce";
+
 export const BudgetSchema = z
   .object({
     totalTokens: z.number().int().positive().default(100_000),
     reservePercent: z.number().min(0).max(1).default(0.1),
     estimationPadding: z.number().positive().default(1.2),
+    /** Share of a task's token budget at which the agent is warned and asked to wrap up. */
+    warnThreshold: z.number().gt(0).max(1).default(DEFAULT_BUDGET_WARN_THRESHOLD),
+    /** `enforce` aborts agents that exceed their task budget; `warn` only reports it. */
+    enforcement: z.enum(["warn", "enforce"]).default(DEFAULT_BUDGET_ENFORCEMENT),
   })
   .strict()
   .default({});
@@ -44,8 +110,10 @@ export const BudgetSchema = z
 export const DiscoveryScannersSchema = z
   .object({
     lint: z.boolean().default(true),
+    todo: z.boolean().default(true),
     testGap: z.boolean().default(true),
     deadCode: z.boolean().default(false),
+    security: z.boolean().default(false),
     githubIssues: z.boolean().default(true),
   })
   .strict()
@@ -63,12 +131,87 @@ export const DiscoverySchema = z
   .strict()
   .default({});
 
+export const RepairSchema = z
+  .object({
+    /** Follow-up agent runs per task; 0 disables the repair phase. */
+    maxRounds: z.number().int().min(0).max(5).default(0),
+    /** Tokens shared by all repair rounds of one task. */
+    tokenBudget: z.number().int().positive().default(30_000),
+  })
+  .strict()
+  .default({});
+
 export const ValidationSchema = z
   .object({
     lint: z.boolean().default(true),
     test: z.boolean().default(true),
     typeCheck: z.boolean().default(true),
     maxDiffLines: z.number().int().positive().default(500),
+    /** What to do with the PR when a lint/test/type-check gate fails. */
+    onFailure: z.enum(["draft", "block"]).default("draft"),
+    /** Hand failing diff checks and gates back to the agent before giving up. */
+    repair: RepairSchema,
+  })
+  .strict()
+  .default({});
+
+export const ReviewSchema = z
+  .object({
+    /** Have a second agent review the diff before the PR is opened. */
+    enabled: z.boolean().default(false),
+    /** Reviewer provider; defaults to the provider that made the change. */
+    provider: z.string().min(1).optional(),
+    /** Approvals below this confidence count as change requests. */
+    minConfidence: z.number().min(0).max(1).default(0.6),
+    /** Rejected or change-requested work: hand it back to the agent, or drop it. */
+    onReject: z.enum(["repair", "drop"]).default("repair"),
+    /** Repair-and-re-review rounds per task. */
+    maxRounds: z.number().int().min(0).max(3).default(1),
+    /** Token budget of each reviewer run. */
+    tokenBudget: z.number().int().positive().default(20_000),
+  })
+  .strict()
+  .default({});
+
+export const CompetitionSchema = z
+  .object({
+    /** Parallel candidates per competing task. */
+    candidates: z.number().int().min(2).max(5).default(2),
+    /** Providers the candidates rotate through; defaults to the run's provider chain. */
+    providers: z.array(z.string().min(1)).default([]),
+    /** Extra instructions the candidates rotate through; `""` keeps the plain prompt. */
+    promptVariants: z.array(z.string()).default([]),
+    /** Task sources that compete. */
+    sources: z
+      .array(
+        z.enum(["lint", "todo", "test-gap", "dead-code", "security", "github-issue", "custom"]),
+      )
+      .default([]),
+    /** Tasks at or above this priority compete, whatever their source. */
+    minPriority: z.number().int().min(0).max(100).optional(),
+    /** Let the critic (`execution.review`) score every candidate. */
+    critic: z.boolean().default(false),
+  })
+  .strict()
+  .default({});
+
+const promptTemplate = z.string().min(1).optional();
+
+/**
+ * Prompt template overrides by id (`task`, `epic` or a task source); they
+ * take precedence over `.oac/prompts/<id>.md` in the target repository.
+ */
+export const PromptsSchema = z
+  .object({
+    task: promptTemplate,
+    epic: promptTemplate,
+    lint: promptTemplate,
+    todo: promptTemplate,
+    "test-gap": promptTemplate,
+    "dead-code": promptTemplate,
+    security: promptTemplate,
+    "github-issue": promptTemplate,
+    custom: promptTemplate,
   })
   .strict()
   .default({});
@@ -76,22 +219,46 @@ export const ValidationSchema = z
 export const PrSchema = z
   .object({
     draft: z.boolean().default(false),
+    /** Open the PR as a draft when the diff check warned (e.g. diff close to `maxDiffLines`). */
+    draftOnWarnings: z.boolean().default(true),
     labels: z.array(z.string().min(1)).default(["oac-contribution"]),
+    /** Extra labels per task source, e.g. `{ security: ["security"] }`. */
+    labelsBySource: z.record(z.string(), z.array(z.string().min(1))).default({}),
+    /** Create labels the target repo does not have yet. */
+    createLabels: z.boolean().default(true),
     reviewers: z.array(z.string().min(1)).default([]),
+    /** Also request review from the CODEOWNERS of the changed files. */
+    codeownersReviewers: z.boolean().default(false),
     assignees: z.array(z.string().min(1)).default([]),
   })
   .strict()
   .default({});
 
+export const ForkSchema = z
+  .object({
+    /** Fork the target repo and open cross-repo PRs when push permission is missing. */
+    enabled: z.boolean().default(true),
+    /** Organization to fork into; defaults to the authenticated user. */
+    organization: z.string().min(1).optional(),
+  })
+  .strict()
+  .default({});
+
 export const ExecutionSchema = z
   .object({
     concurrency: z.number().int().positive().default(2),
+    /** Parallel tasks per repo in multi-repo runs; defaults to `concurrency` (one repo at a time). */
+    repoConcurrency: z.number().int().positive().optional(),
     taskTimeout: z.number().int().positive().default(300),
     maxRetries: z.number().int().min(0).default(2),
     mode: z.enum(["new-pr", "update-pr", "direct-commit", "branch-only"]).default("new-pr"),
     branchPattern: z.string().min(1).default("oac/{date}/{task}"),
     validation: ValidationSchema,
+    review: ReviewSchema,
+    competition: CompetitionSchema,
+    prompts: PromptsSchema,
     pr: PrSchema,
+    fork: ForkSchema,
   })
   .strict()
   .default({});
@@ -17,9 +17,9 @@ interface DelegationRequestPayload {
 export interface OacEvents {
   "repo:resolved": { repo: ResolvedRepo };
   "task:discovered": { tasks: Task[] };
-  "task:selected": { task: Task; reason: string };
+  "task:selected": { task: Task; reason: string; repo?: string };
   "budget:estimated": { task: Task; estimate: TokenEstimate };
-  "execution:started": { jobId: string; task: Task; agent: string };
+  "execution:started": { jobId: string; task: Task; agent: string; repo?: string };
   "execution:progress": { jobId: string; tokensUsed: number; stage: string };
   "execution:completed": { jobId: string; result: ExecutionResult };
   "execution:failed": { jobId: string; error: OacError };
@@ -4,5 +4,6 @@ export * from "./event-bus.js";
 export * from "./file-filters.js";
 export * from "./github-pr-cache.js";
 export * from "./memory.js";
+export * from "./package-manager.js";
 export * from "./types.js";
 export * from "./utils.js";
@@ -0,0 +1,86 @@
+import { access } from "node:fs/promises";
+import { resolve } from "node:path";
+
+export type PackageManager = "pnpm" | "npm" | "yarn" | "bun";
+
+const LOCKFILES: Array<{ file: string; manager: PackageManager }> = [
+  { file: "pnpm-lock.yaml", manager: "pnpm" },
+  { file: "bun.lockb", manager: "bun" },
+  { file: "bun.lock", manager: "bun" },
+  { file: "yarn.lock", manager: "yarn" },
+  { file: "package-lock.json", manager: "npm" },
+];
+
+/** Detect the repo's package manager from its lockfile (npm when there is none). */
+export async function detectPackageManager(repoPath: string): Promise<PackageManager> {
+  return (await findLockfile(repoPath))?.manager ?? "npm";
+}
+
+/** The repo's lockfile and the package manager that owns it, if it has one. */
+export async function findLockfile(
+  repoPath: string,
+): Promise<{ file: string; manager: PackageManager } | undefined> {
+  for (const check of LOCKFILES) {
+    try {
+      await access(resolve(repoPath, check.file));
+      return check;
+    } catch {
+      // Try the next lockfile.
+    }
+  }
+
+  return undefined;
+}
+
+/** Command that runs a locally installed package binary, e.g. `pnpm exec eslint`. */
+export function packageManagerExec(
+  packageManager: PackageManager,
+  commandArgs: string[],
+): { command: string; args: string[] } {
+  if (packageManager === "pnpm") {
+    return { command: "pnpm", args: ["exec", ...commandArgs] };
+  }
+
+  if (packageManager === "yarn") {
+    return { command: "yarn", args: commandArgs };
+  }
+
+  if (packageManager === "bun") {
+    return { command: "bunx", args: commandArgs };
+  }
+
+  return { command: "npx", args: ["--no-install", ...commandArgs] };
+}
+
+/** Command that runs a `package.json` script, e.g. `pnpm run lint`. */
+export function packageManagerRunScript(
+  packageManager: PackageManager,
+  script: string,
+): { command: string; args: string[] } {
+  return { command: packageManager, args: ["run", script] };
+}
+
+/**
+ * Command that installs exactly what the lockfile pins, e.g. `npm ci`. Without
+ * a lockfile (`npm ci` refuses to run then) it is a plain install that does
+ * not write one.
+ */
+export function packageManagerInstall(
+  packageManager: PackageManager,
+  hasLockfile = true,
+): {
+  command: string;
+  args: string[];
+} {
+  if (!hasLockfile) {
+    return packageManager === "npm"
+      ? { command: "npm", args: ["install", "--no-package-lock"] }
+      : { command: packageManager, args: ["install"] };
+  }
+
+  if (packageManager === "npm") {
+    return { command: "npm", args: ["ci"] };
+  }
+
+  return { command: packageManager, args: ["install", "--frozen-lockfile"] };
+}
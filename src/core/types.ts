@@ -1,3 +1,5 @@
+import type { ExecutionErrorCode } from "./errors.js";
+
 export type AgentProviderId = "claude-code" | "codex" | "opencode" | "gemini" | (string & {});
 
 /**
@@ -38,7 +40,14 @@ export interface ResolvedRepo {
   };
 }
 
-export type TaskSource = "lint" | "test-gap" | "dead-code" | "github-issue" | "custom";
+export type TaskSource =
+  | "lint"
+  | "todo"
+  | "test-gap"
+  | "dead-code"
+  | "security"
+  | "github-issue"
+  | "custom";
 
 export type TaskComplexity = "trivial" | "simple" | "moderate" | "complex";
 
@@ -140,6 +149,8 @@ export interface ContributionTask {
   source: TaskSource;
   complexity: TaskComplexity;
   status: "success" | "partial" | "failed";
+  provider?: AgentProviderId;
+  transcript?: string;
   tokensUsed: number;
   duration: number;
   filesChanged: string[];
@@ -195,6 +206,8 @@ export interface ExecutionResult {
   filesChanged: string[];
   duration: number;
   error?: string;
+  /** Set when the failure has a known cause, e.g. `AGENT_TOKEN_LIMIT` for a budget abort. */
+  errorCode?: ExecutionErrorCode;
 }
 
 export interface RunSummary {
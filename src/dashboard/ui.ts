@@ -140,7 +140,9 @@ export function renderDashboardHtml(port: number): string {
             <option value="">All sources</option>
             <option value="github-issue">GitHub Issues</option>
             <option value="lint">Lint warnings</option>
+            <option value="todo">TODO comments</option>
             <option value="test-gap">Test gaps</option>
+            <option value="security">Security findings</option>
           </select>
         </div>
         <div class="form-actions">
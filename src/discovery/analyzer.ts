@@ -9,6 +9,14 @@ import PQueue from "p-queue";
 import { createMemoryMonitor } from "../core/memory.js";
 import type { Task, TaskSource } from "../core/types.js";
 import type { CodebaseMap, FileInfo, ModuleInfo, QualityReport } from "./context-types.js";
+import { type LanguagePlugin, type SourceRoot, detectLanguages } from "./languages/index.js";
+import { joinRelative, relativeToRoot } from "./languages/shared.js";
+import {
+  extractExports,
+  extractImportedNames,
+  extractImports,
+  typescriptPlugin,
+} from "./languages/typescript.js";
 import { CompositeScanner } from "./scanner.js";
 import type { RawFinding, ScanOptions, Scanner } from "./types.js";
 
@@ -28,21 +36,7 @@ export interface AnalyzeOptions {
 
 // ── Constants ────────────────────────────────────────────────
 
-const DEFAULT_EXTENSIONS = new Set([".ts", ".tsx", ".js", ".jsx"]);
-
-const DEFAULT_EXCLUDE_DIRS = new Set(["node_modules", "dist", ".git", "coverage"]);
-
-const DEFAULT_EXCLUDE_SUFFIXES = [
-  ".d.ts",
-  ".test.ts",
-  ".spec.ts",
-  ".test.tsx",
-  ".spec.tsx",
-  ".test.js",
-  ".spec.js",
-  ".test.jsx",
-  ".spec.jsx",
-];
+const DEFAULT_EXCLUDE_DIRS = new Set([".git", "node_modules"]);
 
 const DEFAULT_MAX_AGE_MS = 86_400_000; // 24 hours
 
@@ -61,47 +55,12 @@ export async function analyzeCodebase(
 ): Promise<{ codebaseMap: CodebaseMap; qualityReport: QualityReport }> {
   const resolvedRepoPath = resolve(repoPath);
   const sourceDir = options?.sourceDir ?? "src";
-  const srcRoot = join(resolvedRepoPath, sourceDir);
   const userExclude = options?.exclude ?? [];
   const repoFullName = options?.repoFullName ?? "";
   const headSha = options?.headSha ?? "";
 
-  // ── 1. Walk file tree ──────────────────────────────────────
-  const allFiles = await walkSourceFiles(srcRoot, userExclude);
-
-  // ── 2. Analyze each file (bounded concurrency + memory monitoring)
-  const MAX_CONCURRENCY = 50;
-  const MIN_CONCURRENCY = 4;
-  const analysisQueue = new PQueue({ concurrency: MAX_CONCURRENCY });
-
-  const memoryMonitor = createMemoryMonitor({
-    intervalMs: 3_000,
-    pressureRatio: 0.85,
-    onPressure: () => {
-      // Reduce concurrency when memory is tight
-      const current = analysisQueue.concurrency;
-      const reduced = Math.max(MIN_CONCURRENCY, Math.floor(current / 2));
-      if (reduced < current) analysisQueue.concurrency = reduced;
-    },
-    onRelief: () => {
-      // Restore concurrency when pressure drops
-      const current = analysisQueue.concurrency;
-      const restored = Math.min(MAX_CONCURRENCY, current * 2);
-      if (restored > current) analysisQueue.concurrency = restored;
-    },
-  });
-
-  const fileInfos = (await Promise.all(
-    allFiles.map((absPath) =>
-      analysisQueue.add(async () => {
-        const relPath = relative(resolvedRepoPath, absPath);
-        const info = await analyzeFile(absPath, relPath);
-        return { ...info, _absolutePath: absPath };
-      }),
-    ),
-  )) as Array<FileInfo & { _absolutePath: string }>;
-
-  memoryMonitor.stop();
+  // ── 1–2. Walk file tree and analyze each file ──────────────
+  const fileInfos = await collectFileInfos(resolvedRepoPath, { sourceDir, exclude: userExclude });
 
   // ── 3. Detect modules ─────────────────────────────────────
   const moduleMap = buildModuleMap(fileInfos, sourceDir);
@@ -111,7 +70,7 @@ export async function analyzeCodebase(
   const modules: ModuleInfo[] = [];
 
   for (const [moduleName, files] of Object.entries(moduleMap)) {
-    const moduleFiles: FileInfo[] = files.map(({ _absolutePath: _, ...fi }) => fi);
+    const moduleFiles: FileInfo[] = files;
     const totalLoc = moduleFiles.reduce((sum, f) => sum + f.loc, 0);
     const allExports = moduleFiles.flatMap((f) => f.exports);
     const dependencies = resolveModuleDependencies(files, moduleName, sourceDir, moduleNames);
@@ -119,6 +78,7 @@ export async function analyzeCodebase(
     modules.push({
       name: moduleName,
       path: moduleName === "root" ? sourceDir : `${sourceDir}/${moduleName}`,
+      language: "typescript",
       files: moduleFiles,
       totalLoc,
       exports: allExports,
@@ -126,8 +86,13 @@ export async function analyzeCodebase(
     });
   }
 
-  const totalFiles = fileInfos.length;
-  const totalLoc = fileInfos.reduce((sum, f) => sum + f.loc, 0);
+  // ── 3b. Other languages (Python, Go, Rust, Java) ──────────
+  const languages = await analyzeLanguageModules(resolvedRepoPath, userExclude, moduleNames);
+  modules.push(...languages.modules);
+
+  const allFiles = [...fileInfos, ...languages.files];
+  const totalFiles = allFiles.length;
+  const totalLoc = allFiles.reduce((sum, f) => sum + f.loc, 0);
   const generatedAt = new Date().toISOString();
 
   const codebaseMap: CodebaseMap = {
@@ -141,7 +106,9 @@ export async function analyzeCodebase(
   };
 
   // ── 5. Run scanners → RawFinding[] ─────────────────────────
-  const findings = await runScanners(resolvedRepoPath, sourceDir, options);
+  const resolveModule = (filePath: string): string =>
+    languages.resolveModule(filePath) ?? deriveModuleFromPath(filePath, sourceDir);
+  const findings = await runScanners(resolvedRepoPath, resolveModule, options);
 
   // ── 6. Build QualityReport ─────────────────────────────────
   const qualityReport = buildQualityReport(findings, repoFullName, generatedAt);
@@ -149,6 +116,68 @@ export async function analyzeCodebase(
   return { codebaseMap, qualityReport };
 }
 
+// ── collectFileInfos ─────────────────────────────────────────
+
+/**
+ * Walks `sourceDir` (relative to the repo) and extracts per-file LOC,
+ * exports and imports. File paths in the result are relative to the repo.
+ * Test files are skipped unless `includeTests` is set. `language` selects the
+ * file types and parsers (TypeScript/JavaScript by default).
+ */
+export async function collectFileInfos(
+  repoPath: string,
+  options: {
+    sourceDir?: string;
+    exclude?: string[];
+    includeTests?: boolean;
+    language?: LanguagePlugin;
+  } = {},
+): Promise<FileInfo[]> {
+  const resolvedRepoPath = resolve(repoPath);
+  const srcRoot = join(resolvedRepoPath, options.sourceDir ?? "src");
+  const language = options.language ?? typescriptPlugin;
+  const allFiles = await walkSourceFiles(
+    srcRoot,
+    options.exclude ?? [],
+    options.includeTests,
+    language,
+  );
+
+  // Bounded concurrency + memory monitoring
+  const MAX_CONCURRENCY = 50;
+  const MIN_CONCURRENCY = 4;
+  const analysisQueue = new PQueue({ concurrency: MAX_CONCURRENCY });
+
+  const memoryMonitor = createMemoryMonitor({
+    intervalMs: 3_000,
+    pressureRatio: 0.85,
+    onPressure: () => {
+      // Reduce concurrency when memory is tight
+      const current = analysisQueue.concurrency;
+      const reduced = Math.max(MIN_CONCURRENCY, Math.floor(current / 2));
+      if (reduced < current) analysisQueue.concurrency = reduced;
+    },
+    onRelief: () => {
+      // Restore concurrency when pressure drops
+      const current = analysisQueue.concurrency;
+      const restored = Math.min(MAX_CONCURRENCY, current * 2);
+      if (restored > current) analysisQueue.concurrency = restored;
+    },
+  });
+
+  try {
+    return (await Promise.all(
+      allFiles.map((absPath) =>
+        analysisQueue.add(() =>
+          analyzeFile(absPath, relative(resolvedRepoPath, absPath), language),
+        ),
+      ),
+    )) as FileInfo[];
+  } finally {
+    memoryMonitor.stop();
+  }
+}
+
 // ── persistContext ────────────────────────────────────────────
 
 export async function persistContext(
@@ -234,7 +263,12 @@ export function deriveModuleFromPath(filePath: string, sourceDir = "src"): strin
 
 // ── Internal: file walking ───────────────────────────────────
 
-async function walkSourceFiles(dirPath: string, userExclude: string[]): Promise<string[]> {
+async function walkSourceFiles(
+  dirPath: string,
+  userExclude: string[],
+  includeTests = false,
+  language: LanguagePlugin = typescriptPlugin,
+): Promise<string[]> {
   const results: string[] = [];
 
   // Build a set of user-specified directory names to exclude (simple patterns)
@@ -250,15 +284,18 @@ async function walkSourceFiles(dirPath: string, userExclude: string[]): Promise<
     }
   }
 
+  const excludeDirs = new Set([...DEFAULT_EXCLUDE_DIRS, ...language.excludeDirs]);
+
   function isExcludedFile(name: string): boolean {
-    if (!DEFAULT_EXTENSIONS.has(extname(name))) return true;
-    if (DEFAULT_EXCLUDE_SUFFIXES.some((suffix) => name.endsWith(suffix))) return true;
+    if (!language.extensions.includes(extname(name))) return true;
+    if (!includeTests && language.isTestFile(name)) return true;
+    if (name.endsWith(".d.ts")) return true;
     if (userExcludeSuffixes.some((suffix) => name.endsWith(suffix))) return true;
     return false;
   }
 
   function isExcludedDir(name: string): boolean {
-    return DEFAULT_EXCLUDE_DIRS.has(name) || userExcludeDirs.has(name);
+    return excludeDirs.has(name) || userExcludeDirs.has(name);
   }
 
   async function walk(dir: string): Promise<void> {
@@ -287,7 +324,11 @@ async function walkSourceFiles(dirPath: string, userExclude: string[]): Promise<
 
 // ── Internal: single-file analysis ───────────────────────────
 
-async function analyzeFile(absolutePath: string, relativePath: string): Promise<FileInfo> {
+async function analyzeFile(
+  absolutePath: string,
+  relativePath: string,
+  language: LanguagePlugin,
+): Promise<FileInfo> {
   const fileStat = await stat(absolutePath);
 
   // For large files, stream line-by-line to avoid holding the entire file in memory.
@@ -302,8 +343,19 @@ async function analyzeFile(absolutePath: string, relativePath: string): Promise<
   const content = await readFile(absolutePath, "utf-8");
   const lines = content.split("\n");
   const loc = lines.filter((line) => line.trim().length > 0).length;
+  if (language !== typescriptPlugin) {
+    return {
+      path: relativePath,
+      loc,
+      sizeBytes: fileStat.size,
+      exports: language.extractExports(content),
+      imports: language.extractImports(content),
+    };
+  }
+
   const exports = extractExports(content);
   const imports = extractImports(content);
+  const importedNames = extractImportedNames(content);
 
   return {
     path: relativePath,
@@ -311,6 +363,7 @@ async function analyzeFile(absolutePath: string, relativePath: string): Promise<
     sizeBytes: fileStat.size,
     exports,
     imports,
+    importedNames,
   };
 }
 
@@ -333,85 +386,10 @@ async function countLinesStreaming(absolutePath: string): Promise<number> {
   });
 }
 
-// ── Internal: export extraction ──────────────────────────────
-
-function extractExports(content: string): string[] {
-  const exports: string[] = [];
-  const seen = new Set<string>();
-
-  const add = (name: string): void => {
-    const trimmed = name.trim();
-    if (trimmed && !seen.has(trimmed)) {
-      seen.add(trimmed);
-      exports.push(trimmed);
-    }
-  };
-
-  // export function/class/const/let/var/type/interface/enum NAME
-  const namedDeclRe =
-    /\bexport\s+(?:async\s+)?(?:function\*?|class|const|let|var|type|interface|enum)\s+([A-Za-z_$][A-Za-z0-9_$]*)/g;
-  for (const m of content.matchAll(namedDeclRe)) {
-    add(m[1]);
-  }
-
-  // export { Name, Name as Alias, ... }
-  const bracedRe = /\bexport\s*\{([^}]+)\}/g;
-  for (const m of content.matchAll(bracedRe)) {
-    const inner = m[1];
-    for (const item of inner.split(",")) {
-      const parts = item.trim().split(/\s+as\s+/);
-      const exportedName = parts.length > 1 ? parts[1].trim() : parts[0].trim();
-      if (exportedName) {
-        add(exportedName);
-      }
-    }
-  }
-
-  // export default
-  const defaultRe = /\bexport\s+default\b/;
-  if (defaultRe.test(content)) {
-    add("default");
-  }
-
-  return exports;
-}
-
-// ── Internal: import extraction ──────────────────────────────
-
-function extractImports(content: string): string[] {
-  const imports: string[] = [];
-  const seen = new Set<string>();
-
-  const add = (path: string): void => {
-    const trimmed = path.trim();
-    if (trimmed && !seen.has(trimmed)) {
-      seen.add(trimmed);
-      imports.push(trimmed);
-    }
-  };
-
-  // import ... from "PATH"  or  import "PATH"
-  const staticImportRe = /\bimport\s+(?:[\s\S]*?\s+from\s+)?["']([^"']+)["']/g;
-  for (const m of content.matchAll(staticImportRe)) {
-    add(m[1]);
-  }
-
-  // import("PATH")
-  const dynamicImportRe = /\bimport\s*\(\s*["']([^"']+)["']\s*\)/g;
-  for (const m of content.matchAll(dynamicImportRe)) {
-    add(m[1]);
-  }
-
-  return imports;
-}
-
 // ── Internal: module map building ────────────────────────────
 
-function buildModuleMap(
-  fileInfos: Array<FileInfo & { _absolutePath: string }>,
-  sourceDir: string,
-): Record<string, Array<FileInfo & { _absolutePath: string }>> {
-  const moduleMap: Record<string, Array<FileInfo & { _absolutePath: string }>> = {};
+function buildModuleMap(fileInfos: FileInfo[], sourceDir: string): Record<string, FileInfo[]> {
+  const moduleMap: Record<string, FileInfo[]> = {};
 
   for (const fi of fileInfos) {
     const moduleName = deriveModuleFromPath(fi.path, sourceDir);
@@ -427,7 +405,7 @@ function buildModuleMap(
 // ── Internal: module dependency resolution ───────────────────
 
 function resolveModuleDependencies(
-  files: Array<FileInfo & { _absolutePath: string }>,
+  files: FileInfo[],
   currentModule: string,
   sourceDir: string,
   allModuleNames: Set<string>,
@@ -453,11 +431,158 @@ function resolveModuleDependencies(
   return [...deps].sort();
 }
 
+// ── Internal: other languages ────────────────────────────────
+
+interface LanguageModules {
+  modules: ModuleInfo[];
+  files: FileInfo[];
+  /** Module name for a repo-relative file path, if a language plugin owns it. */
+  resolveModule(filePath: string): string | undefined;
+}
+
+interface LanguageModuleEntry {
+  plugin: LanguagePlugin;
+  root: SourceRoot;
+  localName: string;
+  name: string;
+  files: FileInfo[];
+}
+
+type LanguageModuleIndex = Map<string, LanguageModuleEntry>;
+
+/**
+ * Build modules for every non-TypeScript language detected in the repo.
+ * Modules are first-level packages under each detected source root; a name
+ * already taken by another language is prefixed with the language id.
+ */
+async function analyzeLanguageModules(
+  repoPath: string,
+  exclude: string[],
+  takenNames: Set<string>,
+): Promise<LanguageModules> {
+  const detected = (await detectLanguages(repoPath)).filter(
+    ({ plugin }) => plugin !== typescriptPlugin,
+  );
+
+  const index: LanguageModuleIndex = new Map();
+  const files: FileInfo[] = [];
+  for (const { plugin, roots } of detected) {
+    for (const root of roots) {
+      const rootFiles = await collectFileInfos(repoPath, {
+        sourceDir: root.path,
+        exclude,
+        language: plugin,
+      });
+      for (const raw of rootFiles) {
+        const file = { ...raw, path: raw.path.replace(/\\/g, "/") };
+        if (addToLanguageModule(index, plugin, root, file, takenNames)) files.push(file);
+      }
+    }
+  }
+
+  const rootsByPlugin = new Map(detected.map(({ plugin, roots }) => [plugin, roots]));
+  const modules = [...index.values()].map((entry) =>
+    toLanguageModuleInfo(entry, index, rootsByPlugin.get(entry.plugin) ?? []),
+  );
+
+  return {
+    modules,
+    files,
+    resolveModule(filePath: string): string | undefined {
+      const normalized = filePath.replace(/\\/g, "/");
+      for (const { plugin, roots } of detected) {
+        if (!plugin.extensions.some((ext) => normalized.endsWith(ext))) continue;
+        const entry = findLanguageModule(index, plugin, roots, normalized, false);
+        if (entry) return entry.name;
+      }
+      return undefined;
+    },
+  };
+}
+
+function languageModuleKey(plugin: LanguagePlugin, root: SourceRoot, localName: string): string {
+  return `${plugin.id}\0${root.path}\0${localName}`;
+}
+
+function addToLanguageModule(
+  index: LanguageModuleIndex,
+  plugin: LanguagePlugin,
+  root: SourceRoot,
+  file: FileInfo,
+  takenNames: Set<string>,
+): boolean {
+  const pathInRoot = relativeToRoot(file.path, root.path);
+  if (pathInRoot === undefined) return false;
+
+  const localName = plugin.moduleOf(pathInRoot);
+  const key = languageModuleKey(plugin, root, localName);
+  let entry = index.get(key);
+  if (!entry) {
+    const name = [localName, `${plugin.id}:${localName}`, `${root.path}:${localName}`].find(
+      (candidate) => !takenNames.has(candidate),
+    ) as string;
+    takenNames.add(name);
+    entry = { plugin, root, localName, name, files: [] };
+    index.set(key, entry);
+  }
+  entry.files.push(file);
+  return true;
+}
+
+/** Module owning a repo-relative file or directory, via the longest matching root. */
+function findLanguageModule(
+  index: LanguageModuleIndex,
+  plugin: LanguagePlugin,
+  roots: SourceRoot[],
+  path: string,
+  isDirectory: boolean,
+): LanguageModuleEntry | undefined {
+  const root = roots
+    .filter((candidate) => path === candidate.path || relativeToRoot(path, candidate.path))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+  if (!root) return undefined;
+
+  const pathInRoot = path === root.path ? undefined : relativeToRoot(path, root.path);
+  let localName = "root";
+  if (pathInRoot) {
+    // A directory's module is that of any file inside it
+    localName = plugin.moduleOf(isDirectory ? joinRelative(pathInRoot, "_") : pathInRoot);
+  }
+  return index.get(languageModuleKey(plugin, root, localName));
+}
+
+function toLanguageModuleInfo(
+  entry: LanguageModuleEntry,
+  index: LanguageModuleIndex,
+  roots: SourceRoot[],
+): ModuleInfo {
+  const dependencies = new Set<string>();
+  for (const file of entry.files) {
+    for (const specifier of file.imports) {
+      const target = entry.plugin.resolveImport(specifier, file.path, roots);
+      if (!target) continue;
+      const dependency = findLanguageModule(index, entry.plugin, roots, target, true);
+      if (dependency && dependency !== entry) dependencies.add(dependency.name);
+    }
+  }
+
+  return {
+    name: entry.name,
+    path:
+      entry.localName === "root" ? entry.root.path : joinRelative(entry.root.path, entry.localName),
+    language: entry.plugin.id,
+    files: entry.files,
+    totalLoc: entry.files.reduce((sum, f) => sum + f.loc, 0),
+    exports: entry.files.flatMap((f) => f.exports),
+    dependencies: [...dependencies].sort(),
+  };
+}
+
 // ── Internal: scanner execution ──────────────────────────────
 
 async function runScanners(
   repoPath: string,
-  sourceDir: string,
+  resolveModule: (filePath: string) => string,
   options?: AnalyzeOptions,
 ): Promise<RawFinding[]> {
   const scanners = options?.scanners;
@@ -475,12 +600,12 @@ async function runScanners(
     tasks = [];
   }
 
-  return tasks.map((task) => taskToRawFinding(task, sourceDir));
+  return tasks.map((task) => taskToRawFinding(task, resolveModule));
 }
 
 // ── Internal: Task → RawFinding conversion ───────────────────
 
-function taskToRawFinding(task: Task, sourceDir: string): RawFinding {
+function taskToRawFinding(task: Task, resolveModule: (filePath: string) => string): RawFinding {
   const filePath = task.targetFiles[0] ?? "";
   const scannerId =
     typeof task.metadata?.scannerId === "string" ? task.metadata.scannerId : task.source;
@@ -489,7 +614,7 @@ function taskToRawFinding(task: Task, sourceDir: string): RawFinding {
     scannerId,
     source: task.source,
     filePath,
-    module: deriveModuleFromPath(filePath, sourceDir),
+    module: resolveModule(filePath),
     title: task.title,
     description: task.description,
     severity: deriveSeverity(task.source),
@@ -508,8 +633,12 @@ function deriveSeverity(source: TaskSource): "info" | "warning" | "error" {
       return "info";
     case "github-issue":
       return "warning";
+    case "todo":
+      return "info";
     case "dead-code":
       return "warning";
+    case "security":
+      return "error";
     case "custom":
       return "info";
     default:
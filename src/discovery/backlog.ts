@@ -3,8 +3,26 @@ import { dirname, join } from "node:path";
 
 import type { Epic } from "../core/types.js";
 import type { Backlog } from "./context-types.js";
+import { computeEpicPriority } from "./epic-grouper.js";
+import {
+  EPIC_SIMILARITY_THRESHOLD,
+  computeEpicId,
+  epicFingerprints,
+  epicSource,
+  fingerprintSimilarity,
+  fingerprintTask,
+} from "./fingerprint.js";
 
 const DEFAULT_CONTEXT_DIR = ".oac/context";
+export const BACKLOG_VERSION = 2;
+
+/** Status precedence when collapsing duplicate epics: finished work wins. */
+const STATUS_RANK: Record<Epic["status"], number> = {
+  completed: 0,
+  skipped: 1,
+  "in-progress": 2,
+  pending: 3,
+};
 
 /**
  * Persist the backlog to disk with atomic write (temp file + rename).
@@ -28,13 +46,14 @@ export async function persistBacklog(
 
 /**
  * Load the backlog from disk. Returns null if file doesn't exist.
+ * Backlogs written by older versions are migrated on load.
  */
 export async function loadBacklog(repoPath: string, contextDir?: string): Promise<Backlog | null> {
   const path = join(repoPath, contextDir ?? DEFAULT_CONTEXT_DIR, "backlog.json");
 
   try {
     const content = await readFile(path, "utf8");
-    return JSON.parse(content) as Backlog;
+    return migrateBacklog(JSON.parse(content) as Backlog | LegacyBacklog);
   } catch (err: unknown) {
     if (err instanceof Error && "code" in err && (err as NodeJS.ErrnoException).code === "ENOENT") {
       return null;
@@ -52,7 +71,7 @@ export async function loadBacklog(repoPath: string, contextDir?: string): Promis
  */
 export function createBacklog(repoFullName: string, headSha: string, epics: Epic[]): Backlog {
   return {
-    version: 1,
+    version: BACKLOG_VERSION,
     lastUpdatedAt: new Date().toISOString(),
     repoFullName,
     headSha,
@@ -62,9 +81,11 @@ export function createBacklog(repoFullName: string, headSha: string, epics: Epic
 
 /**
  * Update an existing backlog:
- * - Add new epics (dedup by id)
+ * - Match new epics to existing ones by id, or by finding overlap within the
+ *   same scope and source (so small drift keeps the same epic)
  * - Mark epics as completed
  * - Preserve completed/skipped status from previous runs
+ * - Drop findings already fixed by a completed epic from new epics
  * Returns a new Backlog object (immutable update).
  */
 export function updateBacklog(
@@ -89,13 +110,32 @@ export function updateBacklog(
     }
   }
 
+  const completedFingerprints = new Set<string>();
+  for (const epic of epicMap.values()) {
+    if (epic.status === "completed") {
+      for (const fingerprint of epicFingerprints(epic)) completedFingerprints.add(fingerprint);
+    }
+  }
+
   // Merge new epics: add if missing, update if pending
-  for (const epic of newEpics) {
-    const existing = epicMap.get(epic.id);
-    if (!existing) {
-      epicMap.set(epic.id, { ...epic });
-    } else if (existing.status === "pending") {
+  const matched = new Set<string>();
+  for (const incoming of newEpics) {
+    const epic = withoutFindings(incoming, completedFingerprints);
+    if (!epic) continue;
+
+    const match = findMatchingEpic(epic, epicMap, matched);
+    if (!match) {
       epicMap.set(epic.id, { ...epic });
+      matched.add(epic.id);
+      continue;
+    }
+
+    matched.add(match.id);
+    if (match.status === "pending") {
+      epicMap.set(match.id, {
+        ...reassignId(epic, match.id),
+        createdAt: match.createdAt,
+      });
     }
     // If existing is completed or skipped, preserve that status
   }
@@ -103,7 +143,7 @@ export function updateBacklog(
   const epics = Array.from(epicMap.values());
 
   return {
-    version: 1,
+    version: BACKLOG_VERSION,
     lastUpdatedAt: new Date().toISOString(),
     repoFullName: existing.repoFullName,
     headSha: headSha ?? existing.headSha,
@@ -111,6 +151,54 @@ export function updateBacklog(
   };
 }
 
+/** Backlog shape written before epic ids were content-derived. */
+export interface LegacyBacklog extends Omit<Backlog, "version"> {
+  version: 1;
+}
+
+/**
+ * Upgrade a backlog to the current version. Version 1 backlogs used random
+ * epic ids, so every analysis appended a fresh copy of each epic; duplicates
+ * (same scope and source, overlapping findings) are collapsed into one epic,
+ * keeping completed or skipped copies over pending ones, and the survivors
+ * get content-derived ids.
+ */
+export function migrateBacklog(backlog: Backlog | LegacyBacklog): Backlog {
+  if (backlog.version === BACKLOG_VERSION) {
+    return backlog as Backlog;
+  }
+
+  const ranked = backlog.epics
+    .map((epic, index) => ({ epic, index, fingerprints: epicFingerprints(epic) }))
+    .sort(
+      (a, b) =>
+        STATUS_RANK[a.epic.status] - STATUS_RANK[b.epic.status] ||
+        b.epic.createdAt.localeCompare(a.epic.createdAt),
+    );
+
+  const survivors: typeof ranked = [];
+  for (const candidate of ranked) {
+    const duplicate = survivors.some(
+      (kept) =>
+        kept.epic.scope === candidate.epic.scope &&
+        epicSource(kept.epic) === epicSource(candidate.epic) &&
+        fingerprintSimilarity(kept.fingerprints, candidate.fingerprints) >=
+          EPIC_SIMILARITY_THRESHOLD,
+    );
+    if (!duplicate) {
+      survivors.push(candidate);
+    }
+  }
+
+  const epics = survivors
+    .sort((a, b) => a.index - b.index)
+    .map(({ epic, fingerprints }) =>
+      reassignId(epic, computeEpicId(epic.scope, epicSource(epic) ?? "custom", fingerprints)),
+    );
+
+  return { ...backlog, version: BACKLOG_VERSION, epics };
+}
+
 /**
  * Get pending epics from a backlog, sorted by priority descending.
  */
@@ -119,3 +207,71 @@ export function getPendingEpics(backlog: Backlog): Epic[] {
     .filter((e) => e.status === "pending")
     .sort((a, b) => b.priority - a.priority);
 }
+
+// ── Internal: epic matching ──────────────────────────────────
+
+function findMatchingEpic(
+  epic: Epic,
+  epicMap: Map<string, Epic>,
+  matched: Set<string>,
+): Epic | undefined {
+  const exact = epicMap.get(epic.id);
+  if (exact && !matched.has(exact.id)) {
+    return exact;
+  }
+
+  const fingerprints = epicFingerprints(epic);
+  const source = epicSource(epic);
+  let best: Epic | undefined;
+  let bestSimilarity = EPIC_SIMILARITY_THRESHOLD;
+
+  for (const candidate of epicMap.values()) {
+    if (matched.has(candidate.id)) continue;
+    if (candidate.scope !== epic.scope || epicSource(candidate) !== source) continue;
+
+    const similarity = fingerprintSimilarity(fingerprints, epicFingerprints(candidate));
+    if (similarity >= bestSimilarity) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Remove subtasks whose finding was already fixed by a completed epic.
+ * Returns undefined when nothing is left.
+ */
+function withoutFindings(epic: Epic, fingerprints: Set<string>): Epic | undefined {
+  if (fingerprints.size === 0) {
+    return epic;
+  }
+
+  const subtasks = epic.subtasks.filter((task) => !fingerprints.has(fingerprintTask(task)));
+  if (subtasks.length === epic.subtasks.length) {
+    return epic;
+  }
+  if (subtasks.length === 0) {
+    return undefined;
+  }
+
+  const id = computeEpicId(epic.scope, epicSource(epic) ?? "custom", subtasks.map(fingerprintTask));
+  return reassignId(
+    {
+      ...epic,
+      subtasks,
+      priority: computeEpicPriority(subtasks),
+      metadata: { ...epic.metadata, findingCount: subtasks.length },
+    },
+    id,
+  );
+}
+
+function reassignId(epic: Epic, id: string): Epic {
+  return {
+    ...epic,
+    id,
+    subtasks: epic.subtasks.map((task) => ({ ...task, parentEpicId: id })),
+  };
+}
@@ -1,4 +1,5 @@
 import type { Epic } from "../core/types.js";
+import type { LanguageId } from "./languages/types.js";
 import type { RawFinding } from "./types.js";
 
 // ── Codebase Map ──────────────────────────────────────────────
@@ -9,6 +10,11 @@ export interface FileInfo {
   sizeBytes: number;
   exports: string[];
   imports: string[];
+  /**
+   * Names bound per import/re-export specifier (`default`, `*` for namespace
+   * or dynamic imports). Absent in maps written by older versions.
+   */
+  importedNames?: Record<string, string[]>;
 }
 
 export interface ModuleInfo {
@@ -16,6 +22,8 @@ export interface ModuleInfo {
   name: string;
   /** Relative path from repo root, e.g. "src/budget" */
   path: string;
+  /** Language the module is written in. Absent in maps written by older versions. */
+  language?: LanguageId;
   files: FileInfo[];
   totalLoc: number;
   /** Aggregated exports from all files in the module */
@@ -52,7 +60,7 @@ export interface QualityReport {
 // ── Backlog ───────────────────────────────────────────────────
 
 export interface Backlog {
-  version: 1;
+  version: 2;
   lastUpdatedAt: string;
   repoFullName: string;
   headSha: string;
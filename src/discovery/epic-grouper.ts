@@ -1,8 +1,7 @@
-import { randomUUID } from "node:crypto";
-
 import type { Epic, EpicStatus, Task, TaskComplexity, TaskSource } from "../core/types.js";
 import { deriveModuleFromPath } from "./analyzer.js";
 import type { CodebaseMap, ModuleInfo } from "./context-types.js";
+import { computeEpicId, fingerprintFinding, fingerprintFindings } from "./fingerprint.js";
 import type { RawFinding } from "./types.js";
 
 // ── Public options ───────────────────────────────────────────
@@ -41,6 +40,7 @@ export function groupFindingsIntoEpics(findings: RawFinding[], options?: Grouper
   const maxSubtasks = options?.maxSubtasksPerEpic ?? DEFAULT_MAX_SUBTASKS;
   const _minFindings = options?.minFindingsForEpic ?? DEFAULT_MIN_FINDINGS;
   const codebaseMap = options?.codebaseMap;
+  const fingerprints = fingerprintFindings(findings);
 
   // Step 1 & 2: Derive module for each finding and group by (module + source)
   const groups = new Map<string, RawFinding[]>();
@@ -66,11 +66,11 @@ export function groupFindingsIntoEpics(findings: RawFinding[], options?: Grouper
     const weightChunks = chunkByWeight(groupFindings, MAX_WEIGHT_PER_EPIC, maxSubtasks);
 
     if (weightChunks.length <= 1) {
-      epics.push(buildEpic(source, module, groupFindings, codebaseMap));
+      epics.push(buildEpic(source, module, groupFindings, fingerprints, codebaseMap));
     } else {
       for (let i = 0; i < weightChunks.length; i++) {
         epics.push(
-          buildEpic(source, module, weightChunks[i], codebaseMap, {
+          buildEpic(source, module, weightChunks[i], fingerprints, codebaseMap, {
             partIndex: i + 1,
             totalParts: weightChunks.length,
           }),
@@ -93,12 +93,17 @@ function buildEpic(
   source: TaskSource,
   module: string,
   findings: RawFinding[],
+  fingerprints: Map<RawFinding, string>,
   codebaseMap?: CodebaseMap,
   partInfo?: PartInfo,
 ): Epic {
-  const epicId = randomUUID().slice(0, 16);
+  const fingerprintOf = (finding: RawFinding) =>
+    fingerprints.get(finding) ?? fingerprintFinding(finding);
+  // Content-derived id: re-analyzing the same findings yields the same epic,
+  // which is what lets the backlog dedupe and keep completed work completed.
+  const epicId = computeEpicId(module, source, findings.map(fingerprintOf));
   const subtasks = findings
-    .map((f) => findingToTask(f, epicId))
+    .map((f) => findingToTask(f, epicId, fingerprintOf(f)))
     .sort((a, b) => b.priority - a.priority);
 
   let title = buildEpicTitle(source, module, subtasks);
@@ -135,8 +140,12 @@ function buildEpicTitle(source: TaskSource, module: string, _subtasks: Task[]):
       return `Improve test coverage${moduleLabel}`;
     case "lint":
       return `Fix lint issues${module === "root" ? "" : ` in ${module} module`}`;
+    case "todo":
+      return `Address TODO comments${module === "root" ? "" : ` in ${module} module`}`;
     case "dead-code":
       return `Remove dead code${module === "root" ? "" : ` in ${module} module`}`;
+    case "security":
+      return `Fix security findings${module === "root" ? "" : ` in ${module} module`}`;
     case "github-issue":
       return `Resolve GitHub issues${module === "root" ? "" : ` in ${module} module`}`;
     case "custom":
@@ -164,9 +173,13 @@ function buildEpicDescription(source: TaskSource, module: string, subtasks: Task
 
 // ── Finding → Task conversion ────────────────────────────────
 
-export function findingToTask(finding: RawFinding, epicId: string): Task {
+export function findingToTask(
+  finding: RawFinding,
+  epicId: string,
+  fingerprint = fingerprintFinding(finding),
+): Task {
   return {
-    id: `${finding.source}-${randomUUID().slice(0, 8)}`,
+    id: `${finding.source}-${fingerprint.slice(0, 8)}`,
     source: finding.source,
     title: finding.title,
     description: finding.description,
@@ -174,7 +187,7 @@ export function findingToTask(finding: RawFinding, epicId: string): Task {
     priority: derivePriorityFromSeverity(finding.severity),
     complexity: finding.complexity,
     executionMode: "new-pr",
-    metadata: finding.metadata,
+    metadata: { ...finding.metadata, fingerprint },
     discoveredAt: finding.discoveredAt,
     parentEpicId: epicId,
   };
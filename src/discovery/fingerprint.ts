@@ -0,0 +1,132 @@
+import { createHash } from "node:crypto";
+
+import type { Epic, Task, TaskSource } from "../core/types.js";
+import type { RawFinding } from "./types.js";
+
+/**
+ * Minimum Jaccard similarity between two epics' finding fingerprints for them
+ * to be treated as the same epic. Lets an epic keep its identity when a few
+ * findings are fixed or appear between analyses.
+ */
+export const EPIC_SIMILARITY_THRESHOLD = 0.5;
+
+/** Metadata keys that identify the rule behind a finding, most specific first. */
+const RULE_KEYS = ["ruleId", "pattern", "kind", "issueNumber"] as const;
+
+/**
+ * Stable identity of a single finding: source, file and rule. The line is
+ * left out so that edits elsewhere in the file do not change it; the title is
+ * only used when a scanner reports no rule identifier.
+ */
+export function fingerprintFinding(finding: RawFinding, occurrence = 0): string {
+  return computeFingerprint(
+    finding.source,
+    finding.filePath,
+    readRule(finding.metadata) ?? finding.title,
+    occurrence,
+  );
+}
+
+/**
+ * Fingerprints of a whole scan. Findings that share source, file and rule are
+ * told apart by their order in the file rather than by line number, so the
+ * fingerprints survive code moving up or down.
+ */
+export function fingerprintFindings(findings: RawFinding[]): Map<RawFinding, string> {
+  const byLine = [...findings].sort(
+    (left, right) =>
+      (left.line ?? readLine(left.metadata) ?? 0) - (right.line ?? readLine(right.metadata) ?? 0),
+  );
+  const occurrences = new Map<string, number>();
+  const fingerprints = new Map<RawFinding, string>();
+
+  for (const finding of byLine) {
+    const key = fingerprintFinding(finding);
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    fingerprints.set(finding, occurrence === 0 ? key : fingerprintFinding(finding, occurrence));
+  }
+  return fingerprints;
+}
+
+/**
+ * Fingerprint of an epic subtask. Subtasks created by the grouper carry it in
+ * `metadata.fingerprint`; older backlogs are fingerprinted from task fields.
+ */
+export function fingerprintTask(task: Task): string {
+  const stored = task.metadata?.fingerprint;
+  if (typeof stored === "string" && stored.length > 0) {
+    return stored;
+  }
+
+  return computeFingerprint(
+    task.source,
+    task.targetFiles[0] ?? "",
+    readRule(task.metadata) ?? task.title,
+    0,
+  );
+}
+
+export function epicFingerprints(epic: Epic): Set<string> {
+  return new Set(epic.subtasks.map(fingerprintTask));
+}
+
+/** Source of an epic, falling back to its first subtask for older backlogs. */
+export function epicSource(epic: Epic): TaskSource | undefined {
+  const source = epic.metadata?.source;
+  if (typeof source === "string") {
+    return source as TaskSource;
+  }
+  return epic.subtasks[0]?.source;
+}
+
+/**
+ * Content-derived epic id: the same scope, source and member findings always
+ * produce the same id, regardless of finding order.
+ */
+export function computeEpicId(
+  scope: string,
+  source: TaskSource | string,
+  fingerprints: Iterable<string>,
+): string {
+  const members = [...new Set(fingerprints)].sort().join(",");
+  return createHash("sha256").update(`${scope}::${source}::${members}`).digest("hex").slice(0, 16);
+}
+
+/** Jaccard similarity of two fingerprint sets (1 = identical, 0 = disjoint). */
+export function fingerprintSimilarity(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 && right.size === 0) {
+    return 1;
+  }
+
+  let shared = 0;
+  for (const fingerprint of left) {
+    if (right.has(fingerprint)) shared += 1;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+function computeFingerprint(
+  source: string,
+  filePath: string,
+  rule: string,
+  occurrence: number,
+): string {
+  const seed = [source, filePath, rule, occurrence === 0 ? "" : `#${occurrence}`].join("::");
+  return createHash("sha256").update(seed).digest("hex").slice(0, 16);
+}
+
+function readRule(metadata: Record<string, unknown> | undefined): string | undefined {
+  if (!metadata) return undefined;
+  for (const key of RULE_KEYS) {
+    const value = metadata[key];
+    if (typeof value === "string" && value.length > 0) return value;
+    if (typeof value === "number") return String(value);
+  }
+  return undefined;
+}
+
+function readLine(metadata: Record<string, unknown> | undefined): number | undefined {
+  const line = metadata?.line ?? metadata?.startLine;
+  return typeof line === "number" ? line : undefined;
+}
@@ -0,0 +1,36 @@
+import { sep } from "node:path";
+
+/**
+ * Matcher for the glob-like patterns used in `exclude` lists and goal paths.
+ * `*` stays within one path segment and `**` spans segments. A pattern
+ * without wildcards matches that path, anything below it, or a file or
+ * directory of that name at any depth. A leading `!` is ignored.
+ */
+export function compileGlobMatcher(pattern: string): (filePath: string) => boolean {
+  const normalized = normalizeGlobPath(pattern.replace(/^!+/, "").trim());
+  if (!normalized) {
+    return () => false;
+  }
+
+  if (!normalized.includes("*")) {
+    const prefix = normalized.endsWith("/") ? normalized : `${normalized}/`;
+    return (filePath: string) =>
+      filePath === normalized ||
+      filePath.startsWith(prefix) ||
+      filePath.endsWith(`/${normalized}`) ||
+      filePath.includes(`/${prefix}`);
+  }
+
+  const escaped = normalized
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*/g, "__DOUBLE_STAR__")
+    .replace(/\*/g, "[^/]*")
+    .replace(/__DOUBLE_STAR__/g, ".*");
+
+  const regex = new RegExp(`^${escaped}$`);
+  return (filePath: string) => regex.test(filePath);
+}
+
+function normalizeGlobPath(filePath: string): string {
+  return filePath.split(sep).join("/").replace(/^\.\//, "");
+}
@@ -3,10 +3,15 @@ export * from "./context-types.js";
 export * from "./scanners/lint-scanner.js";
 export * from "./scanners/security-scanner.js";
 export * from "./scanners/test-gap-scanner.js";
+export * from "./scanners/todo-scanner.js";
+export * from "./scanners/dead-code-scanner.js";
 export * from "./scanners/github-issues-scanner.js";
+export * from "./scanners/custom-scanner.js";
 export * from "./scanner.js";
 export * from "./scanner-factory.js";
 export * from "./ranker.js";
 export * from "./analyzer.js";
 export * from "./epic-grouper.js";
 export * from "./backlog.js";
+export * from "./fingerprint.js";
+export * from "./languages/index.js";
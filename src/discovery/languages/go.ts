@@ -0,0 +1,99 @@
+import { join } from "node:path";
+
+import { joinRelative, readTextFile, stripExtension, uniqueInOrder } from "./shared.js";
+import type { LanguagePlugin, SourceRoot } from "./types.js";
+
+/** Conventional Go layout directories whose children are the real modules. */
+const CONTAINER_DIRS = new Set(["internal", "pkg", "cmd"]);
+
+/**
+ * Go. The repo (where `go.mod` lives) is the source root and import paths
+ * under the `module` path are resolved against it. Top-level directories are
+ * modules, except `internal/`, `pkg/` and `cmd/` whose children are.
+ * Tests are `foo_test.go` next to `foo.go`.
+ */
+export const goPlugin: LanguagePlugin = {
+  id: "go",
+  extensions: [".go"],
+  excludeDirs: ["vendor", "testdata", "bin"],
+
+  async detectSourceRoots(repoPath: string): Promise<SourceRoot[]> {
+    const goMod = await readTextFile(join(repoPath, "go.mod"));
+    if (goMod === undefined) {
+      return [];
+    }
+    const modulePath = goMod.match(/^module\s+(\S+)/m)?.[1];
+    return [{ path: ".", importPrefix: modulePath }];
+  },
+
+  moduleOf(pathInRoot: string): string {
+    const parts = pathInRoot.split("/");
+    if (parts.length === 1) return "root";
+    if (CONTAINER_DIRS.has(parts[0]) && parts.length > 2) {
+      return `${parts[0]}/${parts[1]}`;
+    }
+    return parts[0];
+  },
+
+  extractExports(content: string): string[] {
+    const names: string[] = [];
+    // func Name(…) — methods (func (r T) Name) are part of their type
+    for (const m of content.matchAll(/^func\s+([A-Z]\w*)\s*[[(]/gm)) {
+      names.push(m[1]);
+    }
+    for (const m of content.matchAll(/^(?:type|var|const)\s+([A-Z]\w*)/gm)) {
+      names.push(m[1]);
+    }
+    // Grouped declarations: type ( … ), var ( … ), const ( … )
+    for (const block of content.matchAll(/^(?:type|var|const)\s*\(([\s\S]*?)^\)/gm)) {
+      for (const m of block[1].matchAll(/^\s+([A-Z]\w*)\b/gm)) {
+        names.push(m[1]);
+      }
+    }
+    return uniqueInOrder(names);
+  },
+
+  extractImports(content: string): string[] {
+    const imports: string[] = [];
+    for (const m of content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+      imports.push(m[1]);
+    }
+    for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+      for (const m of block[1].matchAll(/"([^"]+)"/g)) {
+        imports.push(m[1]);
+      }
+    }
+    return uniqueInOrder(imports);
+  },
+
+  resolveImport(specifier: string, _fromFile: string, roots: SourceRoot[]): string | undefined {
+    for (const root of roots) {
+      const prefix = root.importPrefix;
+      if (!prefix) continue;
+      if (specifier === prefix) return root.path;
+      if (specifier.startsWith(`${prefix}/`)) {
+        return joinRelative(root.path, specifier.slice(prefix.length + 1));
+      }
+    }
+    return undefined;
+  },
+
+  isSourceFile(filePath: string): boolean {
+    if (!filePath.endsWith(".go") || filePath.endsWith("_test.go")) return false;
+    const parts = filePath.split("/");
+    return !parts.some((part) => part === "vendor" || part === "testdata");
+  },
+
+  isTestFile(filePath: string): boolean {
+    return filePath.endsWith("_test.go");
+  },
+
+  sourceKey(filePath: string): string {
+    return stripExtension(filePath);
+  },
+
+  coveredSourceKeys(testFilePath: string): string[] {
+    if (!testFilePath.endsWith("_test.go")) return [];
+    return [testFilePath.slice(0, -"_test.go".length)];
+  },
+};
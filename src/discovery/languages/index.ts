@@ -0,0 +1,48 @@
+import { goPlugin } from "./go.js";
+import { javaPlugin } from "./java.js";
+import { pythonPlugin } from "./python.js";
+import { rustPlugin } from "./rust.js";
+import type { LanguagePlugin, SourceRoot } from "./types.js";
+import { typescriptPlugin } from "./typescript.js";
+
+export type { LanguageId, LanguagePlugin, SourceRoot } from "./types.js";
+export { typescriptPlugin } from "./typescript.js";
+export { pythonPlugin } from "./python.js";
+export { goPlugin } from "./go.js";
+export { rustPlugin } from "./rust.js";
+export { javaPlugin } from "./java.js";
+
+export const LANGUAGE_PLUGINS: readonly LanguagePlugin[] = [
+  typescriptPlugin,
+  pythonPlugin,
+  goPlugin,
+  rustPlugin,
+  javaPlugin,
+];
+
+export interface DetectedLanguage {
+  plugin: LanguagePlugin;
+  roots: SourceRoot[];
+}
+
+/**
+ * Detect which languages a repository uses, from their manifests and source
+ * layouts. Languages without any source root are omitted.
+ */
+export async function detectLanguages(
+  repoPath: string,
+  plugins: readonly LanguagePlugin[] = LANGUAGE_PLUGINS,
+): Promise<DetectedLanguage[]> {
+  const detected = await Promise.all(
+    plugins.map(async (plugin) => ({ plugin, roots: await plugin.detectSourceRoots(repoPath) })),
+  );
+  return detected.filter((language) => language.roots.length > 0);
+}
+
+/** The plugin responsible for a file, by extension. */
+export function languageForFile(
+  filePath: string,
+  plugins: readonly LanguagePlugin[] = LANGUAGE_PLUGINS,
+): LanguagePlugin | undefined {
+  return plugins.find((plugin) => plugin.extensions.some((ext) => filePath.endsWith(ext)));
+}
@@ -0,0 +1,142 @@
+import { join, posix } from "node:path";
+
+import {
+  descendSinglePackage,
+  firstSegmentModule,
+  joinRelative,
+  listEntries,
+  pathExists,
+  uniqueInOrder,
+} from "./shared.js";
+import type { LanguagePlugin, SourceRoot } from "./types.js";
+
+const BUILD_FILES = [
+  "pom.xml",
+  "build.gradle",
+  "build.gradle.kts",
+  "settings.gradle",
+  "settings.gradle.kts",
+];
+const MAIN_DIR = "src/main/java";
+const TEST_DIR = "src/test/java";
+const TEST_CLASS_SUFFIXES = ["Tests", "Test", "IT"];
+const NON_SOURCE_FILES = new Set(["package-info.java", "module-info.java"]);
+
+/**
+ * Java (Maven / Gradle). `src/main/java` of the project and of each direct
+ * subproject is a source root, minus the shared package prefix
+ * (`com/acme/app`), so modules are the first packages below it. Tests are
+ * `FooTest.java` in the mirrored package under `src/test/java`.
+ */
+export const javaPlugin: LanguagePlugin = {
+  id: "java",
+  extensions: [".java"],
+  excludeDirs: ["target", "build", "out", ".gradle"],
+
+  async detectSourceRoots(repoPath: string): Promise<SourceRoot[]> {
+    const buildFiles = await Promise.all(
+      BUILD_FILES.map((name) => pathExists(join(repoPath, name))),
+    );
+    if (!buildFiles.some(Boolean)) {
+      return [];
+    }
+
+    const projects = ["."];
+    for (const entry of await listEntries(repoPath)) {
+      if (entry.isDirectory() && !entry.name.startsWith(".")) projects.push(entry.name);
+    }
+
+    const roots: SourceRoot[] = [];
+    for (const project of projects) {
+      const mainDir = joinRelative(project, MAIN_DIR);
+      if (!(await pathExists(join(repoPath, mainDir)))) continue;
+
+      const root = await descendSinglePackage(repoPath, mainDir, [".java"]);
+      const packagePath = root === mainDir ? "" : root.slice(mainDir.length + 1);
+      roots.push({
+        path: root,
+        importPrefix: packagePath ? packagePath.replaceAll("/", ".") : undefined,
+      });
+    }
+    return roots;
+  },
+
+  moduleOf: firstSegmentModule,
+
+  extractExports(content: string): string[] {
+    const names: string[] = [];
+    const publicTypeRe =
+      /\bpublic\s+(?:(?:abstract|final|sealed|non-sealed|static|strictfp)\s+)*(?:class|interface|enum|record|@interface)\s+([A-Za-z_$][\w$]*)/g;
+    for (const m of content.matchAll(publicTypeRe)) {
+      names.push(m[1]);
+    }
+    return uniqueInOrder(names);
+  },
+
+  /** Returns package paths: `import com.acme.app.Foo;` → `com.acme.app`. */
+  extractImports(content: string): string[] {
+    const imports: string[] = [];
+    for (const m of content.matchAll(/^\s*import\s+(static\s+)?([\w.]+)(\.\*)?\s*;/gm)) {
+      const segments = m[2].split(".");
+      // Drop the class name (and the member name for static imports) unless wildcard
+      const drop = (m[3] ? 0 : 1) + (m[1] ? 1 : 0);
+      imports.push(segments.slice(0, Math.max(1, segments.length - drop)).join("."));
+    }
+    return uniqueInOrder(imports);
+  },
+
+  resolveImport(specifier: string, _fromFile: string, roots: SourceRoot[]): string | undefined {
+    const segments = specifier.split(".");
+    for (const root of roots) {
+      const prefix = root.importPrefix?.split(".") ?? [];
+      if (prefix.every((part, index) => segments[index] === part)) {
+        return joinRelative(root.path, ...segments.slice(prefix.length));
+      }
+    }
+    return undefined;
+  },
+
+  isSourceFile(filePath: string): boolean {
+    if (!filePath.endsWith(".java") || NON_SOURCE_FILES.has(posix.basename(filePath))) {
+      return false;
+    }
+    return filePath.includes(`${MAIN_DIR}/`);
+  },
+
+  isTestFile(filePath: string): boolean {
+    return filePath.endsWith(".java") && filePath.includes(`${TEST_DIR}/`);
+  },
+
+  sourceKey(filePath: string): string {
+    return toClassKey(filePath, MAIN_DIR) ?? filePath;
+  },
+
+  /** `src/test/java/a/FooTest.java` covers `src/main/java/a/Foo.java`. */
+  coveredSourceKeys(testFilePath: string): string[] {
+    const key = toClassKey(testFilePath, TEST_DIR);
+    if (!key) return [];
+
+    const slash = key.lastIndexOf("/");
+    const dir = key.slice(0, slash + 1);
+    const className = key.slice(slash + 1);
+    const keys = [key];
+    for (const suffix of TEST_CLASS_SUFFIXES) {
+      if (className.endsWith(suffix) && className.length > suffix.length) {
+        keys.push(`${dir}${className.slice(0, -suffix.length)}`);
+      }
+    }
+    if (className.startsWith("Test") && className.length > 4) {
+      keys.push(`${dir}${className.slice(4)}`);
+    }
+    return keys;
+  },
+};
+
+/** `<project>/src/main/java/a/b/Foo.java` → `<project>::a/b/Foo`. */
+function toClassKey(filePath: string, layoutDir: string): string | undefined {
+  const index = filePath.indexOf(`${layoutDir}/`);
+  if (index === -1) return undefined;
+  const project = filePath.slice(0, index).replace(/\/$/, "");
+  const classPath = filePath.slice(index + layoutDir.length + 1).replace(/\.java$/, "");
+  return `${project}::${classPath}`;
+}
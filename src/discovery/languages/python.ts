@@ -0,0 +1,146 @@
+import { join, posix } from "node:path";
+
+import {
+  descendSinglePackage,
+  firstSegmentModule,
+  joinRelative,
+  listEntries,
+  pathExists,
+  uniqueInOrder,
+} from "./shared.js";
+import type { LanguagePlugin, SourceRoot } from "./types.js";
+
+const MANIFESTS = ["pyproject.toml", "setup.py", "setup.cfg"];
+const EXCLUDE_DIRS = [
+  "__pycache__",
+  ".venv",
+  "venv",
+  ".tox",
+  ".mypy_cache",
+  ".pytest_cache",
+  "build",
+  "dist",
+  "site-packages",
+];
+const NON_PACKAGE_DIRS = ["tests", "test", "docs", "examples", "scripts", ...EXCLUDE_DIRS];
+const NOT_TESTABLE = new Set(["__init__.py", "__main__.py", "conftest.py", "setup.py"]);
+
+/**
+ * Python. Source roots are the packages (directories with `__init__.py`) in
+ * `src/` or the repo root; with a single package its subpackages become the
+ * modules. Tests follow pytest conventions: `test_*.py` / `*_test.py`.
+ */
+export const pythonPlugin: LanguagePlugin = {
+  id: "python",
+  extensions: [".py"],
+  excludeDirs: EXCLUDE_DIRS,
+
+  async detectSourceRoots(repoPath: string): Promise<SourceRoot[]> {
+    const manifests = await Promise.all(MANIFESTS.map((name) => pathExists(join(repoPath, name))));
+    if (!manifests.some(Boolean)) {
+      return [];
+    }
+
+    const base = (await pathExists(join(repoPath, "src"))) ? "src" : ".";
+    const packages: string[] = [];
+    for (const entry of await listEntries(join(repoPath, base))) {
+      if (!entry.isDirectory() || NON_PACKAGE_DIRS.includes(entry.name)) continue;
+      if (entry.name.startsWith(".")) continue;
+      if (await pathExists(join(repoPath, base, entry.name, "__init__.py"))) {
+        packages.push(entry.name);
+      }
+    }
+
+    if (packages.length === 1) {
+      const root = await descendSinglePackage(
+        repoPath,
+        joinRelative(base, packages[0]),
+        [".py"],
+        NON_PACKAGE_DIRS,
+      );
+      const packagePath = base === "." ? root : root.slice(base.length + 1);
+      return [{ path: root, importPrefix: packagePath.replaceAll("/", ".") }];
+    }
+
+    return [{ path: base }];
+  },
+
+  moduleOf: firstSegmentModule,
+
+  extractExports(content: string): string[] {
+    const dunderAll = content.match(/^__all__\s*=\s*[[(]([\s\S]*?)[\])]/m);
+    if (dunderAll) {
+      return uniqueInOrder([...dunderAll[1].matchAll(/["']([^"']+)["']/g)].map((m) => m[1]));
+    }
+
+    const names: string[] = [];
+    for (const m of content.matchAll(/^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/gm)) {
+      names.push(m[1]);
+    }
+    for (const m of content.matchAll(/^([A-Za-z_]\w*)\s*(?::[^=\n]+)?=(?!=)/gm)) {
+      names.push(m[1]);
+    }
+    return uniqueInOrder(names.filter((name) => !name.startsWith("_")));
+  },
+
+  extractImports(content: string): string[] {
+    const imports: string[] = [];
+    for (const m of content.matchAll(/^\s*from\s+(\.*[\w.]*)\s+import\b/gm)) {
+      imports.push(m[1]);
+    }
+    for (const m of content.matchAll(/^\s*import\s+([\w.]+(?:\s*,\s*[\w.]+)*)/gm)) {
+      imports.push(...m[1].split(",").map((name) => name.trim()));
+    }
+    return uniqueInOrder(imports);
+  },
+
+  resolveImport(specifier: string, fromFile: string, roots: SourceRoot[]): string | undefined {
+    const relative = specifier.match(/^(\.+)(.*)$/);
+    if (relative) {
+      let dir = posix.dirname(fromFile);
+      for (let level = 1; level < relative[1].length; level++) {
+        dir = posix.dirname(dir);
+      }
+      return joinRelative(dir, ...relative[2].split(".").filter(Boolean));
+    }
+
+    const segments = specifier.split(".");
+    for (const root of roots) {
+      if (root.importPrefix) {
+        const prefix = root.importPrefix.split(".");
+        if (prefix.every((part, index) => segments[index] === part)) {
+          return joinRelative(root.path, ...segments.slice(prefix.length));
+        }
+      } else {
+        return joinRelative(root.path, ...segments);
+      }
+    }
+    return undefined;
+  },
+
+  isSourceFile(filePath: string): boolean {
+    if (!filePath.endsWith(".py") || pythonIsTest(filePath)) return false;
+    if (NOT_TESTABLE.has(posix.basename(filePath))) return false;
+    const parts = filePath.split("/");
+    return !parts.some((part) => EXCLUDE_DIRS.includes(part) || part === "docs");
+  },
+
+  isTestFile: pythonIsTest,
+
+  /** pytest discovers tests by name, not by path, so match on the module stem. */
+  sourceKey(filePath: string): string {
+    return `py:${posix.basename(filePath, ".py")}`;
+  },
+
+  coveredSourceKeys(testFilePath: string): string[] {
+    const stem = posix.basename(testFilePath, ".py");
+    const target = stem.startsWith("test_") ? stem.slice(5) : stem.replace(/_test$/, "");
+    return target ? [`py:${target}`] : [];
+  },
+};
+
+function pythonIsTest(filePath: string): boolean {
+  if (!filePath.endsWith(".py")) return false;
+  const name = posix.basename(filePath);
+  return name.startsWith("test_") || name.endsWith("_test.py");
+}
@@ -0,0 +1,152 @@
+import { join, posix } from "node:path";
+
+import {
+  findRoot,
+  joinRelative,
+  listEntries,
+  pathExists,
+  readTextFile,
+  uniqueInOrder,
+} from "./shared.js";
+import type { LanguagePlugin, SourceRoot } from "./types.js";
+
+const CRATE_ENTRY_FILES = new Set(["lib.rs", "main.rs", "build.rs"]);
+
+/**
+ * Rust. Each crate's `src/` (the root package and `[workspace] members`) is a
+ * source root; `src/foo.rs` and `src/foo/` are the module `foo`. Integration
+ * tests live in `tests/`, unit tests in `#[cfg(test)]` blocks of the file.
+ */
+export const rustPlugin: LanguagePlugin = {
+  id: "rust",
+  extensions: [".rs"],
+  excludeDirs: ["target"],
+
+  async detectSourceRoots(repoPath: string): Promise<SourceRoot[]> {
+    const manifest = await readTextFile(join(repoPath, "Cargo.toml"));
+    if (manifest === undefined) {
+      return [];
+    }
+
+    const roots: SourceRoot[] = [];
+    const rootCrate = await crateRoot(repoPath, ".", manifest);
+    if (rootCrate) roots.push(rootCrate);
+
+    for (const member of await expandWorkspaceMembers(repoPath, manifest)) {
+      const memberManifest = await readTextFile(join(repoPath, member, "Cargo.toml"));
+      if (memberManifest === undefined) continue;
+      const crate = await crateRoot(repoPath, member, memberManifest);
+      if (crate) roots.push(crate);
+    }
+
+    return roots;
+  },
+
+  moduleOf(pathInRoot: string): string {
+    const slash = pathInRoot.indexOf("/");
+    if (slash !== -1) return pathInRoot.slice(0, slash);
+    if (CRATE_ENTRY_FILES.has(pathInRoot)) return "root";
+    return pathInRoot.replace(/\.rs$/, "");
+  },
+
+  extractExports(content: string): string[] {
+    const names: string[] = [];
+    const pubItemRe =
+      /^\s*pub\s+(?:(?:async|unsafe|const|extern(?:\s+"[^"]*")?)\s+)*(?:fn|struct|enum|trait|type|const|static|mod|union|macro)\s+([A-Za-z_]\w*)/gm;
+    for (const m of content.matchAll(pubItemRe)) {
+      names.push(m[1]);
+    }
+    return uniqueInOrder(names);
+  },
+
+  extractImports(content: string): string[] {
+    const imports: string[] = [];
+    for (const m of content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+([\w:]+)/gm)) {
+      imports.push(m[1].replace(/::$/, ""));
+    }
+    return uniqueInOrder(imports);
+  },
+
+  resolveImport(specifier: string, fromFile: string, roots: SourceRoot[]): string | undefined {
+    const [head, ...rest] = specifier.split("::");
+    const fileDir = posix.dirname(fromFile);
+
+    if (head === "crate") {
+      const root = findRoot(fromFile, roots);
+      return root ? joinRelative(root.path, ...rest) : undefined;
+    }
+    if (head === "self") {
+      return joinRelative(fileDir, ...rest);
+    }
+    if (head === "super") {
+      return joinRelative(posix.dirname(fileDir), ...rest);
+    }
+
+    const crate = roots.find((root) => root.importPrefix === head);
+    return crate ? joinRelative(crate.path, ...rest) : undefined;
+  },
+
+  isSourceFile(filePath: string): boolean {
+    if (!filePath.endsWith(".rs")) return false;
+    const parts = filePath.split("/");
+    if (!parts.includes("src") || parts.includes("target")) return false;
+    return !CRATE_ENTRY_FILES.has(posix.basename(filePath));
+  },
+
+  isTestFile(filePath: string): boolean {
+    return filePath.endsWith(".rs") && filePath.split("/").includes("tests");
+  },
+
+  sourceKey(filePath: string): string {
+    const name = posix.basename(filePath, ".rs");
+    return `rs:${name === "mod" ? posix.basename(posix.dirname(filePath)) : name}`;
+  },
+
+  /** `tests/parser.rs` or `tests/parser/main.rs` covers `src/parser.rs`. */
+  coveredSourceKeys(testFilePath: string): string[] {
+    const name = posix.basename(testFilePath, ".rs");
+    const target =
+      name === "main" || name === "mod" ? posix.basename(posix.dirname(testFilePath)) : name;
+    return [`rs:${target}`, `rs:${target.replace(/_tests?$/, "")}`];
+  },
+
+  hasInlineTests(content: string): boolean {
+    return /#\[cfg\(test\)\]/.test(content);
+  },
+};
+
+async function crateRoot(
+  repoPath: string,
+  crateDir: string,
+  manifest: string,
+): Promise<SourceRoot | undefined> {
+  const packageSection = manifest.match(/^\[package\]([\s\S]*?)(?=^\[|(?![\s\S]))/m)?.[1];
+  if (!packageSection) return undefined;
+
+  const srcDir = joinRelative(crateDir, "src");
+  if (!(await pathExists(join(repoPath, srcDir)))) return undefined;
+
+  const name = packageSection.match(/^\s*name\s*=\s*"([^"]+)"/m)?.[1];
+  return { path: srcDir, importPrefix: name?.replaceAll("-", "_") };
+}
+
+/** `members = ["crates/*", "tools/cli"]` — supports a trailing `*` segment. */
+async function expandWorkspaceMembers(repoPath: string, manifest: string): Promise<string[]> {
+  const workspace = manifest.match(/^\[workspace\]([\s\S]*?)(?=^\[|(?![\s\S]))/m)?.[1];
+  const membersList = workspace?.match(/members\s*=\s*\[([\s\S]*?)\]/)?.[1];
+  if (!membersList) return [];
+
+  const members: string[] = [];
+  for (const m of membersList.matchAll(/"([^"]+)"/g)) {
+    const pattern = m[1].replace(/\/$/, "");
+    if (!pattern.endsWith("/*")) {
+      members.push(pattern);
+      continue;
+    }
+    const parent = pattern.slice(0, -2);
+    for (const entry of await listEntries(join(repoPath, parent))) {
+      if (entry.isDirectory()) members.push(joinRelative(parent, entry.name));
+    }
+  }
+  return members;
+}
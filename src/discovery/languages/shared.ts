@@ -0,0 +1,100 @@
+import type { Dirent } from "node:fs";
+import { readFile, readdir, stat } from "node:fs/promises";
+import { join, posix } from "node:path";
+
+import type { SourceRoot } from "./types.js";
+
+export async function pathExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function readTextFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+export async function listEntries(path: string): Promise<Dirent[]> {
+  try {
+    return await readdir(path, { withFileTypes: true, encoding: "utf8" });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Walk down from `relativeDir` while the directory holds exactly one
+ * subdirectory and no source files — e.g. Java's `com/acme/app` package
+ * prefix or a Python `src/<package>` layout — so that the first-level
+ * children of the result are meaningful module boundaries.
+ */
+export async function descendSinglePackage(
+  repoPath: string,
+  relativeDir: string,
+  extensions: string[],
+  ignoreDirs: string[] = [],
+): Promise<string> {
+  let current = relativeDir;
+
+  for (;;) {
+    const entries = await listEntries(join(repoPath, current));
+    const dirs = entries.filter(
+      (entry) =>
+        entry.isDirectory() && !entry.name.startsWith(".") && !ignoreDirs.includes(entry.name),
+    );
+    const hasSources = entries.some(
+      (entry) => entry.isFile() && extensions.some((ext) => entry.name.endsWith(ext)),
+    );
+    if (dirs.length !== 1 || hasSources) {
+      return current;
+    }
+    current = joinRelative(current, dirs[0].name);
+  }
+}
+
+/** `/`-joined repo-relative path that treats `.` as the repo root. */
+export function joinRelative(base: string, ...segments: string[]): string {
+  const joined = posix.join(base === "." ? "" : base, ...segments);
+  return joined === "" ? "." : joined;
+}
+
+/** Path of `filePath` relative to `root`, or undefined when it lies outside. */
+export function relativeToRoot(filePath: string, root: string): string | undefined {
+  if (root === "." || root === "") return filePath;
+  return filePath.startsWith(`${root}/`) ? filePath.slice(root.length + 1) : undefined;
+}
+
+/** The source root (longest match) that contains `filePath`. */
+export function findRoot(filePath: string, roots: SourceRoot[]): SourceRoot | undefined {
+  let best: SourceRoot | undefined;
+  for (const root of roots) {
+    if (relativeToRoot(filePath, root.path) === undefined) continue;
+    if (!best || root.path.length > best.path.length || best.path === ".") {
+      best = root;
+    }
+  }
+  return best;
+}
+
+/** First path segment as the module, `root` for files directly in the root. */
+export function firstSegmentModule(pathInRoot: string): string {
+  const slash = pathInRoot.indexOf("/");
+  return slash === -1 ? "root" : pathInRoot.slice(0, slash);
+}
+
+export function stripExtension(filePath: string): string {
+  const base = posix.basename(filePath);
+  const dot = base.lastIndexOf(".");
+  return dot > 0 ? filePath.slice(0, filePath.length - (base.length - dot)) : filePath;
+}
+
+export function uniqueInOrder(values: Iterable<string>): string[] {
+  return [...new Set([...values].map((value) => value.trim()).filter(Boolean))];
+}
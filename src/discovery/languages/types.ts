@@ -0,0 +1,61 @@
+export type LanguageId = "typescript" | "python" | "go" | "rust" | "java";
+
+/**
+ * A directory whose first-level children are the language's module
+ * boundaries, e.g. `src` for TypeScript or `src/main/java/com/acme/app` for
+ * a Maven project.
+ */
+export interface SourceRoot {
+  /** Path relative to the repo root, `/`-separated; `.` for the repo root itself. */
+  path: string;
+  /**
+   * Import prefix that maps onto this root (Go module path, Python package
+   * or Java package name). Used to resolve absolute imports.
+   */
+  importPrefix?: string;
+}
+
+/**
+ * Per-language knowledge used by the analyzer (module map) and the test-gap
+ * scanner. Plugins are regex-based and dependency-free on purpose: OAC runs
+ * against repositories whose toolchains are usually not installed.
+ */
+export interface LanguagePlugin {
+  id: LanguageId;
+  /** File extensions (with dot) handled by this plugin. */
+  extensions: string[];
+  /** Directory names never worth walking for this language (build output, venvs…). */
+  excludeDirs: string[];
+
+  /**
+   * Detect the language from its manifest (`pyproject.toml`, `go.mod`, …) and
+   * return its source roots. An empty list means the language is not present.
+   */
+  detectSourceRoots(repoPath: string): Promise<SourceRoot[]>;
+
+  /**
+   * Module name for a file, given its path relative to its source root.
+   * Files directly in the root belong to the `root` module.
+   */
+  moduleOf(pathInRoot: string): string;
+
+  extractExports(content: string): string[];
+  extractImports(content: string): string[];
+
+  /**
+   * Resolve an import to the repo-relative directory (package) it points
+   * into, or undefined for third-party imports. `fromFile` is repo-relative.
+   */
+  resolveImport(specifier: string, fromFile: string, roots: SourceRoot[]): string | undefined;
+
+  // ── Test conventions (used by the test-gap scanner) ─────────
+
+  /** True for files that need tests (not tests, fixtures or entry stubs). */
+  isSourceFile(filePath: string): boolean;
+  isTestFile(filePath: string): boolean;
+  /** Key that a test file must produce (via `coveredSourceKeys`) to cover this source file. */
+  sourceKey(filePath: string): string;
+  coveredSourceKeys(testFilePath: string): string[];
+  /** Languages that keep unit tests next to the code (Rust) report them here. */
+  hasInlineTests?(content: string): boolean;
+}
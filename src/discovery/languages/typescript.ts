@@ -0,0 +1,317 @@
+import { posix } from "node:path";
+
+import { firstSegmentModule, joinRelative, pathExists } from "./shared.js";
+import type { LanguagePlugin, SourceRoot } from "./types.js";
+
+const TEST_SUFFIXES = [".test.", ".spec."];
+const TEST_DIRS = ["tests", "__tests__"];
+
+/**
+ * TypeScript / JavaScript. Modules are the first-level directories under
+ * `src/`; tests live in `tests/` or `__tests__/` mirroring the source tree.
+ */
+export const typescriptPlugin: LanguagePlugin = {
+  id: "typescript",
+  extensions: [".ts", ".tsx", ".js", ".jsx"],
+  excludeDirs: ["node_modules", "dist", "coverage"],
+
+  async detectSourceRoots(repoPath: string): Promise<SourceRoot[]> {
+    return (await pathExists(posix.join(repoPath, "src"))) ? [{ path: "src" }] : [];
+  },
+
+  moduleOf: firstSegmentModule,
+  extractExports,
+  extractImports,
+
+  resolveImport(specifier: string, fromFile: string): string | undefined {
+    // Only relative imports — node_modules imports are ignored
+    if (!specifier.startsWith(".")) return undefined;
+    return posix.dirname(joinRelative(posix.dirname(fromFile), specifier));
+  },
+
+  isSourceFile(filePath: string): boolean {
+    if (!filePath.endsWith(".ts") || filePath.endsWith(".d.ts") || isTypescriptTest(filePath)) {
+      return false;
+    }
+    if (posix.basename(filePath) === "index.ts") {
+      return false;
+    }
+    return filePath.split("/").includes("src");
+  },
+
+  isTestFile: isTypescriptTest,
+
+  sourceKey(filePath: string): string {
+    return filePath.endsWith(".ts") ? filePath.slice(0, -".ts".length) : filePath;
+  },
+
+  /** `tests/lib/math.test.ts` covers `src/lib/math.ts` (also for package-local `tests/`). */
+  coveredSourceKeys(testFilePath: string): string[] {
+    if (!testFilePath.endsWith(".test.ts")) {
+      return [];
+    }
+
+    const withoutSuffix = testFilePath.slice(0, -".test.ts".length);
+    const parts = withoutSuffix.split("/");
+    const markerIndex = parts.findIndex((part) => TEST_DIRS.includes(part));
+    if (markerIndex < 0) {
+      return [];
+    }
+
+    const prefix = parts.slice(0, markerIndex);
+    const suffix = parts.slice(markerIndex + 1);
+
+    const candidates = new Set<string>();
+    candidates.add([...prefix, "src", ...suffix].join("/"));
+
+    if (prefix[prefix.length - 1] === "src") {
+      candidates.add([...prefix, ...suffix].join("/"));
+    }
+
+    return [...candidates];
+  },
+};
+
+function isTypescriptTest(filePath: string): boolean {
+  const name = posix.basename(filePath);
+  return TEST_SUFFIXES.some((suffix) => name.includes(suffix));
+}
+
+// ── Comment & literal masking ────────────────────────────────
+
+/** Characters after which a `/` starts a regex literal rather than a division. */
+const REGEX_PRECEDERS = new Set(["", ..."(,=:[!&|?{};+-*%<>~^"]);
+const QUOTES = new Set(['"', "'", "`"]);
+
+/**
+ * `content` with comments blanked out, and the bodies of string, template and
+ * regex literals too unless `keepStrings` is set. Offsets and line breaks are
+ * preserved, so a match on the masked text can be read back from the original.
+ */
+export function maskNonCode(content: string, options: { keepStrings?: boolean } = {}): string {
+  let masked = "";
+  let previous = "";
+  let index = 0;
+
+  while (index < content.length) {
+    const char = content[index];
+    const next = content[index + 1];
+
+    if (char === "/" && (next === "/" || next === "*")) {
+      const end = commentEnd(content, index);
+      masked += blank(content.slice(index, end));
+      index = end;
+    } else if (QUOTES.has(char) || (char === "/" && REGEX_PRECEDERS.has(previous))) {
+      const end = literalEnd(content, index);
+      const literal = content.slice(index, end);
+      masked += options.keepStrings ? literal : maskLiteral(literal);
+      previous = literal.at(-1) ?? "";
+      index = end;
+    } else {
+      masked += char;
+      if (!/\s/.test(char)) previous = char;
+      index += 1;
+    }
+  }
+
+  return masked;
+}
+
+/** End (exclusive) of the `//` or `/*` comment opened at `start`. */
+function commentEnd(content: string, start: number): number {
+  if (content[start + 1] === "/") {
+    const newline = content.indexOf("\n", start);
+    return newline < 0 ? content.length : newline;
+  }
+  const close = content.indexOf("*/", start + 2);
+  return close < 0 ? content.length : close + 2;
+}
+
+/** End (exclusive) of the literal opened at `start`; quotes do not span lines. */
+function literalEnd(content: string, start: number): number {
+  const delimiter = content[start];
+  let inClass = false;
+
+  for (let index = start + 1; index < content.length; index += 1) {
+    const char = content[index];
+    if (char === "\\") {
+      index += 1;
+    } else if (char === "\n" && delimiter !== "`") {
+      return index;
+    } else if (delimiter === "/" && (char === "[" || char === "]")) {
+      inClass = char === "[";
+    } else if (char === delimiter && !inClass) {
+      return index + 1;
+    }
+  }
+  return content.length;
+}
+
+/** Keeps the delimiters so the masked literal still reads as one. */
+function maskLiteral(literal: string): string {
+  if (literal.length < 2) return literal;
+  return `${literal[0]}${blank(literal.slice(1, -1))}${literal.at(-1)}`;
+}
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/** Capture `group` of a match against masked text, read back from the original `content`. */
+function originalGroup(content: string, match: RegExpMatchArray, group: number): string {
+  const [start, end] = match.indices?.[group] ?? [0, 0];
+  return content.slice(start, end);
+}
+
+// ── Export extraction ────────────────────────────────────────
+
+export function extractExports(source: string): string[] {
+  const content = maskNonCode(source);
+  const exports: string[] = [];
+  const seen = new Set<string>();
+
+  const add = (name: string): void => {
+    const trimmed = name.trim();
+    if (trimmed && !seen.has(trimmed)) {
+      seen.add(trimmed);
+      exports.push(trimmed);
+    }
+  };
+
+  // export function/class/const/let/var/type/interface/enum NAME
+  const namedDeclRe =
+    /\bexport\s+(?:async\s+)?(?:function\*?|class|const|let|var|type|interface|enum)\s+([A-Za-z_$][A-Za-z0-9_$]*)/g;
+  for (const m of content.matchAll(namedDeclRe)) {
+    add(m[1]);
+  }
+
+  // export { Name, Name as Alias, ... }
+  const bracedRe = /\bexport\s*\{([^}]+)\}/g;
+  for (const m of content.matchAll(bracedRe)) {
+    const inner = m[1];
+    for (const item of inner.split(",")) {
+      const parts = item.trim().split(/\s+as\s+/);
+      const exportedName = parts.length > 1 ? parts[1].trim() : parts[0].trim();
+      if (exportedName) {
+        add(exportedName);
+      }
+    }
+  }
+
+  // export default
+  const defaultRe = /\bexport\s+default\b/;
+  if (defaultRe.test(content)) {
+    add("default");
+  }
+
+  return exports;
+}
+
+// ── Import extraction ────────────────────────────────────────
+
+export function extractImports(source: string): string[] {
+  const content = maskNonCode(source);
+  const imports: string[] = [];
+  const seen = new Set<string>();
+
+  const add = (path: string): void => {
+    const trimmed = path.trim();
+    if (trimmed && !seen.has(trimmed)) {
+      seen.add(trimmed);
+      imports.push(trimmed);
+    }
+  };
+
+  // import ... from "PATH"  or  import "PATH"
+  const staticImportRe = /\bimport\s+(?:[\s\S]*?\s+from\s+)?["']([^"']+)["']/dg;
+  for (const m of content.matchAll(staticImportRe)) {
+    add(originalGroup(source, m, 1));
+  }
+
+  // import("PATH")
+  const dynamicImportRe = /\bimport\s*\(\s*["']([^"']+)["']\s*\)/dg;
+  for (const m of content.matchAll(dynamicImportRe)) {
+    add(originalGroup(source, m, 1));
+  }
+
+  return imports;
+}
+
+/**
+ * Maps each imported or re-exported specifier to the names bound from it.
+ * `default` stands for a default import and `*` for namespace imports,
+ * `export * from`, `import()` and `require()` — i.e. "any export may be used".
+ * Side-effect imports map to an empty list.
+ */
+export function extractImportedNames(source: string): Record<string, string[]> {
+  const content = maskNonCode(source);
+  const result: Record<string, string[]> = {};
+
+  const add = (specifier: string, names: string[]): void => {
+    const existing = result[specifier] ?? [];
+    for (const name of names) {
+      if (!existing.includes(name)) existing.push(name);
+    }
+    result[specifier] = existing;
+  };
+
+  // import X, { a, b as c } from "PATH" / import * as NS from "PATH" / import type { T } from "PATH"
+  const clauseImportRe = /\bimport\s+(?:type\s+)?([\w$*{][^;]*?)\s+from\s+["']([^"']+)["']/dg;
+  for (const m of content.matchAll(clauseImportRe)) {
+    add(originalGroup(source, m, 2), parseImportClause(m[1]));
+  }
+
+  // import "PATH"
+  const sideEffectRe = /\bimport\s+["']([^"']+)["']/dg;
+  for (const m of content.matchAll(sideEffectRe)) {
+    add(originalGroup(source, m, 1), []);
+  }
+
+  // export * from "PATH" / export * as ns from "PATH" / export { a, b as c } from "PATH"
+  const reExportRe =
+    /\bexport\s+(?:type\s+)?(\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s*from\s+["']([^"']+)["']/dg;
+  for (const m of content.matchAll(reExportRe)) {
+    add(originalGroup(source, m, 2), m[1].startsWith("*") ? ["*"] : parseNamedBindings(m[1]));
+  }
+
+  // import("PATH") / require("PATH")
+  const dynamicRe = /\b(?:import|require)\s*\(\s*["']([^"']+)["']\s*\)/dg;
+  for (const m of content.matchAll(dynamicRe)) {
+    add(originalGroup(source, m, 1), ["*"]);
+  }
+
+  return result;
+}
+
+function parseImportClause(clause: string): string[] {
+  const names: string[] = [];
+  const braced = clause.match(/\{[^}]*\}/);
+  const head = clause.replace(/\{[^}]*\}/, "");
+
+  for (const part of head.split(",")) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    names.push(trimmed.startsWith("*") ? "*" : "default");
+  }
+
+  if (braced) {
+    names.push(...parseNamedBindings(braced[0]));
+  }
+
+  return names;
+}
+
+/** `{ a, type b, c as d }` → the names as exported by the target: `a`, `b`, `c`. */
+function parseNamedBindings(braced: string): string[] {
+  return braced
+    .replace(/[{}]/g, "")
+    .split(",")
+    .map((item) =>
+      item
+        .trim()
+        .replace(/^type\s+/, "")
+        .split(/\s+as\s+/)[0]
+        .trim(),
+    )
+    .filter(Boolean);
+}
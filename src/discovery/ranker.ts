@@ -1,10 +1,13 @@
 import type { Task, TaskComplexity, TaskSource } from "../core/index.js";
-import type { PriorityWeights } from "./types.js";
+import { compileGlobMatcher } from "./glob.js";
+import type { GoalMatch, PriorityWeights, RankTasksOptions, RankingGoal } from "./types.js";
 
 const IMPACT_BY_SOURCE: Partial<Record<TaskSource, number>> = {
   lint: 22,
+  todo: 16,
   "test-gap": 24,
   "dead-code": 14,
+  security: 25,
   "github-issue": 20,
   custom: 12,
 };
@@ -16,6 +19,9 @@ const FEASIBILITY_BY_COMPLEXITY: Record<TaskComplexity, number> = {
   complex: 6,
 };
 
+/** Boost for matching a priority-100 goal; lower-priority goals boost proportionally less. */
+const MAX_GOAL_BOOST = 20;
+
 const TOKEN_EFFICIENCY_BY_COMPLEXITY: Record<TaskComplexity, number> = {
   trivial: 18,
   simple: 14,
@@ -25,29 +31,34 @@ const TOKEN_EFFICIENCY_BY_COMPLEXITY: Record<TaskComplexity, number> = {
 
 /**
  * Rank tasks by computed priority (0-100) and return descending order.
+ * Tasks matching one of `options.goals` are boosted by the goal's priority.
  */
-export function rankTasks(tasks: Task[]): Task[] {
+export function rankTasks(tasks: Task[], options: RankTasksOptions = {}): Task[] {
+  const goals = options.goals ?? [];
   const ranked = tasks.map((task) => {
-    const scores = scoreTask(task);
+    const goalMatch = matchGoal(task, goals);
+    const scores = scoreTask(task, goalMatch);
     const priority = clamp(
       Math.round(
         scores.impactScore +
           scores.feasibilityScore +
           scores.freshnessScore +
           scores.issueSignals +
-          scores.tokenEfficiency,
+          scores.tokenEfficiency +
+          scores.goalAlignment,
       ),
       0,
       100,
     );
 
-    const metadata = toRecord(task.metadata);
+    const { goalMatch: _previous, ...metadata } = toRecord(task.metadata);
     return {
       ...task,
       priority,
       metadata: {
         ...metadata,
         priorityBreakdown: scores,
+        ...(goalMatch ? { goalMatch } : {}),
       },
     };
   });
@@ -63,7 +74,7 @@ export function rankTasks(tasks: Task[]): Task[] {
   return ranked;
 }
 
-function scoreTask(task: Task): PriorityWeights {
+function scoreTask(task: Task, goalMatch: GoalMatch | undefined): PriorityWeights {
   const metadata = toRecord(task.metadata);
 
   const impactScore = scoreImpact(task, metadata);
@@ -78,9 +89,55 @@ function scoreTask(task: Task): PriorityWeights {
     freshnessScore,
     issueSignals,
     tokenEfficiency,
+    goalAlignment: goalMatch?.boost ?? 0,
   };
 }
 
+/** The matching goal that boosts the task most; ties go to the goal listed first. */
+function matchGoal(task: Task, goals: RankingGoal[]): GoalMatch | undefined {
+  let best: GoalMatch | undefined;
+  for (const goal of goals) {
+    const matchedOn = goalSignals(task, goal);
+    if (matchedOn.length === 0) {
+      continue;
+    }
+
+    const boost = Math.round((MAX_GOAL_BOOST * clamp(goal.priority, 0, 100)) / 100);
+    if (!best || boost > best.boost) {
+      best = {
+        goalId: goal.id,
+        goalTitle: goal.title,
+        goalPriority: goal.priority,
+        matchedOn,
+        boost,
+      };
+    }
+  }
+  return best;
+}
+
+function goalSignals(task: Task, goal: RankingGoal): string[] {
+  const text = `${task.title}\n${task.description}`.toLowerCase();
+  const files = task.targetFiles.map(normalizePath);
+  const labels = new Set(task.linkedIssue?.labels.map((label) => label.toLowerCase()) ?? []);
+
+  const keywords = (goal.keywords ?? []).filter((keyword) => {
+    const needle = keyword.trim().toLowerCase();
+    return needle.length > 0 && text.includes(needle);
+  });
+  const paths = (goal.paths ?? []).filter((pattern) => {
+    const matches = compileGlobMatcher(pattern);
+    return files.some(matches);
+  });
+  const issueLabels = (goal.labels ?? []).filter((label) => labels.has(label.toLowerCase()));
+
+  return [
+    ...keywords.map((keyword) => `keyword:${keyword}`),
+    ...paths.map((pattern) => `path:${pattern}`),
+    ...issueLabels.map((label) => `label:${label}`),
+  ];
+}
+
 function scoreImpact(task: Task, metadata: Record<string, unknown>): number {
   let score = IMPACT_BY_SOURCE[task.source] ?? 12;
 
@@ -211,6 +268,10 @@ function scoreTokenEfficiency(
   return clamp(score, 0, 20);
 }
 
+function normalizePath(filePath: string): string {
+  return filePath.replaceAll("\\", "/").replace(/^\.\//, "");
+}
+
 function getAgeInDays(value: string | undefined): number | undefined {
   if (!value) {
     return undefined;
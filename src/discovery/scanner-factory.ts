@@ -1,18 +1,32 @@
 import type { OacConfig } from "../core/index.js";
 import { CompositeScanner } from "./scanner.js";
+import { createCustomScanners } from "./scanners/custom-scanner.js";
+import { DeadCodeScanner } from "./scanners/dead-code-scanner.js";
 import { GitHubIssuesScanner } from "./scanners/github-issues-scanner.js";
 import { LintScanner } from "./scanners/lint-scanner.js";
+import { SecurityScanner } from "./scanners/security-scanner.js";
 import { TestGapScanner } from "./scanners/test-gap-scanner.js";
+import { TodoScanner } from "./scanners/todo-scanner.js";
 import type { Scanner } from "./types.js";
 
-export type ScannerName = "lint" | "test-gap" | "github-issues";
+export type ScannerName = "lint" | "todo" | "test-gap" | "dead-code" | "security" | "github-issues";
+
+export const SCANNER_NAMES: readonly ScannerName[] = [
+  "lint",
+  "todo",
+  "test-gap",
+  "dead-code",
+  "security",
+  "github-issues",
+];
 
 /**
  * Builds a list of scanner instances based on the user's config and
  * whether a GitHub token is available.
  *
  * This is the single source of truth for scanner construction, used by
- * `oac run` (both task and epic modes) and `oac analyze`.
+ * `oac run` (both task and epic modes) and `oac analyze`. Scanners listed in
+ * `discovery.customScanners` are always appended after the built-in ones.
  */
 export function buildScanners(
   config: OacConfig | null,
@@ -24,9 +38,18 @@ export function buildScanners(
   if (config?.discovery.scanners.lint !== false) {
     names.push("lint");
   }
+  if (config?.discovery.scanners.todo !== false) {
+    names.push("todo");
+  }
   if (config?.discovery.scanners.testGap !== false) {
     names.push("test-gap");
   }
+  if (config?.discovery.scanners.deadCode) {
+    names.push("dead-code");
+  }
+  if (config?.discovery.scanners.security) {
+    names.push("security");
+  }
   if (hasGitHubAuth) {
     names.push("github-issues");
   }
@@ -47,17 +70,54 @@ export function buildScanners(
   }
 
   const unique = [...new Set(names)];
-  const instances: Scanner[] = unique.map(instantiateScanner);
+  const instances: Scanner[] = [
+    ...unique.map(instantiateScanner),
+    ...createCustomScanners(config?.discovery.customScanners ?? []),
+  ];
 
   return { names: unique, instances, composite: new CompositeScanner(instances) };
 }
 
+/**
+ * Parses a comma-separated `--scanners` value into scanner names.
+ * Throws on unknown names so typos are not silently ignored.
+ */
+export function parseScannerNames(value: string): ScannerName[] {
+  const requested = value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => item.length > 0);
+
+  const unknown = requested.filter((name) => !SCANNER_NAMES.includes(name as ScannerName));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown scanner(s): ${unknown.join(", ")}. Supported scanners: ${SCANNER_NAMES.join(", ")}.`,
+    );
+  }
+  if (requested.length === 0) {
+    throw new Error(`No scanners selected. Supported scanners: ${SCANNER_NAMES.join(", ")}.`);
+  }
+
+  return [...new Set(requested as ScannerName[])];
+}
+
+/** Instantiates exactly the given scanners, ignoring config toggles. */
+export function createScanners(names: ScannerName[]): Scanner[] {
+  return names.map(instantiateScanner);
+}
+
 function instantiateScanner(name: ScannerName): Scanner {
   switch (name) {
     case "lint":
       return new LintScanner();
+    case "todo":
+      return new TodoScanner();
     case "test-gap":
       return new TestGapScanner();
+    case "dead-code":
+      return new DeadCodeScanner();
+    case "security":
+      return new SecurityScanner();
     case "github-issues":
       return new GitHubIssuesScanner();
   }
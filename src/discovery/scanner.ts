@@ -2,7 +2,7 @@ import { createHash } from "node:crypto";
 import type { Task } from "../core/index.js";
 import { LintScanner } from "./scanners/lint-scanner.js";
 import { SecurityScanner } from "./scanners/security-scanner.js";
-import type { ScanOptions, Scanner } from "./types.js";
+import type { CompositeScanResult, ScanOptions, Scanner, ScannerFailure } from "./types.js";
 
 interface DeduplicatedTask {
   task: Task;
@@ -24,6 +24,18 @@ export class CompositeScanner implements Scanner {
   }
 
   public async scan(repoPath: string, options: ScanOptions = {}): Promise<Task[]> {
+    const { tasks } = await this.scanWithReport(repoPath, options);
+    return tasks;
+  }
+
+  /**
+   * Same as `scan`, but also reports which scanners failed. A failing scanner
+   * never aborts the others; its error is returned instead of the tasks.
+   */
+  public async scanWithReport(
+    repoPath: string,
+    options: ScanOptions = {},
+  ): Promise<CompositeScanResult> {
     const settled = await Promise.allSettled(
       this.scanners.map(async (scanner) => ({
         scannerId: scanner.id,
@@ -32,9 +44,16 @@ export class CompositeScanner implements Scanner {
     );
 
     const collected: Array<{ scannerId: string; task: Task }> = [];
+    const failures: ScannerFailure[] = [];
 
-    for (const result of settled) {
+    for (const [index, result] of settled.entries()) {
       if (result.status !== "fulfilled") {
+        const scanner = this.scanners[index];
+        failures.push({
+          scannerId: String(scanner.id),
+          scannerName: scanner.name,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
         continue;
       }
 
@@ -46,10 +65,10 @@ export class CompositeScanner implements Scanner {
 
     const deduplicated = deduplicateTasks(collected);
     if (typeof options.maxTasks === "number" && options.maxTasks >= 0) {
-      return deduplicated.slice(0, options.maxTasks);
+      return { tasks: deduplicated.slice(0, options.maxTasks), failures };
     }
 
-    return deduplicated;
+    return { tasks: deduplicated, failures };
   }
 }
 
@@ -0,0 +1,295 @@
+import { createHash } from "node:crypto";
+import { isAbsolute, resolve, sep } from "node:path";
+import { pathToFileURL } from "node:url";
+import { execa } from "execa";
+import type { Task, TaskComplexity, TaskSource } from "../../core/index.js";
+import { isRecord } from "../../core/utils.js";
+import { compileGlobMatcher } from "../glob.js";
+import type { RawFinding, ScanOptions, Scanner } from "../types.js";
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+const MODULE_EXTENSIONS = /\.(?:m|c)?js$/i;
+
+const TASK_SOURCES: readonly TaskSource[] = [
+  "lint",
+  "todo",
+  "test-gap",
+  "dead-code",
+  "security",
+  "github-issue",
+  "custom",
+];
+const COMPLEXITIES: readonly TaskComplexity[] = ["trivial", "simple", "moderate", "complex"];
+const SEVERITIES: readonly RawFinding["severity"][] = ["info", "warning", "error"];
+
+export type CustomScannerKind = "module" | "command";
+
+/**
+ * Decide how a `discovery.customScanners` entry is run. Entries naming a
+ * `.js` / `.mjs` / `.cjs` file (or package export) are imported as modules;
+ * everything else is executed as a shell command.
+ */
+export function resolveCustomScannerKind(entry: string): CustomScannerKind {
+  const trimmed = entry.trim();
+  return !/\s/.test(trimmed) && MODULE_EXTENSIONS.test(trimmed) ? "module" : "command";
+}
+
+/**
+ * Build one scanner per `discovery.customScanners` entry. Module paths are
+ * resolved against `baseDir` (the directory OAC was started from); commands
+ * run inside the scanned repository.
+ */
+export function createCustomScanners(entries: string[], baseDir = process.cwd()): Scanner[] {
+  return entries
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => new CustomScanner(entry, baseDir));
+}
+
+/**
+ * Adapter for a user-defined scanner. It either imports a module exporting a
+ * `Scanner` or runs a shell command that prints a JSON `RawFinding[]`, and
+ * applies the same timeout, exclude and `maxTasks` handling as the built-in
+ * scanners so third-party code cannot stall or flood discovery.
+ */
+export class CustomScanner implements Scanner {
+  public readonly id: string;
+  public readonly name: string;
+  public readonly kind: CustomScannerKind;
+
+  private modulePromise?: Promise<Scanner>;
+
+  public constructor(
+    private readonly entry: string,
+    private readonly baseDir: string = process.cwd(),
+  ) {
+    this.kind = resolveCustomScannerKind(entry);
+    this.id = `custom:${entry}`;
+    this.name = `Custom Scanner (${entry})`;
+  }
+
+  public async scan(repoPath: string, options: ScanOptions = {}): Promise<Task[]> {
+    if (options.maxTasks === 0) {
+      return [];
+    }
+
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const tasks =
+      this.kind === "module"
+        ? await withTimeout(this.scanModule(repoPath, options), timeoutMs, this.name)
+        : await this.scanCommand(repoPath, options, timeoutMs);
+
+    const excludeMatchers = (options.exclude ?? []).map(compileGlobMatcher);
+    const kept = tasks.filter(
+      (task) =>
+        task.targetFiles.length === 0 ||
+        !task.targetFiles.every((file) =>
+          excludeMatchers.some((matches) => matches(normalizeRelativePath(file))),
+        ),
+    );
+
+    return typeof options.maxTasks === "number" && options.maxTasks > 0
+      ? kept.slice(0, options.maxTasks)
+      : kept;
+  }
+
+  private async scanModule(repoPath: string, options: ScanOptions): Promise<Task[]> {
+    this.modulePromise ??= loadScannerModule(this.entry, this.baseDir);
+    const scanner = await this.modulePromise;
+    const tasks = await scanner.scan(repoPath, options);
+    if (!Array.isArray(tasks)) {
+      throw new Error(`${this.name} returned ${typeof tasks} instead of a task array`);
+    }
+    return tasks;
+  }
+
+  private async scanCommand(
+    repoPath: string,
+    options: ScanOptions,
+    timeoutMs: number,
+  ): Promise<Task[]> {
+    const result = await execa(this.entry, {
+      shell: true,
+      cwd: repoPath,
+      timeout: timeoutMs,
+      cancelSignal: options.signal,
+      maxBuffer: MAX_OUTPUT_BYTES,
+      reject: false,
+      env: { OAC_REPO_PATH: repoPath },
+    });
+
+    if (result.timedOut) {
+      throw new Error(`${this.name} timed out after ${timeoutMs}ms`);
+    }
+    if (result.exitCode !== 0) {
+      const stderr = String(result.stderr ?? "").trim();
+      throw new Error(
+        `${this.name} exited with code ${result.exitCode ?? "unknown"}${stderr ? `: ${stderr}` : ""}`,
+      );
+    }
+
+    const findings = parseFindings(String(result.stdout ?? ""), this.name);
+    const discoveredAt = new Date().toISOString();
+    return findings.map((finding) => findingToTask(finding, this.id, discoveredAt));
+  }
+}
+
+// ── Module loading ───────────────────────────────────────────
+
+async function loadScannerModule(entry: string, baseDir: string): Promise<Scanner> {
+  const specifier =
+    entry.startsWith(".") || isAbsolute(entry)
+      ? pathToFileURL(resolve(baseDir, entry)).href
+      : entry;
+
+  let loaded: unknown;
+  try {
+    loaded = await import(specifier);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load custom scanner "${entry}": ${message}`, { cause: error });
+  }
+
+  const scanner = toScanner(isRecord(loaded) ? (loaded.default ?? loaded.scanner) : undefined);
+  if (!scanner) {
+    throw new Error(
+      `Custom scanner "${entry}" must export a Scanner (an object with id, name and scan()), a Scanner class, or a factory returning one as its default export`,
+    );
+  }
+  return scanner;
+}
+
+function toScanner(candidate: unknown): Scanner | undefined {
+  if (isScanner(candidate)) {
+    return candidate;
+  }
+  if (typeof candidate !== "function") {
+    return undefined;
+  }
+
+  const factory = candidate as (() => unknown) & (new () => unknown);
+  if (isScanner(factory.prototype)) {
+    return new factory() as Scanner;
+  }
+  const produced = factory();
+  return isScanner(produced) ? produced : undefined;
+}
+
+function isScanner(value: unknown): value is Scanner {
+  return (
+    isRecord(value) &&
+    typeof value.scan === "function" &&
+    (typeof value.id === "string" || typeof value.id === "undefined") &&
+    (typeof value.name === "string" || typeof value.name === "undefined")
+  );
+}
+
+// ── Command output ───────────────────────────────────────────
+
+function parseFindings(stdout: string, scannerName: string): RawFinding[] {
+  const trimmed = stdout.trim();
+  if (trimmed.length === 0) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${scannerName} did not print valid JSON: ${message}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${scannerName} must print a JSON array of findings`);
+  }
+
+  return parsed.map((item, index) => toRawFinding(item, index, scannerName));
+}
+
+function toRawFinding(value: unknown, index: number, scannerName: string): RawFinding {
+  if (!isRecord(value) || typeof value.filePath !== "string" || typeof value.title !== "string") {
+    throw new Error(
+      `${scannerName} finding #${index} must be an object with string "filePath" and "title"`,
+    );
+  }
+
+  return {
+    scannerId: typeof value.scannerId === "string" ? value.scannerId : "custom",
+    source: pick(value.source, TASK_SOURCES, "custom"),
+    filePath: normalizeRelativePath(value.filePath),
+    module: typeof value.module === "string" ? value.module : undefined,
+    title: value.title,
+    description: typeof value.description === "string" ? value.description : value.title,
+    severity: pick(value.severity, SEVERITIES, "warning"),
+    complexity: pick(value.complexity, COMPLEXITIES, "simple"),
+    line: typeof value.line === "number" ? value.line : undefined,
+    column: typeof value.column === "number" ? value.column : undefined,
+    metadata: isRecord(value.metadata) ? value.metadata : {},
+    discoveredAt: typeof value.discoveredAt === "string" ? value.discoveredAt : "",
+  };
+}
+
+function findingToTask(finding: RawFinding, scannerId: string, discoveredAt: string): Task {
+  const seed = [scannerId, finding.filePath, String(finding.line ?? ""), finding.title].join("::");
+
+  return {
+    id: createHash("sha256").update(seed).digest("hex").slice(0, 16),
+    source: finding.source,
+    title: finding.title,
+    description: finding.description,
+    targetFiles: finding.filePath ? [finding.filePath] : [],
+    priority: priorityFromSeverity(finding.severity),
+    complexity: finding.complexity,
+    executionMode: "new-pr",
+    metadata: {
+      ...finding.metadata,
+      scannerId: finding.scannerId === "custom" ? scannerId : finding.scannerId,
+      severity: finding.severity,
+      ...(finding.module ? { module: finding.module } : {}),
+      ...(finding.line !== undefined ? { startLine: finding.line } : {}),
+      ...(finding.column !== undefined ? { column: finding.column } : {}),
+    },
+    discoveredAt: finding.discoveredAt || discoveredAt,
+  };
+}
+
+function priorityFromSeverity(severity: RawFinding["severity"]): number {
+  switch (severity) {
+    case "error":
+      return 80;
+    case "warning":
+      return 50;
+    case "info":
+      return 30;
+  }
+}
+
+function pick<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return typeof value === "string" && (allowed as readonly string[]).includes(value)
+    ? (value as T)
+    : fallback;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${label} timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function normalizeRelativePath(filePath: string): string {
+  return filePath.split(sep).join("/").replace(/^\.\//, "");
+}
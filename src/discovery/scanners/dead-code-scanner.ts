@@ -0,0 +1,436 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { basename, posix, resolve, sep } from "node:path";
+import type { Task, TaskComplexity, TaskSource } from "../../core/index.js";
+import { isRecord } from "../../core/utils.js";
+import { collectFileInfos } from "../analyzer.js";
+import type { FileInfo } from "../context-types.js";
+import { findRoot, firstSegmentModule, joinRelative, relativeToRoot } from "../languages/shared.js";
+import { maskNonCode } from "../languages/typescript.js";
+import type { ScanOptions, Scanner } from "../types.js";
+
+/** Source root used when `tsconfig.json` has no usable `include`. */
+const DEFAULT_SOURCE_ROOT = "src";
+/** Output directories whose paths in `package.json` are mapped back to the source roots. */
+const BUILD_DIRS = new Set(["dist", "build", "lib", "out"]);
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx"];
+/** Tried in each source root when `package.json` declares no resolvable `main` / `exports` / `bin`. */
+const DEFAULT_ENTRY_NAMES = ["index", "main", "cli"];
+
+type DeadCodeKind = "unused-exports" | "unused-file" | "unreachable-module";
+
+interface DeadCodeFinding {
+  kind: DeadCodeKind;
+  files: string[];
+  unusedSymbols: string[];
+  module?: string;
+  importedBy?: string[];
+}
+
+/**
+ * Scanner that walks the import/export graph of the repository and reports
+ * exports nothing imports, source files nothing imports, and modules that are
+ * unreachable from the package entry points (`main`, `exports`, `bin`).
+ *
+ * Only files under the source roots — the directories `tsconfig.json`
+ * includes, `src/` by default — are reported. Tests, scripts and config files
+ * are treated as additional roots so code exercised only by them is not flagged.
+ */
+export class DeadCodeScanner implements Scanner {
+  public readonly id: TaskSource | string = "dead-code";
+  public readonly name = "Dead Code Scanner";
+
+  public async scan(repoPath: string, options: ScanOptions = {}): Promise<Task[]> {
+    const maxTasks = options.maxTasks;
+    if (typeof maxTasks === "number" && maxTasks === 0) {
+      return [];
+    }
+
+    const files = (
+      await collectFileInfos(repoPath, {
+        sourceDir: ".",
+        exclude: options.exclude,
+        includeTests: true,
+      })
+    ).map((file) => ({ ...file, path: normalizeRelativePath(file.path) }));
+    if (files.length === 0) {
+      return [];
+    }
+
+    const knownPaths = new Set(files.map((file) => file.path));
+    const sourceRoots = await resolveSourceRoots(repoPath);
+    const entryPoints = await resolveEntryPoints(repoPath, knownPaths, sourceRoots);
+    const findings = findDeadCode(files, entryPoints, sourceRoots);
+
+    const capped =
+      typeof maxTasks === "number" && maxTasks > 0 ? findings.slice(0, maxTasks) : findings;
+    const discoveredAt = new Date().toISOString();
+
+    return capped.map((finding) => toTask(finding, discoveredAt));
+  }
+}
+
+// ── Graph analysis ───────────────────────────────────────────
+
+type ImportEdges = Map<string, Map<string, Set<string>>>;
+
+function findDeadCode(
+  files: FileInfo[],
+  entryPoints: Set<string>,
+  sourceRoots: string[],
+): DeadCodeFinding[] {
+  const roots = sourceRoots.map((path) => ({ path }));
+  const moduleOf = (path: string): string | undefined => {
+    const root = findRoot(path, roots);
+    if (!root) return undefined;
+    const module = firstSegmentModule(relativeToRoot(path, root.path) ?? path);
+    return sourceRoots.length > 1 && module !== "root" ? joinRelative(root.path, module) : module;
+  };
+  const isCandidate = (path: string) => moduleOf(path) !== undefined && !isTestPath(path);
+  const edges = buildImportEdges(files);
+
+  // Without a known entry point, reachability cannot be judged; only
+  // unused exports are reported in that case.
+  const graphRoots =
+    entryPoints.size > 0
+      ? [...entryPoints, ...files.map((file) => file.path).filter((path) => !isCandidate(path))]
+      : files.map((file) => file.path);
+  const reachable = collectReachable(graphRoots, edges);
+  const candidates = files.filter((file) => isCandidate(file.path));
+
+  return [
+    ...findUnreachableFiles(candidates, edges, reachable, moduleOf),
+    ...findUnusedExports(candidates, edges, reachable, entryPoints),
+  ];
+}
+
+/** importer → (target → names used), for relative imports that resolve to a known file. */
+function buildImportEdges(files: FileInfo[]): ImportEdges {
+  const knownPaths = new Set(files.map((file) => file.path));
+  const edges: ImportEdges = new Map();
+
+  for (const file of files) {
+    const targets = new Map<string, Set<string>>();
+    for (const [specifier, names] of Object.entries(importedNamesOf(file))) {
+      if (!specifier.startsWith(".")) continue;
+      const target = resolveModulePath(posix.join(posix.dirname(file.path), specifier), knownPaths);
+      if (!target || target === file.path) continue;
+      const used = targets.get(target) ?? new Set<string>();
+      for (const name of names) used.add(name);
+      targets.set(target, used);
+    }
+    edges.set(file.path, targets);
+  }
+
+  return edges;
+}
+
+/** Unreachable files, grouped into one finding per module when the whole module is dead. */
+function findUnreachableFiles(
+  candidates: FileInfo[],
+  edges: ImportEdges,
+  reachable: Set<string>,
+  moduleOf: (path: string) => string | undefined,
+): DeadCodeFinding[] {
+  const importers = new Map<string, string[]>();
+  for (const [importer, targets] of edges) {
+    for (const target of targets.keys()) {
+      importers.set(target, [...(importers.get(target) ?? []), importer]);
+    }
+  }
+
+  const unreachableByModule = new Map<string, FileInfo[]>();
+  const filesPerModule = new Map<string, number>();
+  for (const file of candidates) {
+    const module = moduleOf(file.path) ?? "root";
+    filesPerModule.set(module, (filesPerModule.get(module) ?? 0) + 1);
+    if (!reachable.has(file.path)) {
+      unreachableByModule.set(module, [...(unreachableByModule.get(module) ?? []), file]);
+    }
+  }
+
+  const findings: DeadCodeFinding[] = [];
+  for (const [module, moduleFiles] of unreachableByModule) {
+    if (module !== "root" && moduleFiles.length === filesPerModule.get(module)) {
+      findings.push({
+        kind: "unreachable-module",
+        module,
+        files: moduleFiles.map((file) => file.path),
+        unusedSymbols: uniqueSorted(moduleFiles.flatMap((file) => file.exports)),
+      });
+      continue;
+    }
+
+    for (const file of moduleFiles) {
+      findings.push({
+        kind: "unused-file",
+        files: [file.path],
+        unusedSymbols: uniqueSorted(file.exports),
+        importedBy: (importers.get(file.path) ?? []).sort(),
+      });
+    }
+  }
+
+  return findings;
+}
+
+/** Exports of reachable, non-entry files that no reachable file imports. */
+function findUnusedExports(
+  candidates: FileInfo[],
+  edges: ImportEdges,
+  reachable: Set<string>,
+  entryPoints: Set<string>,
+): DeadCodeFinding[] {
+  const usedNames = new Map<string, Set<string>>();
+  for (const [importer, targets] of edges) {
+    if (!reachable.has(importer)) continue;
+    for (const [target, names] of targets) {
+      const used = usedNames.get(target) ?? new Set<string>();
+      for (const name of names) used.add(name);
+      usedNames.set(target, used);
+    }
+  }
+
+  const findings: DeadCodeFinding[] = [];
+  for (const file of candidates) {
+    if (!reachable.has(file.path) || entryPoints.has(file.path)) continue;
+    const used = usedNames.get(file.path) ?? new Set<string>();
+    if (used.has("*")) continue;
+
+    const unusedSymbols = uniqueSorted(file.exports.filter((name) => !used.has(name)));
+    if (unusedSymbols.length > 0) {
+      findings.push({ kind: "unused-exports", files: [file.path], unusedSymbols });
+    }
+  }
+
+  return findings;
+}
+
+function collectReachable(roots: string[], edges: ImportEdges): Set<string> {
+  const reachable = new Set<string>();
+  const stack = [...roots];
+
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (reachable.has(current)) continue;
+    reachable.add(current);
+    for (const target of edges.get(current)?.keys() ?? []) {
+      if (!reachable.has(target)) stack.push(target);
+    }
+  }
+
+  return reachable;
+}
+
+/** Maps written before `importedNames` existed only know specifiers — assume everything is used. */
+function importedNamesOf(file: FileInfo): Record<string, string[]> {
+  return (
+    file.importedNames ?? Object.fromEntries(file.imports.map((specifier) => [specifier, ["*"]]))
+  );
+}
+
+// ── Entry points & module resolution ─────────────────────────
+
+/**
+ * Directories the project compiles, from the static prefix of each
+ * `tsconfig.json` `include` pattern (`src/**\/*` → `src`).
+ */
+async function resolveSourceRoots(repoPath: string): Promise<string[]> {
+  let tsconfig: unknown;
+  try {
+    const raw = maskNonCode(await readFile(resolve(repoPath, "tsconfig.json"), "utf8"), {
+      keepStrings: true,
+    });
+    tsconfig = JSON.parse(raw.replace(/,(\s*[}\]])/g, "$1"));
+  } catch {
+    tsconfig = undefined;
+  }
+
+  const include = isRecord(tsconfig) ? tsconfig.include : undefined;
+  if (!Array.isArray(include)) return [DEFAULT_SOURCE_ROOT];
+
+  const roots = include
+    .filter((pattern): pattern is string => typeof pattern === "string")
+    .map(staticPrefix)
+    .filter((root) => !isTestPath(`${root}/`));
+  return roots.length > 0 ? [...new Set(roots)] : [DEFAULT_SOURCE_ROOT];
+}
+
+/** `./src/**\/*.ts` → `src`, `lib` → `lib`, `index.ts` or `**\/*` → `.`. */
+function staticPrefix(pattern: string): string {
+  const segments = posix.normalize(pattern.replace(/^\.\//, "")).split("/");
+  const globIndex = segments.findIndex((segment) => /[*?[{]/.test(segment));
+  const fixed = globIndex < 0 ? segments : segments.slice(0, globIndex);
+  if (globIndex < 0 && /\.[cm]?[jt]sx?$/.test(fixed.at(-1) ?? "")) fixed.pop();
+  return joinRelative(".", ...fixed.filter((segment) => segment !== "."));
+}
+
+async function resolveEntryPoints(
+  repoPath: string,
+  knownPaths: Set<string>,
+  sourceRoots: string[],
+): Promise<Set<string>> {
+  const entryPoints = new Set<string>();
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await readFile(resolve(repoPath, "package.json"), "utf8"));
+  } catch {
+    manifest = undefined;
+  }
+
+  if (isRecord(manifest)) {
+    for (const declared of collectManifestPaths(manifest)) {
+      const entry = mapToSourcePath(declared, knownPaths, sourceRoots);
+      if (entry) entryPoints.add(entry);
+    }
+  }
+
+  if (entryPoints.size === 0) {
+    const defaults = sourceRoots.flatMap((root) =>
+      DEFAULT_ENTRY_NAMES.map((name) => joinRelative(root, name)),
+    );
+    for (const candidate of [...defaults, "index"]) {
+      const entry = resolveModulePath(candidate, knownPaths);
+      if (entry) entryPoints.add(entry);
+    }
+  }
+
+  return entryPoints;
+}
+
+function collectManifestPaths(manifest: Record<string, unknown>): string[] {
+  const paths: string[] = [];
+
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") {
+      paths.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isRecord(value)) {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  visit(manifest.main);
+  visit(manifest.exports);
+  visit(manifest.bin);
+  return paths;
+}
+
+/** `./dist/cli/index.js` → `src/cli/index.ts` when the compiled path is not itself in the repo. */
+function mapToSourcePath(
+  declared: string,
+  knownPaths: Set<string>,
+  sourceRoots: string[],
+): string | undefined {
+  const normalized = posix.normalize(declared.replace(/^\.\//, ""));
+  const direct = resolveModulePath(normalized, knownPaths);
+  if (direct) return direct;
+
+  const [first, ...rest] = normalized.split("/");
+  if (!BUILD_DIRS.has(first) || rest.length === 0) return undefined;
+  for (const root of sourceRoots) {
+    const entry = resolveModulePath(joinRelative(root, ...rest), knownPaths);
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+function resolveModulePath(base: string, knownPaths: Set<string>): string | undefined {
+  const normalized = posix.normalize(base);
+  if (knownPaths.has(normalized)) return normalized;
+
+  // NodeNext-style imports use the compiled extension (`./foo.js` → `foo.ts`).
+  const stem = normalized.replace(/\.(?:d\.ts|[cm]?[jt]sx?)$/, "");
+  for (const ext of RESOLVE_EXTENSIONS) {
+    if (knownPaths.has(`${stem}${ext}`)) return `${stem}${ext}`;
+  }
+  for (const ext of RESOLVE_EXTENSIONS) {
+    if (knownPaths.has(`${normalized}/index${ext}`)) return `${normalized}/index${ext}`;
+  }
+  return undefined;
+}
+
+function isTestPath(path: string): boolean {
+  if (/\.(?:test|spec)\.[jt]sx?$/.test(path)) return true;
+  const parts = path.split("/");
+  return parts.includes("tests") || parts.includes("test") || parts.includes("__tests__");
+}
+
+// ── Task construction ────────────────────────────────────────
+
+function toTask(finding: DeadCodeFinding, discoveredAt: string): Task {
+  const [firstFile] = finding.files;
+
+  return {
+    id: createTaskId(`${finding.kind}:${finding.module ?? firstFile}`),
+    source: "dead-code" as TaskSource,
+    title: buildTitle(finding),
+    description: buildDescription(finding),
+    targetFiles: finding.files,
+    priority: 0,
+    complexity: toComplexity(finding),
+    executionMode: "new-pr",
+    metadata: {
+      scannerId: "dead-code",
+      kind: finding.kind,
+      filePath: firstFile,
+      ...(finding.module ? { module: finding.module } : {}),
+      ...(finding.importedBy ? { importedBy: finding.importedBy } : {}),
+      unusedSymbols: finding.unusedSymbols,
+    },
+    discoveredAt,
+  };
+}
+
+function buildTitle(finding: DeadCodeFinding): string {
+  switch (finding.kind) {
+    case "unused-exports":
+      return `Remove unused exports from ${basename(finding.files[0])}`;
+    case "unused-file":
+      return `Remove unused file ${finding.files[0]}`;
+    case "unreachable-module":
+      return `Remove unreachable module ${finding.module}`;
+  }
+}
+
+function buildDescription(finding: DeadCodeFinding): string {
+  const symbolList = finding.unusedSymbols.map((symbol) => `\`${symbol}\``).join(", ");
+
+  switch (finding.kind) {
+    case "unused-exports":
+      return `\`${finding.files[0]}\` exports symbols that nothing in the repository imports: ${symbolList}. Remove the exports, and the code itself if it is not used internally.`;
+    case "unused-file": {
+      const reason =
+        finding.importedBy && finding.importedBy.length > 0
+          ? `is only imported by unreachable files (${finding.importedBy.map((path) => `\`${path}\``).join(", ")})`
+          : "is not imported anywhere";
+      return `\`${finding.files[0]}\` ${reason} and is not a package entry point. Delete it if it is truly unused.`;
+    }
+    case "unreachable-module":
+      return `No file in the \`${finding.module}\` module (${finding.files.length} file(s)) is reachable from the package entry points. Delete the module if it is truly unused.`;
+  }
+}
+
+function toComplexity(finding: DeadCodeFinding): TaskComplexity {
+  if (finding.kind === "unreachable-module") {
+    return "moderate";
+  }
+  if (finding.kind === "unused-exports" && finding.unusedSymbols.length <= 2) {
+    return "trivial";
+  }
+  return "simple";
+}
+
+function uniqueSorted(values: string[]): string[] {
+  return [...new Set(values)].sort((left, right) => left.localeCompare(right));
+}
+
+function createTaskId(key: string): string {
+  return createHash("sha256").update(`dead-code:${key}`).digest("hex").slice(0, 16);
+}
+
+function normalizeRelativePath(filePath: string): string {
+  return filePath.split(sep).join("/");
+}
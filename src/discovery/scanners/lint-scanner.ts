@@ -2,13 +2,18 @@ import { spawn } from "node:child_process";
 import { createHash } from "node:crypto";
 import { access, readFile } from "node:fs/promises";
 import { relative, resolve, sep } from "node:path";
-import type { Task, TaskComplexity } from "../../core/index.js";
+import {
+  type PackageManager,
+  type Task,
+  type TaskComplexity,
+  detectPackageManager,
+  packageManagerExec,
+} from "../../core/index.js";
 import type { ScanOptions, Scanner } from "../types.js";
 
 const DEFAULT_TIMEOUT_MS = 60_000;
 
-type PackageManager = "pnpm" | "npm" | "yarn" | "bun";
-type LinterKind = "eslint" | "biome" | "none";
+type LinterKind = "eslint" | "biome" | "ruff" | "flake8" | "golangci-lint" | "clippy" | "rubocop";
 
 interface LinterDetection {
   kind: LinterKind;
@@ -39,31 +44,52 @@ interface CommandOptions {
   signal?: AbortSignal;
 }
 
+const FINDING_PARSERS: Record<LinterKind, (output: string, repoPath: string) => LintFinding[]> = {
+  eslint: parseEslintFindings,
+  biome: parseBiomeFindings,
+  ruff: parseRuffFindings,
+  flake8: parseFlake8Findings,
+  "golangci-lint": parseGolangciFindings,
+  clippy: parseClippyFindings,
+  rubocop: parseRubocopFindings,
+};
+
+/** Linters invoked as standalone binaries rather than through the package manager. */
+const NATIVE_LINTERS = new Set<LinterKind>([
+  "ruff",
+  "flake8",
+  "golangci-lint",
+  "clippy",
+  "rubocop",
+]);
+
 /**
  * Scanner that runs repo-native lint tooling and maps findings to tasks.
+ * A repo can get one linter per ecosystem (JS, Python, Go, Rust, Ruby);
+ * native linters that are not installed are skipped.
  */
 export class LintScanner implements Scanner {
   public readonly id = "lint";
   public readonly name = "Lint Scanner";
 
   public async scan(repoPath: string, options: ScanOptions = {}): Promise<Task[]> {
-    const detection = await detectLinter(repoPath);
-    if (detection.kind === "none") {
+    const detections = await detectLinters(repoPath);
+    if (detections.length === 0) {
       return [];
     }
 
-    const result = await runLinter(repoPath, detection, options);
-    const rawFindings =
-      detection.kind === "eslint"
-        ? parseEslintFindings(result.stdout, repoPath)
-        : parseBiomeFindings(result.stdout, repoPath);
-    const findings = deduplicateFindingsByFileAndRule(rawFindings);
+    const tasks: Task[] = [];
+    for (const detection of detections) {
+      const result = await runLinter(repoPath, detection, options);
+      if (!result) {
+        continue;
+      }
 
-    if (findings.length === 0) {
-      return [];
+      const rawFindings = FINDING_PARSERS[detection.kind](result.stdout, repoPath);
+      const findings = deduplicateFindingsByFileAndRule(rawFindings);
+      tasks.push(...buildLintTasks(findings, detection.kind));
     }
 
-    const tasks = buildLintTasks(findings, detection.kind);
     if (typeof options.maxTasks === "number" && options.maxTasks >= 0) {
       return tasks.slice(0, options.maxTasks);
     }
@@ -72,28 +98,72 @@ export class LintScanner implements Scanner {
   }
 }
 
-async function detectLinter(repoPath: string): Promise<LinterDetection> {
+async function detectLinters(repoPath: string): Promise<LinterDetection[]> {
   const packageManager = await detectPackageManager(repoPath);
+  const kinds = [
+    await detectJavaScriptLinter(repoPath),
+    await detectPythonLinter(repoPath),
+    (await hasAnyFile(repoPath, GOLANGCI_MARKER_FILES)) ? "golangci-lint" : undefined,
+    (await fileExists(resolve(repoPath, "Cargo.toml"))) ? "clippy" : undefined,
+    await detectRubyLinter(repoPath),
+  ] as const;
+
+  return kinds
+    .filter((kind): kind is LinterKind => kind !== undefined)
+    .map((kind) => ({ kind, packageManager }));
+}
+
+async function detectJavaScriptLinter(repoPath: string): Promise<LinterKind | undefined> {
   const packageJson = await readPackageJson(repoPath);
 
   const scriptLint = asString(toRecord(packageJson.scripts).lint)?.toLowerCase() ?? "";
   const dependencies = collectDependencyNames(packageJson);
 
   if (scriptLint.includes("biome")) {
-    return { kind: "biome", packageManager };
+    return "biome";
   }
   if (scriptLint.includes("eslint")) {
-    return { kind: "eslint", packageManager };
+    return "eslint";
   }
 
   if (dependencies.has("eslint") || (await hasAnyFile(repoPath, ESLINT_CONFIG_FILES))) {
-    return { kind: "eslint", packageManager };
+    return "eslint";
   }
   if (dependencies.has("@biomejs/biome") || (await hasAnyFile(repoPath, BIOME_CONFIG_FILES))) {
-    return { kind: "biome", packageManager };
+    return "biome";
+  }
+
+  return undefined;
+}
+
+/** Explicit ruff or flake8 configuration wins; other Python projects default to ruff. */
+async function detectPythonLinter(repoPath: string): Promise<LinterKind | undefined> {
+  const pyproject = await readTextFile(resolve(repoPath, "pyproject.toml"));
+  if (pyproject.includes("[tool.ruff") || (await hasAnyFile(repoPath, RUFF_CONFIG_FILES))) {
+    return "ruff";
   }
 
-  return { kind: "none", packageManager };
+  if (await fileExists(resolve(repoPath, ".flake8"))) {
+    return "flake8";
+  }
+  for (const candidate of ["setup.cfg", "tox.ini"]) {
+    if ((await readTextFile(resolve(repoPath, candidate))).includes("[flake8]")) {
+      return "flake8";
+    }
+  }
+
+  if (await hasAnyFile(repoPath, PYTHON_PROJECT_FILES)) {
+    return "ruff";
+  }
+  return undefined;
+}
+
+async function detectRubyLinter(repoPath: string): Promise<LinterKind | undefined> {
+  if (await fileExists(resolve(repoPath, ".rubocop.yml"))) {
+    return "rubocop";
+  }
+  const gemfile = await readTextFile(resolve(repoPath, "Gemfile"));
+  return gemfile.includes("rubocop") ? "rubocop" : undefined;
 }
 
 const ESLINT_CONFIG_FILES = [
@@ -108,35 +178,38 @@ const ESLINT_CONFIG_FILES = [
 
 const BIOME_CONFIG_FILES = ["biome.json", "biome.jsonc"] as const;
 
-async function detectPackageManager(repoPath: string): Promise<PackageManager> {
-  const checks: Array<{ file: string; manager: PackageManager }> = [
-    { file: "pnpm-lock.yaml", manager: "pnpm" },
-    { file: "bun.lockb", manager: "bun" },
-    { file: "bun.lock", manager: "bun" },
-    { file: "yarn.lock", manager: "yarn" },
-    { file: "package-lock.json", manager: "npm" },
-  ];
+const RUFF_CONFIG_FILES = ["ruff.toml", ".ruff.toml"] as const;
 
-  for (const check of checks) {
-    if (await fileExists(resolve(repoPath, check.file))) {
-      return check.manager;
-    }
-  }
+const PYTHON_PROJECT_FILES = ["pyproject.toml", "setup.py"] as const;
 
-  return "npm";
-}
+const GOLANGCI_MARKER_FILES = [
+  "go.mod",
+  ".golangci.yml",
+  ".golangci.yaml",
+  ".golangci.toml",
+  ".golangci.json",
+] as const;
 
+/** Returns undefined when a native linter binary is not installed. */
 async function runLinter(
   repoPath: string,
   detection: LinterDetection,
   options: ScanOptions,
-): Promise<CommandResult> {
+): Promise<CommandResult | undefined> {
   const command = buildLintCommand(detection, options);
-  const result = await runCommand(command.command, command.args, {
-    cwd: repoPath,
-    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
-    signal: options.signal,
-  });
+  let result: CommandResult;
+  try {
+    result = await runCommand(command.command, command.args, {
+      cwd: repoPath,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (NATIVE_LINTERS.has(detection.kind) && isCommandNotFound(error)) {
+      return undefined;
+    }
+    throw error;
+  }
 
   if (result.timedOut) {
     throw new Error(`Lint scanner timed out after ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms`);
@@ -144,7 +217,7 @@ async function runLinter(
 
   const output = result.stdout.trim();
 
-  // ESLint and Biome both return non-zero exit codes when lint violations exist.
+  // Every supported linter returns a non-zero exit code when lint violations exist.
   if (result.exitCode !== 0 && output.length === 0) {
     return {
       ...result,
@@ -169,30 +242,43 @@ function buildLintCommand(
     for (const pattern of excludes) {
       eslintArgs.push("--ignore-pattern", pattern);
     }
-    return withPackageManagerRunner(detection.packageManager, eslintArgs);
+    return packageManagerExec(detection.packageManager, eslintArgs);
   }
 
-  const biomeArgs = ["biome", "check", ".", "--reporter=json"];
-  return withPackageManagerRunner(detection.packageManager, biomeArgs);
-}
+  if (detection.kind === "biome") {
+    const biomeArgs = ["biome", "check", ".", "--reporter=json"];
+    return packageManagerExec(detection.packageManager, biomeArgs);
+  }
 
-function withPackageManagerRunner(
-  packageManager: PackageManager,
-  commandArgs: string[],
-): { command: string; args: string[] } {
-  if (packageManager === "pnpm") {
-    return { command: "pnpm", args: ["exec", ...commandArgs] };
+  if (detection.kind === "ruff") {
+    const ruffArgs = ["check", ".", "--output-format=json", "--no-cache"];
+    for (const pattern of excludes) {
+      ruffArgs.push("--extend-exclude", pattern);
+    }
+    return { command: "ruff", args: ruffArgs };
   }
 
-  if (packageManager === "yarn") {
-    return { command: "yarn", args: commandArgs };
+  if (detection.kind === "flake8") {
+    // flake8 has no built-in JSON reporter; the default text format is parsed instead.
+    const flake8Args = ["."];
+    if (excludes.length > 0) {
+      flake8Args.push(`--extend-exclude=${excludes.join(",")}`);
+    }
+    return { command: "flake8", args: flake8Args };
+  }
+
+  if (detection.kind === "golangci-lint") {
+    return {
+      command: "golangci-lint",
+      args: ["run", "--output.json.path=stdout", "--show-stats=false"],
+    };
   }
 
-  if (packageManager === "bun") {
-    return { command: "bunx", args: commandArgs };
+  if (detection.kind === "clippy") {
+    return { command: "cargo", args: ["clippy", "--message-format=json", "--quiet"] };
   }
 
-  return { command: "npx", args: ["--no-install", ...commandArgs] };
+  return { command: "rubocop", args: ["--format", "json", "--force-exclusion"] };
 }
 
 function parseEslintFindings(output: string, repoPath: string): LintFinding[] {
@@ -393,7 +479,179 @@ function normalizeBiomeSeverity(severity: string | undefined): number | undefine
   return undefined;
 }
 
-function buildLintTasks(findings: LintFinding[], linter: "eslint" | "biome"): Task[] {
+function parseRuffFindings(output: string, repoPath: string): LintFinding[] {
+  const findings: LintFinding[] = [];
+  for (const item of asArray(parseJson(output))) {
+    const record = toRecord(item);
+    const filePath = normalizeFilePath(asString(record.filename), repoPath);
+    const message = asString(record.message);
+    if (!filePath || !message) {
+      continue;
+    }
+
+    const location = toRecord(record.location);
+    findings.push({
+      filePath,
+      line: asNumber(location.row),
+      column: asNumber(location.column),
+      // Syntax errors have no rule code
+      ruleId: asString(record.code) ?? "syntax-error",
+      message,
+      fixable: record.fix !== undefined && record.fix !== null,
+    });
+  }
+
+  return findings;
+}
+
+const FLAKE8_LINE_PATTERN = /^(.+?):(\d+):(\d+): ([A-Z]+\d+) (.+)$/;
+
+function parseFlake8Findings(output: string, repoPath: string): LintFinding[] {
+  const findings: LintFinding[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = FLAKE8_LINE_PATTERN.exec(line.trim());
+    if (!match) {
+      continue;
+    }
+
+    const filePath = normalizeFilePath(match[1], repoPath);
+    if (!filePath) {
+      continue;
+    }
+
+    const ruleId = match[4];
+    findings.push({
+      filePath,
+      line: Number(match[2]),
+      column: Number(match[3]),
+      ruleId,
+      message: match[5],
+      fixable: false,
+      // E9xx (syntax) and F (pyflakes) are errors; style codes are warnings
+      severity: ruleId.startsWith("E9") || ruleId.startsWith("F") ? 2 : 1,
+    });
+  }
+
+  return findings;
+}
+
+function parseGolangciFindings(output: string, repoPath: string): LintFinding[] {
+  const parsed = toRecord(parseJson(output));
+  const findings: LintFinding[] = [];
+
+  for (const issue of asArray(parsed.Issues)) {
+    const record = toRecord(issue);
+    const position = toRecord(record.Pos);
+    const filePath = normalizeFilePath(asString(position.Filename), repoPath);
+    const message = asString(record.Text);
+    if (!filePath || !message) {
+      continue;
+    }
+
+    findings.push({
+      filePath,
+      line: asNumber(position.Line),
+      column: asNumber(position.Column),
+      ruleId: asString(record.FromLinter) ?? "unknown",
+      message,
+      // v1 reports `Replacement`, v2 `SuggestedFixes`
+      fixable:
+        (record.Replacement !== undefined && record.Replacement !== null) ||
+        asArray(record.SuggestedFixes).length > 0,
+      severity: normalizeBiomeSeverity(asString(record.Severity)),
+    });
+  }
+
+  return findings;
+}
+
+/** `cargo clippy --message-format=json` prints one JSON object per line. */
+function parseClippyFindings(output: string, repoPath: string): LintFinding[] {
+  const findings: LintFinding[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{")) {
+      continue;
+    }
+
+    const record = toRecord(parseJson(trimmed));
+    if (record.reason !== "compiler-message") {
+      continue;
+    }
+
+    const message = toRecord(record.message);
+    const level = asString(message.level);
+    const text = asString(message.message);
+    if (!text || (level !== "warning" && level !== "error")) {
+      continue;
+    }
+
+    const spans = asArray(message.spans).map(toRecord);
+    const primary = spans.find((span) => span.is_primary === true) ?? spans[0];
+    const filePath = normalizeFilePath(asString(primary?.file_name), repoPath);
+    if (!primary || !filePath) {
+      continue;
+    }
+
+    findings.push({
+      filePath,
+      line: asNumber(primary.line_start),
+      column: asNumber(primary.column_start),
+      ruleId: asString(toRecord(message.code).code) ?? "unknown",
+      message: text,
+      fixable: hasMachineApplicableSuggestion(message),
+      severity: level === "error" ? 2 : 1,
+    });
+  }
+
+  return findings;
+}
+
+function hasMachineApplicableSuggestion(message: Record<string, unknown>): boolean {
+  const spans = [
+    ...asArray(message.spans),
+    ...asArray(message.children).flatMap((child) => asArray(toRecord(child).spans)),
+  ];
+  return spans.some((span) => toRecord(span).suggestion_applicability === "MachineApplicable");
+}
+
+function parseRubocopFindings(output: string, repoPath: string): LintFinding[] {
+  const parsed = toRecord(parseJson(output));
+  const findings: LintFinding[] = [];
+
+  for (const file of asArray(parsed.files)) {
+    const fileRecord = toRecord(file);
+    const filePath = normalizeFilePath(asString(fileRecord.path), repoPath);
+    if (!filePath) {
+      continue;
+    }
+
+    for (const offense of asArray(fileRecord.offenses)) {
+      const record = toRecord(offense);
+      const message = asString(record.message);
+      if (!message) {
+        continue;
+      }
+
+      const location = toRecord(record.location);
+      const severity = asString(record.severity);
+      findings.push({
+        filePath,
+        line: asNumber(location.start_line) ?? asNumber(location.line),
+        column: asNumber(location.start_column) ?? asNumber(location.column),
+        ruleId: asString(record.cop_name) ?? "unknown",
+        message,
+        fixable: record.correctable === true,
+        severity: severity === "error" || severity === "fatal" ? 2 : 1,
+      });
+    }
+  }
+
+  return findings;
+}
+
+function buildLintTasks(findings: LintFinding[], linter: LinterKind): Task[] {
   const grouped = new Map<string, LintFinding[]>();
   for (const finding of findings) {
     const existing = grouped.get(finding.filePath);
@@ -504,6 +762,18 @@ async function hasAnyFile(repoPath: string, candidates: readonly string[]): Prom
   return false;
 }
 
+async function readTextFile(filePath: string): Promise<string> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch {
+    return "";
+  }
+}
+
+function isCommandNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === "ENOENT";
+}
+
 async function fileExists(filePath: string): Promise<boolean> {
   try {
     await access(filePath);
@@ -2,6 +2,7 @@ import { createHash } from "node:crypto";
 import { readFile, readdir, stat } from "node:fs/promises";
 import { extname, resolve, sep } from "node:path";
 import type { Task, TaskComplexity } from "../../core/index.js";
+import { compileGlobMatcher } from "../glob.js";
 import type { ScanOptions, Scanner } from "../types.js";
 
 const MAX_SCAN_FILE_SIZE_BYTES = 1_048_576;
@@ -372,17 +373,23 @@ function detectFileFindings(filePath: string, content: string): SecurityFinding[
 
 function buildTask(finding: SecurityFinding, discoveredAt: string): Task {
   const title = `Security: ${finding.rule.title} in ${finding.filePath}:${finding.line}`;
-  const safeMatchText = truncateInlineCode(sanitizeMatch(finding.matchText), 180);
+  // Never carry a probable secret into the task: descriptions end up in
+  // prompts, logs and PR bodies.
+  const safeMatchText = isSecretFinding(finding)
+    ? undefined
+    : truncateInlineCode(sanitizeMatch(finding.matchText), 180);
   const description = [
     `${finding.rule.summary}`,
     `Location: \`${finding.filePath}:${finding.line}:${finding.column}\`.`,
-    `Matched snippet: \`${safeMatchText}\`.`,
+    safeMatchText === undefined
+      ? "Matched snippet: (redacted — probable secret)."
+      : `Matched snippet: \`${safeMatchText}\`.`,
     `Remediation: ${finding.rule.remediation}`,
   ].join("\n\n");
 
   return {
     id: createTaskId(finding),
-    source: "custom",
+    source: "security",
     title,
     description,
     targetFiles: [finding.filePath],
@@ -396,12 +403,17 @@ function buildTask(finding: SecurityFinding, discoveredAt: string): Task {
       filePath: finding.filePath,
       line: finding.line,
       column: finding.column,
-      matchText: safeMatchText,
+      remediation: finding.rule.remediation,
+      ...(safeMatchText === undefined ? { redacted: true } : { matchText: safeMatchText }),
     },
     discoveredAt,
   };
 }
 
+function isSecretFinding(finding: SecurityFinding): boolean {
+  return finding.rule.category === "hardcoded-secrets";
+}
+
 function createTaskId(finding: SecurityFinding): string {
   const seed = [
     "security",
@@ -436,28 +448,6 @@ function mergeExcludes(exclude: string[] | undefined): string[] {
   return Array.from(new Set([...DEFAULT_EXCLUDES, ...(exclude ?? [])].filter(Boolean)));
 }
 
-function compileGlobMatcher(pattern: string): (filePath: string) => boolean {
-  const normalized = normalizeRelativePath(pattern.replace(/^!+/, "").trim());
-  if (!normalized) {
-    return () => false;
-  }
-
-  if (!normalized.includes("*")) {
-    const prefix = normalized.endsWith("/") ? normalized : `${normalized}/`;
-    return (filePath: string) =>
-      filePath === normalized || filePath.startsWith(prefix) || filePath.endsWith(`/${normalized}`);
-  }
-
-  const escaped = normalized
-    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
-    .replace(/\*\*/g, "__DOUBLE_STAR__")
-    .replace(/\*/g, "[^/]*")
-    .replace(/__DOUBLE_STAR__/g, ".*");
-
-  const regex = new RegExp(`^${escaped}$`);
-  return (filePath: string) => regex.test(filePath);
-}
-
 function normalizeRelativePath(filePath: string): string {
   return filePath.split(sep).join("/");
 }
@@ -2,14 +2,28 @@ import { createHash } from "node:crypto";
 import { readFile, readdir, stat } from "node:fs/promises";
 import { basename, resolve, sep } from "node:path";
 import type { Task, TaskComplexity, TaskSource } from "../../core/index.js";
+import { compileGlobMatcher } from "../glob.js";
+import {
+  type LanguagePlugin,
+  detectLanguages,
+  languageForFile,
+  typescriptPlugin,
+} from "../languages/index.js";
 import type { ScanOptions, Scanner } from "../types.js";
 
 const DEFAULT_EXCLUDES = [".git", "node_modules", "dist", "build", "coverage"] as const;
 
 type ComplexityBucket = "small" | "medium" | "large";
 
+interface CandidateFile {
+  path: string;
+  language: LanguagePlugin;
+}
+
 /**
  * Scanner that identifies source files lacking corresponding test files.
+ * TypeScript is always checked; Python, Go, Rust and Java are checked when
+ * their manifest is present, each with its own test naming conventions.
  */
 export class TestGapScanner implements Scanner {
   public readonly id: TaskSource | string = "test-gap";
@@ -22,15 +36,23 @@ export class TestGapScanner implements Scanner {
     }
 
     const excludes = mergeExcludes(options.exclude);
-    const { sourceFiles, testFiles } = await collectCandidateFiles(repoPath, excludes);
+    const languages = await detectEnabledLanguages(repoPath);
+    const { sourceFiles, testFiles } = await collectCandidateFiles(repoPath, excludes, languages);
     if (sourceFiles.length === 0) {
       return [];
     }
 
     const coveredSourceKeys = buildCoveredSourceKeySet(testFiles);
-    const untestedSourceFiles = sourceFiles.filter(
-      (sourceFilePath) => !coveredSourceKeys.has(toSourceKey(sourceFilePath)),
-    );
+    const untestedSourceFiles: string[] = [];
+    for (const sourceFile of sourceFiles) {
+      if (coveredSourceKeys.has(toSourceKey(sourceFile))) {
+        continue;
+      }
+      if (await hasInlineTests(repoPath, sourceFile)) {
+        continue;
+      }
+      untestedSourceFiles.push(sourceFile.path);
+    }
 
     if (untestedSourceFiles.length === 0) {
       return [];
@@ -94,12 +116,24 @@ export class TestGapScanner implements Scanner {
   }
 }
 
+async function detectEnabledLanguages(repoPath: string): Promise<LanguagePlugin[]> {
+  const detected = await detectLanguages(repoPath);
+  const languages = [typescriptPlugin];
+  for (const { plugin } of detected) {
+    if (!languages.includes(plugin)) {
+      languages.push(plugin);
+    }
+  }
+  return languages;
+}
+
 async function collectCandidateFiles(
   repoPath: string,
   excludePatterns: string[],
-): Promise<{ sourceFiles: string[]; testFiles: string[] }> {
-  const sourceFiles: string[] = [];
-  const testFiles: string[] = [];
+  languages: LanguagePlugin[],
+): Promise<{ sourceFiles: CandidateFile[]; testFiles: CandidateFile[] }> {
+  const sourceFiles: CandidateFile[] = [];
+  const testFiles: CandidateFile[] = [];
   const excludeMatchers = excludePatterns.map(compileGlobMatcher);
 
   async function walk(relativeDir: string): Promise<void> {
@@ -130,92 +164,57 @@ async function collectCandidateFiles(
         continue;
       }
 
-      if (isSourceFile(relativePath)) {
-        sourceFiles.push(relativePath);
+      const language = languageForFile(relativePath, languages);
+      if (!language) {
+        continue;
       }
 
-      if (isTestFile(relativePath)) {
-        testFiles.push(relativePath);
+      if (language.isSourceFile(relativePath)) {
+        sourceFiles.push({ path: relativePath, language });
+      }
+
+      if (language.isTestFile(relativePath)) {
+        testFiles.push({ path: relativePath, language });
       }
     }
   }
 
   await walk("");
 
-  sourceFiles.sort((left, right) => left.localeCompare(right));
-  testFiles.sort((left, right) => left.localeCompare(right));
+  sourceFiles.sort((left, right) => left.path.localeCompare(right.path));
+  testFiles.sort((left, right) => left.path.localeCompare(right.path));
 
   return { sourceFiles, testFiles };
 }
 
-function isSourceFile(filePath: string): boolean {
-  if (!filePath.endsWith(".ts")) {
-    return false;
-  }
-
-  if (filePath.endsWith(".d.ts") || filePath.endsWith(".test.ts")) {
-    return false;
-  }
-
-  if (basename(filePath) === "index.ts") {
-    return false;
-  }
-
-  const parts = filePath.split("/");
-  return parts.includes("src");
-}
-
-function isTestFile(filePath: string): boolean {
-  if (!filePath.endsWith(".test.ts")) {
-    return false;
-  }
-
-  const parts = filePath.split("/");
-  return parts.includes("tests") || parts.includes("__tests__");
-}
-
-function buildCoveredSourceKeySet(testFiles: string[]): Set<string> {
+function buildCoveredSourceKeySet(testFiles: CandidateFile[]): Set<string> {
   const covered = new Set<string>();
 
-  for (const testFilePath of testFiles) {
-    const candidateSourceKeys = deriveCandidateSourceKeysFromTest(testFilePath);
-    for (const sourceKey of candidateSourceKeys) {
-      covered.add(sourceKey);
+  for (const testFile of testFiles) {
+    for (const sourceKey of testFile.language.coveredSourceKeys(testFile.path)) {
+      covered.add(`${testFile.language.id}:${sourceKey}`);
     }
   }
 
   return covered;
 }
 
-function deriveCandidateSourceKeysFromTest(testFilePath: string): string[] {
-  const normalized = normalizeRelativePath(testFilePath);
-  if (!normalized.endsWith(".test.ts")) {
-    return [];
-  }
+/** Source keys are namespaced by language so `src/foo.go` is not covered by a `.ts` test. */
+function toSourceKey(sourceFile: CandidateFile): string {
+  return `${sourceFile.language.id}:${sourceFile.language.sourceKey(sourceFile.path)}`;
+}
 
-  const withoutSuffix = normalized.slice(0, -".test.ts".length);
-  const parts = withoutSuffix.split("/");
-  const markerIndex = parts.findIndex((part) => part === "tests" || part === "__tests__");
-  if (markerIndex < 0) {
-    return [];
+async function hasInlineTests(repoPath: string, sourceFile: CandidateFile): Promise<boolean> {
+  const detect = sourceFile.language.hasInlineTests;
+  if (!detect) {
+    return false;
   }
 
-  const prefix = parts.slice(0, markerIndex);
-  const suffix = parts.slice(markerIndex + 1);
-
-  const candidates = new Set<string>();
-  candidates.add(normalizeRelativePath([...prefix, "src", ...suffix].join("/")));
-
-  if (prefix[prefix.length - 1] === "src") {
-    candidates.add(normalizeRelativePath([...prefix, ...suffix].join("/")));
+  try {
+    return detect(await readFile(resolve(repoPath, sourceFile.path), "utf8"));
+  } catch {
+    return false;
   }
-
-  return [...candidates];
-}
-
-function toSourceKey(sourceFilePath: string): string {
-  const normalized = normalizeRelativePath(sourceFilePath);
-  return normalized.endsWith(".ts") ? normalized.slice(0, -".ts".length) : normalized;
 }
 
 function buildDescription(sourceFilePath: string, symbols: string[]): string {
@@ -295,28 +294,6 @@ function mergeExcludes(exclude: string[] | undefined): string[] {
   return Array.from(new Set([...DEFAULT_EXCLUDES, ...(exclude ?? [])].filter(Boolean)));
 }
 
-function compileGlobMatcher(pattern: string): (filePath: string) => boolean {
-  const normalized = normalizeRelativePath(pattern.replace(/^!+/, "").trim());
-  if (!normalized) {
-    return () => false;
-  }
-
-  if (!normalized.includes("*")) {
-    const prefix = normalized.endsWith("/") ? normalized : `${normalized}/`;
-    return (filePath: string) =>
-      filePath === normalized || filePath.startsWith(prefix) || filePath.endsWith(`/${normalized}`);
-  }
-
-  const escaped = normalized
-    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
-    .replace(/\*\*/g, "__DOUBLE_STAR__")
-    .replace(/\*/g, "[^/]*")
-    .replace(/__DOUBLE_STAR__/g, ".*");
-
-  const regex = new RegExp(`^${escaped}$`);
-  return (filePath: string) => regex.test(filePath);
-}
-
 function normalizeRelativePath(filePath: string): string {
   return filePath.split(sep).join("/");
 }
@@ -0,0 +1,753 @@
+import { createHash } from "node:crypto";
+import { readFile, readdir, stat } from "node:fs/promises";
+import { basename, extname, resolve, sep } from "node:path";
+import { execa } from "execa";
+import type { Task, TaskComplexity } from "../../core/index.js";
+import { compileGlobMatcher } from "../glob.js";
+import type { ScanOptions, Scanner } from "../types.js";
+
+const MAX_SCAN_FILE_SIZE_BYTES = 1_048_576;
+const BLAME_TIMEOUT_MS = 30_000;
+const DAY_MS = 86_400_000;
+/** Markers further apart than this (in lines) are separate tasks, even in one function. */
+const MAX_GROUP_GAP_LINES = 40;
+/** Outside any function only markers on (nearly) adjacent lines are grouped. */
+const MAX_ADJACENT_GAP_LINES = 2;
+const MAX_TEXT_LENGTH = 160;
+
+const DEFAULT_EXCLUDES = [
+  ".git",
+  "node_modules",
+  "dist",
+  "build",
+  "coverage",
+  "vendor",
+  "third_party",
+  "third-party",
+  "external",
+  "bower_components",
+  "Pods",
+  "target",
+  "__pycache__",
+  ".venv",
+  "venv",
+] as const;
+
+type TodoMarker = "TODO" | "FIXME" | "HACK" | "XXX";
+
+const MARKER_PRIORITY: Record<TodoMarker, number> = {
+  FIXME: 55,
+  HACK: 50,
+  TODO: 40,
+  XXX: 40,
+};
+
+type ScopeStyle = "braces" | "indent" | "none";
+
+interface CommentSyntax {
+  line: string[];
+  block: Array<[open: string, close: string]>;
+  scope: ScopeStyle;
+}
+
+const C_LIKE: CommentSyntax = { line: ["//"], block: [["/*", "*/"]], scope: "braces" };
+const HASH: CommentSyntax = { line: ["#"], block: [], scope: "none" };
+const MARKUP: CommentSyntax = { line: [], block: [["<!--", "-->"]], scope: "none" };
+
+const SYNTAX_BY_EXTENSION: Record<string, CommentSyntax> = {
+  ...Object.fromEntries(
+    [
+      ".ts",
+      ".tsx",
+      ".mts",
+      ".cts",
+      ".js",
+      ".jsx",
+      ".mjs",
+      ".cjs",
+      ".java",
+      ".kt",
+      ".kts",
+      ".scala",
+      ".go",
+      ".rs",
+      ".c",
+      ".h",
+      ".cc",
+      ".cpp",
+      ".hpp",
+      ".cs",
+      ".swift",
+      ".dart",
+      ".php",
+      ".css",
+      ".scss",
+      ".less",
+    ].map((extension) => [extension, C_LIKE]),
+  ),
+  ...Object.fromEntries(
+    [".sh", ".bash", ".zsh", ".yml", ".yaml", ".toml", ".pl", ".r", ".ex", ".exs"].map(
+      (extension) => [extension, HASH],
+    ),
+  ),
+  ".py": { ...HASH, block: [['"""', '"""']], scope: "indent" },
+  ".rb": { ...HASH, scope: "indent" },
+  ".sql": { line: ["--"], block: [["/*", "*/"]], scope: "none" },
+  ".lua": { line: ["--"], block: [["--[[", "]]"]], scope: "none" },
+  ".hs": { line: ["--"], block: [["{-", "-}"]], scope: "none" },
+  ".html": MARKUP,
+  ".xml": MARKUP,
+  ".vue": {
+    line: ["//"],
+    block: [
+      ["/*", "*/"],
+      ["<!--", "-->"],
+    ],
+    scope: "braces",
+  },
+  ".svelte": {
+    line: ["//"],
+    block: [
+      ["/*", "*/"],
+      ["<!--", "-->"],
+    ],
+    scope: "braces",
+  },
+};
+
+const SYNTAX_BY_FILENAME: Record<string, CommentSyntax> = {
+  Makefile: HASH,
+  Dockerfile: HASH,
+  Rakefile: { ...HASH, scope: "indent" },
+};
+
+/** Markers count only at the start of a comment, so prose that mentions "TODO" is ignored. */
+const MARKER_PATTERN = /^[\s*/#!@-]*(TODO|FIXME|HACK|XXX)(?=[\s:(\-!]|$)/;
+const ISSUE_REFERENCE_PATTERNS = [
+  /https?:\/\/\S+/g,
+  /\b[A-Z][A-Z0-9]+-\d+\b/g,
+  /(?:[\w.-]+\/[\w.-]+)?#\d+\b/g,
+  /\b(?:gh|issue|ticket|bug)[-\s]?\d+\b/gi,
+];
+const ISSUE_FILLER_WORDS = /\b(?:see|tracked|tracking|in|by|at|ref|refs|issue|ticket|bug)\b/gi;
+const CONTROL_KEYWORDS = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "with",
+  "return",
+  "else",
+  "do",
+  "try",
+  "function",
+  "async",
+  "new",
+  "typeof",
+  "sizeof",
+]);
+
+interface MarkerHit {
+  marker: TodoMarker;
+  line: number;
+  text: string;
+  owner?: string;
+}
+
+interface BlameInfo {
+  author: string;
+  authoredAt: number;
+}
+
+interface TodoFinding extends MarkerHit {
+  filePath: string;
+  scope?: FunctionScope;
+  blame?: BlameInfo;
+}
+
+interface FunctionScope {
+  name: string;
+  line: number;
+}
+
+/**
+ * Scanner that turns TODO / FIXME / HACK / XXX comments into tasks. Markers
+ * that only point at an issue tracker are skipped, nearby markers in the same
+ * function become one task, and `git blame` supplies the author and age the
+ * ranker uses for freshness.
+ */
+export class TodoScanner implements Scanner {
+  public readonly id = "todo";
+  public readonly name = "TODO Scanner";
+
+  public async scan(repoPath: string, options: ScanOptions = {}): Promise<Task[]> {
+    if (options.maxTasks === 0) {
+      return [];
+    }
+
+    const files = await collectCommentedFiles(repoPath, {
+      excludes: mergeExcludes(options.exclude),
+      includeHidden: options.includeHidden === true,
+      signal: options.signal,
+    });
+
+    const groups: TodoFinding[][] = [];
+    for (const filePath of files) {
+      throwIfAborted(options.signal);
+
+      const content = await readSmallFile(resolve(repoPath, filePath));
+      if (content === undefined) {
+        continue;
+      }
+
+      const syntax = syntaxFor(filePath);
+      const hits = findMarkers(content, syntax);
+      if (hits.length === 0) {
+        continue;
+      }
+
+      const scopes = resolveFunctionScopes(content.split(/\r?\n/), syntax.scope);
+      const blame = await blameFile(repoPath, filePath, options);
+      const findings = hits.map(
+        (hit): TodoFinding => ({
+          ...hit,
+          filePath,
+          scope: scopes[hit.line - 1],
+          blame: blame?.get(hit.line),
+        }),
+      );
+      groups.push(...groupFindings(findings));
+    }
+
+    if (groups.length === 0) {
+      return [];
+    }
+
+    const now = Date.now();
+    const discoveredAt = new Date(now).toISOString();
+    const tasks = groups
+      .map((group) => buildTask(group, discoveredAt, now))
+      .sort((left, right) => {
+        const byPriority = right.priority - left.priority;
+        if (byPriority !== 0) {
+          return byPriority;
+        }
+        const byPath = left.targetFiles[0]?.localeCompare(right.targetFiles[0] ?? "") ?? 0;
+        if (byPath !== 0) {
+          return byPath;
+        }
+        return Number(left.metadata.line ?? 0) - Number(right.metadata.line ?? 0);
+      });
+
+    if (typeof options.maxTasks === "number" && options.maxTasks > 0) {
+      return tasks.slice(0, options.maxTasks);
+    }
+
+    return tasks;
+  }
+}
+
+// ── Marker detection ─────────────────────────────────────────
+
+/** Find markers inside comments; markers in code or string literals are ignored. */
+function findMarkers(content: string, syntax: CommentSyntax): MarkerHit[] {
+  const hits: MarkerHit[] = [];
+  const lines = content.split(/\r?\n/);
+  let openBlock: [string, string] | undefined;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const extracted = extractComments(lines[index] ?? "", syntax, openBlock);
+    openBlock = extracted.openBlock;
+    for (const comment of extracted.comments) {
+      const hit = parseMarker(comment, index + 1);
+      if (hit) hits.push(hit);
+    }
+  }
+
+  return hits;
+}
+
+/** Comment text on one line, given the block comment (if any) still open from the previous line. */
+function extractComments(
+  line: string,
+  syntax: CommentSyntax,
+  openBlock: [string, string] | undefined,
+): { comments: string[]; openBlock: [string, string] | undefined } {
+  const comments: string[] = [];
+  let block = openBlock;
+  let rest = line;
+
+  while (rest.length > 0) {
+    if (block) {
+      const closeAt = rest.indexOf(block[1]);
+      if (closeAt === -1) {
+        comments.push(rest);
+        break;
+      }
+      comments.push(rest.slice(0, closeAt));
+      rest = rest.slice(closeAt + block[1].length);
+      block = undefined;
+      continue;
+    }
+
+    const start = findCommentStart(rest, syntax);
+    if (!start) break;
+    rest = rest.slice(start.index + start.open.length);
+    if (start.close === undefined) {
+      comments.push(rest);
+      break;
+    }
+    block = [start.open, start.close];
+  }
+
+  return { comments, openBlock: block };
+}
+
+function findCommentStart(
+  line: string,
+  syntax: CommentSyntax,
+): { index: number; open: string; close?: string } | undefined {
+  let best: { index: number; open: string; close?: string } | undefined;
+  const consider = (open: string, close?: string) => {
+    const index = indexOutsideStrings(line, open);
+    if (index !== -1 && (!best || index < best.index)) {
+      best = { index, open, close };
+    }
+  };
+
+  for (const [open, close] of syntax.block) consider(open, close);
+  for (const open of syntax.line) consider(open);
+  return best;
+}
+
+/** Index of `token` outside single, double and backtick quoted strings on one line. */
+function indexOutsideStrings(line: string, token: string): number {
+  let quote: string | undefined;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quote) {
+      if (char === "\\") index += 1;
+      else if (char === quote) quote = undefined;
+      continue;
+    }
+    if (line.startsWith(token, index)) {
+      // `#` inside a URL or `//` after `:` (https://) is not a comment.
+      if (token === "//" && line[index - 1] === ":") continue;
+      return index;
+    }
+    if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    }
+  }
+  return -1;
+}
+
+function parseMarker(comment: string, line: number): MarkerHit | undefined {
+  const match = MARKER_PATTERN.exec(comment);
+  if (!match) {
+    return undefined;
+  }
+
+  const marker = match[1] as TodoMarker;
+  let rest = comment.slice((match.index ?? 0) + match[0].length);
+  let owner: string | undefined;
+  const ownerMatch = /^\(([^)]*)\)/.exec(rest);
+  if (ownerMatch) {
+    owner = ownerMatch[1].trim() || undefined;
+    rest = rest.slice(ownerMatch[0].length);
+  }
+
+  const text = rest
+    .replace(/^[\s:!\-–—]+/, "")
+    .replace(/\s*(?:\*\/|-->|-}|\]\]|""")\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (referencesIssueOnly(text, owner)) {
+    return undefined;
+  }
+
+  return { marker, line, text: truncate(text, MAX_TEXT_LENGTH), owner };
+}
+
+/**
+ * True when the marker carries no work of its own and only points at an
+ * issue tracker: `TODO(#123)`, `FIXME: see JIRA-42`, `TODO: https://…/issues/7`.
+ */
+function referencesIssueOnly(text: string, owner: string | undefined): boolean {
+  const hasReference = [text, owner ?? ""].some((value) =>
+    ISSUE_REFERENCE_PATTERNS.some((pattern) => {
+      pattern.lastIndex = 0;
+      return pattern.test(value);
+    }),
+  );
+  if (!hasReference) {
+    return false;
+  }
+
+  let remainder = text;
+  for (const pattern of ISSUE_REFERENCE_PATTERNS) {
+    remainder = remainder.replace(pattern, " ");
+  }
+  remainder = remainder.replace(ISSUE_FILLER_WORDS, " ");
+  return !/[A-Za-z]{2,}/.test(remainder);
+}
+
+// ── Function scopes ──────────────────────────────────────────
+
+const ARROW_DECLARATION =
+  /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s*)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>/;
+const NAMED_FUNCTION = /\b(?:function\s*\*?|fn|func|fun|def)\s+(?:\([^)]*\)\s*)?([A-Za-z_$][\w$]*)/;
+const METHOD_SIGNATURE = /([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\([^()]*\)[^;{()]*\{\s*$/;
+const INDENT_DEFINITION = /^(\s*)(?:async\s+)?def\s+([A-Za-z_][\w.?!]*)/;
+
+/** The function each line belongs to (innermost), or undefined at module level. */
+function resolveFunctionScopes(
+  lines: string[],
+  style: ScopeStyle,
+): Array<FunctionScope | undefined> {
+  if (style === "braces") return resolveBraceScopes(lines);
+  if (style === "indent") return resolveIndentScopes(lines);
+  return lines.map(() => undefined);
+}
+
+function resolveBraceScopes(lines: string[]): Array<FunctionScope | undefined> {
+  const scopes: Array<FunctionScope | undefined> = [];
+  const stack: Array<FunctionScope & { depth: number }> = [];
+  let depth = 0;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const code = stripStringsAndComments(lines[index] ?? "");
+    const name = code.includes("{") ? declaredFunctionName(code) : undefined;
+    if (name) {
+      stack.push({ name, line: index + 1, depth });
+    }
+
+    const top = stack[stack.length - 1];
+    scopes.push(top ? { name: top.name, line: top.line } : undefined);
+
+    for (const char of code) {
+      if (char === "{") depth += 1;
+      else if (char === "}") depth = Math.max(0, depth - 1);
+    }
+    // A body that closed on this line (including one-liners) ends its scope.
+    while (stack.length > 0 && depth <= (stack[stack.length - 1]?.depth ?? 0)) {
+      stack.pop();
+    }
+  }
+
+  return scopes;
+}
+
+function declaredFunctionName(code: string): string | undefined {
+  const candidates = [ARROW_DECLARATION, NAMED_FUNCTION, METHOD_SIGNATURE];
+  for (const pattern of candidates) {
+    const name = pattern.exec(code)?.[1];
+    if (name && !CONTROL_KEYWORDS.has(name)) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+function resolveIndentScopes(lines: string[]): Array<FunctionScope | undefined> {
+  const scopes: Array<FunctionScope | undefined> = [];
+  const stack: Array<FunctionScope & { indent: number }> = [];
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+    if (line.trim().length > 0) {
+      const indent = line.length - line.trimStart().length;
+      while (stack.length > 0 && indent <= (stack[stack.length - 1]?.indent ?? 0)) {
+        stack.pop();
+      }
+      const definition = INDENT_DEFINITION.exec(line);
+      if (definition) {
+        stack.push({ name: definition[2], line: index + 1, indent });
+      }
+    }
+
+    const top = stack[stack.length - 1];
+    scopes.push(top ? { name: top.name, line: top.line } : undefined);
+  }
+
+  return scopes;
+}
+
+function stripStringsAndComments(line: string): string {
+  return line
+    .replace(/\/\*.*?\*\//g, "")
+    .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+    .replace(/\/\/.*$/, "");
+}
+
+// ── Grouping ─────────────────────────────────────────────────
+
+/** Group consecutive markers of one file that share a function and sit close together. */
+function groupFindings(findings: TodoFinding[]): TodoFinding[][] {
+  const groups: TodoFinding[][] = [];
+  let current: TodoFinding[] = [];
+
+  for (const finding of findings) {
+    const previous = current[current.length - 1];
+    if (previous && belongTogether(previous, finding)) {
+      current.push(finding);
+      continue;
+    }
+    if (current.length > 0) groups.push(current);
+    current = [finding];
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+function belongTogether(previous: TodoFinding, next: TodoFinding): boolean {
+  const gap = next.line - previous.line;
+  if (previous.scope && next.scope) {
+    return previous.scope.line === next.scope.line && gap <= MAX_GROUP_GAP_LINES;
+  }
+  return !previous.scope && !next.scope && gap <= MAX_ADJACENT_GAP_LINES;
+}
+
+// ── Blame ────────────────────────────────────────────────────
+
+/** Author and author time per line, or undefined outside git / for untracked files. */
+async function blameFile(
+  repoPath: string,
+  filePath: string,
+  options: ScanOptions,
+): Promise<Map<number, BlameInfo> | undefined> {
+  const result = await execa("git", ["blame", "--line-porcelain", "--", filePath], {
+    cwd: repoPath,
+    reject: false,
+    timeout: options.timeoutMs ?? BLAME_TIMEOUT_MS,
+    cancelSignal: options.signal,
+  });
+  if (result.exitCode !== 0 || typeof result.stdout !== "string") {
+    return undefined;
+  }
+  return parseBlamePorcelain(result.stdout);
+}
+
+function parseBlamePorcelain(output: string): Map<number, BlameInfo> {
+  const blame = new Map<number, BlameInfo>();
+  let finalLine = 0;
+  let author = "";
+  let authorTime = 0;
+
+  for (const line of output.split("\n")) {
+    const header = /^[0-9a-f]{40} \d+ (\d+)/.exec(line);
+    if (header) {
+      finalLine = Number(header[1]);
+      continue;
+    }
+    if (line.startsWith("author ")) {
+      author = line.slice("author ".length);
+    } else if (line.startsWith("author-time ")) {
+      authorTime = Number(line.slice("author-time ".length)) * 1_000;
+    } else if (line.startsWith("\t") && finalLine > 0) {
+      blame.set(finalLine, { author, authoredAt: authorTime });
+    }
+  }
+
+  return blame;
+}
+
+// ── Task construction ────────────────────────────────────────
+
+function buildTask(group: TodoFinding[], discoveredAt: string, now: number): Task {
+  const first = group[0] as TodoFinding;
+  const filePath = first.filePath;
+  const scope = first.scope;
+  const markers = [...new Set(group.map((finding) => finding.marker))];
+  const priority = Math.min(
+    90,
+    Math.max(...group.map((finding) => MARKER_PRIORITY[finding.marker])) + (group.length - 1) * 3,
+  );
+
+  const title =
+    group.length === 1
+      ? first.text
+        ? `${first.marker}: ${truncate(first.text, 80)}`
+        : `Resolve ${first.marker} in ${filePath}:${first.line}`
+      : `Resolve ${group.length} ${markers.join("/")} comments in ${scope ? `${scope.name}() ` : ""}(${filePath})`;
+
+  const description = [
+    group.length === 1
+      ? `A ${first.marker} comment in \`${filePath}\` describes unfinished work.`
+      : `${group.length} nearby ${markers.join("/")} comments in \`${filePath}\`${scope ? ` (function \`${scope.name}\`)` : ""} describe unfinished work.`,
+    group
+      .map(
+        (finding) =>
+          `- \`${filePath}:${finding.line}\` ${finding.marker}${finding.owner ? `(${finding.owner})` : ""}: ${finding.text || "(no description)"}`,
+      )
+      .join("\n"),
+    "Implement what the comments ask for and remove the markers once the work is done. If a marker is obsolete, delete it and explain why in the PR.",
+  ].join("\n\n");
+
+  const blamed = group.filter((finding) => finding.blame && finding.blame.authoredAt > 0);
+  const oldest = blamed.reduce<TodoFinding | undefined>(
+    (acc, finding) =>
+      !acc || (finding.blame?.authoredAt ?? 0) < (acc.blame?.authoredAt ?? 0) ? finding : acc,
+    undefined,
+  );
+  const newestAuthoredAt = Math.max(0, ...blamed.map((finding) => finding.blame?.authoredAt ?? 0));
+
+  return {
+    id: createTaskId(group),
+    source: "todo",
+    title,
+    description,
+    targetFiles: [filePath],
+    priority,
+    complexity: complexityFor(group.length),
+    executionMode: "new-pr",
+    metadata: {
+      scannerId: "todo",
+      filePath,
+      line: first.line,
+      ...(scope ? { functionName: scope.name } : {}),
+      markers: group.map((finding) => ({
+        marker: finding.marker,
+        line: finding.line,
+        text: finding.text,
+        ...(finding.owner ? { owner: finding.owner } : {}),
+        ...(finding.blame ? { author: finding.blame.author } : {}),
+      })),
+      ...(oldest?.blame
+        ? {
+            author: oldest.blame.author,
+            authoredAt: new Date(oldest.blame.authoredAt).toISOString(),
+            ageDays: daysBetween(oldest.blame.authoredAt, now),
+            daysSinceLastChange: daysBetween(newestAuthoredAt, now),
+          }
+        : {}),
+    },
+    discoveredAt,
+  };
+}
+
+function complexityFor(markerCount: number): TaskComplexity {
+  if (markerCount === 1) return "simple";
+  if (markerCount <= 4) return "moderate";
+  return "complex";
+}
+
+function createTaskId(group: TodoFinding[]): string {
+  const seed = [
+    "todo",
+    group[0]?.filePath ?? "",
+    group[0]?.scope?.name ?? "",
+    ...group.map((finding) => `${finding.marker}:${finding.text}`),
+  ].join("::");
+
+  return createHash("sha256").update(seed).digest("hex").slice(0, 16);
+}
+
+function daysBetween(from: number, to: number): number {
+  return Math.max(0, Math.floor((to - from) / DAY_MS));
+}
+
+// ── File walking ─────────────────────────────────────────────
+
+interface CollectFilesOptions {
+  excludes: string[];
+  includeHidden: boolean;
+  signal?: AbortSignal;
+}
+
+async function collectCommentedFiles(
+  rootDir: string,
+  options: CollectFilesOptions,
+): Promise<string[]> {
+  const files: string[] = [];
+  const excludeMatchers = options.excludes.map(compileGlobMatcher);
+
+  async function walk(relativeDir: string): Promise<void> {
+    throwIfAborted(options.signal);
+
+    let entries: import("node:fs").Dirent[];
+    try {
+      entries = await readdir(resolve(rootDir, relativeDir), {
+        withFileTypes: true,
+        encoding: "utf8",
+      });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryName = String(entry.name);
+      if (!options.includeHidden && entryName.startsWith(".")) {
+        continue;
+      }
+
+      const relativePath = normalizeRelativePath(
+        relativeDir ? `${relativeDir}/${entryName}` : entryName,
+      );
+      if (excludeMatchers.some((matches) => matches(relativePath))) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile() && isCommentedFile(relativePath)) {
+        files.push(relativePath);
+      }
+    }
+  }
+
+  await walk("");
+  files.sort((left, right) => left.localeCompare(right));
+  return files;
+}
+
+async function readSmallFile(absolutePath: string): Promise<string | undefined> {
+  try {
+    const fileStats = await stat(absolutePath);
+    if (fileStats.size > MAX_SCAN_FILE_SIZE_BYTES) {
+      return undefined;
+    }
+    return await readFile(absolutePath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+function syntaxFor(filePath: string): CommentSyntax {
+  return (
+    SYNTAX_BY_FILENAME[basename(filePath)] ??
+    SYNTAX_BY_EXTENSION[extname(filePath).toLowerCase()] ??
+    C_LIKE
+  );
+}
+
+function isCommentedFile(filePath: string): boolean {
+  if (/\.min\.(?:js|css)$/.test(filePath)) {
+    return false;
+  }
+  return (
+    SYNTAX_BY_FILENAME[basename(filePath)] !== undefined ||
+    SYNTAX_BY_EXTENSION[extname(filePath).toLowerCase()] !== undefined
+  );
+}
+
+function mergeExcludes(exclude: string[] | undefined): string[] {
+  return Array.from(new Set([...DEFAULT_EXCLUDES, ...(exclude ?? [])].filter(Boolean)));
+}
+
+function normalizeRelativePath(filePath: string): string {
+  return filePath.split(sep).join("/");
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length <= maxLength ? value : `${value.slice(0, Math.max(0, maxLength - 3))}...`;
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new Error("TODO scanner aborted");
+  }
+}
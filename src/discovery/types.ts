@@ -51,6 +51,23 @@ export interface Scanner {
   scan(repoPath: string, options?: ScanOptions): Promise<Task[]>;
 }
 
+/**
+ * A scanner that threw or rejected during a composite scan.
+ */
+export interface ScannerFailure {
+  scannerId: string;
+  scannerName: string;
+  error: string;
+}
+
+/**
+ * Tasks from a composite scan plus the scanners that failed to produce any.
+ */
+export interface CompositeScanResult {
+  tasks: Task[];
+  failures: ScannerFailure[];
+}
+
 /**
  * Priority factor values; total score should add up to 0-100.
  */
@@ -60,6 +77,40 @@ export interface PriorityWeights {
   freshnessScore: number; // 0-15
   issueSignals: number; // 0-15
   tokenEfficiency: number; // 0-20
+  goalAlignment: number; // 0-20, boost from the best-matching organization goal
+}
+
+/**
+ * An organization goal as the ranker sees it (an `OrganizationGoal` fits).
+ * A task matches when a keyword appears in its title or description, a path
+ * glob matches a target file, or a label is on its linked issue.
+ */
+export interface RankingGoal {
+  id: string;
+  title: string;
+  priority: number;
+  keywords?: string[];
+  paths?: string[];
+  labels?: string[];
+}
+
+/**
+ * The goal that boosted a task, kept in `metadata.goalMatch` next to
+ * `metadata.priorityBreakdown`.
+ */
+export interface GoalMatch {
+  goalId: string;
+  goalTitle: string;
+  goalPriority: number;
+  /** Signals that matched, e.g. `keyword:auth`, `path:src/auth/**`, `label:security`. */
+  matchedOn: string[];
+  /** Points added to the task's priority. */
+  boost: number;
+}
+
+export interface RankTasksOptions {
+  /** Goals of the repo's organization project; no goal boost when omitted. */
+  goals?: RankingGoal[];
 }
 
 /**
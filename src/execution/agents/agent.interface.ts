@@ -71,4 +71,10 @@ export interface AgentProvider {
   execute(params: AgentExecuteParams): AgentExecution;
   estimateTokens(params: TokenEstimateParams): Promise<TokenEstimate>;
   abort(executionId: string): Promise<void>;
+  /**
+   * Ask a running execution to finish its current step and exit, keeping the
+   * work done so far. Optional: adapters whose CLI has no graceful stop leave
+   * it out and are only aborted once the budget is exceeded.
+   */
+  wrapUp?(executionId: string): Promise<void>;
 }
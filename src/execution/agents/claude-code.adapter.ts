@@ -615,4 +615,12 @@ export class ClaudeCodeAdapter implements AgentProvider {
       clearTimeout(forceKillTimer);
     }
   }
+
+  /**
+   * SIGINT is Claude Code's interrupt: it stops after the current turn instead
+   * of being killed mid-edit, so files written so far stay consistent.
+   */
+  public async wrapUp(executionId: string): Promise<void> {
+    this.runningExecutions.get(executionId)?.kill("SIGINT");
+  }
 }
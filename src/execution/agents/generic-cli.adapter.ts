@@ -0,0 +1,406 @@
+import { stat } from "node:fs/promises";
+import { createInterface } from "node:readline";
+
+import { execa } from "execa";
+import {
+  type AgentProviderId,
+  type CustomAgentConfig,
+  OacError,
+  type TokenEstimate,
+  executionError,
+} from "../../core/index.js";
+
+import { inferExecutionErrorCode } from "../normalize-error.js";
+import type {
+  AgentAvailability,
+  AgentEvent,
+  AgentExecuteParams,
+  AgentExecution,
+  AgentProvider,
+  AgentResult,
+  TokenEstimateParams,
+} from "./agent.interface.js";
+import {
+  AsyncEventQueue,
+  type TokenPatch,
+  type TokenState,
+  isRecord,
+  readNumber,
+  readString,
+} from "./shared.js";
+
+type RunningProcess = ReturnType<typeof execa>;
+type JsonlOutput = Extract<CustomAgentConfig["output"], { format: "jsonl" }>;
+
+/** Variables every agent needs to run at all, kept even when `passEnv` is set. */
+const BASE_ENV_KEYS = ["PATH", "HOME", "USER", "SHELL", "TMPDIR", "LANG", "SystemRoot"];
+
+// ── Argument and environment helpers ─────────────────────────
+
+function renderArgs(template: string[], params: AgentExecuteParams): string[] {
+  return template.map((arg) =>
+    arg.replaceAll("{prompt}", params.prompt).replaceAll("{cwd}", params.workingDirectory),
+  );
+}
+
+function buildEnv(config: CustomAgentConfig, params: AgentExecuteParams): Record<string, string> {
+  const passKeys = config.passEnv ? new Set([...BASE_ENV_KEYS, ...config.passEnv]) : undefined;
+  const inherited = Object.entries(process.env).filter(
+    (entry): entry is [string, string] =>
+      typeof entry[1] === "string" && (!passKeys || passKeys.has(entry[0])),
+  );
+
+  return {
+    ...Object.fromEntries(inherited),
+    ...config.env,
+    ...params.env,
+    OAC_TOKEN_BUDGET: `${params.tokenBudget}`,
+    OAC_ALLOW_COMMITS: `${params.allowCommits}`,
+  };
+}
+
+// ── Output parsing ───────────────────────────────────────────
+
+function parseJsonLine(line: string): Record<string, unknown> | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) return undefined;
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (isRecord(parsed)) return parsed;
+  } catch {} // best-effort: agents may interleave plain text with JSON
+
+  return undefined;
+}
+
+/** Resolve a dot path such as `usage.input_tokens` against a JSON payload. */
+function readPath(payload: Record<string, unknown>, path: string): unknown {
+  let current: unknown = payload;
+  for (const key of path.split(".")) {
+    if (!isRecord(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function patchTokenState(state: TokenState, patch: TokenPatch): AgentEvent | undefined {
+  if (
+    patch.inputTokens === undefined &&
+    patch.outputTokens === undefined &&
+    patch.cumulativeTokens === undefined
+  ) {
+    return undefined;
+  }
+
+  state.inputTokens = patch.inputTokens ?? state.inputTokens;
+  state.outputTokens = patch.outputTokens ?? state.outputTokens;
+  state.cumulativeTokens = Math.max(
+    state.cumulativeTokens,
+    patch.cumulativeTokens ?? state.inputTokens + state.outputTokens,
+  );
+
+  return {
+    type: "tokens",
+    inputTokens: state.inputTokens,
+    outputTokens: state.outputTokens,
+    cumulativeTokens: state.cumulativeTokens,
+  };
+}
+
+function parseTextTokens(line: string): TokenPatch {
+  const inputMatch = line.match(/(?:input|prompt)\s*tokens?\s*[:=]\s*(\d+)/i);
+  const outputMatch = line.match(/(?:output|completion)\s*tokens?\s*[:=]\s*(\d+)/i);
+  const totalMatch = line.match(/(?:total|cumulative|used)\s*tokens?\s*[:=]\s*(\d+)/i);
+
+  return {
+    inputTokens: inputMatch ? Number.parseInt(inputMatch[1], 10) : undefined,
+    outputTokens: outputMatch ? Number.parseInt(outputMatch[1], 10) : undefined,
+    cumulativeTokens: totalMatch ? Number.parseInt(totalMatch[1], 10) : undefined,
+  };
+}
+
+function parseJsonlTokens(payload: Record<string, unknown>, output: JsonlOutput): TokenPatch {
+  const read = (path: string | undefined) =>
+    path ? readNumber(readPath(payload, path)) : undefined;
+  return {
+    inputTokens: read(output.tokens.input),
+    outputTokens: read(output.tokens.output),
+    cumulativeTokens: read(output.tokens.total),
+  };
+}
+
+function parseJsonlFileEdit(
+  payload: Record<string, unknown>,
+  output: JsonlOutput,
+): Extract<AgentEvent, { type: "file_edit" }> | undefined {
+  const rule = output.fileEdit;
+  if (!rule) return undefined;
+
+  for (const [field, expected] of Object.entries(rule.when)) {
+    if (String(readPath(payload, field)) !== expected) return undefined;
+  }
+
+  const path = readString(readPath(payload, rule.path));
+  if (!path) return undefined;
+
+  const action = rule.action ? readPath(payload, rule.action) : undefined;
+  return {
+    type: "file_edit",
+    path,
+    action: action === "create" || action === "delete" ? action : "modify",
+  };
+}
+
+function parseJsonlError(
+  payload: Record<string, unknown>,
+  output: JsonlOutput,
+): Extract<AgentEvent, { type: "error" }> | undefined {
+  const message = output.error ? readString(readPath(payload, output.error)) : undefined;
+  return message ? { type: "error", message, recoverable: true } : undefined;
+}
+
+// ── Result helpers ───────────────────────────────────────────
+
+function normalizeUnknownError(error: unknown, name: string, executionId: string): OacError {
+  if (error instanceof OacError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/ENOENT/.test(message)) {
+    return executionError("AGENT_NOT_AVAILABLE", `${name} CLI was not found for ${executionId}`, {
+      context: { executionId, message },
+      cause: error,
+    });
+  }
+
+  return new OacError(
+    `${name} execution failed for ${executionId}`,
+    inferExecutionErrorCode(message) ?? "AGENT_EXECUTION_FAILED",
+    "recoverable",
+    { executionId, message },
+    error,
+  );
+}
+
+function computeTotalTokens(state: TokenState): number {
+  return Math.max(state.cumulativeTokens, state.inputTokens + state.outputTokens);
+}
+
+function buildFailureMessage(name: string, stdout: string, stderr: string): string {
+  const trimmed = stderr.trim() || stdout.trim();
+  if (trimmed.length > 0) return trimmed.split("\n").slice(-20).join("\n");
+  return `${name} CLI process exited with a non-zero status.`;
+}
+
+function parseVersion(output: string): string | undefined {
+  const match = output.match(/(\d+\.\d+(?:\.\d+)?)/);
+  return match ? match[1] : undefined;
+}
+
+async function estimateContextTokens(targetFiles: string[]): Promise<number> {
+  let totalBytes = 0;
+  for (const filePath of targetFiles) {
+    try {
+      const fileStat = await stat(filePath);
+      if (fileStat.isFile()) totalBytes += fileStat.size;
+    } catch {
+      // Ignore missing files and treat as zero-context for estimation.
+    }
+  }
+  return Math.ceil(totalBytes / 4);
+}
+
+// ── Adapter class ────────────────────────────────────────────
+
+/**
+ * Runs any command-line agent described by a `provider.customAgents` entry:
+ * the binary, an argv template, a version probe and how to read its output
+ * (plain text, or JSON lines with configurable token/file-edit fields).
+ * Lets tools such as aider or in-house agents run without a dedicated adapter.
+ */
+export class GenericCliAdapter implements AgentProvider {
+  public readonly id: AgentProviderId;
+  public readonly name: string;
+
+  private readonly runningExecutions = new Map<string, RunningProcess>();
+
+  public constructor(
+    id: string,
+    private readonly config: CustomAgentConfig,
+  ) {
+    this.id = id;
+    this.name = config.name ?? id;
+  }
+
+  public async checkAvailability(): Promise<AgentAvailability> {
+    try {
+      const result = await execa(this.config.command, this.config.versionArgs, {
+        reject: false,
+        stdin: "ignore",
+      });
+      if (result.exitCode === 0) {
+        return { available: true, version: parseVersion(`${result.stdout}\n${result.stderr}`) };
+      }
+
+      return {
+        available: false,
+        error:
+          result.stderr.trim() ||
+          result.stdout.trim() ||
+          `${this.config.command} ${this.config.versionArgs.join(" ")} exited with code ${result.exitCode}`,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { available: false, error: message };
+    }
+  }
+
+  public execute(params: AgentExecuteParams): AgentExecution {
+    const startedAt = Date.now();
+    const filesChanged = new Set<string>();
+    const tokenState: TokenState = { inputTokens: 0, outputTokens: 0, cumulativeTokens: 0 };
+    const eventQueue = new AsyncEventQueue<AgentEvent>();
+    const { output } = this.config;
+
+    const subprocess = execa(this.config.command, renderArgs(this.config.args, params), {
+      cwd: params.workingDirectory,
+      env: buildEnv(this.config, params),
+      extendEnv: false,
+      reject: false,
+      timeout: params.timeoutMs,
+      stdin: "ignore",
+    });
+
+    this.runningExecutions.set(params.executionId, subprocess);
+
+    const pushTokens = (patch: TokenPatch): void => {
+      const tokenEvent = patchTokenState(tokenState, patch);
+      if (tokenEvent) eventQueue.push(tokenEvent);
+    };
+
+    const processStdoutLine = (line: string): void => {
+      if (output.format === "text") {
+        pushTokens(parseTextTokens(line));
+        return;
+      }
+
+      const payload = parseJsonLine(line);
+      if (!payload) return;
+
+      pushTokens(parseJsonlTokens(payload, output));
+
+      const fileEvent = parseJsonlFileEdit(payload, output);
+      if (fileEvent) {
+        filesChanged.add(fileEvent.path);
+        eventQueue.push(fileEvent);
+      }
+
+      const errorEvent = parseJsonlError(payload, output);
+      if (errorEvent) eventQueue.push(errorEvent);
+    };
+
+    const consumeStream = async (
+      stream: NodeJS.ReadableStream | undefined,
+      streamName: "stdout" | "stderr",
+    ): Promise<void> => {
+      if (!stream) return;
+
+      const lineReader = createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY });
+      for await (const line of lineReader) {
+        eventQueue.push({ type: "output", content: line, stream: streamName });
+        if (streamName === "stdout") processStdoutLine(line);
+      }
+    };
+
+    const stdoutDone = consumeStream(subprocess.stdout ?? undefined, "stdout");
+    const stderrDone = consumeStream(subprocess.stderr ?? undefined, "stderr");
+
+    const resultPromise = (async (): Promise<AgentResult> => {
+      try {
+        const settled = await subprocess;
+        await Promise.all([stdoutDone, stderrDone]);
+
+        if (settled.timedOut) {
+          throw executionError(
+            "AGENT_TIMEOUT",
+            `${this.name} execution timed out for ${params.executionId}`,
+            { context: { executionId: params.executionId, timeoutMs: params.timeoutMs } },
+          );
+        }
+        if (settled.failed && settled.exitCode === undefined && !settled.isTerminated) {
+          throw settled;
+        }
+
+        const exitCode = settled.exitCode ?? 1;
+        const success = exitCode === 0 && !settled.isTerminated;
+        return {
+          success,
+          exitCode,
+          totalTokensUsed: computeTotalTokens(tokenState),
+          filesChanged: [...filesChanged],
+          duration: Date.now() - startedAt,
+          error: success
+            ? undefined
+            : buildFailureMessage(this.name, String(settled.stdout), String(settled.stderr)),
+        };
+      } catch (error) {
+        const normalized = normalizeUnknownError(error, this.name, params.executionId);
+        eventQueue.push({
+          type: "error",
+          message: normalized.message,
+          recoverable: normalized.severity !== "fatal",
+        });
+        eventQueue.fail(normalized);
+        throw normalized;
+      } finally {
+        this.runningExecutions.delete(params.executionId);
+        eventQueue.close();
+      }
+    })();
+
+    return {
+      executionId: params.executionId,
+      providerId: this.id,
+      events: eventQueue,
+      result: resultPromise,
+      pid: subprocess.pid,
+    };
+  }
+
+  public async estimateTokens(params: TokenEstimateParams): Promise<TokenEstimate> {
+    const promptTokens = Math.ceil(params.prompt.length / 4);
+    const contextTokens = params.contextTokens ?? (await estimateContextTokens(params.targetFiles));
+    const expectedOutputTokens =
+      params.expectedOutputTokens ?? Math.max(1_000, params.targetFiles.length * 2_000);
+    const totalEstimatedTokens = contextTokens + promptTokens + expectedOutputTokens;
+
+    return {
+      taskId: params.taskId,
+      providerId: this.id,
+      contextTokens,
+      promptTokens,
+      expectedOutputTokens,
+      totalEstimatedTokens,
+      confidence: 0.4,
+      feasible: true,
+    };
+  }
+
+  public async abort(executionId: string): Promise<void> {
+    const running = this.runningExecutions.get(executionId);
+    if (!running) return;
+
+    running.kill("SIGTERM");
+    const forceKillTimer = setTimeout(() => {
+      running.kill("SIGKILL");
+    }, 3_000);
+    forceKillTimer.unref();
+
+    try {
+      await running;
+    } catch {
+      // Swallow process errors caused by shutdown.
+    } finally {
+      clearTimeout(forceKillTimer);
+    }
+  }
+}
@@ -1,8 +1,13 @@
+import { join, resolve } from "node:path";
+
+import type { CustomAgentConfig } from "../../core/index.js";
 import type { AgentProvider } from "./agent.interface.js";
 import { ClaudeCodeAdapter } from "./claude-code.adapter.js";
 import { CodexAdapter } from "./codex.adapter.js";
 import { GeminiAdapter } from "./gemini.adapter.js";
+import { GenericCliAdapter } from "./generic-cli.adapter.js";
 import { OpenCodeAdapter } from "./opencode.adapter.js";
+import { ReplayAdapter } from "./replay.adapter.js";
 
 /**
  * Factory function that creates a new adapter instance.
@@ -15,7 +20,7 @@ export type AdapterFactory = () => AgentProvider;
 /**
  * Maintains a registry of agent adapter factories keyed by provider ID.
  *
- * Built-in adapters (claude-code, codex, gemini, opencode) are registered at
+ * Built-in adapters (claude-code, codex, gemini, opencode, replay) are registered at
  * module load time.  Custom adapters can be added at runtime with
  * `adapterRegistry.register(id, factory)`.
  */
@@ -62,3 +67,38 @@ adapterRegistry.register("claude-code", () => new ClaudeCodeAdapter());
 adapterRegistry.register("codex", () => new CodexAdapter());
 adapterRegistry.register("gemini", () => new GeminiAdapter());
 adapterRegistry.register("opencode", () => new OpenCodeAdapter());
+adapterRegistry.register("replay", () => createReplayAdapterFromEnv());
+
+/**
+ * `--provider replay` is configured through the environment so CI can switch
+ * between recording and replaying without touching the repo's config:
+ * `OAC_REPLAY_MODE` (`replay` | `record`), `OAC_REPLAY_DIR` (default
+ * `.oac/replays`), `OAC_REPLAY_PROVIDER` (adapter to record, default
+ * `claude-code`) and `OAC_REPLAY_SPEED` (timing multiplier, `0` = instant).
+ */
+function createReplayAdapterFromEnv(): ReplayAdapter {
+  const mode = process.env.OAC_REPLAY_MODE === "record" ? "record" : "replay";
+  const fixtureDir = resolve(process.env.OAC_REPLAY_DIR ?? join(".oac", "replays"));
+  const speed = Number(process.env.OAC_REPLAY_SPEED ?? "1");
+
+  if (mode === "replay") {
+    return new ReplayAdapter({ mode, fixtureDir, speed: Number.isFinite(speed) ? speed : 1 });
+  }
+
+  const innerId = process.env.OAC_REPLAY_PROVIDER ?? "claude-code";
+  const factory = adapterRegistry.get(innerId);
+  if (!factory || adapterRegistry.resolveId(innerId) === "replay") {
+    throw new Error(`OAC_REPLAY_PROVIDER "${innerId}" is not a recordable provider.`);
+  }
+  return new ReplayAdapter({ mode, fixtureDir, inner: factory() });
+}
+
+/**
+ * Register every `provider.customAgents` entry as a {@link GenericCliAdapter}
+ * under its config key. A custom entry may shadow a built-in ID on purpose.
+ */
+export function registerCustomAgents(agents: Record<string, CustomAgentConfig>): void {
+  for (const [id, config] of Object.entries(agents)) {
+    adapterRegistry.register(id, () => new GenericCliAdapter(id, config));
+  }
+}
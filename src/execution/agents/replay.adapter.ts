@@ -0,0 +1,282 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import { execa } from "execa";
+import { type AgentProviderId, type TokenEstimate, executionError } from "../../core/index.js";
+
+import type {
+  AgentAvailability,
+  AgentEvent,
+  AgentExecuteParams,
+  AgentExecution,
+  AgentProvider,
+  AgentResult,
+  TokenEstimateParams,
+} from "./agent.interface.js";
+import { AsyncEventQueue } from "./shared.js";
+
+export type ReplayMode = "record" | "replay";
+
+export interface ReplayAdapterOptions {
+  mode: ReplayMode;
+  /** Directory holding one fixture file per prompt. */
+  fixtureDir: string;
+  /** Adapter that does the real work in record mode. */
+  inner?: AgentProvider;
+  /**
+   * Multiplier for the recorded gaps between events when replaying:
+   * `1` reproduces the original timing, `0` replays instantly.
+   */
+  speed?: number;
+}
+
+/** One recorded agent run: its event stream, its result and the worktree patch. */
+export interface ReplayFixture {
+  version: 1;
+  providerId: string;
+  prompt: string;
+  recordedAt: string;
+  events: Array<{ at: number; event: AgentEvent }>;
+  result: AgentResult;
+  /** `git diff --binary` from the sandbox HEAD before the run to the worktree after it. */
+  patch: string;
+}
+
+/** Fixtures are keyed by prompt so each task in a run finds its own recording. */
+export function replayFixturePath(fixtureDir: string, prompt: string): string {
+  const key = createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+  return join(fixtureDir, `${key}.json`);
+}
+
+// ── Git helpers ──────────────────────────────────────────────
+
+async function readHead(cwd: string): Promise<string> {
+  const { stdout } = await execa("git", ["rev-parse", "HEAD"], { cwd });
+  return stdout.trim();
+}
+
+/**
+ * Diff `baseRef` against the worktree, untracked files included. A throwaway
+ * index keeps the sandbox's own index untouched.
+ */
+async function capturePatch(cwd: string, baseRef: string, executionId: string): Promise<string> {
+  const indexFile = join(tmpdir(), `oac-replay-${executionId}.index`);
+  const env = { GIT_INDEX_FILE: indexFile };
+
+  try {
+    await execa("git", ["read-tree", baseRef], { cwd, env });
+    await execa("git", ["add", "-A"], { cwd, env });
+    const { stdout } = await execa("git", ["diff", "--cached", "--binary", baseRef], {
+      cwd,
+      env,
+      stripFinalNewline: false,
+    });
+    return stdout;
+  } finally {
+    await rm(indexFile, { force: true });
+  }
+}
+
+async function applyPatch(cwd: string, patch: string, executionId: string): Promise<void> {
+  if (patch.trim().length === 0) return;
+
+  const result = await execa("git", ["apply", "--binary", "--whitespace=nowarn", "-"], {
+    cwd,
+    input: patch,
+    reject: false,
+  });
+  if (result.exitCode !== 0) {
+    throw executionError(
+      "AGENT_EXECUTION_FAILED",
+      `Replay fixture patch did not apply for ${executionId}: ${result.stderr.trim()}`,
+      { context: { executionId, cwd } },
+    );
+  }
+}
+
+// ── Fixture I/O ──────────────────────────────────────────────
+
+async function readFixture(path: string): Promise<ReplayFixture | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as ReplayFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+async function writeFixture(path: string, fixture: ReplayFixture): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+}
+
+// ── Adapter class ────────────────────────────────────────────
+
+/**
+ * Records real agent runs to fixture files and plays them back, so `oac run`
+ * can be exercised end-to-end without spending tokens.
+ *
+ * In record mode every call is forwarded to the wrapped adapter while its
+ * events (with timing), its result and the resulting worktree patch are saved.
+ * In replay mode the events are re-emitted on the recorded schedule and the
+ * patch is applied to the sandbox.
+ */
+export class ReplayAdapter implements AgentProvider {
+  public readonly id: AgentProviderId = "replay";
+  public readonly name = "Replay";
+
+  private readonly running = new Map<string, AbortController>();
+
+  public constructor(private readonly options: ReplayAdapterOptions) {
+    if (options.mode === "record" && !options.inner) {
+      throw new Error("ReplayAdapter needs an inner adapter to record from.");
+    }
+  }
+
+  public async checkAvailability(): Promise<AgentAvailability> {
+    if (this.options.mode === "record") {
+      return this.inner().checkAvailability();
+    }
+    return { available: true, version: "replay" };
+  }
+
+  public execute(params: AgentExecuteParams): AgentExecution {
+    const queue = new AsyncEventQueue<AgentEvent>();
+    const controller = new AbortController();
+    this.running.set(params.executionId, controller);
+
+    const run =
+      this.options.mode === "record"
+        ? this.record(params, queue)
+        : this.replay(params, queue, controller.signal);
+
+    const result = run
+      .catch((error: unknown) => {
+        queue.fail(error);
+        throw error;
+      })
+      .finally(() => {
+        this.running.delete(params.executionId);
+        queue.close();
+      });
+
+    return {
+      executionId: params.executionId,
+      providerId: this.id,
+      events: queue,
+      result,
+    };
+  }
+
+  public async estimateTokens(params: TokenEstimateParams): Promise<TokenEstimate> {
+    if (this.options.mode === "record") {
+      return this.inner().estimateTokens(params);
+    }
+
+    const promptTokens = Math.ceil(params.prompt.length / 4);
+    const contextTokens = params.contextTokens ?? 0;
+    const expectedOutputTokens = params.expectedOutputTokens ?? 0;
+    return {
+      taskId: params.taskId,
+      providerId: this.id,
+      contextTokens,
+      promptTokens,
+      expectedOutputTokens,
+      totalEstimatedTokens: contextTokens + promptTokens + expectedOutputTokens,
+      confidence: 1,
+      feasible: true,
+    };
+  }
+
+  public async abort(executionId: string): Promise<void> {
+    if (this.options.mode === "record") {
+      await this.inner().abort(executionId);
+      return;
+    }
+    this.running.get(executionId)?.abort();
+  }
+
+  public async wrapUp(executionId: string): Promise<void> {
+    if (this.options.mode === "record") {
+      await this.inner().wrapUp?.(executionId);
+    }
+  }
+
+  private inner(): AgentProvider {
+    return this.options.inner as AgentProvider;
+  }
+
+  private async record(
+    params: AgentExecuteParams,
+    queue: AsyncEventQueue<AgentEvent>,
+  ): Promise<AgentResult> {
+    const inner = this.inner();
+    const baseRef = await readHead(params.workingDirectory);
+    const startedAt = Date.now();
+    const events: ReplayFixture["events"] = [];
+
+    const execution = inner.execute(params);
+    for await (const event of execution.events) {
+      events.push({ at: Date.now() - startedAt, event });
+      queue.push(event);
+    }
+    const result = await execution.result;
+
+    await writeFixture(replayFixturePath(this.options.fixtureDir, params.prompt), {
+      version: 1,
+      providerId: inner.id,
+      prompt: params.prompt,
+      recordedAt: new Date(startedAt).toISOString(),
+      events,
+      result,
+      patch: await capturePatch(params.workingDirectory, baseRef, params.executionId),
+    });
+
+    return result;
+  }
+
+  private async replay(
+    params: AgentExecuteParams,
+    queue: AsyncEventQueue<AgentEvent>,
+    signal: AbortSignal,
+  ): Promise<AgentResult> {
+    const path = replayFixturePath(this.options.fixtureDir, params.prompt);
+    const fixture = await readFixture(path);
+    if (!fixture) {
+      throw executionError(
+        "AGENT_EXECUTION_FAILED",
+        `No replay fixture for ${params.executionId} (expected ${path})`,
+        { context: { executionId: params.executionId, path } },
+      );
+    }
+
+    const startedAt = Date.now();
+    const speed = this.options.speed ?? 1;
+    let elapsed = 0;
+    try {
+      for (const { at, event } of fixture.events) {
+        if (speed > 0 && at > elapsed) {
+          await sleep((at - elapsed) * speed, undefined, { signal });
+        }
+        elapsed = at;
+        queue.push(event);
+      }
+    } catch (error) {
+      if (!signal.aborted) throw error;
+      return {
+        success: false,
+        exitCode: 130,
+        totalTokensUsed: 0,
+        filesChanged: [],
+        duration: Date.now() - startedAt,
+        error: "Replay aborted.",
+      };
+    }
+
+    await applyPatch(params.workingDirectory, fixture.patch, params.executionId);
+    return { ...fixture.result, duration: Date.now() - startedAt };
+  }
+}
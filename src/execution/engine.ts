@@ -14,7 +14,11 @@ import {
 
 import type { RoleRouter } from "../organization/roles.js";
 import type { AgentProvider } from "./agents/agent.interface.js";
-import { normalizeExecutionError, toErrorMessage } from "./normalize-error.js";
+import {
+  inferExecutionErrorCode,
+  normalizeExecutionError,
+  toErrorMessage,
+} from "./normalize-error.js";
 import { createSandbox } from "./sandbox.js";
 import { executeTask } from "./worker.js";
 
@@ -50,8 +54,23 @@ export interface ExecutionEngineConfig {
   taskTimeoutMs?: number;
   defaultTokenBudget?: number;
   roleRouter?: RoleRouter;
+  /**
+   * `round-robin` (default) spreads jobs across `agents`. `fallback` treats
+   * them as an ordered chain: jobs go to the first agent whose circuit is
+   * closed, and an agent that is rate-limited or unavailable is taken out of
+   * rotation at once, its job moving straight to the next agent.
+   */
+  routing?: "round-robin" | "fallback";
+  /**
+   * Replaces the default sandbox + worker execution for a single attempt.
+   * Return the attempt's result or throw; either way the engine applies its
+   * retry, backoff and circuit-breaker policy.
+   */
+  runner?: JobRunner;
 }
 
+export type JobRunner = (job: Job, agent: AgentProvider) => Promise<ExecutionResult>;
+
 export interface RunResult {
   jobs: Job[];
   completed: Job[];
@@ -121,6 +140,19 @@ export function isTransientError(error: unknown): boolean {
 // ── Circuit Breaker ──────────────────────────────────────────
 
 const CIRCUIT_FAILURE_THRESHOLD = 3;
+/** Errors that make `fallback` routing give up on an agent without waiting for the threshold. */
+const FALLBACK_ERROR_CODES = new Set<string>(["AGENT_RATE_LIMITED", "AGENT_NOT_AVAILABLE"]);
+
+/**
+ * Result failures that count toward an agent's circuit: the agent is missing,
+ * rate-limited, hung or crashed. Thrown errors always count.
+ */
+const AGENT_HEALTH_ERROR_CODES = new Set<string>([
+  "AGENT_NOT_AVAILABLE",
+  "AGENT_RATE_LIMITED",
+  "AGENT_TIMEOUT",
+  "AGENT_OOM",
+]);
 const CIRCUIT_HALF_OPEN_MS = 60_000;
 
 export type CircuitState = "closed" | "open" | "half-open";
@@ -152,6 +184,13 @@ export class CircuitBreaker {
     }
   }
 
+  /** Open the circuit immediately, e.g. when the provider reports it is rate-limited. */
+  public trip(): void {
+    this.consecutiveFailures = Math.max(this.consecutiveFailures, CIRCUIT_FAILURE_THRESHOLD);
+    this.lastFailureTime = Date.now();
+    this.state = "open";
+  }
+
   /**
    * Returns `true` when the circuit is open (i.e. calls should be rejected).
    * Automatically transitions from open → half-open after the cooldown period.
@@ -198,6 +237,9 @@ export class ExecutionEngine {
   private readonly defaultTokenBudget: number;
   private readonly repoFullName: string;
   private readonly roleRouter?: RoleRouter;
+  private readonly routing: "round-robin" | "fallback";
+  private readonly runner?: JobRunner;
+  private readonly circuits = new Map<string, CircuitBreaker>();
 
   private aborted = false;
   private nextAgentIndex = 0;
@@ -223,6 +265,8 @@ export class ExecutionEngine {
     this.defaultTokenBudget = Math.max(1, config.defaultTokenBudget ?? DEFAULT_TOKEN_BUDGET);
     this.repoFullName = config.repoFullName ?? "";
     this.roleRouter = config.roleRouter;
+    this.routing = config.routing ?? "round-robin";
+    this.runner = config.runner;
 
     this.queue = new PQueue({
       concurrency: this.concurrency,
@@ -333,30 +377,24 @@ export class ExecutionEngine {
       jobId: job.id,
       task: job.task,
       agent: agent.id,
+      repo: this.repoFullName || undefined,
     });
 
-    let sandboxCleanup: (() => Promise<void>) | undefined;
-
     try {
-      const branchName = this.createBranchName(job);
-      const sandbox = await createSandbox(this.repoPath, branchName, this.baseBranch);
-      sandboxCleanup = sandbox.cleanup;
-
-      const result = await executeTask(agent, job.task, sandbox, this.eventBus, {
-        executionId: job.id,
-        tokenBudget:
-          job.estimate.totalEstimatedTokens > 0
-            ? job.estimate.totalEstimatedTokens
-            : this.defaultTokenBudget,
-        timeoutMs: this.taskTimeoutMs,
-        allowCommits: true,
-      });
+      const result = this.runner
+        ? await this.runner(job, agent)
+        : await this.runInSandbox(job, agent);
 
       job.result = result;
       job.completedAt = Date.now();
 
+      if (this.aborted) {
+        return;
+      }
+
       if (result.success) {
         job.status = "completed";
+        this.circuitFor(agent).recordSuccess();
         this.eventBus.emit("execution:completed", {
           jobId: job.id,
           result,
@@ -364,47 +402,67 @@ export class ExecutionEngine {
         return;
       }
 
-      const failure = executionError(
-        "AGENT_EXECUTION_FAILED",
-        result.error ?? `Task ${job.task.id} exited with code ${result.exitCode}.`,
+      const message = result.error ?? `Task ${job.task.id} exited with code ${result.exitCode}.`;
+      const failure = new OacError(
+        message,
+        result.errorCode ?? inferExecutionErrorCode(message) ?? "AGENT_EXECUTION_FAILED",
+        "recoverable",
         {
-          context: {
-            taskId: job.task.id,
-            jobId: job.id,
-            exitCode: result.exitCode,
-            attempt: job.attempts,
-          },
+          taskId: job.task.id,
+          jobId: job.id,
+          exitCode: result.exitCode,
+          attempt: job.attempts,
         },
       );
-      await this.handleFailure(job, failure);
+      // A task that made no change or ran out of budget says nothing about the agent's health.
+      if (AGENT_HEALTH_ERROR_CODES.has(failure.code)) {
+        this.circuitFor(agent).recordFailure();
+      }
+      await this.handleFailure(job, failure, agent);
     } catch (error) {
       const normalized = this.normalizeError(error, job);
-      await this.handleFailure(job, normalized);
+      this.circuitFor(agent).recordFailure();
+      await this.handleFailure(job, normalized, agent);
     } finally {
       this.activeJobs.delete(job.id);
+    }
+  }
 
-      if (sandboxCleanup) {
-        try {
-          await sandboxCleanup();
-        } catch (cleanupError) {
-          const cleanupMessage = toErrorMessage(cleanupError);
-          job.error ??= executionError(
-            "AGENT_EXECUTION_FAILED",
-            `Sandbox cleanup failed for job ${job.id}`,
-            {
-              context: {
-                jobId: job.id,
-                cleanupError: cleanupMessage,
-              },
-              cause: cleanupError,
+  private async runInSandbox(job: Job, agent: AgentProvider): Promise<ExecutionResult> {
+    const branchName = this.createBranchName(job);
+    const sandbox = await createSandbox(this.repoPath, branchName, this.baseBranch);
+
+    try {
+      return await executeTask(agent, job.task, sandbox, this.eventBus, {
+        executionId: job.id,
+        tokenBudget:
+          job.estimate.totalEstimatedTokens > 0
+            ? job.estimate.totalEstimatedTokens
+            : this.defaultTokenBudget,
+        timeoutMs: this.taskTimeoutMs,
+        allowCommits: true,
+      });
+    } finally {
+      try {
+        await sandbox.cleanup();
+      } catch (cleanupError) {
+        const cleanupMessage = toErrorMessage(cleanupError);
+        job.error ??= executionError(
+          "AGENT_EXECUTION_FAILED",
+          `Sandbox cleanup failed for job ${job.id}`,
+          {
+            context: {
+              jobId: job.id,
+              cleanupError: cleanupMessage,
             },
-          );
-        }
+            cause: cleanupError,
+          },
+        );
       }
     }
   }
 
-  private async handleFailure(job: Job, error: OacError): Promise<void> {
+  private async handleFailure(job: Job, error: OacError, agent?: AgentProvider): Promise<void> {
     job.error = error;
 
     if (this.aborted || job.status === "aborted") {
@@ -413,12 +471,23 @@ export class ExecutionEngine {
       return;
     }
 
+    if (this.routing === "fallback" && agent && FALLBACK_ERROR_CODES.has(error.code)) {
+      this.circuitFor(agent).trip();
+      // Every hop trips one circuit, so the extra attempts are bounded by the chain length.
+      const withinChain = job.attempts < job.maxAttempts + this.agents.length - 1;
+      if (withinChain && this.agents.some((candidate) => !this.circuitFor(candidate).isOpen())) {
+        job.status = "retrying";
+        this.schedule(job);
+        return;
+      }
+    }
+
     if (job.attempts < job.maxAttempts && isTransientError(error)) {
       job.status = "retrying";
       const retryDelay =
         error.code === "AGENT_RATE_LIMITED"
           ? Math.min(60_000, 10_000 * 2 ** (job.attempts - 1))
-          : Math.min(5_000, job.attempts * 1_000);
+          : calculateBackoff(job.attempts - 1);
       this.schedule(job, retryDelay);
       return;
     }
@@ -431,14 +500,51 @@ export class ExecutionEngine {
     });
   }
 
+  /** Circuit state for an agent; agents with an open circuit are skipped. */
+  public getCircuitState(agentId: string): CircuitState {
+    return this.circuits.get(agentId)?.getState() ?? "closed";
+  }
+
+  private circuitFor(agent: AgentProvider): CircuitBreaker {
+    let circuit = this.circuits.get(agent.id);
+    if (!circuit) {
+      circuit = new CircuitBreaker();
+      this.circuits.set(agent.id, circuit);
+    }
+    return circuit;
+  }
+
   private selectAgent(task: Task): AgentProvider {
-    if (this.roleRouter && this.repoFullName) {
-      return this.roleRouter.selectAgent(task, this.repoFullName);
+    // Only tasks owned by a role are routed; the rest follow the engine's own routing.
+    if (this.roleRouter?.getRoleForTask(task, this.repoFullName)) {
+      const routed = this.roleRouter.selectAgent(task, this.repoFullName);
+      if (!this.circuitFor(routed).isOpen()) {
+        return routed;
+      }
     }
 
-    const agent = this.agents[this.nextAgentIndex % this.agents.length];
-    this.nextAgentIndex = (this.nextAgentIndex + 1) % this.agents.length;
-    return agent;
+    if (this.routing === "fallback") {
+      const next = this.agents.find((agent) => !this.circuitFor(agent).isOpen());
+      if (next) {
+        return next;
+      }
+    }
+
+    for (let offset = 0; offset < this.agents.length; offset += 1) {
+      const agent = this.agents[this.nextAgentIndex % this.agents.length];
+      this.nextAgentIndex = (this.nextAgentIndex + 1) % this.agents.length;
+      if (!this.circuitFor(agent).isOpen()) {
+        return agent;
+      }
+    }
+
+    throw executionError(
+      "AGENT_NOT_AVAILABLE",
+      `All agents are unavailable after repeated failures (circuit open): ${this.agents
+        .map((agent) => agent.id)
+        .join(", ")}`,
+      { context: { taskId: task.id } },
+    );
   }
 
   private createBranchName(job: Job): string {
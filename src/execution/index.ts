@@ -2,8 +2,11 @@ export * from "./agents/agent.interface.js";
 export * from "./agents/claude-code.adapter.js";
 export * from "./agents/codex.adapter.js";
 export * from "./agents/gemini.adapter.js";
+export * from "./agents/generic-cli.adapter.js";
 export * from "./agents/opencode.adapter.js";
 export * from "./agents/registry.js";
+export * from "./agents/replay.adapter.js";
+export * from "./prompts.js";
 export * from "./sandbox.js";
 export * from "./worker.js";
 export * from "./engine.js";
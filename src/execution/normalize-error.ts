@@ -1,4 +1,4 @@
-import { OacError, executionError } from "../core/index.js";
+import { OacError, type OacErrorCode, executionError } from "../core/index.js";
 import { isRecord } from "../core/utils.js";
 
 function toErrorMessage(error: unknown): string {
@@ -10,14 +10,55 @@ function toErrorMessage(error: unknown): string {
 
 export { isRecord, toErrorMessage };
 
+const TIMEOUT_PATTERN = /timed out|timeout/i;
+const OOM_PATTERN = /out of memory|ENOMEM|heap/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|\b429\b|quota exceeded/i;
+const NETWORK_PATTERN = /network|ECONN|ENOTFOUND|EAI_AGAIN/i;
+const GIT_LOCK_PATTERN = /index\.lock|cannot lock ref|Unable to create '.+?\.git\/index\.lock'/i;
+
+/**
+ * Failure messages are free text that may quote the agent's or the tests'
+ * output, so only adapter-generated messages, errno codes and the exact
+ * runtime/git wordings count. A task that merely mentions "heap" or
+ * "network" must not trip an agent's circuit breaker.
+ */
+const MESSAGE_ERROR_CODES: Array<[RegExp, OacErrorCode]> = [
+  [/\bexecution timed out for \S+$/, "AGENT_TIMEOUT"],
+  [/\bexecution ran out of memory for \S+$/, "AGENT_OOM"],
+  [/\bENOMEM\b|JavaScript heap out of memory/, "AGENT_OOM"],
+  [/\bexecution rate-limited for \S+$/, "AGENT_RATE_LIMITED"],
+  [/\b429 Too Many Requests\b/i, "AGENT_RATE_LIMITED"],
+  [/\b(?:ECONNRESET|ECONNREFUSED|ECONNABORTED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN)\b/, "NETWORK_ERROR"],
+  [/Unable to create '[^']*index\.lock'|cannot lock ref '/, "GIT_LOCK_FAILED"],
+];
+
+/**
+ * Infer a structured error code from a failure message, e.g. the `error`
+ * string of an unsuccessful `ExecutionResult`. Returns `undefined` when the
+ * message does not match a known failure class.
+ */
+export function inferExecutionErrorCode(message: string): OacErrorCode | undefined {
+  return MESSAGE_ERROR_CODES.find(([pattern]) => pattern.test(message))?.[1];
+}
+
+/** Looser matching for thrown errors, whose message describes the error itself. */
+function classifyThrownError(message: string): OacErrorCode | undefined {
+  if (TIMEOUT_PATTERN.test(message)) return "AGENT_TIMEOUT";
+  if (OOM_PATTERN.test(message)) return "AGENT_OOM";
+  if (RATE_LIMIT_PATTERN.test(message)) return "AGENT_RATE_LIMITED";
+  if (NETWORK_PATTERN.test(message)) return "NETWORK_ERROR";
+  if (GIT_LOCK_PATTERN.test(message)) return "GIT_LOCK_FAILED";
+  return undefined;
+}
+
 /**
  * Comprehensive error normalizer shared by both the execution engine and
  * the task worker.  Converts arbitrary thrown values into structured
  * OacError instances with the correct error code so that the retry logic
  * in the engine can decide whether an error is transient.
  *
- * Handles: timeout, OOM, network errors, git lock conflicts, abort
- * signals, and a generic fallback.
+ * Handles: timeout, OOM, rate limits, network errors, git lock conflicts,
+ * abort signals, and a generic fallback.
  */
 export function normalizeExecutionError(
   error: unknown,
@@ -35,21 +76,34 @@ export function normalizeExecutionError(
   if (attempt !== undefined) ctx.attempt = attempt;
   ctx.message = message;
 
-  if (/timed out|timeout/i.test(message)) {
+  const code = classifyThrownError(message);
+
+  if (code === "AGENT_TIMEOUT") {
     return executionError("AGENT_TIMEOUT", `Task ${taskId} timed out during execution.`, {
       context: ctx,
       cause: error,
     });
   }
 
-  if (/out of memory|ENOMEM|heap/i.test(message)) {
+  if (code === "AGENT_OOM") {
     return executionError("AGENT_OOM", `Task ${taskId} ran out of memory.`, {
       context: ctx,
       cause: error,
     });
   }
 
-  if (/network|ECONN|ENOTFOUND|EAI_AGAIN/i.test(message)) {
+  if (code === "AGENT_RATE_LIMITED") {
+    return executionError(
+      "AGENT_RATE_LIMITED",
+      `Task ${taskId} was rate-limited by the provider.`,
+      {
+        context: ctx,
+        cause: error,
+      },
+    );
+  }
+
+  if (code === "NETWORK_ERROR") {
     return new OacError(
       `Task ${taskId} failed due to a network error.`,
       "NETWORK_ERROR",
@@ -59,7 +113,7 @@ export function normalizeExecutionError(
     );
   }
 
-  if (/index\.lock|cannot lock ref|Unable to create '.+?\.git\/index\.lock'/i.test(message)) {
+  if (code === "GIT_LOCK_FAILED") {
     return new OacError(
       `Task ${taskId} failed due to a git lock conflict.`,
       "GIT_LOCK_FAILED",
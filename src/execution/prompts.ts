@@ -0,0 +1,334 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { Epic, Task, TaskSource } from "../core/index.js";
+
+/**
+ * Template ids: `task` and `epic` are whole prompts; a task source id
+ * (`lint`, `github-issue`, …) is the instruction block rendered into the task
+ * prompt as `{{instructions}}`.
+ */
+export const PROMPT_TEMPLATE_IDS = [
+  "task",
+  "epic",
+  "lint",
+  "todo",
+  "test-gap",
+  "dead-code",
+  "security",
+  "github-issue",
+  "custom",
+] as const;
+
+export type PromptTemplateId = (typeof PROMPT_TEMPLATE_IDS)[number];
+export type PromptTemplates = Partial<Record<PromptTemplateId, string>>;
+
+/** Repo-provided templates, relative to the target repository: `<dir>/<id>.md`. */
+export const PROMPT_TEMPLATE_DIR = ".oac/prompts";
+
+const TASK_TEMPLATE = `{{#rolePrompt}}
+{{rolePrompt}}
+
+{{/rolePrompt}}
+You are implementing a scoped repository contribution task.
+Task ID: {{id}}
+Title: {{title}}
+Source: {{source}}
+Priority: {{priority}}
+Complexity: {{complexity}}
+Execution mode: {{executionMode}}
+{{#roleName}}
+Role: {{roleName}}
+{{/roleName}}
+{{#goalContext}}
+
+Organization context (this task should serve it):
+{{goalContext}}
+{{/goalContext}}
+{{#issueNumber}}
+
+GitHub Issue #{{issueNumber}}: {{issueUrl}}
+{{#issueLabels}}
+Labels: {{issueLabels}}
+{{/issueLabels}}
+{{/issueNumber}}
+{{#instructions}}
+
+{{instructions}}
+{{/instructions}}
+
+Description:
+{{description}}
+
+{{#targetFiles}}
+Target files:
+{{targetFiles}}
+{{/targetFiles}}
+{{^targetFiles}}
+No target files specified. You MUST search the codebase to find the relevant files.
+Use grep, find, or read the project structure to identify which files need changes.
+Look at the description and issue details to determine where changes are needed.
+{{/targetFiles}}
+
+IMPORTANT RULES:
+- You MUST make real, functional code changes. Do NOT just add TODO comments, FIXME comments, or code comments describing what should be done.
+- Actually implement the fix or improvement in working code.
+- If you are fixing a bug, write the actual fix. If you are adding a feature, write the actual implementation.
+- Ensure the repository remains buildable after your changes.
+- Run tests if available to verify your changes work.
+{{#repoGuide}}
+
+Repository contribution guide (from .oac/README.md — MUST FOLLOW):
+{{repoGuide}}
+{{#repoGuideDigest}}
+
+Guide digest: {{repoGuideDigest}}
+{{/repoGuideDigest}}
+{{/repoGuide}}
+{{#contextAckFiles}}
+
+Repository contribution policy (MUST FOLLOW):
+{{contextAckFiles}}
+{{#contextAckSummary}}
+
+Policy summary:
+{{contextAckSummary}}
+{{/contextAckSummary}}
+{{#contextAckDigest}}
+
+Context digest: {{contextAckDigest}}
+{{/contextAckDigest}}
+
+Treat these policy files as authoritative. Stay within scope and satisfy all Must/Must Not constraints.
+{{/contextAckFiles}}
+`;
+
+const EPIC_TEMPLATE = `You are implementing a coherent set of changes as a single epic.
+Epic: {{title}}
+Scope: {{scope}} module
+
+Description:
+{{description}}
+
+Subtasks ({{subtaskCount}}):
+{{subtasks}}
+{{#contextFiles}}
+
+Context files to read for understanding:
+{{contextFiles}}
+{{/contextFiles}}
+
+Instructions:
+- Apply all changes in a single coherent commit.
+- Ensure the repository remains buildable after changes.
+- Address all subtasks listed above.
+- Make REAL code changes. Do NOT just add TODO/FIXME comments or code comments describing what should be done.
+- Actually implement the fixes and improvements in working code.
+- Run tests to verify your changes work correctly.
+`;
+
+const SOURCE_TEMPLATES: Record<TaskSource, string> = {
+  "github-issue": `You MUST resolve this GitHub issue with actual code changes:
+1. Read the issue description carefully to understand the problem or feature request.
+2. Search the codebase to find the relevant files and understand the existing code.
+3. Implement the actual fix or feature in code - do NOT just add TODO/FIXME comments.
+4. If the issue describes a bug, reproduce it mentally, find the root cause, and fix it.
+5. If the issue requests a feature, implement it fully.
+6. Run existing tests to ensure nothing breaks. Add tests if appropriate.`,
+  lint: `Fix the reported lint problems:
+- Change only what the linter flags; do not reformat or refactor unrelated code.
+- Prefer the fix the rule documents over disabling the rule. Add a suppression comment only when the flagged code is intentionally correct.
+- Re-run the linter on the changed files to confirm the problems are gone.`,
+  todo: `Resolve the TODO/FIXME markers described below:
+- Implement what the comment asks for, then remove the marker.
+- If a marker cannot be resolved within this task's scope, leave that code unchanged instead of rewording the comment.`,
+  "test-gap": `Add tests for the code described below:
+- Follow the repository's existing test framework, file layout and naming.
+- Test observable behavior, including edge cases and error paths, not implementation details.
+- Do not change the code under test unless a test exposes a real bug.
+- Run the new tests and make sure they pass.`,
+  "dead-code": `Remove the unused code described below:
+- First confirm it is unused: search for references, including re-exports, dynamic imports and string-based lookups.
+- Also remove imports and tests that only existed for the removed code.
+- Do not remove public APIs that external consumers may depend on.`,
+  security: `Fix the security issue described below:
+- Address the root cause rather than hiding the symptom.
+- Keep the change minimal and do not weaken existing checks.
+- Do not put secrets, exploit payloads or sensitive details in code comments or commit messages.`,
+  custom: "",
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, string> = {
+  task: TASK_TEMPLATE,
+  epic: EPIC_TEMPLATE,
+  ...SOURCE_TEMPLATES,
+};
+
+export function resolvePromptTemplate(id: PromptTemplateId, templates?: PromptTemplates): string {
+  return templates?.[id] ?? DEFAULT_PROMPT_TEMPLATES[id];
+}
+
+/**
+ * Overrides for a run: `.oac/prompts/<id>.md` in the target repository,
+ * then `execution.prompts` from the config on top. Built-in defaults fill in
+ * whatever is not overridden at render time.
+ */
+export async function loadPromptTemplates(
+  repoPath: string,
+  configured: PromptTemplates = {},
+): Promise<PromptTemplates> {
+  const templates: PromptTemplates = {};
+  for (const id of PROMPT_TEMPLATE_IDS) {
+    const content = await readFile(join(repoPath, PROMPT_TEMPLATE_DIR, `${id}.md`), "utf8").catch(
+      () => undefined,
+    );
+    if (content !== undefined) {
+      templates[id] = content;
+    }
+  }
+
+  for (const id of PROMPT_TEMPLATE_IDS) {
+    const template = configured[id];
+    if (template !== undefined) {
+      templates[id] = template;
+    }
+  }
+  return templates;
+}
+
+// ── Rendering ────────────────────────────────────────────────
+
+/** A section tag alone on its line takes the line break with it. */
+const STANDALONE_TAG = /^[ \t]*(\{\{[#^/][\w-]+\}\})[ \t]*\r?\n/gm;
+const SECTION = /\{\{([#^])([\w-]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{([\w-]+)\}\}/g;
+
+/**
+ * Mustache-style rendering: `{{name}}` inserts a variable (unknown names
+ * render empty), `{{#name}}…{{/name}}` keeps its body when the variable is
+ * non-empty and `{{^name}}…{{/name}}` when it is empty. Inserted values are
+ * never parsed as templates.
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return renderSections(template.replace(STANDALONE_TAG, "$1"), variables);
+}
+
+function renderSections(template: string, variables: Record<string, string>): string {
+  const rendered: string[] = [];
+  let last = 0;
+  for (const match of template.matchAll(SECTION)) {
+    const [whole, kind, name, body] = match;
+    rendered.push(renderVariables(template.slice(last, match.index), variables));
+    const present = (variables[name] ?? "").length > 0;
+    if (present === (kind === "#")) {
+      rendered.push(renderSections(body, variables));
+    }
+    last = match.index + whole.length;
+  }
+  rendered.push(renderVariables(template.slice(last), variables));
+  return rendered.join("");
+}
+
+function renderVariables(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE, (_match, name: string) => variables[name] ?? "");
+}
+
+// ── Task and epic prompts ────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string" && item.trim().length > 0)
+    : [];
+}
+
+function bullets(items: string[]): string {
+  return items.map((item) => `- ${item}`).join("\n");
+}
+
+/**
+ * Variables available to the task template and the source instruction
+ * blocks. The organization role and goals, repo guide and context
+ * acknowledgement come from task metadata, where the run pipeline attaches
+ * them.
+ */
+export function taskPromptVariables(task: Task): Record<string, string> {
+  const repoGuide = isRecord(task.metadata.repoGuide) ? task.metadata.repoGuide : {};
+  const organization = isRecord(task.metadata.organization) ? task.metadata.organization : {};
+  const role = isRecord(organization.role) ? organization.role : {};
+  const contextAck = isRecord(task.metadata.contextAck) ? task.metadata.contextAck : {};
+  const contextAckFiles = readStrings(contextAck.files);
+
+  return {
+    id: task.id,
+    title: task.title,
+    source: task.source,
+    priority: String(task.priority),
+    complexity: task.complexity,
+    executionMode: task.executionMode,
+    description: task.description,
+    targetFiles: task.targetFiles.join("\n"),
+    issueNumber: task.linkedIssue ? String(task.linkedIssue.number) : "",
+    issueUrl: task.linkedIssue?.url ?? "",
+    issueLabels: task.linkedIssue?.labels.join(", ") ?? "",
+    roleName: readString(role.name),
+    rolePrompt: readString(role.systemPrompt),
+    goalContext: readString(organization.goalContext),
+    repoGuide: readString(repoGuide.content) ? String(repoGuide.content) : "",
+    repoGuideDigest: readString(repoGuide.digest),
+    // Policy files are only binding when at least one was acknowledged.
+    contextAckFiles: bullets(contextAckFiles),
+    contextAckSummary: contextAckFiles.length > 0 ? bullets(readStrings(contextAck.summary)) : "",
+    contextAckDigest: contextAckFiles.length > 0 ? readString(contextAck.digest) : "",
+  };
+}
+
+export function buildTaskPrompt(task: Task, templates?: PromptTemplates): string {
+  const variables = taskPromptVariables(task);
+  const source = task.source as PromptTemplateId;
+  const instructions = PROMPT_TEMPLATE_IDS.includes(source)
+    ? renderTemplate(resolvePromptTemplate(source, templates), variables).trim()
+    : "";
+
+  return renderTemplate(resolvePromptTemplate("task", templates), {
+    ...variables,
+    instructions,
+  }).trimEnd();
+}
+
+export function epicPromptVariables(epic: Epic): Record<string, string> {
+  const subtasks = epic.subtasks.flatMap((task, index) => {
+    const files = task.targetFiles.length > 0 ? ` [${task.targetFiles.join(", ")}]` : "";
+    const line = `  ${index + 1}. ${task.title}${files}`;
+    return task.description ? [line, `     ${task.description}`] : [line];
+  });
+
+  return {
+    id: epic.id,
+    title: epic.title,
+    scope: epic.scope,
+    priority: String(epic.priority),
+    description: epic.description,
+    subtaskCount: String(epic.subtasks.length),
+    subtasks: subtasks.join("\n"),
+    contextFiles: epic.contextFiles.map((file) => `  - ${file}`).join("\n"),
+  };
+}
+
+/**
+ * Build a context-aware prompt for an entire epic, including all subtasks
+ * and module context.
+ */
+export function buildEpicPrompt(epic: Epic, templates?: PromptTemplates): string {
+  return renderTemplate(
+    resolvePromptTemplate("epic", templates),
+    epicPromptVariables(epic),
+  ).trimEnd();
+}
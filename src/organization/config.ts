@@ -14,6 +14,12 @@ export const OrganizationGoalSchema = z
     title: z.string().min(1),
     description: z.string().min(1),
     priority: z.number().int().min(0).max(100).default(50),
+    /** Tasks mentioning one of these in their title or description serve the goal. */
+    keywords: z.array(z.string().min(1)).default([]),
+    /** Globs; tasks targeting a matching file serve the goal. */
+    paths: z.array(z.string().min(1)).default([]),
+    /** Tasks whose linked issue carries one of these labels serve the goal. */
+    labels: z.array(z.string().min(1)).default([]),
   })
   .strict();
 
@@ -35,7 +41,9 @@ export const AgentRoleSchema = z
     agent: z.string().min(1).default("claude-code"),
     repos: z.array(z.string().min(1)).default([]),
     taskSources: z
-      .array(z.enum(["lint", "test-gap", "dead-code", "github-issue", "custom"]))
+      .array(
+        z.enum(["lint", "todo", "test-gap", "dead-code", "security", "github-issue", "custom"]),
+      )
       .optional(),
     systemPrompt: z.string().min(1).optional(),
   })
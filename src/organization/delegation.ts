@@ -1,4 +1,7 @@
 import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
 
 import type { OacEventBus } from "../core/event-bus.js";
 import type { ExecutionResult, Task } from "../core/types.js";
@@ -18,31 +21,88 @@ export interface DelegationRequest {
 
 export type DelegationStatus = "pending" | "accepted" | "rejected" | "completed";
 
+/** Lifecycle step of a delegation; each one emits the matching `delegation:*` event. */
+export type DelegationEvent = "requested" | "accepted" | "rejected" | "completed";
+
+export interface DelegationHistoryEntry {
+  event: DelegationEvent;
+  at: string;
+  /** Assigned agent, rejection reason or PR URL, depending on the event. */
+  detail?: string;
+  /** Repos whose contribution log already records this entry. */
+  loggedTo: string[];
+}
+
 export interface DelegationRecord extends DelegationRequest {
   status: DelegationStatus;
   resolvedAt?: string;
   resolvedBy?: string;
+  /** Outcome of the run that completed the delegation. */
+  result?: Pick<ExecutionResult, "success" | "totalTokensUsed" | "filesChanged"> & {
+    prUrl?: string;
+  };
+  history: DelegationHistoryEntry[];
+}
+
+/** A history entry not yet in a repo's contribution log. */
+export interface DelegationActivity {
+  delegationId: string;
+  event: DelegationEvent;
+  sourceRepo: string;
+  targetRepo: string;
+  taskTitle: string;
+  at: string;
+  detail?: string;
+}
+
+export interface DelegationFilter {
+  status?: DelegationStatus;
+  /** Delegations from or to this repo (`owner/repo`, case-insensitive). */
+  repo?: string;
 }
 
+export interface DelegationManagerOptions {
+  /** Queue file; defaults to `~/.oac/delegations.json`. */
+  filePath?: string;
+}
+
+interface DelegationQueueFile {
+  version: 1;
+  delegations: DelegationRecord[];
+}
+
+export const DEFAULT_DELEGATION_QUEUE_PATH = join(homedir(), ".oac", "delegations.json");
+
 // ── DelegationManager ───────────────────────────────────────
 
+/**
+ * Cross-repo delegation queue. Records are persisted to a JSON file so a
+ * delegation requested in one run can be accepted from the CLI and executed
+ * by a later run against the target repo. Every lifecycle step is appended
+ * to the record's history and emitted on the event bus.
+ */
 export class DelegationManager {
-  private readonly records = new Map<string, DelegationRecord>();
   private readonly eventBus: OacEventBus;
-  private readonly config: OrganizationConfig;
+  private readonly config: OrganizationConfig | undefined;
+  private readonly filePath: string;
 
-  constructor(eventBus: OacEventBus, config: OrganizationConfig) {
+  constructor(
+    eventBus: OacEventBus,
+    config?: OrganizationConfig,
+    options: DelegationManagerOptions = {},
+  ) {
     this.eventBus = eventBus;
     this.config = config;
+    this.filePath = options.filePath ?? DEFAULT_DELEGATION_QUEUE_PATH;
   }
 
   /**
    * Create a new delegation request. Auto-routes to the appropriate role
    * based on the target repo and emits a `delegation:requested` event.
    */
-  requestDelegation(
+  async requestDelegation(
     request: Omit<DelegationRequest, "id" | "requestedAt">,
-  ): DelegationRequest {
+  ): Promise<DelegationRequest> {
     const id = randomUUID();
     const requestedAt = new Date().toISOString();
 
@@ -55,6 +115,7 @@ export class DelegationManager {
     const record: DelegationRecord = {
       ...delegationRequest,
       status: "pending",
+      history: [{ event: "requested", at: requestedAt, loggedTo: [] }],
     };
 
     // Auto-route: find the role that owns the target repo.
@@ -63,7 +124,9 @@ export class DelegationManager {
       record.resolvedBy = matchedRole.agent;
     }
 
-    this.records.set(id, record);
+    const queue = await this.readQueue();
+    queue.delegations.push(record);
+    await this.writeQueue(queue);
 
     this.eventBus.emit("delegation:requested", {
       delegation: delegationRequest,
@@ -72,73 +135,173 @@ export class DelegationManager {
     return delegationRequest;
   }
 
+  /** Find a delegation by id or unique id prefix. */
+  async getDelegation(id: string): Promise<DelegationRecord | undefined> {
+    const queue = await this.readQueue();
+    return findRecord(queue, id);
+  }
+
+  /** Delegation records, highest priority first, then oldest first. */
+  async listDelegations(filter: DelegationFilter = {}): Promise<DelegationRecord[]> {
+    const queue = await this.readQueue();
+    return queue.delegations
+      .filter((record) => !filter.status || record.status === filter.status)
+      .filter(
+        (record) =>
+          !filter.repo ||
+          sameRepo(record.sourceRepo, filter.repo) ||
+          sameRepo(record.targetRepo, filter.repo),
+      )
+      .sort((a, b) => b.priority - a.priority || a.requestedAt.localeCompare(b.requestedAt));
+  }
+
   /** Return all delegation records with status "pending". */
-  getPendingDelegations(): DelegationRecord[] {
-    const pending: DelegationRecord[] = [];
-    for (const record of this.records.values()) {
-      if (record.status === "pending") {
-        pending.push(record);
-      }
-    }
-    // Return sorted by priority (highest first).
-    return pending.sort((a, b) => b.priority - a.priority);
+  async getPendingDelegations(): Promise<DelegationRecord[]> {
+    return this.listDelegations({ status: "pending" });
   }
 
-  /** Accept a pending delegation and emit `delegation:accepted`. */
-  acceptDelegation(id: string): void {
-    const record = this.getRecordOrThrow(id);
-    this.assertPending(record);
+  /** Accepted delegations waiting for a run against `targetRepo`. */
+  async getAcceptedDelegations(targetRepo: string): Promise<DelegationRecord[]> {
+    const accepted = await this.listDelegations({ status: "accepted" });
+    return accepted.filter((record) => sameRepo(record.targetRepo, targetRepo));
+  }
 
-    record.status = "accepted";
-    record.resolvedAt = new Date().toISOString();
+  /** Accept a pending delegation and emit `delegation:accepted`. */
+  async acceptDelegation(id: string, assignedAgent?: string): Promise<DelegationRecord> {
+    const record = await this.transition(id, (current) => {
+      this.assertPending(current);
+      current.status = "accepted";
+      current.resolvedBy = assignedAgent ?? current.resolvedBy;
+      return current.resolvedBy;
+    });
 
     this.eventBus.emit("delegation:accepted", {
-      delegationId: id,
+      delegationId: record.id,
       assignedAgent: record.resolvedBy ?? "unknown",
     });
+    return record;
   }
 
   /** Reject a pending delegation and emit `delegation:rejected`. */
-  rejectDelegation(id: string, reason: string): void {
-    const record = this.getRecordOrThrow(id);
-    this.assertPending(record);
-
-    record.status = "rejected";
-    record.resolvedAt = new Date().toISOString();
+  async rejectDelegation(id: string, reason: string): Promise<DelegationRecord> {
+    const record = await this.transition(id, (current) => {
+      this.assertPending(current);
+      current.status = "rejected";
+      return reason;
+    });
 
     this.eventBus.emit("delegation:rejected", {
-      delegationId: id,
+      delegationId: record.id,
       reason,
     });
+    return record;
   }
 
   /** Mark a delegation as completed and emit `delegation:completed`. */
-  completeDelegation(id: string, result: ExecutionResult): void {
-    const record = this.getRecordOrThrow(id);
-    if (record.status !== "accepted") {
-      throw new Error(`Cannot complete delegation "${id}" with status "${record.status}".`);
-    }
-
-    record.status = "completed";
-    record.resolvedAt = new Date().toISOString();
+  async completeDelegation(
+    id: string,
+    result: ExecutionResult,
+    prUrl?: string,
+  ): Promise<DelegationRecord> {
+    const record = await this.transition(id, (current) => {
+      if (current.status !== "accepted") {
+        throw new Error(
+          `Cannot complete delegation "${current.id}" with status "${current.status}".`,
+        );
+      }
+      current.status = "completed";
+      current.result = {
+        success: result.success,
+        totalTokensUsed: result.totalTokensUsed,
+        filesChanged: result.filesChanged,
+        prUrl,
+      };
+      return prUrl;
+    });
 
     this.eventBus.emit("delegation:completed", {
-      delegationId: id,
+      delegationId: record.id,
       result,
     });
+    return record;
+  }
+
+  /**
+   * History entries of delegations from or to `repoFullName` that its
+   * contribution log does not record yet, oldest first.
+   */
+  async getUnloggedActivity(repoFullName: string): Promise<DelegationActivity[]> {
+    const queue = await this.readQueue();
+    const activity: DelegationActivity[] = [];
+    for (const record of queue.delegations) {
+      if (
+        !sameRepo(record.sourceRepo, repoFullName) &&
+        !sameRepo(record.targetRepo, repoFullName)
+      ) {
+        continue;
+      }
+      for (const entry of record.history) {
+        if (entry.loggedTo.some((repo) => sameRepo(repo, repoFullName))) continue;
+        activity.push({
+          delegationId: record.id,
+          event: entry.event,
+          sourceRepo: record.sourceRepo,
+          targetRepo: record.targetRepo,
+          taskTitle: record.task.title,
+          at: entry.at,
+          detail: entry.detail,
+        });
+      }
+    }
+    return activity.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  /** Record that `repoFullName`'s contribution log now holds `activity`. */
+  async markActivityLogged(repoFullName: string, activity: DelegationActivity[]): Promise<void> {
+    if (activity.length === 0) return;
+
+    const queue = await this.readQueue();
+    for (const item of activity) {
+      const record = queue.delegations.find((candidate) => candidate.id === item.delegationId);
+      const entry = record?.history.find(
+        (candidate) => candidate.event === item.event && candidate.at === item.at,
+      );
+      if (entry && !entry.loggedTo.some((repo) => sameRepo(repo, repoFullName))) {
+        entry.loggedTo.push(repoFullName);
+      }
+    }
+    await this.writeQueue(queue);
   }
 
   // ── Internal helpers ────────────────────────────────────────
 
   private findRoleForRepo(repo: string): AgentRole | undefined {
-    return this.config.roles.find((role) => role.repos.includes(repo));
+    return this.config?.roles.find((role) => role.repos.includes(repo));
   }
 
-  private getRecordOrThrow(id: string): DelegationRecord {
-    const record = this.records.get(id);
+  /**
+   * Apply a status change to the stored record and append it to the
+   * history; `apply` returns the history detail.
+   */
+  private async transition(
+    id: string,
+    apply: (record: DelegationRecord) => string | undefined,
+  ): Promise<DelegationRecord> {
+    const queue = await this.readQueue();
+    const record = findRecord(queue, id);
     if (!record) {
       throw new Error(`Delegation "${id}" not found.`);
     }
+
+    const detail = apply(record);
+    record.resolvedAt = new Date().toISOString();
+    record.history.push({
+      event: record.status as DelegationEvent,
+      at: record.resolvedAt,
+      detail,
+      loggedTo: [],
+    });
+    await this.writeQueue(queue);
     return record;
   }
 
@@ -149,4 +312,50 @@ export class DelegationManager {
       );
     }
   }
+
+  private async readQueue(): Promise<DelegationQueueFile> {
+    try {
+      const parsed = JSON.parse(await readFile(this.filePath, "utf8")) as
+        | Partial<DelegationQueueFile>
+        | undefined;
+      if (parsed?.version === 1 && Array.isArray(parsed.delegations)) {
+        return {
+          version: 1,
+          delegations: parsed.delegations.map((record) => ({
+            ...record,
+            history: record.history ?? [],
+          })),
+        };
+      }
+    } catch {
+      // Missing or unreadable queue: start empty.
+    }
+    return { version: 1, delegations: [] };
+  }
+
+  private async writeQueue(queue: DelegationQueueFile): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(tempPath, `${JSON.stringify(queue, null, 2)}\n`, "utf8");
+      await rename(tempPath, this.filePath);
+    } finally {
+      await rm(tempPath, { force: true });
+    }
+  }
+}
+
+function findRecord(queue: DelegationQueueFile, id: string): DelegationRecord | undefined {
+  const exact = queue.delegations.find((record) => record.id === id);
+  if (exact) return exact;
+
+  const matches = queue.delegations.filter((record) => record.id.startsWith(id));
+  if (matches.length > 1) {
+    throw new Error(`Delegation id "${id}" is ambiguous (${matches.length} matches).`);
+  }
+  return matches[0];
+}
+
+function sameRepo(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
 }
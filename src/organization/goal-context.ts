@@ -1,6 +1,11 @@
 import type { Task } from "../core/types.js";
 
-import type { OrganizationConfig, OrganizationGoal, OrganizationProject } from "./types.js";
+import type {
+  OrganizationAlignment,
+  OrganizationConfig,
+  OrganizationGoal,
+  OrganizationProject,
+} from "./types.js";
 
 /**
  * Builds context strings from the Mission -> Project -> Goal -> Task hierarchy
@@ -18,21 +23,21 @@ export class GoalContextInjector {
    *    Goal: MVP launch (priority: 90)
    *    Task: implement i18n"
    *
-   * Returns `undefined` when no relevant project/goal is found.
+   * The goal line appears only for a task that matched a goal. Returns
+   * `undefined` when no relevant project/goal is found.
    */
   public resolveContext(repoFullName: string, task: Task): string | undefined {
-    const project = this.findProjectForRepo(repoFullName);
+    const { mission, project, goal } = this.resolveAlignment(repoFullName, task);
 
     const lines: string[] = [];
 
-    if (this.config.mission) {
-      lines.push(`Mission: ${this.config.mission.statement}`);
+    if (mission) {
+      lines.push(`Mission: ${mission.statement}`);
     }
 
     if (project) {
       lines.push(`Project: ${project.name}`);
 
-      const goal = this.findBestGoal(project);
       if (goal) {
         lines.push(`Goal: ${goal.title} (priority: ${goal.priority})`);
       }
@@ -43,6 +48,27 @@ export class GoalContextInjector {
     return lines.length > 1 ? lines.join("\n") : undefined;
   }
 
+  /**
+   * The mission, project and goal a task in the given repo serves; each part
+   * is `undefined` when it is not configured or nothing matches. The goal is
+   * only the one the ranker matched (`metadata.goalMatch`): a task that serves
+   * no goal is not attributed to one.
+   */
+  public resolveAlignment(repoFullName: string, task: Task): OrganizationAlignment {
+    const project = this.findProjectForRepo(repoFullName);
+    const goalMatch = task.metadata.goalMatch as { goalId?: unknown } | undefined;
+    return {
+      mission: this.config.mission,
+      project,
+      goal: project?.goals.find((goal) => goal.id === goalMatch?.goalId),
+    };
+  }
+
+  /** Goals of the project that owns the given repo, for goal-aware ranking. */
+  public findGoalsForRepo(repoFullName: string): OrganizationGoal[] {
+    return this.findProjectForRepo(repoFullName)?.goals ?? [];
+  }
+
   /**
    * Find the project whose `repos` list contains the given repo full-name.
    * Supports both exact match ("Open330/burstpick-web") and short name match ("burstpick-web").
@@ -54,15 +80,4 @@ export class GoalContextInjector {
       project.repos.some((repo) => repo === repoFullName || repo === shortName),
     );
   }
-
-  /**
-   * Return the highest-priority goal within a project.
-   */
-  private findBestGoal(project: OrganizationProject): OrganizationGoal | undefined {
-    if (project.goals.length === 0) {
-      return undefined;
-    }
-
-    return [...project.goals].sort((a, b) => b.priority - a.priority)[0];
-  }
 }
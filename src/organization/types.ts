@@ -11,6 +11,10 @@ export interface OrganizationGoal {
   title: string;
   description: string;
   priority: number;
+  /** Matching signals used by goal-aware ranking. */
+  keywords?: string[];
+  paths?: string[];
+  labels?: string[];
 }
 
 export interface OrganizationProject {
@@ -26,6 +30,13 @@ export interface OrganizationConfig {
   roles: AgentRole[];
 }
 
+/** Where a task sits in the Mission -> Project -> Goal hierarchy. */
+export interface OrganizationAlignment {
+  mission?: OrganizationMission;
+  project?: OrganizationProject;
+  goal?: OrganizationGoal;
+}
+
 // ── Agent Roles ──────────────────────────────────────────────
 
 export interface AgentRole {
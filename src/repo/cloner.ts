@@ -110,16 +110,36 @@ async function hardSyncDefaultBranch(git: SimpleGit, branchName: string): Promis
 }
 
 async function ensureOriginRemote(git: SimpleGit, remoteUrl: string): Promise<void> {
+  await ensureNamedRemote(git, "origin", remoteUrl);
+}
+
+/**
+ * Add (or re-point) a named remote in an existing clone. Worktrees created
+ * from the clone share its remotes, so sandboxes can push to it directly.
+ */
+export async function ensureRemote(
+  localPath: string,
+  remoteName: string,
+  remoteUrl: string,
+): Promise<void> {
+  await ensureNamedRemote(createGit(localPath), remoteName, remoteUrl);
+}
+
+async function ensureNamedRemote(
+  git: SimpleGit,
+  remoteName: string,
+  remoteUrl: string,
+): Promise<void> {
   const remotes = await git.getRemotes(true);
-  const origin = remotes.find((remote) => remote.name === "origin");
+  const existing = remotes.find((remote) => remote.name === remoteName);
 
-  if (!origin) {
-    await git.addRemote("origin", remoteUrl);
+  if (!existing) {
+    await git.addRemote(remoteName, remoteUrl);
     return;
   }
 
-  if (origin.refs.fetch !== remoteUrl && origin.refs.push !== remoteUrl) {
-    await git.remote(["set-url", "origin", remoteUrl]);
+  if (existing.refs.fetch !== remoteUrl && existing.refs.push !== remoteUrl) {
+    await git.remote(["set-url", remoteName, remoteUrl]);
   }
 }
 
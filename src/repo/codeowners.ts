@@ -0,0 +1,90 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** Where GitHub looks for CODEOWNERS, in the order it checks them. */
+const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+export interface CodeownersRule {
+  pattern: string;
+  /** Users and `org/team` slugs, without the leading `@`. */
+  owners: string[];
+}
+
+/** Rules of the repo's CODEOWNERS file, or `[]` when it has none. */
+export async function readCodeowners(repoPath: string): Promise<CodeownersRule[]> {
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      return parseCodeowners(await readFile(join(repoPath, path), "utf8"));
+    } catch {
+      // Not at this location; try the next one.
+    }
+  }
+  return [];
+}
+
+/**
+ * Parse CODEOWNERS content. Email owners are dropped: they cannot be
+ * requested as reviewers by handle.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (line.length === 0) continue;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({
+      pattern,
+      owners: owners.filter((owner) => owner.startsWith("@")).map((owner) => owner.slice(1)),
+    });
+  }
+  return rules;
+}
+
+/** Owners of `files`; as on GitHub, the last rule matching a file wins. */
+export function ownersForFiles(rules: CodeownersRule[], files: string[]): string[] {
+  const matchers = rules.map((rule) => ({
+    owners: rule.owners,
+    regex: patternToRegex(rule.pattern),
+  }));
+  const owners = new Set<string>();
+
+  for (const file of files) {
+    const path = file.replace(/^\.?\//, "");
+    const rule = matchers.findLast((matcher) => matcher.regex.test(path));
+    for (const owner of rule?.owners ?? []) {
+      owners.add(owner);
+    }
+  }
+  return [...owners];
+}
+
+/**
+ * gitignore-style matching as CODEOWNERS uses it: a pattern with a slash is
+ * anchored at the root, one without matches at any depth, and a pattern that
+ * names a directory covers everything below it. `docs/*` covers only the
+ * files directly in `docs/`.
+ */
+function patternToRegex(pattern: string): RegExp {
+  const body = pattern.replace(/^\//, "").replace(/\/$/, "");
+  const anchored = pattern.startsWith("/") || body.includes("/");
+
+  let source = "";
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index];
+    if (char === "*" && body[index + 1] === "*") {
+      const slash = body[index + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const below = body.endsWith("*") && !body.endsWith("**") ? "" : "(?:/.*)?";
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}${below}$`);
+}
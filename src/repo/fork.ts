@@ -0,0 +1,146 @@
+import { Octokit } from "@octokit/rest";
+import { ensureRemote } from "./cloner.js";
+import type { RepoFork, ResolvedRepo } from "./types.js";
+
+/** Name of the git remote that points at the contributor's fork in the cached clone. */
+export const FORK_REMOTE_NAME = "fork";
+
+const FORK_READY_POLL_MS = 2_000;
+const FORK_READY_TIMEOUT_MS = 60_000;
+
+export interface PrepareForkOptions {
+  /** Organization to fork into. Defaults to the authenticated user. */
+  organization?: string;
+  token?: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * True when OAC cannot push branches to the upstream repository and must go
+ * through a fork instead.
+ */
+export function needsFork(repo: ResolvedRepo): boolean {
+  return !repo.meta.permissions.push;
+}
+
+/**
+ * Ensure a fork of `repo` exists under the authenticated user (or the given
+ * organization), sync its default branch with upstream, and register it as
+ * the `fork` remote in the cached clone. The fork is also recorded on
+ * `repo.fork` so the PR stage can push there and open a cross-repo PR.
+ *
+ * GitHub's create-fork endpoint is idempotent: when the fork already exists
+ * it is returned as-is, so this is safe to call before every run.
+ */
+export async function prepareFork(
+  repo: ResolvedRepo,
+  options: PrepareForkOptions = {},
+): Promise<RepoFork> {
+  const octokit = new Octokit({ auth: options.token });
+
+  let created: Awaited<ReturnType<typeof octokit.repos.createFork>>["data"];
+  try {
+    created = (
+      await octokit.repos.createFork({
+        owner: repo.owner,
+        repo: repo.name,
+        ...(options.organization ? { organization: options.organization } : {}),
+        default_branch_only: true,
+      })
+    ).data;
+  } catch (error) {
+    const target = options.organization ?? "the authenticated user";
+    throw new Error(
+      `Failed to fork "${repo.fullName}" into ${target}: ${toMessage(error)}\nEnsure your token has the "repo" scope: gh auth refresh -s repo`,
+      { cause: error },
+    );
+  }
+
+  const forkOwner = created.owner.login;
+  const forkName = created.name;
+  await waitForFork(octokit, forkOwner, forkName, options);
+
+  const syncError = await syncForkDefaultBranch(
+    octokit,
+    forkOwner,
+    forkName,
+    repo.meta.defaultBranch,
+  );
+
+  const remoteUrl = created.clone_url ?? `https://github.com/${created.full_name}.git`;
+  await ensureRemote(repo.localPath, FORK_REMOTE_NAME, remoteUrl);
+
+  const fork: RepoFork = {
+    owner: forkOwner,
+    name: forkName,
+    fullName: created.full_name,
+    remoteName: FORK_REMOTE_NAME,
+    remoteUrl,
+    synced: syncError === undefined,
+    syncError,
+  };
+  repo.fork = fork;
+  return fork;
+}
+
+/**
+ * Fork creation is asynchronous on GitHub's side — the API returns before the
+ * git data is available. Poll until the fork answers a `repos.get`.
+ */
+async function waitForFork(
+  octokit: Octokit,
+  owner: string,
+  name: string,
+  options: PrepareForkOptions,
+): Promise<void> {
+  const pollIntervalMs = options.pollIntervalMs ?? FORK_READY_POLL_MS;
+  const deadline = Date.now() + (options.timeoutMs ?? FORK_READY_TIMEOUT_MS);
+
+  for (;;) {
+    try {
+      await octokit.repos.get({ owner, repo: name });
+      return;
+    } catch (error) {
+      if (!isNotFound(error) || Date.now() >= deadline) {
+        throw new Error(`Fork "${owner}/${name}" did not become available: ${toMessage(error)}`, {
+          cause: error,
+        });
+      }
+    }
+    await sleep(pollIntervalMs);
+  }
+}
+
+/**
+ * Fast-forward the fork's default branch to upstream. Returns an error
+ * message instead of throwing: a diverged fork should not block the run,
+ * since task branches are always cut from `origin/<default>`.
+ */
+async function syncForkDefaultBranch(
+  octokit: Octokit,
+  owner: string,
+  name: string,
+  branch: string,
+): Promise<string | undefined> {
+  try {
+    await octokit.repos.mergeUpstream({ owner, repo: name, branch });
+    return undefined;
+  } catch (error) {
+    return toMessage(error);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return typeof error === "object" && error !== null && "status" in error && error.status === 404;
+}
+
+function toMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolvePromise) => {
+    setTimeout(resolvePromise, ms);
+  });
+}
@@ -1,4 +1,6 @@
 export * from "./types.js";
 export * from "./resolver.js";
 export * from "./cloner.js";
+export * from "./fork.js";
 export * from "./metadata-cache.js";
+export * from "./codeowners.js";
@@ -25,6 +25,18 @@ export interface ResolvedRepoGitState {
   isShallowClone: boolean;
 }
 
+export interface RepoFork {
+  owner: string;
+  name: string;
+  fullName: string;
+  /** Remote name registered in the cached clone (e.g. `fork`). */
+  remoteName: string;
+  remoteUrl: string;
+  /** Whether the fork's default branch was fast-forwarded to upstream. */
+  synced: boolean;
+  syncError?: string;
+}
+
 export interface ResolvedRepo {
   fullName: string;
   owner: string;
@@ -33,4 +45,6 @@ export interface ResolvedRepo {
   worktreePath: string;
   meta: ResolvedRepoMeta;
   git: ResolvedRepoGitState;
+  /** Set when branches are pushed to a fork because upstream push is not permitted. */
+  fork?: RepoFork;
 }
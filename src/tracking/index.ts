@@ -1,6 +1,7 @@
 export {
   contributionLogSchema,
   contributionTaskSchema,
+  delegationActivitySchema,
   parseContributionLog,
 } from "./log-schema.js";
 export type {
@@ -10,6 +11,10 @@ export type {
   ContributionTaskStatus,
   TaskComplexity,
   TaskSource,
+  CandidateRecord,
+  DelegationActivityRecord,
+  RepairRoundRecord,
+  ValidationGateRecord,
 } from "./log-schema.js";
 
 export { writeContributionLog } from "./logger.js";
@@ -17,4 +22,38 @@ export { buildLeaderboard } from "./leaderboard.js";
 export type { Leaderboard, LeaderboardEntry } from "./leaderboard.js";
 
 export { buildDecisionContext, decisionContextSchema } from "./decision-context.js";
-export type { DecisionContext, GoalAlignment, BudgetConsiderations, AlternativeTask } from "./decision-context.js";
+export type {
+  DecisionContext,
+  GoalAlignment,
+  BudgetConsiderations,
+  AlternativeTask,
+} from "./decision-context.js";
+
+export {
+  RUN_STATUS_STALE_AFTER_MS,
+  createRunStatusWriter,
+  isRunStatusStale,
+  resolveRunStatusPath,
+} from "./run-status.js";
+export type {
+  RunStatus,
+  RunStatusTask,
+  RunStatusTaskState,
+  RunStatusWriter,
+} from "./run-status.js";
+
+export {
+  listTranscripts,
+  openTranscript,
+  readTranscript,
+  redactSecrets,
+  resolveTranscriptsPath,
+  summarizeTranscript,
+} from "./transcript.js";
+export type {
+  TranscriptEnd,
+  TranscriptEntry,
+  TranscriptStart,
+  TranscriptSummary,
+  TranscriptWriter,
+} from "./transcript.js";
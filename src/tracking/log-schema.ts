@@ -4,8 +4,10 @@ import { decisionContextSchema } from "./decision-context.js";
 
 export const taskSourceValues = [
   "lint",
+  "todo",
   "test-gap",
   "dead-code",
+  "security",
   "github-issue",
   "github-pr-review",
   "custom",
@@ -26,12 +28,65 @@ const githubUsernameSchema = z
   .max(39)
   .regex(/^(?!-)[A-Za-z0-9-]+(?<!-)$/, "Invalid GitHub username.");
 
+export const validationGateValues = ["lint", "test", "typeCheck"] as const;
+
+export const validationGateResultSchema = z.object({
+  gate: z.enum(validationGateValues),
+  command: z.string().min(1),
+  status: z.enum(["passed", "failed", "skipped"]),
+  exitCode: z.number().int().nullable(),
+  durationMs: z.number().nonnegative(),
+  timedOut: z.boolean().optional(),
+  output: z.string().optional(),
+});
+
+export const repairRoundSchema = z.object({
+  round: z.number().int().positive(),
+  trigger: z.array(z.string().min(1)),
+  tokensUsed: z.number().int().nonnegative(),
+  passed: z.boolean(),
+  error: z.string().min(1).optional(),
+});
+
+export const candidateSchema = z.object({
+  candidate: z.number().int().positive(),
+  provider: z.string().min(1),
+  variant: z.number().int().nonnegative().optional(),
+  branchName: z.string().min(1).optional(),
+  tokensUsed: z.number().int().nonnegative(),
+  score: z.number().min(0).max(100).optional(),
+  validationPassed: z.boolean().optional(),
+  linesChanged: z.number().int().nonnegative().optional(),
+  verdict: z.enum(["approve", "request_changes", "reject"]).optional(),
+  winner: z.boolean(),
+  error: z.string().min(1).optional(),
+});
+
+export const delegationEventValues = ["requested", "accepted", "rejected", "completed"] as const;
+
+/** A cross-repo delegation step involving the log's repo, as source or target. */
+export const delegationActivitySchema = z.object({
+  delegationId: z.string().min(1),
+  event: z.enum(delegationEventValues),
+  /** `outgoing` when the log's repo delegated the task, `incoming` when it received it. */
+  direction: z.enum(["outgoing", "incoming"]),
+  sourceRepo: z.string().min(1),
+  targetRepo: z.string().min(1),
+  taskTitle: z.string().min(1),
+  at: z.string().datetime({ offset: true }),
+  detail: z.string().min(1).optional(),
+});
+
 export const contributionTaskSchema = z.object({
   taskId: z.string().min(1),
   title: z.string().min(1),
   source: z.enum(taskSourceValues),
   complexity: z.enum(taskComplexityValues),
   status: z.enum(contributionTaskStatusValues),
+  /** Provider that ran the task; differs from `budget.provider` after a fallback. */
+  provider: z.string().min(1).optional(),
+  /** Agent event stream for the task, relative to the repo root (see `oac transcript`). */
+  transcript: z.string().min(1).optional(),
   tokensUsed: z.number().int().nonnegative(),
   duration: z.number().nonnegative(),
   filesChanged: z.array(z.string().min(1)),
@@ -50,6 +105,19 @@ export const contributionTaskSchema = z.object({
     .optional(),
   error: z.string().min(1).optional(),
   decisionContext: decisionContextSchema.optional(),
+  validation: z
+    .object({
+      passed: z.boolean(),
+      action: z.enum(["none", "draft", "blocked"]),
+      gates: z.array(validationGateResultSchema),
+      diffErrors: z.array(z.string().min(1)).optional(),
+    })
+    .optional(),
+  repairRounds: z.array(repairRoundSchema).optional(),
+  /** Best-of-N candidates; `tokensUsed` of the task is their sum. */
+  candidates: z.array(candidateSchema).optional(),
+  /** Set when the task came from another repo's delegation (see `oac delegate`). */
+  delegationId: z.string().min(1).optional(),
 });
 
 export const contributionLogSchema = z.object({
@@ -85,8 +153,14 @@ export const contributionLogSchema = z.object({
     totalLinesAdded: z.number().int().nonnegative(),
     totalLinesRemoved: z.number().int().nonnegative(),
   }),
+  /** Delegation steps since the repo's previous contribution log. */
+  delegations: z.array(delegationActivitySchema).optional(),
 });
 
+export type ValidationGateRecord = z.infer<typeof validationGateResultSchema>;
+export type RepairRoundRecord = z.infer<typeof repairRoundSchema>;
+export type CandidateRecord = z.infer<typeof candidateSchema>;
+export type DelegationActivityRecord = z.infer<typeof delegationActivitySchema>;
 export type ContributionTask = z.infer<typeof contributionTaskSchema>;
 export type ContributionLog = z.infer<typeof contributionLogSchema>;
 
@@ -0,0 +1,280 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, rename, rm, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+import type { OacEventBus, OacEvents } from "../core/event-bus.js";
+import { isRecord } from "../core/utils.js";
+
+const OAC_DIRECTORY = ".oac";
+const STATUS_FILENAME = "status.json";
+/** Joins repo and task id in runs across several repos, like the multi-repo task pool. */
+const REPO_TASK_ID_SEPARATOR = "::";
+
+/** How often a live run refreshes `updatedAt` even when no events arrive. */
+const HEARTBEAT_INTERVAL_MS = 15_000;
+/** A run that has not refreshed its status file for this long is considered stale. */
+export const RUN_STATUS_STALE_AFTER_MS = 5 * 60_000;
+
+export type RunStatusTaskState = "pending" | "running" | "completed" | "failed" | "aborted";
+
+export interface RunStatusTask {
+  taskId: string;
+  title: string;
+  status: RunStatusTaskState;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+  /** Latest cumulative token count reported by the agent. */
+  tokensUsed?: number;
+  /** Latest execution stage (e.g. `tool:Edit`, `file:modify`, `stdout`). */
+  stage?: string;
+  prUrl?: string;
+}
+
+export interface RunStatus {
+  runId: string;
+  startedAt: string;
+  agent: string;
+  tasks: RunStatusTask[];
+  /** PID of the `oac run` process that owns this file. */
+  pid?: number;
+  /** Last time the owning process wrote the file (heartbeat). */
+  updatedAt?: string;
+  /** Set once the run has finished; absent while the run is in progress. */
+  finishedAt?: string;
+  tokensUsed?: number;
+}
+
+export interface RunStatusWriter {
+  readonly statusPath: string;
+  /** Write the initial status file and start the heartbeat. */
+  start(): Promise<void>;
+  /**
+   * Mark the run as finished, flush, and detach from the event bus. Tasks that
+   * never started (e.g. still queued when the run was interrupted) become `aborted`.
+   */
+  finish(): Promise<void>;
+  /** Current in-memory snapshot (primarily for tests). */
+  snapshot(): RunStatus;
+}
+
+export function resolveRunStatusPath(repoPath: string): string {
+  return resolve(repoPath, OAC_DIRECTORY, STATUS_FILENAME);
+}
+
+/**
+ * Creates a writer that mirrors run progress from the event bus into
+ * `.oac/status.json` so `oac status` can show live progress.
+ *
+ * Every write goes through a temp file + rename, and writes are coalesced:
+ * bursts of `execution:progress` events produce at most one pending write.
+ */
+export function createRunStatusWriter(options: {
+  repoPath: string;
+  runId: string;
+  agent: string;
+  eventBus: OacEventBus;
+  /** Prefix task ids with their repo (`owner/repo::id`); ids may repeat across repos. */
+  qualifyTaskIds?: boolean;
+  heartbeatIntervalMs?: number;
+}): RunStatusWriter {
+  const statusPath = resolveRunStatusPath(options.repoPath);
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? HEARTBEAT_INTERVAL_MS;
+  const { eventBus } = options;
+
+  const status: RunStatus = {
+    runId: options.runId,
+    startedAt: new Date().toISOString(),
+    agent: options.agent,
+    pid: process.pid,
+    tasks: [],
+    tokensUsed: 0,
+  };
+  const tasksById = new Map<string, RunStatusTask>();
+  const taskIdByJobId = new Map<string, string>();
+
+  let flushChain: Promise<void> = Promise.resolve();
+  let flushQueued = false;
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  const scheduleFlush = (): Promise<void> => {
+    if (flushQueued) {
+      return flushChain;
+    }
+    flushQueued = true;
+    flushChain = flushChain.then(async () => {
+      flushQueued = false;
+      status.updatedAt = new Date().toISOString();
+      status.tokensUsed = status.tasks.reduce((sum, task) => sum + (task.tokensUsed ?? 0), 0);
+      try {
+        await writeRunStatusFile(statusPath, status);
+      } catch {
+        // best-effort: status reporting must never break a run
+      }
+    });
+    return flushChain;
+  };
+
+  const upsertTask = (taskId: string, title: string): RunStatusTask => {
+    const existing = tasksById.get(taskId);
+    if (existing) {
+      return existing;
+    }
+    const entry: RunStatusTask = { taskId, title, status: "pending" };
+    tasksById.set(taskId, entry);
+    status.tasks.push(entry);
+    return entry;
+  };
+
+  const statusTaskId = (task: { id: string }, repo: string | undefined): string =>
+    options.qualifyTaskIds && repo ? `${repo}${REPO_TASK_ID_SEPARATOR}${task.id}` : task.id;
+
+  const taskForJob = (jobId: string): RunStatusTask | undefined => {
+    const taskId = taskIdByJobId.get(jobId) ?? jobId;
+    return tasksById.get(taskId);
+  };
+
+  const onSelected = ({ task, repo }: OacEvents["task:selected"]) => {
+    upsertTask(statusTaskId(task, repo), task.title);
+    void scheduleFlush();
+  };
+
+  const onStarted = ({ jobId, task, repo }: OacEvents["execution:started"]) => {
+    const taskId = statusTaskId(task, repo);
+    taskIdByJobId.set(jobId, taskId);
+    const entry = upsertTask(taskId, task.title);
+    entry.status = "running";
+    entry.startedAt ??= new Date().toISOString();
+    entry.completedAt = undefined;
+    entry.error = undefined;
+    void scheduleFlush();
+  };
+
+  const onProgress = ({ jobId, tokensUsed, stage }: OacEvents["execution:progress"]) => {
+    const entry = taskForJob(jobId);
+    if (!entry) return;
+    entry.tokensUsed = Math.max(entry.tokensUsed ?? 0, tokensUsed);
+    entry.stage = stage;
+    void scheduleFlush();
+  };
+
+  const onCompleted = ({ jobId, result }: OacEvents["execution:completed"]) => {
+    const entry = taskForJob(jobId);
+    if (!entry) return;
+    entry.status = "completed";
+    entry.completedAt = new Date().toISOString();
+    entry.tokensUsed = Math.max(entry.tokensUsed ?? 0, result.totalTokensUsed);
+    entry.stage = "done";
+    void scheduleFlush();
+  };
+
+  const onFailed = ({ jobId, error }: OacEvents["execution:failed"]) => {
+    const entry = taskForJob(jobId);
+    if (!entry) return;
+    entry.status = "failed";
+    entry.completedAt = new Date().toISOString();
+    entry.error = error.message;
+    entry.stage = "failed";
+    void scheduleFlush();
+  };
+
+  const onPrCreated = ({ jobId, prUrl }: OacEvents["pr:created"]) => {
+    const entry = taskForJob(jobId);
+    if (!entry) return;
+    entry.prUrl = prUrl;
+    void scheduleFlush();
+  };
+
+  const detach = () => {
+    eventBus.off("task:selected", onSelected);
+    eventBus.off("execution:started", onStarted);
+    eventBus.off("execution:progress", onProgress);
+    eventBus.off("execution:completed", onCompleted);
+    eventBus.off("execution:failed", onFailed);
+    eventBus.off("pr:created", onPrCreated);
+  };
+
+  return {
+    statusPath,
+    async start() {
+      eventBus.on("task:selected", onSelected);
+      eventBus.on("execution:started", onStarted);
+      eventBus.on("execution:progress", onProgress);
+      eventBus.on("execution:completed", onCompleted);
+      eventBus.on("execution:failed", onFailed);
+      eventBus.on("pr:created", onPrCreated);
+
+      heartbeat = setInterval(() => {
+        void scheduleFlush();
+      }, heartbeatIntervalMs);
+      heartbeat.unref();
+
+      await scheduleFlush();
+    },
+    async finish() {
+      detach();
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = undefined;
+      }
+      status.finishedAt = new Date().toISOString();
+      for (const task of status.tasks) {
+        if (task.status === "pending") {
+          task.status = "aborted";
+          task.completedAt = status.finishedAt;
+        }
+      }
+      await scheduleFlush();
+    },
+    snapshot() {
+      return structuredClone(status);
+    },
+  };
+}
+
+/**
+ * A status file is stale when its run never finished and the owning process
+ * is gone (or has stopped sending heartbeats), e.g. after a crash or SIGKILL.
+ */
+export function isRunStatusStale(status: RunStatus, now: number = Date.now()): boolean {
+  if (status.finishedAt) {
+    return false;
+  }
+
+  if (typeof status.pid === "number" && !isProcessAlive(status.pid)) {
+    return true;
+  }
+
+  // Files without a heartbeat predate the writer; there is nothing to compare against.
+  const lastUpdate = status.updatedAt ? Date.parse(status.updatedAt) : Number.NaN;
+  if (Number.isNaN(lastUpdate)) {
+    return false;
+  }
+
+  return now - lastUpdate > RUN_STATUS_STALE_AFTER_MS;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user.
+    return isRecord(error) && error.code === "EPERM";
+  }
+}
+
+async function writeRunStatusFile(statusPath: string, status: RunStatus): Promise<void> {
+  await mkdir(dirname(statusPath), { recursive: true });
+  const tempPath = `${statusPath}.${process.pid}.${randomUUID()}.tmp`;
+
+  try {
+    await writeFile(tempPath, `${JSON.stringify(status, null, 2)}\n`, {
+      encoding: "utf8",
+      flag: "wx",
+    });
+    await rename(tempPath, statusPath);
+  } finally {
+    await rm(tempPath, { force: true });
+  }
+}
@@ -0,0 +1,233 @@
+import { createWriteStream } from "node:fs";
+import type { Dirent } from "node:fs";
+import { mkdir, readFile, readdir, stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+import { isRecord } from "../core/utils.js";
+
+const OAC_DIRECTORY = ".oac";
+const TRANSCRIPTS_DIRECTORY = "transcripts";
+const REDACTED = "[REDACTED]";
+
+/**
+ * One line of a transcript file. Agent events keep their own `type`
+ * (`output`, `tool_use`, `file_edit`, `tokens`, `error`); each execution is
+ * framed by a `start` and an `end` entry.
+ */
+export interface TranscriptEntry {
+  ts: string;
+  executionId: string;
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface TranscriptStart {
+  taskId: string;
+  title: string;
+  provider: string;
+}
+
+export interface TranscriptEnd {
+  success: boolean;
+  totalTokensUsed: number;
+  filesChanged: string[];
+  error?: string;
+}
+
+export interface TranscriptWriter {
+  /** Path relative to the repo root, as recorded in the contribution log. */
+  readonly relativePath: string;
+  record(event: { type: string }): void;
+  /** Write the `end` entry and flush the file. Never throws. */
+  close(end: TranscriptEnd): Promise<void>;
+}
+
+export interface TranscriptSummary {
+  runId: string;
+  taskId: string;
+  relativePath: string;
+  title?: string;
+  provider?: string;
+  success?: boolean;
+  totalTokensUsed: number;
+  events: number;
+  startedAt?: string;
+}
+
+// ── Redaction ────────────────────────────────────────────────
+
+const SECRET_PATTERNS: RegExp[] = [
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{20,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{20,}\b/g,
+  /\bsk-(?:ant-)?[A-Za-z0-9_-]{20,}\b/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+];
+
+/** `Authorization: Bearer x`, `API_KEY=x`, `"password": "x"` and friends keep their key. */
+const SECRET_ASSIGNMENT =
+  /\b(bearer\s+|[A-Za-z0-9_]*(?:token|secret|password|passwd|api[_-]?key)["']?\s*[:=]\s*["']?)([^\s"',;]{6,})/gi;
+
+const SECRET_ENV_NAME = /(TOKEN|SECRET|PASSWORD|API_KEY|PRIVATE_KEY)/i;
+
+/** Values of secret-looking environment variables, longest first. */
+function secretEnvValues(): string[] {
+  return Object.entries(process.env)
+    .filter(([name, value]) => SECRET_ENV_NAME.test(name) && value && value.length >= 8)
+    .map(([, value]) => value as string)
+    .sort((a, b) => b.length - a.length);
+}
+
+export function redactSecrets(text: string, envValues: string[] = secretEnvValues()): string {
+  let redacted = text;
+  for (const value of envValues) {
+    redacted = redacted.split(value).join(REDACTED);
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  return redacted.replace(SECRET_ASSIGNMENT, (_match, key: string) => `${key}${REDACTED}`);
+}
+
+function redactValue(value: unknown, envValues: string[]): unknown {
+  if (typeof value === "string") return redactSecrets(value, envValues);
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, envValues));
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, envValues)]),
+    );
+  }
+  return value;
+}
+
+// ── Writing ──────────────────────────────────────────────────
+
+export function resolveTranscriptsPath(repoPath: string): string {
+  return resolve(repoPath, OAC_DIRECTORY, TRANSCRIPTS_DIRECTORY);
+}
+
+function toFileName(taskId: string): string {
+  return `${taskId.replace(/[^a-zA-Z0-9._-]/g, "-")}.jsonl`;
+}
+
+/**
+ * Open (or append to) `.oac/transcripts/<runId>/<taskId>.jsonl` and write the
+ * `start` entry. Retried attempts of a task share the file; entries carry
+ * their `executionId`. Every string is passed through {@link redactSecrets}.
+ * Transcripts are best-effort: write errors are swallowed.
+ */
+export async function openTranscript(params: {
+  repoPath: string;
+  runId: string;
+  executionId: string;
+  start: TranscriptStart;
+}): Promise<TranscriptWriter> {
+  const runDirectory = join(resolveTranscriptsPath(params.repoPath), params.runId);
+  await mkdir(runDirectory, { recursive: true });
+
+  const fileName = toFileName(params.start.taskId);
+  const stream = createWriteStream(join(runDirectory, fileName), { flags: "a", encoding: "utf8" });
+  stream.on("error", () => undefined);
+
+  const envValues = secretEnvValues();
+  const write = (entry: Record<string, unknown>): void => {
+    if (stream.writableEnded || stream.destroyed) return;
+    const line = {
+      ts: new Date().toISOString(),
+      executionId: params.executionId,
+      ...(redactValue(entry, envValues) as Record<string, unknown>),
+    };
+    stream.write(`${JSON.stringify(line)}\n`);
+  };
+
+  write({ type: "start", ...params.start });
+
+  return {
+    relativePath: join(OAC_DIRECTORY, TRANSCRIPTS_DIRECTORY, params.runId, fileName),
+    record: (event) => write({ ...event }),
+    close: async (end) => {
+      write({ type: "end", ...end });
+      await new Promise<void>((resolveClose) => stream.end(resolveClose));
+    },
+  };
+}
+
+// ── Reading ──────────────────────────────────────────────────
+
+export async function readTranscript(path: string): Promise<TranscriptEntry[]> {
+  const content = await readFile(path, "utf8");
+  const entries: TranscriptEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (line.trim().length === 0) continue;
+    try {
+      const parsed = JSON.parse(line) as unknown;
+      if (isRecord(parsed) && typeof parsed.type === "string" && typeof parsed.ts === "string") {
+        entries.push(parsed as TranscriptEntry);
+      }
+    } catch {} // skip a torn last line from an interrupted run
+  }
+  return entries;
+}
+
+export function summarizeTranscript(
+  runId: string,
+  taskId: string,
+  relativePath: string,
+  entries: TranscriptEntry[],
+): TranscriptSummary {
+  const start = entries.find((entry) => entry.type === "start");
+  const end = entries.findLast((entry) => entry.type === "end");
+  const tokens = entries
+    .filter((entry) => entry.type === "tokens")
+    .map((entry) => (typeof entry.cumulativeTokens === "number" ? entry.cumulativeTokens : 0));
+
+  return {
+    runId,
+    taskId,
+    relativePath,
+    title: typeof start?.title === "string" ? start.title : undefined,
+    provider: typeof start?.provider === "string" ? start.provider : undefined,
+    success: typeof end?.success === "boolean" ? end.success : undefined,
+    totalTokensUsed:
+      typeof end?.totalTokensUsed === "number" ? end.totalTokensUsed : Math.max(0, ...tokens),
+    events: entries.filter((entry) => entry.type !== "start" && entry.type !== "end").length,
+    startedAt: start?.ts,
+  };
+}
+
+async function readDirectories(path: string): Promise<Dirent[]> {
+  try {
+    return await readdir(path, { withFileTypes: true, encoding: "utf8" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+/** Every transcript under `.oac/transcripts`, newest run first. */
+export async function listTranscripts(repoPath: string): Promise<TranscriptSummary[]> {
+  const root = resolveTranscriptsPath(repoPath);
+  const runs = (await readDirectories(root)).filter((entry) => entry.isDirectory());
+
+  const runTimes = await Promise.all(
+    runs.map(async (run) => ({ run: run.name, mtime: (await stat(join(root, run.name))).mtimeMs })),
+  );
+  runTimes.sort((a, b) => b.mtime - a.mtime);
+
+  const summaries: TranscriptSummary[] = [];
+  for (const { run } of runTimes) {
+    const files = (await readDirectories(join(root, run)))
+      .filter((entry) => entry.isFile() && entry.name.endsWith(".jsonl"))
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b));
+
+    for (const file of files) {
+      const entries = await readTranscript(join(root, run, file));
+      const relativePath = join(OAC_DIRECTORY, TRANSCRIPTS_DIRECTORY, run, file);
+      summaries.push(summarizeTranscript(run, file.replace(/\.jsonl$/, ""), relativePath, entries));
+    }
+  }
+  return summaries;
+}
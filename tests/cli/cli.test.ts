@@ -20,6 +20,8 @@ describe("createCliProgram", () => {
     expect(commandNames).toContain("log");
     expect(commandNames).toContain("leaderboard");
     expect(commandNames).toContain("status");
+    expect(commandNames).toContain("transcript");
+    expect(commandNames).toContain("delegate");
   });
 
   it("has global options --config, --verbose, --json, --no-color", async () => {
@@ -43,8 +45,8 @@ describe("createCliProgram", () => {
     expect(typeof program.version()).toBe("string");
   });
 
-  it("has 11 subcommands", async () => {
+  it("has 13 subcommands", async () => {
     const program = await createCliProgram();
-    expect(program.commands).toHaveLength(11);
+    expect(program.commands).toHaveLength(13);
   });
 });
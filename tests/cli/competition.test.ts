@@ -0,0 +1,322 @@
+import chalk from "chalk";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  candidateEstimate,
+  chargeCompetitions,
+  isCompetitive,
+  pickWinner,
+  planCandidates,
+  runCompetition,
+  scoreCandidate,
+} from "../../src/cli/commands/run/competition.js";
+import type { PipelineContext, TaskRunResult } from "../../src/cli/commands/run/types.js";
+import { CompetitionSchema, createEventBus } from "../../src/core/index.js";
+import type { Task } from "../../src/core/index.js";
+import type { AgentProvider } from "../../src/execution/agents/agent.interface.js";
+import { contributionTaskSchema } from "../../src/tracking/index.js";
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "task-1",
+    source: "github-issue",
+    title: "Fix issue 12",
+    description: "Fix the crash.",
+    targetFiles: [],
+    priority: 50,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: {},
+    discoveredAt: "2026-02-16T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function makeAdapter(id: string): AgentProvider {
+  return {
+    id,
+    name: id,
+    checkAvailability: vi.fn(),
+    execute: vi.fn(),
+    estimateTokens: vi.fn(),
+    abort: vi.fn(),
+  };
+}
+
+function makeResult(overrides: {
+  success?: boolean;
+  tokens?: number;
+  gates?: Array<"passed" | "failed">;
+  linesChanged?: number;
+  cleanup?: () => Promise<void>;
+}): TaskRunResult {
+  const task = makeTask();
+  const gates = overrides.gates ?? ["passed"];
+  return {
+    task,
+    estimate: {
+      taskId: task.id,
+      providerId: "claude-code",
+      contextTokens: 0,
+      promptTokens: 0,
+      expectedOutputTokens: 0,
+      totalEstimatedTokens: 1_000,
+      confidence: 0.8,
+      feasible: true,
+    },
+    execution: {
+      success: overrides.success ?? true,
+      exitCode: overrides.success === false ? 1 : 0,
+      totalTokensUsed: overrides.tokens ?? 100,
+      filesChanged: ["src/a.ts"],
+      duration: 1,
+      error: overrides.success === false ? "agent crashed" : undefined,
+    },
+    sandbox: {
+      branchName: "oac/1-task-1",
+      sandboxPath: "/nonexistent",
+      cleanup: overrides.cleanup ?? (async () => {}),
+    },
+    validation: {
+      passed: gates.every((status) => status === "passed"),
+      action: "none",
+      linesChanged: overrides.linesChanged ?? 20,
+      results: gates.map((status) => ({
+        gate: "test",
+        command: "npm test",
+        status,
+        exitCode: status === "passed" ? 0 : 1,
+        durationMs: 1,
+      })),
+    },
+  };
+}
+
+function makeContext(): PipelineContext {
+  return {
+    options: {},
+    globalOptions: { config: "oac.config.ts", verbose: false, json: false, color: false },
+    ui: chalk,
+    outputJson: false,
+    suppressOutput: true,
+    runId: "run-1",
+    runStartedAt: Date.now(),
+    eventBus: createEventBus(),
+  } as unknown as PipelineContext;
+}
+
+describe("isCompetitive", () => {
+  it("opts tasks in by source or priority threshold", () => {
+    const bySource = CompetitionSchema.parse({ sources: ["github-issue"] });
+    const byPriority = CompetitionSchema.parse({ minPriority: 80 });
+
+    expect(isCompetitive(makeTask(), bySource)).toBe(true);
+    expect(isCompetitive(makeTask({ source: "lint" }), bySource)).toBe(false);
+    expect(isCompetitive(makeTask({ priority: 85 }), byPriority)).toBe(true);
+    expect(isCompetitive(makeTask(), byPriority)).toBe(false);
+    expect(isCompetitive(makeTask(), CompetitionSchema.parse({}))).toBe(false);
+    expect(isCompetitive(makeTask(), undefined)).toBe(false);
+  });
+});
+
+describe("chargeCompetitions", () => {
+  it("charges competing tasks once per candidate and hands each candidate its share", () => {
+    const settings = CompetitionSchema.parse({ candidates: 3, sources: ["lint"] });
+    const lint = makeTask({ id: "lint-1", source: "lint" });
+    const todo = makeTask({ id: "todo-1", source: "todo" });
+    const estimate = makeResult({}).estimate;
+    const estimates = new Map([
+      [lint.id, { ...estimate, taskId: lint.id }],
+      [todo.id, { ...estimate, taskId: todo.id }],
+    ]);
+
+    const charged = chargeCompetitions([lint, todo], estimates, settings);
+
+    expect(charged.get(lint.id)?.totalEstimatedTokens).toBe(3_000);
+    expect(charged.get(todo.id)?.totalEstimatedTokens).toBe(1_000);
+    expect(candidateEstimate(charged.get(lint.id) ?? estimate, settings).totalEstimatedTokens).toBe(
+      1_000,
+    );
+    expect(chargeCompetitions([lint, todo], estimates, undefined)).toBe(estimates);
+  });
+});
+
+describe("planCandidates", () => {
+  it("rotates providers and prompt variants independently", () => {
+    const settings = CompetitionSchema.parse({
+      candidates: 3,
+      promptVariants: ["", "Prefer the smallest change."],
+    });
+    const specs = planCandidates(settings, [makeAdapter("claude-code"), makeAdapter("codex")]);
+
+    expect(specs.map((spec) => [spec.candidate, spec.adapter.id, spec.variant])).toEqual([
+      [1, "claude-code", 0],
+      [2, "codex", 1],
+      [3, "claude-code", 0],
+    ]);
+  });
+});
+
+describe("scoreCandidate", () => {
+  it("weighs passing gates, the critic verdict and diff size", () => {
+    expect(scoreCandidate(makeResult({ linesChanged: 0 }), 500)).toBe(100);
+    expect(
+      scoreCandidate(makeResult({ gates: ["passed", "failed"], linesChanged: 250 }), 500),
+    ).toBe(65);
+    expect(
+      scoreCandidate(
+        {
+          ...makeResult({ linesChanged: 0 }),
+          review: {
+            reviewer: "critic",
+            verdict: "approve",
+            confidence: 0.5,
+            summary: "",
+            comments: [],
+            rounds: 0,
+            tokensUsed: 0,
+            action: "draft",
+          },
+        },
+        500,
+      ),
+    ).toBe(85);
+    expect(scoreCandidate(makeResult({ success: false }), 500)).toBeUndefined();
+  });
+
+  it("breaks ties by tokens, then candidate order", () => {
+    const base = { provider: "x", winner: false, score: 90 };
+    expect(
+      pickWinner([
+        { ...base, candidate: 1, tokensUsed: 300 },
+        { ...base, candidate: 2, tokensUsed: 200 },
+        { ...base, candidate: 3, tokensUsed: 200 },
+        { ...base, candidate: 4, tokensUsed: 10, score: undefined },
+      ])?.candidate,
+    ).toBe(2);
+  });
+});
+
+describe("runCompetition", () => {
+  const settings = CompetitionSchema.parse({
+    candidates: 3,
+    promptVariants: ["", "Add a regression test."],
+    sources: ["github-issue"],
+  });
+  const adapters = [makeAdapter("claude-code"), makeAdapter("codex")];
+  const entry = { task: makeTask(), estimate: makeResult({}).estimate };
+
+  it("keeps the best candidate, discards the rest and sums their tokens", async () => {
+    const cleanups = [vi.fn(async () => {}), vi.fn(async () => {}), vi.fn(async () => {})];
+    const outcomes = [
+      makeResult({ tokens: 100, gates: ["passed", "failed"], cleanup: cleanups[0] }),
+      makeResult({ tokens: 200, gates: ["passed", "passed"], cleanup: cleanups[1] }),
+      makeResult({ success: false, tokens: 50, cleanup: cleanups[2] }),
+    ];
+    const prompts: string[] = [];
+    const jobIds: string[] = [];
+
+    const result = await runCompetition(makeContext(), {
+      entry,
+      jobId: "job-1",
+      settings,
+      adapters,
+      run: async (spec, task, jobId) => {
+        prompts.push(task.description);
+        jobIds.push(jobId);
+        return { ...outcomes[spec.candidate - 1], provider: spec.adapter.id };
+      },
+      validate: async (candidate) => candidate,
+      repoPath: "/nonexistent",
+      baseBranch: "main",
+      maxDiffLines: 500,
+      timeoutSeconds: 30,
+    });
+
+    expect(prompts).toEqual([
+      "Fix the crash.",
+      "Fix the crash.\n\nAdd a regression test.",
+      "Fix the crash.",
+    ]);
+    expect(jobIds).toEqual(["job-1-c1", "job-1-c2", "job-1-c3"]);
+    expect(result.provider).toBe("codex");
+    expect(result.jobId).toBe("job-1");
+    expect(result.execution.success).toBe(true);
+    expect(result.execution.totalTokensUsed).toBe(350);
+    expect(result.candidates?.map((candidate) => [candidate.score, candidate.winner])).toEqual([
+      [69.6, false],
+      [99.6, true],
+      [undefined, false],
+    ]);
+    expect(cleanups[0]).toHaveBeenCalled();
+    expect(cleanups[1]).not.toHaveBeenCalled();
+    expect(cleanups[2]).toHaveBeenCalled();
+
+    const logged = contributionTaskSchema.safeParse({
+      taskId: "task-1",
+      title: "Fix issue 12",
+      source: "github-issue",
+      complexity: "simple",
+      status: "success",
+      tokensUsed: 350,
+      duration: 1,
+      filesChanged: ["src/a.ts"],
+      candidates: result.candidates,
+    });
+    expect(logged.success).toBe(true);
+  });
+
+  it("counts a candidate that throws as failed and still settles the others", async () => {
+    const cleanups = [vi.fn(async () => {}), vi.fn(async () => {})];
+
+    const result = await runCompetition(makeContext(), {
+      entry,
+      jobId: "job-3",
+      settings,
+      adapters,
+      run: async (spec) => {
+        if (spec.candidate === 2) throw new Error("worktree add failed");
+        return makeResult({ tokens: 100, cleanup: cleanups[spec.candidate === 1 ? 0 : 1] });
+      },
+      validate: async (candidate) => {
+        if (candidate.sandbox?.cleanup === cleanups[1]) throw new Error("gate crashed");
+        return candidate;
+      },
+      repoPath: "/nonexistent",
+      baseBranch: "main",
+      maxDiffLines: 500,
+      timeoutSeconds: 30,
+    });
+
+    expect(result.execution.success).toBe(true);
+    expect(result.candidates?.map((candidate) => [candidate.winner, candidate.error])).toEqual([
+      [true, undefined],
+      [false, "worktree add failed"],
+      [false, "gate crashed"],
+    ]);
+    expect(cleanups[0]).not.toHaveBeenCalled();
+    expect(cleanups[1]).toHaveBeenCalled();
+  });
+
+  it("fails the task when no candidate succeeds", async () => {
+    const result = await runCompetition(makeContext(), {
+      entry,
+      jobId: "job-2",
+      settings: { ...settings, candidates: 2 },
+      adapters,
+      run: async () => makeResult({ success: false, tokens: 40 }),
+      validate: async (candidate) => candidate,
+      repoPath: "/nonexistent",
+      baseBranch: "main",
+      maxDiffLines: 500,
+      timeoutSeconds: 30,
+    });
+
+    expect(result.execution.success).toBe(false);
+    expect(result.execution.totalTokensUsed).toBe(80);
+    expect(result.execution.error).toBe(
+      "All 2 candidates failed: #1 agent crashed; #2 agent crashed",
+    );
+    expect(result.sandbox).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  delegationAsEpic,
+  delegationAsTask,
+  readTaskDelegation,
+  toDelegationLogEntries,
+  withEpicDelegation,
+} from "../../src/cli/commands/run/delegation.js";
+import { buildContributionLog } from "../../src/cli/commands/run/tracking.js";
+import { epicAsTask } from "../../src/execution/index.js";
+import type { DelegationRecord } from "../../src/organization/index.js";
+import { contributionLogSchema } from "../../src/tracking/index.js";
+
+const record: DelegationRecord = {
+  id: "3f2a9c1b-0000-4000-8000-000000000000",
+  sourceRepo: "acme/web",
+  targetRepo: "acme/api",
+  task: {
+    id: "task-1",
+    source: "custom",
+    title: "Expose the export endpoint",
+    description: "The web client needs an export endpoint.",
+    targetFiles: ["src/routes/export.ts"],
+    priority: 40,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: { owner: "web" },
+    discoveredAt: "2026-02-16T00:00:00.000Z",
+  },
+  reason: "Needs an API change",
+  priority: 75,
+  requestedAt: "2026-02-16T00:00:00.000Z",
+  status: "accepted",
+  history: [],
+};
+
+describe("delegated tasks", () => {
+  it("run at the delegation's priority and keep the delegation through epics", () => {
+    const task = delegationAsTask(record);
+
+    expect(task.priority).toBe(75);
+    expect(task.metadata).toMatchObject({ owner: "web" });
+    expect(readTaskDelegation(task)).toEqual({
+      id: record.id,
+      sourceRepo: "acme/web",
+      reason: "Needs an API change",
+    });
+
+    const epic = delegationAsEpic(task);
+    expect(epic).toMatchObject({ id: "delegation-3f2a9c1b", priority: 75, subtasks: [task] });
+    expect(readTaskDelegation(withEpicDelegation(epicAsTask(epic), epic))?.id).toBe(record.id);
+  });
+
+  it("records the delegation in the contribution log", () => {
+    const task = delegationAsTask(record);
+    const log = buildContributionLog({
+      runId: "run-1",
+      repoFullName: "acme/api",
+      repoHeadSha: "abc1234",
+      defaultBranch: "main",
+      repoOwner: "acme",
+      providerId: "claude-code",
+      totalBudget: 10_000,
+      runDurationSeconds: 30,
+      discoveredTasks: 1,
+      taskResults: [
+        {
+          task,
+          estimate: {
+            taskId: task.id,
+            providerId: "claude-code",
+            contextTokens: 0,
+            promptTokens: 0,
+            expectedOutputTokens: 0,
+            totalEstimatedTokens: 2_000,
+            confidence: 0.8,
+            feasible: true,
+          },
+          execution: {
+            success: true,
+            exitCode: 0,
+            totalTokensUsed: 1_500,
+            filesChanged: ["src/routes/export.ts"],
+            duration: 9,
+          },
+        },
+      ],
+      delegations: toDelegationLogEntries(
+        [
+          {
+            delegationId: record.id,
+            event: "completed",
+            sourceRepo: "acme/web",
+            targetRepo: "acme/api",
+            taskTitle: task.title,
+            at: "2026-02-16T01:00:00.000Z",
+          },
+        ],
+        "acme/api",
+      ),
+    });
+
+    expect(contributionLogSchema.safeParse(log).success).toBe(true);
+    expect(log.tasks[0].delegationId).toBe(record.id);
+    expect(log.delegations).toEqual([expect.objectContaining({ direction: "incoming" })]);
+    expect(toDelegationLogEntries(log.delegations ?? [], "acme/web")[0].direction).toBe("outgoing");
+  });
+});
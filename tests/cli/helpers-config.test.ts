@@ -6,7 +6,8 @@ import chalk from "chalk";
 import { execa } from "execa";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
-import { loadOptionalConfig } from "../../src/cli/helpers.js";
+import { loadOptionalConfig, resolveProviderChain } from "../../src/cli/helpers.js";
+import { loadConfig } from "../../src/core/config.js";
 
 let originalHome = "";
 let originalCwd = "";
@@ -81,3 +82,22 @@ async function createTempDir(): Promise<string> {
   tempDirs.push(dir);
   return dir;
 }
+
+describe("resolveProviderChain", () => {
+  it("splits a comma-separated --provider flag and drops duplicates", () => {
+    expect(resolveProviderChain(" claude-code, codex ,claude-code,", null)).toEqual([
+      "claude-code",
+      "codex",
+    ]);
+  });
+
+  it("falls back to provider.id from config, single or list", () => {
+    expect(resolveProviderChain(undefined, loadConfig({ provider: { id: "codex" } }))).toEqual([
+      "codex",
+    ]);
+    expect(
+      resolveProviderChain(undefined, loadConfig({ provider: { id: ["codex", "gemini"] } })),
+    ).toEqual(["codex", "gemini"]);
+    expect(resolveProviderChain("", null)).toEqual(["claude-code"]);
+  });
+});
@@ -0,0 +1,278 @@
+import chalk from "chalk";
+import { describe, expect, it, vi } from "vitest";
+
+import { buildExecutionPlan } from "../../src/budget/index.js";
+import {
+  resolveRunRepos,
+  runMultiRepoPipeline,
+  splitPlanByRepo,
+  summarizeRepoRuns,
+  toPoolTask,
+} from "../../src/cli/commands/run/multi-repo.js";
+import { prepareRepo } from "../../src/cli/commands/run/prepare.js";
+import type { PipelineContext, TaskRunResult } from "../../src/cli/commands/run/types.js";
+import { ConfigError } from "../../src/cli/commands/run/types.js";
+import type { Task, TokenEstimate } from "../../src/core/index.js";
+import { loadConfig } from "../../src/core/index.js";
+import type { ResolvedRepo } from "../../src/repo/types.js";
+
+const clonedBranches = vi.hoisted(() => [] as string[]);
+const analyzeEpics = vi.hoisted(() => vi.fn());
+
+vi.mock("../../src/repo/index.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/repo/index.js")>()),
+  resolveRepo: async (input: string) => makeRepo(input),
+  cloneRepo: async (repo: ResolvedRepo) => {
+    clonedBranches.push(repo.meta.defaultBranch);
+  },
+}));
+
+vi.mock("../../src/cli/commands/run/epic.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/cli/commands/run/epic.js")>()),
+  tryLoadOrAnalyzeEpics: analyzeEpics,
+}));
+
+vi.mock("../../src/cli/commands/run/task.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/cli/commands/run/task.js")>()),
+  collectCandidateTasks: async () => [makeTask("task-1", 80)],
+  estimateCandidates: async (_ctx: unknown, tasks: Task[]) =>
+    new Map(tasks.map((task) => [task.id, makeEstimate(task.id, 1_000)])),
+}));
+
+function makeRepo(fullName: string): ResolvedRepo {
+  const [owner, name] = fullName.split("/");
+  return {
+    fullName,
+    owner,
+    name,
+    localPath: `/nonexistent/${fullName}`,
+    worktreePath: `/nonexistent/${owner}/.oac-worktrees/main`,
+    meta: {
+      defaultBranch: "main",
+      language: "TypeScript",
+      languages: {},
+      size: 1,
+      stars: 0,
+      openIssuesCount: 0,
+      topics: [],
+      license: null,
+      isArchived: false,
+      isFork: false,
+      permissions: { push: true, pull: true, admin: false },
+    },
+    git: {
+      headSha: "abc1234",
+      remoteUrl: `https://github.com/${fullName}.git`,
+      isShallowClone: true,
+    },
+  };
+}
+
+function makeTask(id: string, priority: number): Task {
+  return {
+    id,
+    source: "lint",
+    title: `Fix ${id}`,
+    description: "",
+    targetFiles: [],
+    priority,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: {},
+    discoveredAt: "2026-02-16T00:00:00.000Z",
+  };
+}
+
+function makeEstimate(taskId: string, tokens: number): TokenEstimate {
+  return {
+    taskId,
+    providerId: "claude-code",
+    contextTokens: 0,
+    promptTokens: 0,
+    expectedOutputTokens: 0,
+    totalEstimatedTokens: tokens,
+    confidence: 0.9,
+    feasible: true,
+  };
+}
+
+function makeResult(task: Task, success: boolean): TaskRunResult {
+  return {
+    task,
+    estimate: makeEstimate(task.id, 1_000),
+    execution: {
+      success,
+      exitCode: success ? 0 : 1,
+      totalTokensUsed: 800,
+      filesChanged: [],
+      duration: 5,
+    },
+    pr: success
+      ? { number: 7, url: "https://github.com/acme/web/pull/7", status: "open" }
+      : undefined,
+  };
+}
+
+describe("resolveRunRepos", () => {
+  const config = loadConfig({ repos: ["acme/web", { name: "acme/api", branch: "develop" }] });
+
+  it("runs every configured repo unless one is picked", () => {
+    const repos = [{ name: "acme/web" }, { name: "acme/api", branch: "develop" }];
+
+    expect(resolveRunRepos({}, config)).toEqual(repos);
+    expect(resolveRunRepos({ all: true }, config)).toEqual(repos);
+    expect(resolveRunRepos({ repo: "acme/web" }, config)).toBeUndefined();
+    expect(resolveRunRepos({ retryFailed: true }, config)).toBeUndefined();
+    expect(resolveRunRepos({}, loadConfig({ repos: ["acme/web"] }))).toBeUndefined();
+  });
+
+  it("runs a single configured repo with --all", () => {
+    expect(resolveRunRepos({ all: true }, loadConfig({ repos: ["acme/web"] }))).toEqual([
+      { name: "acme/web" },
+    ]);
+  });
+
+  it("rejects --all without configured repos", () => {
+    expect(() => resolveRunRepos({ all: true }, null)).toThrow(ConfigError);
+  });
+});
+
+describe("prepareRepo", () => {
+  const config = loadConfig({ repos: ["acme/web", { name: "acme/api", branch: "develop" }] });
+  const params = { config, mode: "new-pr" as const, ghToken: undefined };
+
+  it("clones and targets the configured branch instead of the default branch", async () => {
+    clonedBranches.length = 0;
+    const ctx = {
+      options: { dryRun: true },
+      ui: chalk,
+      suppressOutput: true,
+    } as unknown as PipelineContext;
+    const [web, api] = resolveRunRepos({}, config) ?? [];
+
+    const prepared = [
+      await prepareRepo(ctx, { repoInput: web.name, branch: web.branch, ...params }),
+      await prepareRepo(ctx, { repoInput: api.name, branch: api.branch, ...params }),
+    ];
+
+    expect(prepared.map((repo) => repo.meta.defaultBranch)).toEqual(["main", "develop"]);
+    expect(clonedBranches).toEqual(["main", "develop"]);
+  });
+});
+
+describe("splitPlanByRepo", () => {
+  it("plans the merged pool once and gives each repo its share", () => {
+    const pool = [
+      toPoolTask("acme/web", makeTask("task-1", 90)),
+      toPoolTask("acme/web", makeTask("task-2", 10)),
+      toPoolTask("acme/api", makeTask("task-1", 80)),
+    ];
+    const estimates = new Map(pool.map((task) => [task.id, makeEstimate(task.id, 4_000)] as const));
+    const plans = splitPlanByRepo(buildExecutionPlan(pool, estimates, 10_000), [
+      "acme/web",
+      "acme/api",
+      "acme/docs",
+    ]);
+
+    const web = plans.get("acme/web");
+    expect(web?.selectedTasks.map((entry) => entry.task.id)).toEqual(["task-1"]);
+    expect(web?.selectedTasks[0].estimate.taskId).toBe("task-1");
+    expect(web?.deferredTasks).toMatchObject([
+      { task: { id: "task-2" }, reason: "budget_exceeded" },
+    ]);
+    expect(web?.totalBudget).toBe(4_000);
+
+    const api = plans.get("acme/api");
+    expect(api?.selectedTasks.map((entry) => entry.task.id)).toEqual(["task-1"]);
+    expect(api?.selectedTasks[0].cumulativeBudgetUsed).toBe(4_000);
+
+    expect(plans.get("acme/docs")?.selectedTasks).toEqual([]);
+  });
+});
+
+describe("runMultiRepoPipeline", () => {
+  it("plans scanned tasks for every repo without analyzing epics", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const ctx = {
+      options: { dryRun: true },
+      globalOptions: {},
+      runId: "run-1",
+      ui: chalk,
+      suppressOutput: true,
+      outputJson: true,
+    } as unknown as PipelineContext;
+    const config = loadConfig({ repos: ["acme/web", "acme/api"] });
+
+    await runMultiRepoPipeline(ctx, {
+      repos: resolveRunRepos({}, config) ?? [],
+      config,
+      providerId: "claude-code",
+      providerIds: ["claude-code"],
+      totalBudget: 100_000,
+      concurrency: 2,
+      timeoutSeconds: 60,
+      maxAttempts: 1,
+      mode: "new-pr",
+      ghToken: undefined,
+    });
+    const output = JSON.parse(String(log.mock.calls[0]?.[0])) as {
+      repos: Array<{ repo: string; plan: { selectedTasks: Array<{ task: Task }> } }>;
+    };
+    log.mockRestore();
+
+    expect(analyzeEpics).not.toHaveBeenCalled();
+    expect(
+      output.repos.map(({ repo, plan }) => [repo, plan.selectedTasks.map(({ task }) => task.id)]),
+    ).toEqual([
+      ["acme/web", ["task-1"]],
+      ["acme/api", ["task-1"]],
+    ]);
+  });
+});
+
+describe("summarizeRepoRuns", () => {
+  it("groups the run summary by repo", () => {
+    const ctx = { options: {}, runId: "run-1" } as unknown as PipelineContext;
+    const webTask = makeTask("task-1", 90);
+    const apiTask = makeTask("task-2", 80);
+    const plan = (task: Task) => ({
+      totalBudget: 4_000,
+      selectedTasks: [
+        { task, estimate: makeEstimate(task.id, 4_000), cumulativeBudgetUsed: 4_000 },
+      ],
+      deferredTasks: [],
+      reserveTokens: 0,
+      remainingTokens: 0,
+    });
+
+    const summary = summarizeRepoRuns(ctx, {
+      results: [
+        {
+          resolvedRepo: { fullName: "acme/web" } as never,
+          plan: plan(webTask),
+          completedTasks: [makeResult(webTask, true)],
+        },
+        {
+          resolvedRepo: { fullName: "acme/api" } as never,
+          plan: plan(apiTask),
+          completedTasks: [makeResult(apiTask, false)],
+        },
+      ],
+      providerId: "claude-code",
+      totalBudget: 10_000,
+    });
+
+    expect(summary.repos).toMatchObject([
+      { repo: "acme/web", tasksCompleted: 1, tasksFailed: 0, prsCreated: 1, tokensBudgeted: 4_000 },
+      { repo: "acme/api", tasksCompleted: 0, tasksFailed: 1, prsCreated: 0, tokensBudgeted: 4_000 },
+    ]);
+    expect(summary).toMatchObject({
+      selectedTasks: 2,
+      tasksCompleted: 1,
+      tasksFailed: 1,
+      prsCreated: 1,
+      tokensUsed: 1_600,
+      tokensBudgeted: 10_000,
+    });
+  });
+});
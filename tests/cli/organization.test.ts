@@ -0,0 +1,208 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  createRoleRouter,
+  missingRoleAgents,
+  readTaskOrganization,
+  repoGoals,
+  withOrganization,
+} from "../../src/cli/commands/run/organization.js";
+import { buildContributionLog } from "../../src/cli/commands/run/tracking.js";
+import type { TaskRunResult } from "../../src/cli/commands/run/types.js";
+import type { Task } from "../../src/core/index.js";
+import { rankTasks } from "../../src/discovery/index.js";
+import type { AgentProvider } from "../../src/execution/agents/agent.interface.js";
+import { buildTaskPrompt } from "../../src/execution/prompts.js";
+import { OrganizationSchema } from "../../src/organization/index.js";
+import { contributionLogSchema } from "../../src/tracking/index.js";
+
+const organization = OrganizationSchema.parse({
+  mission: { statement: "Ship a reliable note app." },
+  projects: [
+    {
+      id: "web",
+      name: "Web client",
+      repos: ["acme/web"],
+      goals: [
+        { id: "mvp", title: "MVP launch", description: "Launch the MVP.", priority: 90 },
+        { id: "docs", title: "Docs", description: "Write docs.", priority: 40 },
+      ],
+    },
+  ],
+  roles: [
+    {
+      id: "qa",
+      name: "QA engineer",
+      agent: "codex-cli",
+      repos: ["web"],
+      taskSources: ["test-gap"],
+      systemPrompt: "You care about test coverage above all.",
+    },
+  ],
+});
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "task-1",
+    source: "test-gap",
+    title: "Add tests for the editor",
+    description: "The editor has no tests.",
+    targetFiles: ["src/editor.ts"],
+    priority: 70,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: {},
+    discoveredAt: "2026-02-16T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+/** A task the ranker matched to the MVP goal. */
+function makeMvpTask(overrides: Partial<Task> = {}): Task {
+  const goalMatch = {
+    goalId: "mvp",
+    goalTitle: "MVP launch",
+    goalPriority: 90,
+    boost: 9,
+    matchedOn: ["keyword:editor"],
+  };
+  return makeTask({ metadata: { goalMatch }, ...overrides });
+}
+
+function makeAdapter(id: string): AgentProvider {
+  return {
+    id,
+    name: id,
+    checkAvailability: vi.fn(),
+    execute: vi.fn(),
+    estimateTokens: vi.fn(),
+    abort: vi.fn(),
+  };
+}
+
+function makeResult(task: Task): TaskRunResult {
+  return {
+    task,
+    estimate: {
+      taskId: task.id,
+      providerId: "claude-code",
+      contextTokens: 0,
+      promptTokens: 0,
+      expectedOutputTokens: 0,
+      totalEstimatedTokens: 4_000,
+      confidence: 0.8,
+      feasible: true,
+    },
+    execution: {
+      success: true,
+      exitCode: 0,
+      totalTokensUsed: 3_000,
+      filesChanged: ["src/editor.test.ts"],
+      duration: 12,
+    },
+    provider: "claude-code",
+  };
+}
+
+describe("withOrganization", () => {
+  it("attaches the role and goal alignment and renders them into the prompt", () => {
+    const task = withOrganization(makeMvpTask(), organization, "acme/web");
+
+    expect(task.metadata.organization).toMatchObject({
+      role: { id: "qa", name: "QA engineer", agent: "codex-cli" },
+      goalAlignment: {
+        missionStatement: "Ship a reliable note app.",
+        projectId: "web",
+        goalId: "mvp",
+        goalTitle: "MVP launch",
+      },
+    });
+
+    const prompt = buildTaskPrompt(task);
+    expect(prompt.startsWith("You care about test coverage above all.\n\n")).toBe(true);
+    expect(prompt).toContain("Role: QA engineer");
+    expect(prompt).toContain("Mission: Ship a reliable note app.");
+    expect(prompt).toContain("Goal: MVP launch (priority: 90)");
+  });
+
+  it("aligns the task with the goal the ranker matched", () => {
+    const goals = repoGoals(organization, "acme/web");
+    expect(goals.map((goal) => goal.id)).toEqual(["mvp", "docs"]);
+
+    const [ranked] = rankTasks([makeTask({ title: "Document the editor API" })], {
+      goals: [{ ...goals[1], keywords: ["document"] }],
+    });
+    const task = withOrganization(ranked, organization, "acme/web");
+
+    expect(readTaskOrganization(task)?.goalAlignment).toMatchObject({ goalId: "docs" });
+    expect(buildTaskPrompt(task)).toContain("Goal: Docs (priority: 40)");
+  });
+
+  it("records only the mission and project for a task that matches no goal", () => {
+    const task = withOrganization(makeTask(), organization, "acme/web");
+
+    const alignment = readTaskOrganization(task)?.goalAlignment;
+    expect(alignment).toEqual({ missionStatement: "Ship a reliable note app.", projectId: "web" });
+    const prompt = buildTaskPrompt(task);
+    expect(prompt).toContain("Project: Web client");
+    expect(prompt).not.toContain("Goal:");
+  });
+
+  it("leaves tasks outside the organization untouched", () => {
+    const task = makeTask();
+    const withoutMission = OrganizationSchema.parse({ ...organization, mission: undefined });
+
+    expect(withOrganization(task, withoutMission, "acme/api")).toBe(task);
+    expect(withOrganization(task, undefined, "acme/web")).toBe(task);
+    expect(buildTaskPrompt(task)).not.toContain("Role:");
+  });
+});
+
+describe("role routing", () => {
+  it("resolves provider aliases in role agents", () => {
+    const chain = [makeAdapter("claude-code")];
+    expect(missingRoleAgents(organization, chain)).toEqual(["codex"]);
+
+    const codex = makeAdapter("codex");
+    const router = createRoleRouter(organization, [...chain, codex]);
+    expect(router?.selectAgent(makeTask(), "acme/web")).toBe(codex);
+    expect(createRoleRouter(OrganizationSchema.parse({}), chain)).toBeUndefined();
+  });
+});
+
+describe("buildContributionLog", () => {
+  it("records why each task ran and the goal it served", () => {
+    const task = withOrganization(makeMvpTask(), organization, "acme/web");
+    const skipped = makeTask({ id: "task-2", title: "Add tests for the toolbar" });
+
+    const log = buildContributionLog({
+      runId: "run-1",
+      repoFullName: "acme/web",
+      repoHeadSha: "abc1234",
+      defaultBranch: "main",
+      repoOwner: "acme",
+      providerId: "claude-code",
+      totalBudget: 10_000,
+      runDurationSeconds: 30,
+      discoveredTasks: 2,
+      candidateTasks: [task, skipped],
+      taskResults: [makeResult(task), makeResult(makeTask({ id: "task-3" }))],
+    });
+
+    expect(contributionLogSchema.safeParse(log).success).toBe(true);
+    expect(log.tasks[0].decisionContext).toMatchObject({
+      taskSelectionReason:
+        'Planned within the token budget (priority 70); routed to role "QA engineer" (codex-cli); serves goal "MVP launch"',
+      alternativeTasks: [
+        {
+          taskId: "task-2",
+          title: "Add tests for the toolbar",
+          reason: "Not selected for this run",
+        },
+      ],
+      goalAlignment: { projectId: "web", goalId: "mvp" },
+      budgetConsiderations: { estimatedCost: 4_000, remainingBudget: 6_000, priorityScore: 70 },
+    });
+    expect(log.tasks[1].decisionContext).toBeUndefined();
+  });
+});
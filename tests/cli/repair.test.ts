@@ -0,0 +1,267 @@
+import { mkdtemp, rm, unlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import chalk from "chalk";
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { buildRepairPrompt } from "../../src/cli/commands/run/repair.js";
+import type { PipelineContext, TaskRunResult } from "../../src/cli/commands/run/types.js";
+import { runValidationStage } from "../../src/cli/commands/run/validation.js";
+import { ValidationSchema, createEventBus } from "../../src/core/index.js";
+import type { Task } from "../../src/core/index.js";
+import type {
+  AgentExecuteParams,
+  AgentProvider,
+} from "../../src/execution/agents/agent.interface.js";
+
+let repoPath = "";
+
+const CHECK_SCRIPT = [
+  'const value = require("node:fs").readFileSync("value.txt", "utf8").trim();',
+  'if (value !== "fixed") {',
+  "  console.error(`expected fixed, got ${value}`);",
+  "  process.exit(1);",
+  "}",
+].join("\n");
+
+async function git(...args: string[]): Promise<void> {
+  await execa("git", args, { cwd: repoPath });
+}
+
+/** A repo whose `npm test` passes only when value.txt says "fixed", with a bad change committed. */
+async function makeRepo(): Promise<void> {
+  repoPath = await mkdtemp(join(tmpdir(), "oac-repair-"));
+  await git("init", "-q", "-b", "main");
+  await git("config", "user.email", "oac@example.com");
+  await git("config", "user.name", "OAC");
+  await writeFile(
+    join(repoPath, "package.json"),
+    JSON.stringify({ name: "fixture", scripts: { test: "node check.js" } }),
+  );
+  await writeFile(join(repoPath, "check.js"), CHECK_SCRIPT);
+  await writeFile(join(repoPath, "value.txt"), "base\n");
+  await git("add", "-A");
+  await git("commit", "-q", "-m", "base");
+  await git("update-ref", "refs/remotes/origin/main", "HEAD");
+
+  await writeFile(join(repoPath, "value.txt"), "broken\n");
+  await git("commit", "-q", "-am", "agent change");
+}
+
+function makeTask(): Task {
+  return {
+    id: "task-1",
+    source: "lint",
+    title: "Update value",
+    description: "Set value.txt to the right value.",
+    targetFiles: ["value.txt"],
+    priority: 50,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: {},
+    discoveredAt: "2026-02-16T00:00:00.000Z",
+  };
+}
+
+function makeResult(): TaskRunResult {
+  const task = makeTask();
+  return {
+    jobId: "job-1",
+    task,
+    estimate: {
+      taskId: task.id,
+      providerId: "test-agent",
+      contextTokens: 0,
+      promptTokens: 0,
+      expectedOutputTokens: 0,
+      totalEstimatedTokens: 1_000,
+      confidence: 0.8,
+      feasible: true,
+    },
+    execution: {
+      success: true,
+      exitCode: 0,
+      totalTokensUsed: 500,
+      filesChanged: ["value.txt"],
+      duration: 1,
+    },
+    sandbox: { branchName: "oac/test", sandboxPath: repoPath, cleanup: async () => {} },
+  };
+}
+
+function makeContext(): PipelineContext {
+  return {
+    options: {},
+    globalOptions: { config: "oac.config.ts", verbose: false, json: false, color: false },
+    ui: chalk,
+    outputJson: false,
+    suppressOutput: true,
+    runId: "run-1",
+    runStartedAt: Date.now(),
+    eventBus: createEventBus(),
+  } as unknown as PipelineContext;
+}
+
+/** Agent that runs `edit` in the sandbox and reports `tokens` used. */
+function makeAgent(
+  edit: (cwd: string) => Promise<void>,
+  tokens = 120,
+): AgentProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    id: "test-agent",
+    name: "Test Agent",
+    prompts,
+    checkAvailability: vi.fn().mockResolvedValue({ available: true }),
+    estimateTokens: vi.fn(),
+    abort: vi.fn(),
+    execute: (params: AgentExecuteParams) => {
+      prompts.push(params.prompt);
+      const result = edit(params.workingDirectory).then(() => ({
+        success: true,
+        exitCode: 0,
+        totalTokensUsed: tokens,
+        filesChanged: [],
+        duration: 1,
+      }));
+      return {
+        executionId: params.executionId,
+        providerId: "test-agent",
+        events: (async function* () {})(),
+        result,
+      };
+    },
+  };
+}
+
+function settings(overrides: Record<string, unknown>) {
+  return ValidationSchema.parse({ lint: false, typeCheck: false, ...overrides });
+}
+
+beforeEach(async () => {
+  await makeRepo();
+});
+
+afterEach(async () => {
+  await rm(repoPath, { recursive: true, force: true });
+});
+
+describe("runValidationStage repair loop", () => {
+  it("feeds the failing test output back to the agent and records the round", async () => {
+    const agent = makeAgent((cwd) => writeFile(join(cwd, "value.txt"), "fixed\n"));
+
+    const result = await runValidationStage(makeContext(), makeResult(), {
+      settings: settings({ repair: { maxRounds: 2 } }),
+      repoPath,
+      baseBranch: "main",
+      repair: { adapter: agent, timeoutSeconds: 30 },
+    });
+
+    expect(agent.prompts).toHaveLength(1);
+    expect(agent.prompts[0]).toContain("Failed test gate: `npm run test`");
+    expect(agent.prompts[0]).toContain("expected fixed, got broken");
+    expect(result.repairRounds).toEqual([
+      { round: 1, trigger: ["test"], tokensUsed: 120, passed: true, error: undefined },
+    ]);
+    expect(result.validation?.action).toBe("none");
+    expect(result.execution.success).toBe(true);
+    expect(result.execution.totalTokensUsed).toBe(620);
+  }, 60_000);
+
+  it("stops at maxRounds and applies onFailure", async () => {
+    const agent = makeAgent(async () => {});
+
+    const result = await runValidationStage(makeContext(), makeResult(), {
+      settings: settings({ onFailure: "block", repair: { maxRounds: 2 } }),
+      repoPath,
+      baseBranch: "main",
+      repair: { adapter: agent, timeoutSeconds: 30 },
+    });
+
+    expect(result.repairRounds?.map((round) => round.passed)).toEqual([false, false]);
+    expect(result.validation?.action).toBe("blocked");
+    expect(result.execution.success).toBe(false);
+    expect(result.execution.error).toBe("Validation gates failed: test");
+  }, 60_000);
+
+  it("stops once the repair token budget is spent", async () => {
+    const agent = makeAgent(async () => {}, 150);
+
+    const result = await runValidationStage(makeContext(), makeResult(), {
+      settings: settings({ repair: { maxRounds: 3, tokenBudget: 100 } }),
+      repoPath,
+      baseBranch: "main",
+      repair: { adapter: agent, timeoutSeconds: 30 },
+    });
+
+    expect(result.repairRounds).toHaveLength(1);
+    expect(result.validation?.action).toBe("draft");
+  }, 60_000);
+
+  it("blocks diff policy violations and repairs them when possible", async () => {
+    await writeFile(join(repoPath, "value.txt"), "fixed\n");
+    await writeFile(join(repoPath, ".env"), "SECRET=1\n");
+    await git("add", "-A");
+    await git("commit", "-q", "-m", "agent change with secret");
+
+    const blocked = await runValidationStage(makeContext(), makeResult(), {
+      settings: settings({}),
+      repoPath,
+      baseBranch: "main",
+    });
+    expect(blocked.validation?.action).toBe("blocked");
+    expect(blocked.validation?.diffErrors).toEqual(["Protected files were modified: .env."]);
+    expect(blocked.repairRounds).toBeUndefined();
+
+    const agent = makeAgent((cwd) => unlink(join(cwd, ".env")));
+    const repaired = await runValidationStage(makeContext(), makeResult(), {
+      settings: settings({ repair: { maxRounds: 1 } }),
+      repoPath,
+      baseBranch: "main",
+      repair: { adapter: agent, timeoutSeconds: 30 },
+    });
+    expect(agent.prompts[0]).toContain("- Protected files were modified: .env.");
+    expect(repaired.repairRounds?.[0]).toMatchObject({ trigger: ["diff"], passed: true });
+    expect(repaired.execution.success).toBe(true);
+    expect(repaired.execution.filesChanged).toEqual(["value.txt"]);
+  }, 60_000);
+});
+
+describe("buildRepairPrompt", () => {
+  it("includes the original task, diff errors and failed gate output", () => {
+    const prompt = buildRepairPrompt(makeTask(), {
+      passed: false,
+      diff: { valid: false, warnings: [], errors: ["Diff too large: 900 changed lines."] },
+      gates: {
+        passed: false,
+        results: [
+          {
+            gate: "lint",
+            command: "pnpm run lint",
+            status: "passed",
+            exitCode: 0,
+            durationMs: 1,
+            timedOut: false,
+          },
+          {
+            gate: "typeCheck",
+            command: "pnpm run typecheck",
+            status: "failed",
+            exitCode: null,
+            durationMs: 1,
+            timedOut: true,
+            output: "src/a.ts(1,1): error TS2304",
+          },
+        ],
+      },
+    });
+
+    expect(prompt).toContain("Set value.txt to the right value.");
+    expect(prompt).toContain("- Diff too large: 900 changed lines.");
+    expect(prompt).toContain("Failed typeCheck gate: `pnpm run typecheck` (timed out)");
+    expect(prompt).toContain("src/a.ts(1,1): error TS2304");
+    expect(prompt).not.toContain("pnpm run lint");
+  });
+});
@@ -0,0 +1,307 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import chalk from "chalk";
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { buildReviewLines } from "../../src/cli/commands/run/pr.js";
+import {
+  REVIEW_VERDICT_FILE,
+  parseReviewVerdict,
+  runReviewStage,
+} from "../../src/cli/commands/run/review.js";
+import type { PipelineContext, TaskRunResult } from "../../src/cli/commands/run/types.js";
+import { ReviewSchema, createEventBus } from "../../src/core/index.js";
+import type { Task } from "../../src/core/index.js";
+import type {
+  AgentExecuteParams,
+  AgentProvider,
+} from "../../src/execution/agents/agent.interface.js";
+
+let repoPath = "";
+
+async function git(...args: string[]): Promise<string> {
+  const { stdout } = await execa("git", args, { cwd: repoPath });
+  return stdout;
+}
+
+/** A repo with one committed agent change on top of `origin/main`. */
+async function makeRepo(): Promise<void> {
+  repoPath = await mkdtemp(join(tmpdir(), "oac-review-"));
+  await git("init", "-q", "-b", "main");
+  await git("config", "user.email", "oac@example.com");
+  await git("config", "user.name", "OAC");
+  await writeFile(join(repoPath, "value.txt"), "base\n");
+  await git("add", "-A");
+  await git("commit", "-q", "-m", "base");
+  await git("update-ref", "refs/remotes/origin/main", "HEAD");
+
+  await writeFile(join(repoPath, "value.txt"), "broken\n");
+  await git("commit", "-q", "-am", "agent change");
+}
+
+function makeTask(): Task {
+  return {
+    id: "task-1",
+    source: "lint",
+    title: "Update value",
+    description: "Set value.txt to the right value.",
+    targetFiles: ["value.txt"],
+    priority: 50,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: {},
+    discoveredAt: "2026-02-16T00:00:00.000Z",
+  };
+}
+
+function makeResult(): TaskRunResult {
+  const task = makeTask();
+  return {
+    jobId: "job-1",
+    task,
+    estimate: {
+      taskId: task.id,
+      providerId: "test-agent",
+      contextTokens: 0,
+      promptTokens: 0,
+      expectedOutputTokens: 0,
+      totalEstimatedTokens: 1_000,
+      confidence: 0.8,
+      feasible: true,
+    },
+    execution: {
+      success: true,
+      exitCode: 0,
+      totalTokensUsed: 500,
+      filesChanged: ["value.txt"],
+      duration: 1,
+    },
+    sandbox: { branchName: "oac/test", sandboxPath: repoPath, cleanup: async () => {} },
+  };
+}
+
+function makeContext(): PipelineContext {
+  return {
+    options: {},
+    globalOptions: { config: "oac.config.ts", verbose: false, json: false, color: false },
+    ui: chalk,
+    outputJson: false,
+    suppressOutput: true,
+    runId: "run-1",
+    runStartedAt: Date.now(),
+    eventBus: createEventBus(),
+  } as unknown as PipelineContext;
+}
+
+/** Agent that runs `edit` in the sandbox and reports `tokens` used. */
+function makeAgent(
+  id: string,
+  edit: (cwd: string, call: number) => Promise<void>,
+  tokens = 100,
+): AgentProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    id,
+    name: id,
+    prompts,
+    checkAvailability: vi.fn().mockResolvedValue({ available: true }),
+    estimateTokens: vi.fn(),
+    abort: vi.fn(),
+    execute: (params: AgentExecuteParams) => {
+      prompts.push(params.prompt);
+      const result = edit(params.workingDirectory, prompts.length).then(() => ({
+        success: true,
+        exitCode: 0,
+        totalTokensUsed: tokens,
+        filesChanged: [],
+        duration: 1,
+      }));
+      return {
+        executionId: params.executionId,
+        providerId: id,
+        events: (async function* () {})(),
+        result,
+      };
+    },
+  };
+}
+
+/** Reviewer that answers with the given verdicts in turn and scribbles on the tree. */
+function makeReviewer(verdicts: Record<string, unknown>[]) {
+  return makeAgent("critic", async (cwd, call) => {
+    await mkdir(join(cwd, ".oac"), { recursive: true });
+    await writeFile(join(cwd, REVIEW_VERDICT_FILE), JSON.stringify(verdicts[call - 1]));
+    await writeFile(join(cwd, "value.txt"), "reviewer edit\n");
+  });
+}
+
+function settings(overrides: Record<string, unknown> = {}) {
+  return ReviewSchema.parse({ enabled: true, ...overrides });
+}
+
+beforeEach(async () => {
+  await makeRepo();
+});
+
+afterEach(async () => {
+  await rm(repoPath, { recursive: true, force: true });
+});
+
+describe("runReviewStage", () => {
+  it("records an approval and discards anything the reviewer touched", async () => {
+    const reviewer = makeReviewer([
+      { verdict: "approve", confidence: 0.9, summary: "Looks good." },
+    ]);
+
+    const result = await runReviewStage(makeContext(), makeResult(), {
+      settings: settings(),
+      reviewer,
+      baseBranch: "main",
+      timeoutSeconds: 30,
+    });
+
+    expect(reviewer.prompts[0]).toContain("Title: Update value");
+    expect(reviewer.prompts[0]).toContain("+broken");
+    expect(result.review).toMatchObject({
+      reviewer: "critic",
+      verdict: "approve",
+      confidence: 0.9,
+      action: "none",
+      rounds: 0,
+      tokensUsed: 100,
+    });
+    expect(result.execution.success).toBe(true);
+    expect(result.execution.totalTokensUsed).toBe(600);
+    expect(await readFile(join(repoPath, "value.txt"), "utf8")).toBe("broken\n");
+    expect(await git("status", "--porcelain")).toBe("");
+  }, 60_000);
+
+  it("sends change requests back to the agent and reviews again", async () => {
+    const reviewer = makeReviewer([
+      {
+        verdict: "request_changes",
+        confidence: 0.8,
+        summary: "Wrong value.",
+        comments: [{ path: "value.txt", line: 1, body: "Should say fixed." }],
+      },
+      { verdict: "approve", confidence: 0.8, summary: "Fixed now." },
+    ]);
+    const agent = makeAgent("test-agent", (cwd) => writeFile(join(cwd, "value.txt"), "fixed\n"));
+
+    const result = await runReviewStage(makeContext(), makeResult(), {
+      settings: settings({ maxRounds: 2 }),
+      reviewer,
+      baseBranch: "main",
+      timeoutSeconds: 30,
+      repair: { adapter: agent, timeoutSeconds: 30 },
+    });
+
+    expect(agent.prompts).toHaveLength(1);
+    expect(agent.prompts[0]).toContain("- value.txt:1: Should say fixed.");
+    expect(reviewer.prompts[1]).toContain("+fixed");
+    expect(result.repairRounds).toEqual([
+      { round: 1, trigger: ["review"], tokensUsed: 100, passed: true, error: undefined },
+    ]);
+    expect(result.review).toMatchObject({ verdict: "approve", action: "none", rounds: 1 });
+    expect(result.execution.totalTokensUsed).toBe(800);
+    expect(await readFile(join(repoPath, "value.txt"), "utf8")).toBe("fixed\n");
+  }, 60_000);
+
+  it("drops a rejected change when onReject is drop", async () => {
+    const reviewer = makeReviewer([
+      { verdict: "reject", confidence: 0.95, summary: "Out of scope." },
+    ]);
+
+    const result = await runReviewStage(makeContext(), makeResult(), {
+      settings: settings({ onReject: "drop" }),
+      reviewer,
+      baseBranch: "main",
+      timeoutSeconds: 30,
+    });
+
+    expect(result.review?.action).toBe("dropped");
+    expect(result.execution.success).toBe(false);
+    expect(result.execution.error).toBe("Rejected by reviewer: Out of scope.");
+  }, 60_000);
+
+  it("opens a draft when approval confidence is too low or no verdict is written", async () => {
+    const unsure = makeReviewer([{ verdict: "approve", confidence: 0.3 }]);
+    const lowConfidence = await runReviewStage(makeContext(), makeResult(), {
+      settings: settings({ maxRounds: 0 }),
+      reviewer: unsure,
+      baseBranch: "main",
+      timeoutSeconds: 30,
+    });
+    expect(lowConfidence.review).toMatchObject({ verdict: "approve", action: "draft" });
+    expect(lowConfidence.execution.success).toBe(true);
+
+    const silent = makeAgent("critic", async () => {});
+    const noVerdict = await runReviewStage(makeContext(), makeResult(), {
+      settings: settings({ maxRounds: 0 }),
+      reviewer: silent,
+      baseBranch: "main",
+      timeoutSeconds: 30,
+    });
+    expect(noVerdict.review).toMatchObject({
+      verdict: "request_changes",
+      confidence: 0,
+      action: "draft",
+    });
+  }, 60_000);
+
+  it("is a no-op when review is disabled", async () => {
+    const reviewer = makeReviewer([]);
+    const input = makeResult();
+
+    const result = await runReviewStage(makeContext(), input, {
+      settings: ReviewSchema.parse({}),
+      reviewer,
+      baseBranch: "main",
+      timeoutSeconds: 30,
+    });
+
+    expect(result).toBe(input);
+    expect(reviewer.prompts).toHaveLength(0);
+  });
+});
+
+describe("parseReviewVerdict", () => {
+  it("prefers the verdict file and falls back to the last JSON line of output", () => {
+    expect(
+      parseReviewVerdict('{"verdict":"reject","confidence":2}', ['{"verdict":"approve"}']),
+    ).toEqual({ verdict: "reject", confidence: 1, summary: "", comments: [] });
+    expect(
+      parseReviewVerdict(undefined, [
+        '{"verdict":"approve","confidence":0.7}',
+        "done",
+        '{"verdict":"request_changes","summary":"nit"}',
+      ]),
+    ).toMatchObject({ verdict: "request_changes", confidence: 0.5, summary: "nit" });
+    expect(parseReviewVerdict("not json", ['{"verdict":"maybe"}'])).toBeUndefined();
+  });
+});
+
+describe("buildReviewLines", () => {
+  it("summarizes the verdict and comments for the PR body", () => {
+    const lines = buildReviewLines({
+      reviewer: "critic",
+      verdict: "request_changes",
+      confidence: 0.7,
+      summary: "One nit left.",
+      comments: [{ path: "src/a.ts", line: 3, body: "Rename this." }],
+      rounds: 1,
+      tokensUsed: 10,
+      action: "draft",
+    });
+
+    expect(lines).toContain("## Automated Review");
+    expect(lines).toContain(
+      "- **Verdict:** 📝 changes requested after 1 repair round(s) (confidence 0.70)",
+    );
+    expect(lines).toContain("- `src/a.ts:3`: Rename this.");
+    expect(lines.at(-1)).toContain("opened as a draft");
+  });
+});
@@ -18,15 +18,18 @@ interface RunStatus {
   tasks: Array<{
     taskId: string;
     title: string;
-    status: "pending" | "running" | "completed" | "failed";
+    status: "pending" | "running" | "completed" | "failed" | "aborted";
     startedAt?: string;
     completedAt?: string;
     error?: string;
+    stage?: string;
+    tokensUsed?: number;
   }>;
 }
 
 interface StatusJsonPayload {
   active: boolean;
+  stale?: boolean;
   message?: string;
   status?: RunStatus;
 }
@@ -141,6 +144,47 @@ describe("createStatusCommand", () => {
     expect(payload.status?.tasks).toHaveLength(3);
   });
 
+  it("flags status files left behind by crashed runs as stale", async () => {
+    mockedReadFile.mockResolvedValue(
+      JSON.stringify({
+        ...makeRunStatus(),
+        pid: 999_999_999,
+        updatedAt: "2026-02-16T12:05:00+00:00",
+      }),
+    );
+
+    const payload = await runStatusJson();
+
+    expect(payload.active).toBe(false);
+    expect(payload.stale).toBe(true);
+
+    const output = await runStatusTable();
+    expect(output).toContain("Stale run detected");
+  });
+
+  it("shows token usage and current stage for running tasks", async () => {
+    const status = makeRunStatus();
+    status.tasks[0] = { ...status.tasks[0], stage: "tool:Edit", tokensUsed: 12_345 };
+    mockedReadFile.mockResolvedValue(JSON.stringify({ ...status, tokensUsed: 12_345 }));
+
+    const output = await runStatusTable();
+
+    expect(output).toContain("Tokens Used: 12,345");
+    expect(output).toContain("task-running (Implement command, tool:Edit, 12,345 tokens)");
+  });
+
+  it("lists tasks aborted before they started", async () => {
+    const status = makeRunStatus();
+    status.tasks.push({ taskId: "task-queued", title: "Update docs", status: "aborted" });
+    mockedReadFile.mockResolvedValue(
+      JSON.stringify({ ...status, finishedAt: "2026-02-16T12:05:00+00:00" }),
+    );
+
+    const output = await runStatusTable();
+
+    expect(output).toContain("Aborted Tasks (1): task-queued (Update docs)");
+  });
+
   it("enables polling when --watch is set", async () => {
     mockedReadFile.mockResolvedValue(JSON.stringify(makeRunStatus()));
 
@@ -0,0 +1,183 @@
+import { access, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { Command } from "commander";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { executeWithAgent } from "../../src/cli/commands/run/task.js";
+import { createTranscriptCommand, tokenCurve } from "../../src/cli/commands/transcript.js";
+import type { Task, TokenEstimate } from "../../src/core/index.js";
+import type { AgentProvider } from "../../src/execution/index.js";
+import type { TranscriptEntry } from "../../src/tracking/index.js";
+import { openTranscript } from "../../src/tracking/index.js";
+
+vi.mock("../../src/execution/index.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/execution/index.js")>()),
+  createSandbox: async (repoPath: string) => ({ path: repoPath, cleanup: async () => {} }),
+}));
+
+vi.mock("../../src/cli/commands/run/commit.js", () => ({
+  commitSandboxChanges: async () => ({ hasChanges: true, filesChanged: ["src/a.ts"] }),
+}));
+
+const originalCwd = process.cwd();
+let repoPath = "";
+
+function createRootProgram(): Command {
+  const root = new Command()
+    .option("--config <path>", "Config file path", "oac.config.ts")
+    .option("--verbose", "Enable verbose logging", false)
+    .option("--json", "Output machine-readable JSON", false)
+    .option("--no-color", "Disable ANSI colors");
+
+  root.addCommand(createTranscriptCommand());
+  return root;
+}
+
+async function runTranscript(args: string[]): Promise<string> {
+  const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+  await createRootProgram().parseAsync(["node", "oac", "--no-color", ...args]);
+  return logSpy.mock.calls.map((call) => String(call[0])).join("\n");
+}
+
+beforeEach(async () => {
+  repoPath = await mkdtemp(join(tmpdir(), "oac-transcript-cli-"));
+  process.chdir(repoPath);
+
+  const writer = await openTranscript({
+    repoPath,
+    runId: "0f1e2d3c-run",
+    executionId: "exec-1",
+    start: { taskId: "abc123", title: "Remove unused import", provider: "claude-code" },
+  });
+  writer.record({ type: "output", content: "Looking at src/a.ts", stream: "stdout" });
+  writer.record({ type: "tool_use", tool: "Edit", input: { file_path: "src/a.ts" } });
+  writer.record({ type: "file_edit", path: "src/a.ts", action: "modify" });
+  writer.record({ type: "tokens", inputTokens: 900, outputTokens: 300, cumulativeTokens: 1200 });
+  await writer.close({ success: true, totalTokensUsed: 1200, filesChanged: ["src/a.ts"] });
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  process.chdir(originalCwd);
+  await rm(repoPath, { recursive: true, force: true });
+});
+
+describe("createTranscriptCommand", () => {
+  it("lists transcripts as JSON", async () => {
+    const output = await runTranscript(["--json", "transcript"]);
+    const payload = JSON.parse(output) as { total: number; transcripts: unknown[] };
+
+    expect(payload.total).toBe(1);
+    expect(payload.transcripts[0]).toMatchObject({
+      runId: "0f1e2d3c-run",
+      taskId: "abc123",
+      provider: "claude-code",
+      success: true,
+      totalTokensUsed: 1200,
+      events: 4,
+    });
+  });
+
+  it("pretty-prints tool calls, file edits and the token curve for a task prefix", async () => {
+    const output = await runTranscript(["transcript", "abc"]);
+
+    expect(output).toContain("Remove unused import");
+    expect(output).toContain("⚙ Edit");
+    expect(output).toContain("✎ modify src/a.ts");
+    expect(output).toContain("■ finished · 1,200 tokens");
+    expect(output).toMatch(/Tokens [▁-█]+ 1,200/);
+    expect(output).not.toContain("Σ");
+  });
+
+  it("filters events by type", async () => {
+    const output = await runTranscript(["transcript", "abc123", "--type", "file_edit"]);
+
+    expect(output).toContain("✎ modify src/a.ts");
+    expect(output).not.toContain("Looking at src/a.ts");
+    expect(output).not.toContain("⚙ Edit");
+    await expect(runTranscript(["transcript", "abc123", "--type", "bogus"])).rejects.toThrow(
+      /Unknown event type/,
+    );
+  });
+
+  it("fails clearly for an unknown task", async () => {
+    await expect(runTranscript(["transcript", "zzz"])).rejects.toThrow(
+      'No transcript found for task "zzz".',
+    );
+  });
+});
+
+describe("transcripts written by oac run", () => {
+  it("are listed by oac transcript in the working directory, not in the cache clone", async () => {
+    const clonePath = await mkdtemp(join(tmpdir(), "oac-transcript-clone-"));
+    const adapter = {
+      id: "claude-code",
+      name: "Claude Code",
+      execute: () => ({
+        executionId: "exec-2",
+        providerId: "claude-code",
+        events: (async function* () {
+          yield { type: "file_edit" as const, path: "src/a.ts", action: "modify" as const };
+        })(),
+        result: Promise.resolve({
+          success: true,
+          exitCode: 0,
+          totalTokensUsed: 500,
+          filesChanged: ["src/a.ts"],
+          duration: 1_000,
+        }),
+      }),
+      abort: async () => {},
+    } as unknown as AgentProvider;
+
+    try {
+      const result = await executeWithAgent({
+        task: {
+          id: "def456",
+          source: "lint",
+          title: "Fix typo",
+          description: "Fix the typo in src/a.ts",
+          targetFiles: ["src/a.ts"],
+          priority: 50,
+          complexity: "trivial",
+          executionMode: "new-pr",
+          metadata: {},
+          discoveredAt: "2026-01-01T00:00:00.000Z",
+        } satisfies Task,
+        estimate: { totalEstimatedTokens: 10_000 } as TokenEstimate,
+        adapter,
+        repoPath: clonePath,
+        baseBranch: "main",
+        timeoutSeconds: 60,
+        runId: "9a8b7c6d-run",
+      });
+
+      const output = await runTranscript(["--json", "transcript", "--run", "9a8b"]);
+      const payload = JSON.parse(output) as { transcripts: Array<{ relativePath: string }> };
+
+      expect(payload.transcripts).toEqual([
+        expect.objectContaining({ taskId: "def456", success: true, totalTokensUsed: 500 }),
+      ]);
+      expect(result.transcript).toBe(payload.transcripts[0]?.relativePath);
+      await expect(access(join(clonePath, ".oac"))).rejects.toThrow();
+    } finally {
+      await rm(clonePath, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("tokenCurve", () => {
+  it("draws cumulative tokens as a rising sparkline", () => {
+    const entries: TranscriptEntry[] = [100, 400, 800, 1600].map((tokens, index) => ({
+      ts: new Date(index * 1_000).toISOString(),
+      executionId: "exec",
+      type: "tokens",
+      cumulativeTokens: tokens,
+    }));
+
+    expect(tokenCurve(entries)).toBe("▁▃▅█ 1,600");
+    expect(tokenCurve([])).toBeUndefined();
+  });
+});
@@ -59,6 +59,7 @@ describe("validateDiff", () => {
       valid: true,
       warnings: [],
       errors: [],
+      linesChanged: 6,
     });
   });
 
@@ -87,6 +88,14 @@ describe("validateDiff", () => {
     expect(result.warnings).toContain("Diff is near the maximum size (401/500 changed lines).");
   });
 
+  it("diffs against baseRef when one is given", async () => {
+    await validateDiff("/tmp/repo", undefined, { baseRef: "origin/main" });
+
+    expect(mockGit.diffSummary).toHaveBeenCalledWith(["origin/main"]);
+    expect(mockGit.diff).toHaveBeenCalledWith(["--name-only", "origin/main"]);
+    expect(mockGit.diff).toHaveBeenCalledWith(["--no-color", "--unified=0", "origin/main"]);
+  });
+
   it("returns a warning when no lines were changed", async () => {
     configureGitState({
       insertions: 0,
@@ -0,0 +1,173 @@
+import { lstat, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  detectValidationCommands,
+  runValidationGates,
+} from "../../src/completion/validation-gates.js";
+
+let repoPath = "";
+
+async function writeRepoFile(relativePath: string, content: string): Promise<void> {
+  const absolutePath = join(repoPath, relativePath);
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, content, "utf8");
+}
+
+async function writePackageJson(scripts: Record<string, string>): Promise<void> {
+  await writeRepoFile("package.json", JSON.stringify({ name: "fixture", scripts }));
+}
+
+beforeEach(async () => {
+  repoPath = await mkdtemp(join(tmpdir(), "oac-validation-gates-"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(repoPath, { recursive: true, force: true });
+});
+
+describe("detectValidationCommands", () => {
+  it("uses package.json scripts through the detected package manager", async () => {
+    await writePackageJson({ lint: "biome check .", test: "vitest run", typecheck: "tsc" });
+    await writeRepoFile("pnpm-lock.yaml", "");
+
+    const commands = await detectValidationCommands(repoPath);
+
+    expect(commands).toEqual([
+      { gate: "lint", command: "pnpm", args: ["run", "lint"] },
+      { gate: "test", command: "pnpm", args: ["run", "test"] },
+      { gate: "typeCheck", command: "pnpm", args: ["run", "typecheck"] },
+    ]);
+  });
+
+  it("falls back to tsc for TypeScript projects and ignores the npm placeholder test", async () => {
+    await writePackageJson({ test: 'echo "Error: no test specified" && exit 1' });
+    await writeRepoFile("tsconfig.json", "{}");
+
+    const commands = await detectValidationCommands(repoPath);
+
+    expect(commands).toEqual([
+      { gate: "typeCheck", command: "npx", args: ["--no-install", "tsc", "--noEmit"] },
+    ]);
+  });
+
+  it("detects Python, Go and Rust toolchains", async () => {
+    await writeRepoFile("pyproject.toml", "[tool.ruff]\n[tool.mypy]\n[tool.pytest.ini_options]\n");
+    await writeRepoFile("go.mod", "module example.com/app\n");
+    await writeRepoFile("Cargo.toml", '[package]\nname = "app"\n');
+
+    const commands = await detectValidationCommands(repoPath);
+
+    expect(commands.map((command) => [command.gate, command.command])).toEqual([
+      ["lint", "ruff"],
+      ["test", "python"],
+      ["typeCheck", "mypy"],
+      ["lint", "go"],
+      ["test", "go"],
+      ["typeCheck", "go"],
+      ["lint", "cargo"],
+      ["test", "cargo"],
+      ["typeCheck", "cargo"],
+    ]);
+  });
+
+  it("leaves out gates disabled in the settings", async () => {
+    await writeRepoFile("go.mod", "module example.com/app\n");
+
+    const commands = await detectValidationCommands(repoPath, { test: false, typeCheck: false });
+
+    expect(commands.map((command) => command.gate)).toEqual(["lint"]);
+  });
+});
+
+describe("runValidationGates", () => {
+  it("passes when there is nothing to run", async () => {
+    await expect(runValidationGates(repoPath)).resolves.toEqual({ passed: true, results: [] });
+  });
+
+  it("runs each gate and keeps the output of failing ones", async () => {
+    await writePackageJson({
+      lint: "node -e \"console.log('lint ok')\"",
+      test: "node -e \"console.error('1 test failed'); process.exit(1)\"",
+    });
+
+    const report = await runValidationGates(repoPath);
+
+    expect(report.passed).toBe(false);
+    expect(report.results).toHaveLength(2);
+    expect(report.results[0]).toMatchObject({
+      gate: "lint",
+      command: "npm run lint",
+      status: "passed",
+      exitCode: 0,
+      timedOut: false,
+    });
+    expect(report.results[0]?.output).toBeUndefined();
+    expect(report.results[1]).toMatchObject({ gate: "test", status: "failed", exitCode: 1 });
+    expect(report.results[1]?.output).toContain("1 test failed");
+  });
+
+  it("skips JavaScript gates when dependencies cannot be installed", async () => {
+    await writeRepoFile(
+      "package.json",
+      JSON.stringify({
+        name: "fixture",
+        scripts: { lint: 'node -e "process.exit(1)"' },
+        devDependencies: { "fixture-dep": "1.0.0" },
+      }),
+    );
+    // Out of sync with package.json, so `npm ci` refuses to install.
+    await writeRepoFile(
+      "package-lock.json",
+      JSON.stringify({ name: "fixture", lockfileVersion: 3, packages: {} }),
+    );
+
+    const report = await runValidationGates(repoPath);
+
+    expect(report.passed).toBe(true);
+    expect(report.results).toEqual([
+      expect.objectContaining({ gate: "lint", command: "npm run lint", status: "skipped" }),
+    ]);
+    expect(report.results[0]?.output).toContain("Dependencies not installed: `npm ci` failed");
+    await expect(lstat(join(repoPath, "node_modules"))).rejects.toThrow();
+  });
+
+  it("installs without a lockfile and leaves none behind", async () => {
+    await writeRepoFile("fixture-dep/package.json", JSON.stringify({ name: "fixture-dep" }));
+    await writeRepoFile("fixture-dep/index.js", "module.exports = 1;");
+    await writeRepoFile(
+      "package.json",
+      JSON.stringify({
+        name: "fixture",
+        scripts: { lint: "node -e \"require('fixture-dep')\"" },
+        dependencies: { "fixture-dep": "file:./fixture-dep" },
+      }),
+    );
+
+    const report = await runValidationGates(repoPath);
+
+    expect(report.results).toEqual([
+      expect.objectContaining({ gate: "lint", command: "npm run lint", status: "passed" }),
+    ]);
+    await expect(lstat(join(repoPath, "node_modules"))).rejects.toThrow();
+    await expect(lstat(join(repoPath, "package-lock.json"))).rejects.toThrow();
+  });
+
+  it("skips Python tests and type checks without a virtual environment", async () => {
+    vi.stubEnv("VIRTUAL_ENV", "");
+    vi.stubEnv("CONDA_PREFIX", "");
+    await writeRepoFile("pyproject.toml", "[tool.mypy]\n[tool.pytest.ini_options]\n");
+
+    const report = await runValidationGates(repoPath);
+
+    expect(report.passed).toBe(true);
+    expect(report.results.map((result) => [result.command, result.status])).toEqual([
+      ["python -m pytest -q", "skipped"],
+      ["mypy .", "skipped"],
+    ]);
+    expect(report.results[0]?.output).toContain("no Python virtual environment is active");
+  });
+});
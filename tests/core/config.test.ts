@@ -18,6 +18,8 @@ describe("default config values", () => {
     expect(config.budget.totalTokens).toBe(100_000);
     expect(config.budget.reservePercent).toBe(0.1);
     expect(config.budget.estimationPadding).toBe(1.2);
+    expect(config.budget.warnThreshold).toBe(0.8);
+    expect(config.budget.enforcement).toBe("enforce");
   });
 
   it("has correct discovery defaults", () => {
@@ -26,6 +28,7 @@ describe("default config values", () => {
     expect(config.discovery.scanners.lint).toBe(true);
     expect(config.discovery.scanners.testGap).toBe(true);
     expect(config.discovery.scanners.deadCode).toBe(false);
+    expect(config.discovery.scanners.security).toBe(false);
     expect(config.discovery.scanners.githubIssues).toBe(true);
     expect(config.discovery.issueLabels).toEqual(["good-first-issue", "help-wanted", "bug"]);
     expect(config.discovery.minPriority).toBe(20);
@@ -53,6 +56,8 @@ describe("default config values", () => {
     expect(config.execution.validation.test).toBe(true);
     expect(config.execution.validation.typeCheck).toBe(true);
     expect(config.execution.validation.maxDiffLines).toBe(500);
+    expect(config.execution.validation.onFailure).toBe("draft");
+    expect(config.execution.validation.repair).toEqual({ maxRounds: 0, tokenBudget: 30_000 });
     expect(config.execution.pr.draft).toBe(false);
     expect(config.execution.pr.labels).toEqual(["oac-contribution"]);
     expect(config.execution.pr.reviewers).toEqual([]);
@@ -220,4 +225,24 @@ describe("loadConfig validation errors", () => {
     // defaults still applied for non-overridden fields
     expect(config.budget.reservePercent).toBe(0.1);
   });
+  it("accepts an ordered provider chain and rejects an empty one", () => {
+    const config = loadConfig({ provider: { id: ["claude-code", "codex"] } });
+
+    expect(config.provider.id).toEqual(["claude-code", "codex"]);
+    expect(() => loadConfig({ provider: { id: [] } })).toThrow(OacError);
+  });
+
+  it("defaults custom agents and requires a {prompt} placeholder in their args", () => {
+    const config = loadConfig({ provider: { customAgents: { aider: { command: "aider" } } } });
+
+    expect(config.provider.customAgents.aider).toMatchObject({
+      args: ["{prompt}"],
+      versionArgs: ["--version"],
+      output: { format: "text" },
+      env: {},
+    });
+    expect(() =>
+      loadConfig({ provider: { customAgents: { aider: { command: "aider", args: ["--yes"] } } } }),
+    ).toThrow(OacError);
+  });
 });
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { Epic } from "../../src/core/index.js";
+import {
+  BACKLOG_VERSION,
+  type LegacyBacklog,
+  createBacklog,
+  migrateBacklog,
+  updateBacklog,
+} from "../../src/discovery/backlog.js";
+import { groupFindingsIntoEpics } from "../../src/discovery/epic-grouper.js";
+import type { RawFinding } from "../../src/discovery/types.js";
+
+function makeFinding(filePath: string, overrides: Partial<RawFinding> = {}): RawFinding {
+  return {
+    scannerId: "lint",
+    source: "lint",
+    filePath,
+    module: "core",
+    title: `Fix lint findings in ${filePath}`,
+    description: "Lint issues",
+    severity: "warning",
+    complexity: "trivial",
+    metadata: {},
+    discoveredAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function groupOne(findings: RawFinding[]): Epic {
+  const [epic] = groupFindingsIntoEpics(findings);
+  if (!epic) throw new Error("expected an epic");
+  return epic;
+}
+
+const FILES = ["src/core/a.ts", "src/core/b.ts", "src/core/c.ts", "src/core/d.ts"];
+
+describe("epic identity", () => {
+  it("derives the same epic and subtask ids from the same findings", () => {
+    const first = groupOne(FILES.map((file) => makeFinding(file)));
+    const second = groupOne([...FILES].reverse().map((file) => makeFinding(file)));
+
+    expect(first.id).toMatch(/^[a-f0-9]{16}$/);
+    expect(second.id).toBe(first.id);
+    expect(second.subtasks.map((task) => task.id).sort()).toEqual(
+      first.subtasks.map((task) => task.id).sort(),
+    );
+    expect(first.subtasks.every((task) => task.parentEpicId === first.id)).toBe(true);
+  });
+
+  it("keeps the epic id when findings move a few lines", () => {
+    const at = (offset: number) =>
+      groupOne([
+        makeFinding("src/core/a.ts", { line: 10 + offset, metadata: { ruleId: "no-var" } }),
+        makeFinding("src/core/a.ts", { line: 40 + offset, metadata: { ruleId: "no-var" } }),
+        makeFinding("src/core/b.ts", { line: 5 + offset, metadata: { ruleId: "eqeqeq" } }),
+      ]);
+
+    const original = at(0);
+    const shifted = at(3);
+
+    expect(shifted.id).toBe(original.id);
+    expect(shifted.subtasks.map((task) => task.id).sort()).toEqual(
+      original.subtasks.map((task) => task.id).sort(),
+    );
+    expect(new Set(original.subtasks.map((task) => task.id)).size).toBe(3);
+  });
+
+  it("uses scope and source in the epic id", () => {
+    const lint = groupOne([makeFinding("src/core/a.ts")]);
+    const testGap = groupOne([makeFinding("src/core/a.ts", { source: "test-gap" })]);
+
+    expect(testGap.id).not.toBe(lint.id);
+  });
+});
+
+describe("updateBacklog", () => {
+  it("does not duplicate epics when the same findings are analyzed again", () => {
+    const epic = groupOne(FILES.map((file) => makeFinding(file)));
+    const backlog = createBacklog("owner/repo", "sha1", [epic]);
+
+    const updated = updateBacklog(backlog, [groupOne(FILES.map((file) => makeFinding(file)))], []);
+
+    expect(updated.epics).toHaveLength(1);
+    expect(updated.epics[0]?.id).toBe(epic.id);
+  });
+
+  it("keeps the existing epic id when findings drift slightly", () => {
+    const original = groupOne(FILES.map((file) => makeFinding(file)));
+    const backlog = createBacklog("owner/repo", "sha1", [original]);
+    const drifted = groupOne([...FILES.slice(1), "src/core/e.ts"].map((file) => makeFinding(file)));
+
+    const updated = updateBacklog(backlog, [drifted], []);
+
+    expect(updated.epics).toHaveLength(1);
+    expect(updated.epics[0]?.id).toBe(original.id);
+    expect(updated.epics[0]?.subtasks.map((task) => task.targetFiles[0])).toContain(
+      "src/core/e.ts",
+    );
+    expect(updated.epics[0]?.subtasks.every((task) => task.parentEpicId === original.id)).toBe(
+      true,
+    );
+  });
+
+  it("does not bring completed epics back", () => {
+    const epic = groupOne(FILES.map((file) => makeFinding(file)));
+    const completed = updateBacklog(createBacklog("owner/repo", "sha1", [epic]), [], [epic.id]);
+
+    const updated = updateBacklog(
+      completed,
+      [groupOne(FILES.map((file) => makeFinding(file)))],
+      [],
+    );
+
+    expect(updated.epics).toHaveLength(1);
+    expect(updated.epics[0]?.status).toBe("completed");
+  });
+
+  it("moves findings fixed by a completed epic out of new epics", () => {
+    const epic = groupOne(FILES.slice(0, 2).map((file) => makeFinding(file)));
+    const completed = updateBacklog(createBacklog("owner/repo", "sha1", [epic]), [], [epic.id]);
+    const reanalyzed = groupOne(FILES.map((file) => makeFinding(file)));
+
+    const updated = updateBacklog(completed, [reanalyzed], []);
+    const pending = updated.epics.filter((candidate) => candidate.status === "pending");
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0]?.subtasks.map((task) => task.targetFiles[0]).sort()).toEqual(FILES.slice(2));
+    expect(pending[0]?.metadata.findingCount).toBe(2);
+  });
+});
+
+describe("migrateBacklog", () => {
+  function legacyCopy(epic: Epic, id: string, status: Epic["status"], createdAt: string): Epic {
+    return {
+      ...epic,
+      id,
+      status,
+      createdAt,
+      subtasks: epic.subtasks.map((task) => {
+        const { fingerprint: _fingerprint, ...metadata } = task.metadata;
+        return { ...task, id: `lint-${id}`, parentEpicId: id, metadata };
+      }),
+    };
+  }
+
+  it("collapses duplicate epics and keeps the completed copy", () => {
+    const epic = groupOne(FILES.map((file) => makeFinding(file)));
+    const other = groupOne([makeFinding("src/budget/x.ts", { module: "budget" })]);
+    const legacy: LegacyBacklog = {
+      version: 1,
+      lastUpdatedAt: "2026-01-03T00:00:00.000Z",
+      repoFullName: "owner/repo",
+      headSha: "sha1",
+      epics: [
+        legacyCopy(epic, "random-1", "pending", "2026-01-01T00:00:00.000Z"),
+        legacyCopy(epic, "random-2", "completed", "2026-01-02T00:00:00.000Z"),
+        legacyCopy(epic, "random-3", "pending", "2026-01-03T00:00:00.000Z"),
+        legacyCopy(other, "random-4", "pending", "2026-01-03T00:00:00.000Z"),
+      ],
+    };
+
+    const migrated = migrateBacklog(legacy);
+
+    expect(migrated.version).toBe(BACKLOG_VERSION);
+    expect(migrated.epics).toHaveLength(2);
+    expect(migrated.epics[0]?.status).toBe("completed");
+    expect(migrated.epics[0]?.id).toBe(epic.id);
+    expect(migrated.epics[1]?.id).toBe(other.id);
+  });
+
+  it("leaves current backlogs untouched", () => {
+    const backlog = createBacklog("owner/repo", "sha1", [groupOne([makeFinding("src/core/a.ts")])]);
+
+    expect(migrateBacklog(backlog)).toBe(backlog);
+  });
+});
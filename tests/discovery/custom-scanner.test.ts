@@ -0,0 +1,171 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  CustomScanner,
+  createCustomScanners,
+  resolveCustomScannerKind,
+} from "../../src/discovery/scanners/custom-scanner.js";
+
+let workDir = "";
+
+function printJsonCommand(value: unknown): string {
+  return `node -e 'process.stdout.write(${JSON.stringify(JSON.stringify(value))})'`;
+}
+
+beforeEach(async () => {
+  workDir = await mkdtemp(join(tmpdir(), "oac-custom-scanner-"));
+});
+
+afterEach(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+describe("resolveCustomScannerKind", () => {
+  it("treats JavaScript module paths as modules and everything else as commands", () => {
+    expect(resolveCustomScannerKind("./scanners/license.mjs")).toBe("module");
+    expect(resolveCustomScannerKind("@acme/oac-scanner/index.js")).toBe("module");
+    expect(resolveCustomScannerKind("./scripts/check.sh")).toBe("command");
+    expect(resolveCustomScannerKind("node tools/scan.js --json")).toBe("command");
+  });
+});
+
+describe("CustomScanner", () => {
+  it("loads a module that exports a Scanner", async () => {
+    await writeFile(
+      join(workDir, "license.mjs"),
+      `export default {
+        id: "license",
+        name: "License headers",
+        async scan(repoPath) {
+          return [{
+            id: "lic-1",
+            source: "custom",
+            title: "Add license header to a.ts",
+            description: repoPath,
+            targetFiles: ["src/a.ts"],
+            priority: 40,
+            complexity: "trivial",
+            executionMode: "new-pr",
+            metadata: {},
+            discoveredAt: "2026-01-01T00:00:00.000Z",
+          }];
+        },
+      };`,
+      "utf8",
+    );
+
+    const scanner = new CustomScanner("./license.mjs", workDir);
+    const tasks = await scanner.scan("/repo");
+
+    expect(scanner.kind).toBe("module");
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]?.title).toBe("Add license header to a.ts");
+    expect(tasks[0]?.description).toBe("/repo");
+  });
+
+  it("instantiates a default-exported Scanner class", async () => {
+    await writeFile(
+      join(workDir, "class.mjs"),
+      `export default class {
+        id = "class";
+        name = "Class scanner";
+        async scan() { return []; }
+      }`,
+      "utf8",
+    );
+
+    await expect(new CustomScanner("./class.mjs", workDir).scan("/repo")).resolves.toEqual([]);
+  });
+
+  it("rejects modules that do not export a Scanner", async () => {
+    await writeFile(join(workDir, "bad.mjs"), "export const value = 1;", "utf8");
+
+    await expect(new CustomScanner("./bad.mjs", workDir).scan("/repo")).rejects.toThrow(
+      /must export a Scanner/,
+    );
+  });
+
+  it("converts JSON findings printed by a command into tasks", async () => {
+    const command = printJsonCommand([
+      {
+        scannerId: "deprecated-api",
+        source: "custom",
+        filePath: "src/legacy.ts",
+        title: "Replace deprecated fetchAll()",
+        description: "fetchAll() is deprecated.",
+        severity: "error",
+        complexity: "trivial",
+        line: 12,
+        metadata: { api: "fetchAll" },
+      },
+    ]);
+
+    const tasks = await new CustomScanner(command, workDir).scan(workDir);
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({
+      source: "custom",
+      title: "Replace deprecated fetchAll()",
+      description: "fetchAll() is deprecated.",
+      targetFiles: ["src/legacy.ts"],
+      priority: 80,
+      complexity: "trivial",
+    });
+    expect(tasks[0]?.id).toMatch(/^[a-f0-9]{16}$/);
+    expect(tasks[0]?.metadata).toMatchObject({
+      scannerId: "deprecated-api",
+      api: "fetchAll",
+      startLine: 12,
+      severity: "error",
+    });
+  });
+
+  it("applies exclude patterns and maxTasks to command findings", async () => {
+    const command = printJsonCommand([
+      { filePath: "src/a.ts", title: "A" },
+      { filePath: "vendor/b.ts", title: "B" },
+      { filePath: "src/c.ts", title: "C" },
+    ]);
+
+    const tasks = await new CustomScanner(command, workDir).scan(workDir, {
+      exclude: ["vendor"],
+      maxTasks: 1,
+    });
+
+    expect(tasks.map((task) => task.title)).toEqual(["A"]);
+  });
+
+  it("fails with the command's stderr when it exits non-zero", async () => {
+    const scanner = new CustomScanner("echo broken >&2; exit 3", workDir);
+
+    await expect(scanner.scan(workDir)).rejects.toThrow(/exited with code 3: broken/);
+  });
+
+  it("fails when the command prints something other than a findings array", async () => {
+    await expect(new CustomScanner("echo not-json", workDir).scan(workDir)).rejects.toThrow(
+      /did not print valid JSON/,
+    );
+    await expect(
+      new CustomScanner(printJsonCommand([{ title: "no file" }]), workDir).scan(workDir),
+    ).rejects.toThrow(/finding #0/);
+  });
+
+  it("times out slow commands", async () => {
+    const scanner = new CustomScanner("sleep 1", workDir);
+
+    await expect(scanner.scan(workDir, { timeoutMs: 50 })).rejects.toThrow(/timed out/);
+  });
+});
+
+describe("createCustomScanners", () => {
+  it("creates one scanner per non-empty entry", () => {
+    const scanners = createCustomScanners(["./a.mjs", "  ", "make lint-json"], workDir);
+
+    expect(scanners.map((scanner) => scanner.id)).toEqual([
+      "custom:./a.mjs",
+      "custom:make lint-json",
+    ]);
+  });
+});
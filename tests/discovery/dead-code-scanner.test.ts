@@ -0,0 +1,174 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DeadCodeScanner } from "../../src/discovery/scanners/dead-code-scanner.js";
+
+let repoPath = "";
+
+async function writeRepoFile(relativePath: string, content: string): Promise<void> {
+  const absolutePath = join(repoPath, relativePath);
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, content, "utf8");
+}
+
+beforeEach(async () => {
+  repoPath = await mkdtemp(join(tmpdir(), "oac-dead-code-scanner-"));
+});
+
+afterEach(async () => {
+  await rm(repoPath, { recursive: true, force: true });
+});
+
+describe("DeadCodeScanner", () => {
+  it("reports exports that nothing imports", async () => {
+    await writeRepoFile("package.json", JSON.stringify({ main: "./dist/index.js" }));
+    await writeRepoFile(
+      "src/index.ts",
+      'import { used } from "./util.js";\nexport const run = used;',
+    );
+    await writeRepoFile(
+      "src/util.ts",
+      "export const used = 1;\nexport function unusedHelper() {}\nexport type Unused = string;",
+    );
+
+    const tasks = await new DeadCodeScanner().scan(repoPath);
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]?.source).toBe("dead-code");
+    expect(tasks[0]?.title).toBe("Remove unused exports from util.ts");
+    expect(tasks[0]?.targetFiles).toEqual(["src/util.ts"]);
+    expect(tasks[0]?.metadata).toMatchObject({
+      kind: "unused-exports",
+      unusedSymbols: ["Unused", "unusedHelper"],
+    });
+  });
+
+  it("treats package.json exports and bin as entry points", async () => {
+    await writeRepoFile(
+      "package.json",
+      JSON.stringify({
+        exports: { ".": { import: "./dist/index.js", types: "./dist/index.d.ts" } },
+        bin: { tool: "./dist/cli.js" },
+      }),
+    );
+    await writeRepoFile("src/index.ts", "export const api = 1;");
+    await writeRepoFile("src/cli.ts", "export const main = () => {};");
+
+    const tasks = await new DeadCodeScanner().scan(repoPath);
+
+    expect(tasks).toEqual([]);
+  });
+
+  it("reports files nothing imports and files only imported by dead code", async () => {
+    await writeRepoFile("src/index.ts", 'export * from "./core/api.js";');
+    await writeRepoFile("src/core/api.ts", "export const api = 1;");
+    await writeRepoFile(
+      "src/core/orphan.ts",
+      'import { helper } from "./helper.js";\nexport const orphan = helper;',
+    );
+    await writeRepoFile("src/core/helper.ts", "export const helper = 2;");
+
+    const tasks = await new DeadCodeScanner().scan(repoPath);
+    const byTitle = new Map(tasks.map((task) => [task.title, task]));
+
+    expect([...byTitle.keys()].sort()).toEqual([
+      "Remove unused file src/core/helper.ts",
+      "Remove unused file src/core/orphan.ts",
+    ]);
+    expect(byTitle.get("Remove unused file src/core/helper.ts")?.metadata).toMatchObject({
+      kind: "unused-file",
+      importedBy: ["src/core/orphan.ts"],
+      unusedSymbols: ["helper"],
+    });
+  });
+
+  it("groups a fully unreachable module into one task", async () => {
+    await writeRepoFile("src/index.ts", "export const api = 1;");
+    await writeRepoFile("src/legacy/a.ts", 'import { b } from "./b";\nexport const a = b;');
+    await writeRepoFile(
+      "src/legacy/b.ts",
+      'import { a } from "./a";\nexport const b = 1;\nexport const c = a;',
+    );
+
+    const tasks = await new DeadCodeScanner().scan(repoPath);
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]?.title).toBe("Remove unreachable module legacy");
+    expect(tasks[0]?.complexity).toBe("moderate");
+    expect(tasks[0]?.targetFiles.sort()).toEqual(["src/legacy/a.ts", "src/legacy/b.ts"]);
+    expect(tasks[0]?.metadata).toMatchObject({
+      kind: "unreachable-module",
+      module: "legacy",
+      unusedSymbols: ["a", "b", "c"],
+    });
+  });
+
+  it("counts imports from tests as usage", async () => {
+    await writeRepoFile("src/index.ts", 'export { run } from "./runner.js";');
+    await writeRepoFile("src/runner.ts", "export const run = 1;\nexport const internal = 2;");
+    await writeRepoFile("src/only-tested.ts", "export const tested = 3;");
+    await writeRepoFile(
+      "tests/runner.test.ts",
+      'import { internal } from "../src/runner.js";\nimport * as t from "../src/only-tested.js";',
+    );
+
+    const tasks = await new DeadCodeScanner().scan(repoPath);
+
+    expect(tasks).toEqual([]);
+  });
+
+  it("ignores exports and imports inside comments and strings", async () => {
+    await writeRepoFile(
+      "src/index.ts",
+      'import { used } from "./util.js";\nexport const run = used;',
+    );
+    await writeRepoFile(
+      "src/util.ts",
+      [
+        "/**",
+        " * Usage:",
+        ' *   export { a, Name as Alias } from "./other.js";',
+        " */",
+        "export const used = 1;",
+        '// import { c } from "./ghost.js";',
+        'const example = "export const phantom = 1;";',
+        "const template = `export default ${example}`;",
+        "const pattern = /export class Fake/;",
+      ].join("\n"),
+    );
+
+    const tasks = await new DeadCodeScanner().scan(repoPath);
+
+    expect(tasks).toEqual([]);
+  });
+
+  it("takes source roots from tsconfig include", async () => {
+    await writeRepoFile(
+      "tsconfig.json",
+      '{\n  // compiled sources\n  "include": ["lib/**/*", "tests/**/*"],\n}',
+    );
+    await writeRepoFile(
+      "lib/index.ts",
+      'import { used } from "./util.js";\nexport const run = used;',
+    );
+    await writeRepoFile("lib/util.ts", "export const used = 1;\nexport const unused = 2;");
+    await writeRepoFile("src/ignored.ts", "export const outsideRoots = 1;");
+
+    const tasks = await new DeadCodeScanner().scan(repoPath);
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]?.targetFiles).toEqual(["lib/util.ts"]);
+    expect(tasks[0]?.metadata).toMatchObject({ unusedSymbols: ["unused"] });
+  });
+
+  it("respects maxTasks", async () => {
+    await writeRepoFile("src/index.ts", "export const api = 1;");
+    await writeRepoFile("src/one.ts", "export const one = 1;");
+    await writeRepoFile("src/two.ts", "export const two = 2;");
+
+    const tasks = await new DeadCodeScanner().scan(repoPath, { maxTasks: 1 });
+
+    expect(tasks).toHaveLength(1);
+  });
+});
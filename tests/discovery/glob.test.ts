@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { compileGlobMatcher } from "../../src/discovery/glob.js";
+
+describe("compileGlobMatcher", () => {
+  it("matches a plain path, everything below it and the same name at any depth", () => {
+    const matches = compileGlobMatcher("vendor");
+
+    expect(matches("vendor")).toBe(true);
+    expect(matches("vendor/lib.ts")).toBe(true);
+    expect(matches("packages/app/vendor/lib.ts")).toBe(true);
+    expect(matches("src/vendored.ts")).toBe(false);
+  });
+
+  it("keeps * within one segment and lets ** span segments", () => {
+    expect(compileGlobMatcher("src/*.ts")("src/index.ts")).toBe(true);
+    expect(compileGlobMatcher("src/*.ts")("src/cli/index.ts")).toBe(false);
+    expect(compileGlobMatcher("src/**/*.ts")("src/cli/index.ts")).toBe(true);
+  });
+
+  it("ignores a leading ./ or ! and never matches an empty pattern", () => {
+    expect(compileGlobMatcher("./dist/**")("dist/index.js")).toBe(true);
+    expect(compileGlobMatcher("!docs")("docs/guide.md")).toBe(true);
+    expect(compileGlobMatcher("  ")("anything.ts")).toBe(false);
+  });
+});
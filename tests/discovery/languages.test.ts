@@ -0,0 +1,210 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { analyzeCodebase } from "../../src/discovery/analyzer.js";
+import {
+  detectLanguages,
+  goPlugin,
+  javaPlugin,
+  pythonPlugin,
+  rustPlugin,
+} from "../../src/discovery/languages/index.js";
+import { TestGapScanner } from "../../src/discovery/scanners/test-gap-scanner.js";
+
+let repoPath = "";
+
+async function writeRepoFile(relativePath: string, content: string): Promise<void> {
+  const absolutePath = join(repoPath, relativePath);
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, content, "utf8");
+}
+
+async function analyzeModules() {
+  const { codebaseMap } = await analyzeCodebase(repoPath, { scanners: [] });
+  return codebaseMap.modules;
+}
+
+beforeEach(async () => {
+  repoPath = await mkdtemp(join(tmpdir(), "oac-languages-"));
+});
+
+afterEach(async () => {
+  await rm(repoPath, { recursive: true, force: true });
+});
+
+describe("detectLanguages", () => {
+  it("returns nothing for a repository without manifests", async () => {
+    await writeRepoFile("notes.txt", "hello");
+    expect(await detectLanguages(repoPath)).toEqual([]);
+  });
+
+  it("detects a src-layout Python package and its import prefix", async () => {
+    await writeRepoFile("pyproject.toml", "[project]\nname = 'acme'\n");
+    await writeRepoFile("src/acme/__init__.py", "");
+    await writeRepoFile("src/acme/core/__init__.py", "");
+
+    const [python] = await detectLanguages(repoPath, [pythonPlugin]);
+    expect(python.roots).toEqual([{ path: "src/acme", importPrefix: "acme" }]);
+  });
+
+  it("descends the shared Java package prefix of each Maven project", async () => {
+    await writeRepoFile("pom.xml", "<project/>");
+    await writeRepoFile("src/main/java/com/acme/app/api/Handler.java", "public class Handler {}");
+    await writeRepoFile("src/main/java/com/acme/app/db/Store.java", "public class Store {}");
+
+    const [java] = await detectLanguages(repoPath, [javaPlugin]);
+    expect(java.roots).toEqual([
+      { path: "src/main/java/com/acme/app", importPrefix: "com.acme.app" },
+    ]);
+  });
+
+  it("expands Cargo workspace members", async () => {
+    await writeRepoFile("Cargo.toml", '[workspace]\nmembers = ["crates/*"]\n');
+    await writeRepoFile("crates/core-lib/Cargo.toml", '[package]\nname = "core-lib"\n');
+    await writeRepoFile("crates/core-lib/src/lib.rs", "");
+
+    const [rust] = await detectLanguages(repoPath, [rustPlugin]);
+    expect(rust.roots).toEqual([{ path: "crates/core-lib/src", importPrefix: "core_lib" }]);
+  });
+});
+
+describe("language extractors", () => {
+  it("honours __all__ and skips private Python names", () => {
+    expect(
+      pythonPlugin.extractExports("def run():\n  pass\ndef _hidden():\n  pass\nLIMIT = 3\n"),
+    ).toEqual(["run", "LIMIT"]);
+    expect(
+      pythonPlugin.extractExports("__all__ = ['run']\ndef run(): ...\ndef other(): ...\n"),
+    ).toEqual(["run"]);
+  });
+
+  it("extracts capitalised Go declarations and import blocks", () => {
+    const content = [
+      "package auth",
+      'import (\n\t"fmt"\n\t"example.com/app/internal/store"\n)',
+      "func Login() {}",
+      "func helper() {}",
+      "type (\n\tToken string\n\tsecret string\n)",
+    ].join("\n");
+
+    expect(goPlugin.extractExports(content)).toEqual(["Login", "Token"]);
+    expect(goPlugin.extractImports(content)).toEqual(["fmt", "example.com/app/internal/store"]);
+  });
+
+  it("extracts pub Rust items and use paths", () => {
+    const content =
+      "use crate::parser::Token;\npub fn parse() {}\nfn private() {}\npub struct Ast;\n";
+    expect(rustPlugin.extractExports(content)).toEqual(["parse", "Ast"]);
+    expect(rustPlugin.extractImports(content)).toEqual(["crate::parser::Token"]);
+  });
+
+  it("reduces Java imports to package names", () => {
+    const content =
+      "import com.acme.app.db.Store;\nimport static com.acme.app.util.Strings.trim;\nimport java.util.*;\n";
+    expect(javaPlugin.extractImports(content)).toEqual([
+      "com.acme.app.db",
+      "com.acme.app.util",
+      "java.util",
+    ]);
+  });
+});
+
+describe("analyzeCodebase with other languages", () => {
+  it("maps Python packages to modules with resolved dependencies", async () => {
+    await writeRepoFile("pyproject.toml", "[project]\nname = 'acme'\n");
+    await writeRepoFile("src/acme/__init__.py", "");
+    await writeRepoFile("src/acme/api/__init__.py", "");
+    await writeRepoFile(
+      "src/acme/api/routes.py",
+      "from acme.db import models\n\ndef index():\n  pass\n",
+    );
+    await writeRepoFile("src/acme/db/__init__.py", "");
+    await writeRepoFile("src/acme/db/models.py", "from ..api import routes\nclass User:\n  pass\n");
+    await writeRepoFile("src/acme/db/test_models.py", "def test_user():\n  pass\n");
+
+    const modules = await analyzeModules();
+    const api = modules.find((module) => module.name === "api");
+    const db = modules.find((module) => module.name === "db");
+
+    expect(api).toMatchObject({ path: "src/acme/api", language: "python", dependencies: ["db"] });
+    expect(api?.exports).toEqual(["index"]);
+    expect(db?.dependencies).toEqual(["api"]);
+    expect(db?.files.map((file) => file.path)).not.toContain("src/acme/db/test_models.py");
+  });
+
+  it("treats internal/ children as separate Go modules", async () => {
+    await writeRepoFile("go.mod", "module example.com/app\n\ngo 1.22\n");
+    await writeRepoFile("main.go", 'package main\n\nimport "example.com/app/internal/auth"\n');
+    await writeRepoFile(
+      "internal/auth/auth.go",
+      'package auth\n\nimport "example.com/app/internal/store"\n\nfunc Login() {}\n',
+    );
+    await writeRepoFile("internal/store/store.go", "package store\n\ntype DB struct{}\n");
+
+    const modules = await analyzeModules();
+    const byName = new Map(modules.map((module) => [module.name, module]));
+
+    expect(byName.get("root")?.dependencies).toEqual(["internal/auth"]);
+    expect(byName.get("internal/auth")).toMatchObject({
+      path: "internal/auth",
+      language: "go",
+      exports: ["Login"],
+      dependencies: ["internal/store"],
+    });
+  });
+
+  it("prefixes module names already taken by TypeScript", async () => {
+    await writeRepoFile("src/core/index.ts", "export const a = 1;\n");
+    await writeRepoFile("Cargo.toml", '[package]\nname = "tool"\n');
+    await writeRepoFile("src/lib.rs", "pub mod core;\n");
+    await writeRepoFile("src/core.rs", "pub fn run() {}\n");
+
+    const modules = await analyzeModules();
+    expect(modules.find((module) => module.name === "core")?.language).toBe("typescript");
+    expect(modules.find((module) => module.name === "rust:core")).toMatchObject({
+      path: "src/core",
+      exports: ["run"],
+    });
+  });
+});
+
+describe("TestGapScanner with other languages", () => {
+  it("matches pytest, Go, Rust and Java conventions", async () => {
+    await writeRepoFile("pyproject.toml", "[project]\nname = 'acme'\n");
+    await writeRepoFile("acme/__init__.py", "");
+    await writeRepoFile("acme/parser.py", "def parse(): ...\n");
+    await writeRepoFile("acme/lexer.py", "def lex(): ...\n");
+    await writeRepoFile("tests/test_parser.py", "def test_parse(): ...\n");
+
+    await writeRepoFile("go.mod", "module example.com/app\n");
+    await writeRepoFile("server/server.go", "package server\n");
+    await writeRepoFile("server/server_test.go", "package server\n");
+    await writeRepoFile("server/router.go", "package server\n");
+
+    await writeRepoFile("Cargo.toml", '[package]\nname = "app"\n');
+    await writeRepoFile("src/eval.rs", "pub fn eval() {}\n#[cfg(test)]\nmod tests {}\n");
+    await writeRepoFile("src/print.rs", "pub fn print() {}\n");
+
+    await writeRepoFile("build.gradle", "");
+    await writeRepoFile("src/main/java/app/Cache.java", "public class Cache {}\n");
+    await writeRepoFile("src/main/java/app/Queue.java", "public class Queue {}\n");
+    await writeRepoFile("src/test/java/app/CacheTest.java", "class CacheTest {}\n");
+
+    const tasks = await new TestGapScanner().scan(repoPath);
+
+    expect(tasks.map((task) => task.targetFiles[0]).sort()).toEqual([
+      "acme/lexer.py",
+      "server/router.go",
+      "src/main/java/app/Queue.java",
+      "src/print.rs",
+    ]);
+  });
+
+  it("ignores other languages when their manifest is missing", async () => {
+    await writeRepoFile("scripts/release.py", "def main(): ...\n");
+
+    const tasks = await new TestGapScanner().scan(repoPath);
+    expect(tasks).toEqual([]);
+  });
+});
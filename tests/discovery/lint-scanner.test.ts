@@ -105,6 +105,23 @@ function mockPackageJson(value: Record<string, unknown>): void {
   });
 }
 
+function mockTextFiles(files: Record<string, string>): void {
+  const contents = new Map(
+    Object.entries(files).map(([path, content]) => [resolve(REPO_PATH, path), content]),
+  );
+  mockedReadFile.mockImplementation(async (filePath) => {
+    const content = contents.get(String(filePath));
+    if (content !== undefined) {
+      return content;
+    }
+    throw createErrno("ENOENT");
+  });
+}
+
+function taskFindings(task: { metadata: Record<string, unknown> } | undefined) {
+  return (task?.metadata.findings ?? []) as Array<Record<string, unknown>>;
+}
+
 beforeEach(() => {
   vi.clearAllMocks();
   queuedSpawnResults = [];
@@ -892,3 +909,277 @@ describe("LintScanner", () => {
     expect((tasks[0]?.metadata as Record<string, unknown>).fixableCount).toBe(1);
   });
 });
+
+// Recorded outputs of the native linters, trimmed to the fields the scanner reads.
+const RUFF_OUTPUT = JSON.stringify([
+  {
+    code: "F401",
+    filename: "/repo/app/models.py",
+    location: { row: 1, column: 8 },
+    end_location: { row: 1, column: 10 },
+    message: "`os` imported but unused",
+    fix: { applicability: "safe", message: "Remove unused import: `os`", edits: [] },
+    noqa_row: 1,
+    url: "https://docs.astral.sh/ruff/rules/unused-import",
+  },
+  {
+    code: "E501",
+    filename: "/repo/app/views.py",
+    location: { row: 12, column: 89 },
+    end_location: { row: 12, column: 112 },
+    message: "Line too long (111 > 88)",
+    fix: null,
+    noqa_row: 12,
+    url: "https://docs.astral.sh/ruff/rules/line-too-long",
+  },
+]);
+
+const FLAKE8_OUTPUT = [
+  "./app/models.py:1:1: F401 'os' imported but unused",
+  "./app/models.py:9:80: E501 line too long (96 > 79 characters)",
+  "",
+].join("\n");
+
+const GOLANGCI_OUTPUT = JSON.stringify({
+  Issues: [
+    {
+      FromLinter: "errcheck",
+      Text: "Error return value of `f.Close` is not checked",
+      Severity: "",
+      SourceLines: ["\tf.Close()"],
+      Pos: { Filename: "internal/store/file.go", Offset: 412, Line: 27, Column: 9 },
+      ExpectNoLint: false,
+    },
+    {
+      FromLinter: "gofmt",
+      Text: "File is not properly formatted",
+      Severity: "warning",
+      SourceLines: ["func  main() {"],
+      Pos: { Filename: "cmd/app/main.go", Offset: 0, Line: 5, Column: 1 },
+      SuggestedFixes: [
+        { Message: "", TextEdits: [{ Pos: 40, End: 52, NewText: "func main() {" }] },
+      ],
+    },
+  ],
+  Report: { Linters: [{ Name: "errcheck", Enabled: true }] },
+});
+
+const CLIPPY_OUTPUT = [
+  JSON.stringify({
+    reason: "compiler-artifact",
+    package_id: "path+file:///repo#app@0.1.0",
+    target: { name: "app" },
+  }),
+  JSON.stringify({
+    reason: "compiler-message",
+    package_id: "path+file:///repo#app@0.1.0",
+    message: {
+      $message_type: "diagnostic",
+      message: "unneeded `return` statement",
+      code: { code: "clippy::needless_return", explanation: null },
+      level: "warning",
+      spans: [
+        {
+          file_name: "src/lib.rs",
+          line_start: 4,
+          column_start: 5,
+          is_primary: true,
+          suggested_replacement: null,
+          suggestion_applicability: null,
+        },
+      ],
+      children: [
+        {
+          message: "remove `return`",
+          level: "help",
+          spans: [
+            {
+              file_name: "src/lib.rs",
+              line_start: 4,
+              column_start: 5,
+              is_primary: true,
+              suggested_replacement: "x",
+              suggestion_applicability: "MachineApplicable",
+            },
+          ],
+          children: [],
+        },
+      ],
+    },
+  }),
+  JSON.stringify({
+    reason: "compiler-message",
+    package_id: "path+file:///repo#app@0.1.0",
+    message: {
+      message: "1 warning emitted",
+      code: null,
+      level: "warning",
+      spans: [],
+      children: [],
+    },
+  }),
+  JSON.stringify({ reason: "build-finished", success: true }),
+].join("\n");
+
+const RUBOCOP_OUTPUT = JSON.stringify({
+  metadata: { rubocop_version: "1.64.1" },
+  files: [
+    {
+      path: "lib/app/client.rb",
+      offenses: [
+        {
+          severity: "convention",
+          message: "Style/StringLiterals: Prefer single-quoted strings.",
+          cop_name: "Style/StringLiterals",
+          corrected: false,
+          correctable: true,
+          location: { start_line: 3, start_column: 10, line: 3, column: 10 },
+        },
+        {
+          severity: "warning",
+          message: "Lint/UselessAssignment: Useless assignment to variable - `x`.",
+          cop_name: "Lint/UselessAssignment",
+          corrected: false,
+          correctable: false,
+          location: { start_line: 8, start_column: 5, line: 8, column: 5 },
+        },
+      ],
+    },
+    { path: "lib/app.rb", offenses: [] },
+  ],
+  summary: { offense_count: 2, target_file_count: 2, inspected_file_count: 2 },
+});
+
+describe("LintScanner native linters", () => {
+  it("runs ruff when pyproject.toml configures it and maps fix hints", async () => {
+    mockTextFiles({ "pyproject.toml": "[tool.ruff]\nline-length = 88\n" });
+    queueSpawnResult({ stdout: RUFF_OUTPUT, exitCode: 1 });
+
+    const tasks = await new LintScanner().scan(REPO_PATH, { exclude: ["migrations"] });
+
+    const [command, args] = mockedSpawn.mock.calls[0] as [string, string[]];
+    expect(command).toBe("ruff");
+    expect(args).toEqual([
+      "check",
+      ".",
+      "--output-format=json",
+      "--no-cache",
+      "--extend-exclude",
+      "migrations",
+    ]);
+    expect(tasks.map((task) => task.targetFiles[0])).toEqual(["app/models.py", "app/views.py"]);
+    expect(tasks[0]?.metadata).toMatchObject({ linter: "ruff", fixableCount: 1 });
+    expect(tasks[0]?.complexity).toBe("trivial");
+    expect(taskFindings(tasks[0])[0]).toMatchObject({ ruleId: "F401", line: 1, column: 8 });
+    expect(tasks[1]?.metadata).toMatchObject({ fixableCount: 0 });
+  });
+
+  it("defaults Python projects without linter config to ruff", async () => {
+    mockExistingFiles(["setup.py"]);
+    queueSpawnResult({ stdout: "[]", exitCode: 0 });
+
+    await new LintScanner().scan(REPO_PATH);
+
+    expect(mockedSpawn.mock.calls[0]?.[0]).toBe("ruff");
+  });
+
+  it("parses flake8 text output when setup.cfg configures flake8", async () => {
+    mockTextFiles({ "setup.cfg": "[flake8]\nmax-line-length = 79\n" });
+    queueSpawnResult({ stdout: FLAKE8_OUTPUT, exitCode: 1 });
+
+    const tasks = await new LintScanner().scan(REPO_PATH);
+
+    expect(mockedSpawn.mock.calls[0]?.[0]).toBe("flake8");
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]?.targetFiles).toEqual(["app/models.py"]);
+    expect(tasks[0]?.metadata).toMatchObject({
+      linter: "flake8",
+      ruleIds: ["F401", "E501"],
+      fixableCount: 0,
+    });
+    expect(taskFindings(tasks[0]).map((finding) => finding.severity)).toEqual([2, 1]);
+  });
+
+  it("runs golangci-lint for Go modules", async () => {
+    mockExistingFiles(["go.mod"]);
+    queueSpawnResult({ stdout: GOLANGCI_OUTPUT, exitCode: 1 });
+
+    const tasks = await new LintScanner().scan(REPO_PATH);
+
+    const [command, args] = mockedSpawn.mock.calls[0] as [string, string[]];
+    expect(command).toBe("golangci-lint");
+    expect(args).toEqual(expect.arrayContaining(["run", "--output.json.path=stdout"]));
+    expect(tasks.map((task) => task.targetFiles[0])).toEqual([
+      "internal/store/file.go",
+      "cmd/app/main.go",
+    ]);
+    expect(taskFindings(tasks[0])[0]).toMatchObject({
+      ruleId: "errcheck",
+      line: 27,
+      fixable: false,
+    });
+    expect(taskFindings(tasks[1])[0]).toMatchObject({
+      ruleId: "gofmt",
+      fixable: true,
+      severity: 1,
+    });
+  });
+
+  it("parses cargo clippy JSON lines and skips summary messages", async () => {
+    mockExistingFiles(["Cargo.toml"]);
+    queueSpawnResult({ stdout: CLIPPY_OUTPUT, exitCode: 0 });
+
+    const tasks = await new LintScanner().scan(REPO_PATH);
+
+    const [command, args] = mockedSpawn.mock.calls[0] as [string, string[]];
+    expect(command).toBe("cargo");
+    expect(args).toEqual(["clippy", "--message-format=json", "--quiet"]);
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]?.targetFiles).toEqual(["src/lib.rs"]);
+    expect(taskFindings(tasks[0])).toEqual([
+      {
+        line: 4,
+        column: 5,
+        ruleId: "clippy::needless_return",
+        message: "unneeded `return` statement",
+        fixable: true,
+        severity: 1,
+      },
+    ]);
+  });
+
+  it("runs rubocop when .rubocop.yml exists and maps correctable offenses", async () => {
+    mockExistingFiles([".rubocop.yml"]);
+    queueSpawnResult({ stdout: RUBOCOP_OUTPUT, exitCode: 1 });
+
+    const tasks = await new LintScanner().scan(REPO_PATH);
+
+    expect(mockedSpawn.mock.calls[0]?.[0]).toBe("rubocop");
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]?.metadata).toMatchObject({
+      linter: "rubocop",
+      issueCount: 2,
+      fixableCount: 1,
+      ruleIds: ["Style/StringLiterals", "Lint/UselessAssignment"],
+    });
+    expect(taskFindings(tasks[0]).map((finding) => finding.severity)).toEqual([1, 1]);
+  });
+
+  it("runs one linter per ecosystem and combines their tasks", async () => {
+    mockExistingFiles(["biome.json", "go.mod"]);
+    queueSpawnResult({ stdout: "{}", exitCode: 0 });
+    queueSpawnResult({ stdout: GOLANGCI_OUTPUT, exitCode: 1 });
+
+    const tasks = await new LintScanner().scan(REPO_PATH);
+
+    expect(mockedSpawn.mock.calls.map((call) => call[0])).toEqual(["npx", "golangci-lint"]);
+    expect(tasks).toHaveLength(2);
+  });
+
+  it("skips native linters that are not installed", async () => {
+    mockExistingFiles(["Cargo.toml"]);
+    queueSpawnResult({ emitError: createErrno("ENOENT") });
+
+    await expect(new LintScanner().scan(REPO_PATH)).resolves.toEqual([]);
+  });
+});
@@ -1,7 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { Task, TaskComplexity, TaskSource } from "../../src/core/index.js";
 import { rankTasks } from "../../src/discovery/ranker.js";
-import type { PriorityWeights } from "../../src/discovery/types.js";
+import type { PriorityWeights, RankingGoal } from "../../src/discovery/types.js";
 
 const FIXED_NOW = new Date("2026-02-16T00:00:00.000Z").getTime();
 const DAY_IN_MS = 24 * 60 * 60 * 1_000;
@@ -63,9 +63,11 @@ describe("rankTasks", () => {
       breakdown.feasibilityScore +
       breakdown.freshnessScore +
       breakdown.issueSignals +
-      breakdown.tokenEfficiency;
+      breakdown.tokenEfficiency +
+      breakdown.goalAlignment;
 
     expect(task.priority).toBe(total);
+    expect(breakdown.goalAlignment).toBe(0);
     expect(task.metadata).toMatchObject({
       priorityBreakdown: expect.any(Object),
     });
@@ -108,6 +110,7 @@ describe("rankTasks", () => {
       lint: 22,
       "test-gap": 24,
       "dead-code": 14,
+      security: 25,
       "github-issue": 20,
       custom: 12,
     };
@@ -422,3 +425,70 @@ describe("rankTasks", () => {
     });
   });
 });
+
+describe("rankTasks with goals", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(Date, "now").mockReturnValue(FIXED_NOW);
+  });
+
+  const goals: RankingGoal[] = [
+    { id: "docs", title: "Docs", priority: 40, keywords: ["readme"] },
+    {
+      id: "auth",
+      title: "Secure login",
+      priority: 90,
+      paths: ["src/auth/**"],
+      labels: ["Security"],
+    },
+  ];
+
+  function goalTask(overrides: Partial<Task> = {}): Task {
+    return makeTask({ source: "custom", complexity: "complex", ...overrides });
+  }
+
+  function firstRanked(tasks: Task[], options?: Parameters<typeof rankTasks>[1]): Task {
+    const [task] = rankTasks(tasks, options);
+    expect(task).toBeDefined();
+    return task as Task;
+  }
+
+  it("boosts matching tasks in proportion to the goal priority", () => {
+    const base = firstRanked([goalTask()], { goals });
+    const docs = firstRanked([goalTask({ title: "Update README badges" })], { goals });
+    const auth = firstRanked([goalTask({ targetFiles: ["src/auth/session.ts"] })], { goals });
+
+    expect(getBreakdown(base).goalAlignment).toBe(0);
+    expect(base.metadata.goalMatch).toBeUndefined();
+    expect(getBreakdown(docs).goalAlignment).toBe(8);
+    expect(docs.priority).toBe(base.priority + 8);
+    expect(getBreakdown(auth).goalAlignment).toBe(18);
+    expect(auth.metadata.goalMatch).toEqual({
+      goalId: "auth",
+      goalTitle: "Secure login",
+      goalPriority: 90,
+      matchedOn: ["path:src/auth/**"],
+      boost: 18,
+    });
+  });
+
+  it("matches issue labels case-insensitively and keeps the strongest goal", () => {
+    const task = firstRanked(
+      [goalTask({ title: "Fix readme link", linkedIssue: makeLinkedIssue(["security"]) })],
+      { goals },
+    );
+
+    expect(task.metadata.goalMatch).toMatchObject({
+      goalId: "auth",
+      matchedOn: ["label:Security"],
+    });
+  });
+
+  it("drops a goal match left over from an earlier ranking", () => {
+    const ranked = rankTasks([goalTask({ title: "Update README" })], { goals });
+    const reranked = firstRanked(ranked);
+
+    expect(reranked.metadata.goalMatch).toBeUndefined();
+    expect(getBreakdown(reranked).goalAlignment).toBe(0);
+  });
+});
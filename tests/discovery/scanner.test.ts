@@ -143,6 +143,20 @@ describe("CompositeScanner", () => {
     expect(results).toEqual([]);
   });
 
+  it("scanWithReport returns failures alongside fulfilled results", async () => {
+    const scannerA = makeMockScanner("scanner-a");
+    scannerA.scan.mockRejectedValue(new Error("boom"));
+    const scannerB = makeMockScanner("scanner-b", [makeTask({ id: "survivor" })]);
+    const composite = new CompositeScanner([scannerA, scannerB]);
+
+    const { tasks, failures } = await composite.scanWithReport("/repo");
+
+    expect(tasks.map((task) => task.id)).toEqual(["survivor"]);
+    expect(failures).toEqual([
+      { scannerId: "scanner-a", scannerName: "scanner-a scanner", error: "boom" },
+    ]);
+  });
+
   it("sorts results by priority descending", async () => {
     const scannerA = makeMockScanner("scanner-a", [
       makeTask({ id: "p10", title: "P10", priority: 10 }),
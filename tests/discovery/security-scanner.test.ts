@@ -297,7 +297,7 @@ describe("SecurityScanner", () => {
 
     expect(task).toBeDefined();
     expect(task?.id).toMatch(/^[a-f0-9]{16}$/);
-    expect(task?.source).toBe("custom");
+    expect(task?.source).toBe("security");
     expect(task?.title).toBe("Security: Hardcoded API key in src/config.ts:1");
     expect(task?.executionMode).toBe("new-pr");
     expect(task?.targetFiles).toEqual(["src/config.ts"]);
@@ -311,6 +311,28 @@ describe("SecurityScanner", () => {
     expect(metadata.column).toBeGreaterThanOrEqual(1);
   });
 
+  it("never includes the matched secret text in the task", async () => {
+    const secret = "abcdefghijklmnopqrstuvwxyz123456";
+    addVirtualFile("src/config.ts", `const apiKey = "${secret}";`);
+
+    const scanner = new SecurityScanner();
+    const [task] = await scanner.scan(REPO_PATH);
+
+    expect(task?.description).not.toContain(secret);
+    expect(JSON.stringify(task?.metadata)).not.toContain(secret);
+    expect(task?.metadata.redacted).toBe(true);
+  });
+
+  it("keeps the matched snippet for non-secret findings", async () => {
+    addVirtualFile("src/unsafe.ts", "const output = eval(payload);");
+
+    const scanner = new SecurityScanner();
+    const [task] = await scanner.scan(REPO_PATH);
+
+    expect(task?.description).toContain("eval(");
+    expect(task?.metadata.matchText).toContain("eval(");
+  });
+
   // ── Scanner identity ────────────────────────────────────────
 
   it("has the expected id and name", () => {
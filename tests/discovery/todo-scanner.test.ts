@@ -0,0 +1,175 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { Task } from "../../src/core/index.js";
+import { TodoScanner } from "../../src/discovery/scanners/todo-scanner.js";
+
+let repoPath = "";
+
+async function writeRepoFile(relativePath: string, content: string): Promise<void> {
+  const absolutePath = join(repoPath, relativePath);
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, content, "utf8");
+}
+
+async function commitAll(date: string): Promise<void> {
+  const env = { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date };
+  await execa("git", ["add", "-A"], { cwd: repoPath });
+  await execa("git", ["commit", "-q", "-m", "fixture"], { cwd: repoPath, env });
+}
+
+function markerTexts(task: Task): string[] {
+  const markers = task.metadata.markers as Array<{ text: string }>;
+  return markers.map((marker) => marker.text);
+}
+
+beforeEach(async () => {
+  repoPath = await mkdtemp(join(tmpdir(), "oac-todo-scanner-"));
+  await execa("git", ["init", "-q"], { cwd: repoPath });
+  await execa("git", ["config", "user.email", "dev@example.com"], { cwd: repoPath });
+  await execa("git", ["config", "user.name", "Dev Example"], { cwd: repoPath });
+});
+
+afterEach(async () => {
+  await rm(repoPath, { recursive: true, force: true });
+});
+
+describe("TodoScanner", () => {
+  it("finds markers in line and block comments but not in code or strings", async () => {
+    await writeRepoFile(
+      "src/parser.ts",
+      [
+        "// TODO: support nested arrays",
+        'const label = "TODO: not a comment";',
+        "/*",
+        " * FIXME handle CRLF line endings",
+        " */",
+        "export const XXX_LIMIT = 3;",
+        "// Collects TODO comments from the parser.",
+      ].join("\n"),
+    );
+    await writeRepoFile("scripts/build.py", "x = 1  # HACK: work around the old API\n");
+
+    const tasks = await new TodoScanner().scan(repoPath);
+
+    expect(tasks.map((task) => task.title).sort()).toEqual([
+      "FIXME: handle CRLF line endings",
+      "HACK: work around the old API",
+      "TODO: support nested arrays",
+    ]);
+    expect(tasks.every((task) => task.source === "todo")).toBe(true);
+    expect(tasks[0]?.title).toBe("FIXME: handle CRLF line endings");
+  });
+
+  it("skips markers that only reference an issue tracker", async () => {
+    await writeRepoFile(
+      "src/app.ts",
+      [
+        "// TODO(#123)",
+        "",
+        "",
+        "// FIXME: see https://github.com/acme/app/issues/7",
+        "",
+        "",
+        "// TODO: PROJ-42",
+        "",
+        "",
+        "// TODO(#124): retry failed uploads",
+      ].join("\n"),
+    );
+
+    const tasks = await new TodoScanner().scan(repoPath);
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]?.title).toBe("TODO: retry failed uploads");
+    expect(tasks[0]?.metadata.markers).toEqual([
+      { marker: "TODO", line: 10, text: "retry failed uploads", owner: "#124" },
+    ]);
+  });
+
+  it("groups nearby markers in the same function into one task", async () => {
+    await writeRepoFile(
+      "src/config.ts",
+      [
+        "export function loadConfig(path: string) {",
+        "  // TODO: validate the path",
+        "  const raw = read(path);",
+        "  // FIXME: cache parsed results",
+        "  return parse(raw);",
+        "}",
+        "",
+        "export function saveConfig() {",
+        "  // TODO: write atomically",
+        "}",
+      ].join("\n"),
+    );
+    await writeRepoFile(
+      "lib/util.py",
+      [
+        "def load():",
+        "    # TODO: stream large files",
+        "    data = read()",
+        "    # TODO: close the handle",
+        "    return data",
+        "",
+        "# TODO: module level note",
+      ].join("\n"),
+    );
+
+    const tasks = await new TodoScanner().scan(repoPath);
+    const byFunction = new Map(tasks.map((task) => [task.metadata.functionName ?? "-", task]));
+
+    expect(tasks).toHaveLength(4);
+    expect(markerTexts(byFunction.get("loadConfig") as Task)).toEqual([
+      "validate the path",
+      "cache parsed results",
+    ]);
+    expect(byFunction.get("loadConfig")?.title).toBe(
+      "Resolve 2 TODO/FIXME comments in loadConfig() (src/config.ts)",
+    );
+    expect(byFunction.get("loadConfig")?.complexity).toBe("moderate");
+    expect(markerTexts(byFunction.get("saveConfig") as Task)).toEqual(["write atomically"]);
+    expect(markerTexts(byFunction.get("load") as Task)).toEqual([
+      "stream large files",
+      "close the handle",
+    ]);
+    expect(markerTexts(byFunction.get("-") as Task)).toEqual(["module level note"]);
+  });
+
+  it("attaches git blame author and age metadata", async () => {
+    await writeRepoFile("src/old.ts", "// TODO: remove legacy fallback\n");
+    await commitAll("2020-01-01T00:00:00Z");
+
+    const [task] = await new TodoScanner().scan(repoPath);
+
+    expect(task?.metadata.author).toBe("Dev Example");
+    expect(task?.metadata.authoredAt).toBe("2020-01-01T00:00:00.000Z");
+    expect(task?.metadata.daysSinceLastChange).toBeGreaterThan(365);
+    expect(task?.metadata.ageDays).toBe(task?.metadata.daysSinceLastChange);
+  });
+
+  it("skips vendored and excluded paths", async () => {
+    await writeRepoFile("vendor/lib/dep.js", "// TODO: vendored\n");
+    await writeRepoFile("packages/a/node_modules/x/index.js", "// TODO: installed\n");
+    await writeRepoFile("generated/api.ts", "// TODO: generated\n");
+    await writeRepoFile("static/app.min.js", "// TODO: minified\n");
+    await writeRepoFile("src/index.ts", "// TODO: keep me\n");
+
+    const tasks = await new TodoScanner().scan(repoPath, { exclude: ["generated"] });
+
+    expect(tasks.map((task) => task.targetFiles[0])).toEqual(["src/index.ts"]);
+  });
+
+  it("honours maxTasks", async () => {
+    await writeRepoFile("a.ts", "// TODO: one\n");
+    await writeRepoFile("b.ts", "// FIXME: two\n");
+
+    const tasks = await new TodoScanner().scan(repoPath, { maxTasks: 1 });
+
+    expect(tasks.map((task) => task.title)).toEqual(["FIXME: two"]);
+  });
+});
@@ -769,4 +769,20 @@ describe("ClaudeCodeAdapter", () => {
       await expect(adapter.abort("missing")).resolves.toBeUndefined();
     });
   });
+
+  describe("wrapUp", () => {
+    it("interrupts the running process with SIGINT", async () => {
+      const pending = createPendingSubprocess();
+      vi.mocked(execa).mockReturnValueOnce(pending.subprocess);
+
+      const adapter = new ClaudeCodeAdapter();
+      const execution = adapter.execute(makeParams({ executionId: "exec-wrap-up" }));
+
+      await adapter.wrapUp("exec-wrap-up");
+      pending.resolve({ exitCode: 0, stdout: "", stderr: "" });
+      await execution.result;
+
+      expect(pending.kill).toHaveBeenCalledWith("SIGINT");
+    });
+  });
 });
@@ -95,6 +95,11 @@ vi.mock("../../src/execution/worker.js", () => ({
   executeTask: vi.fn(),
 }));
 
+vi.mock("node:timers/promises", () => ({
+  setTimeout: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { setTimeout as delay } from "node:timers/promises";
 import {
   type ExecutionPlan,
   type ExecutionResult,
@@ -113,6 +118,7 @@ import {
 } from "../../src/execution/engine.js";
 import { createSandbox } from "../../src/execution/sandbox.js";
 import { executeTask } from "../../src/execution/worker.js";
+import { RoleRouter } from "../../src/organization/roles.js";
 
 function makeTask(overrides: Partial<Task> = {}): Task {
   return {
@@ -418,6 +424,287 @@ describe("ExecutionEngine", () => {
 
     expect(result.jobs.map((job) => job.workerId)).toEqual(["agent-a", "agent-b", "agent-a"]);
   });
+
+  it("retries transient result failures with backoff", async () => {
+    const engine = new ExecutionEngine([createMockAgent()], createEventBus());
+    engine.enqueue(makePlan([makeTask({ id: "task-flaky" })]));
+
+    vi.mocked(executeTask)
+      .mockResolvedValueOnce(
+        makeExecutionResult({
+          success: false,
+          exitCode: 1,
+          error: "Claude execution timed out for job-1",
+        }),
+      )
+      .mockResolvedValueOnce(makeExecutionResult());
+
+    const result = await engine.run();
+
+    expect(vi.mocked(executeTask)).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(delay)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(delay).mock.calls[0][0]).toBeGreaterThanOrEqual(1_000);
+    expect(result.completed).toHaveLength(1);
+    expect(result.completed[0].attempts).toBe(2);
+  });
+
+  it("classifies rate-limited results as AGENT_RATE_LIMITED", async () => {
+    const engine = new ExecutionEngine([createMockAgent()], createEventBus(), {
+      maxAttempts: 1,
+    });
+    engine.enqueue(makePlan([makeTask({ id: "task-limited" })]));
+
+    vi.mocked(executeTask).mockResolvedValueOnce(
+      makeExecutionResult({ success: false, exitCode: 1, error: "429 Too Many Requests" }),
+    );
+
+    const result = await engine.run();
+
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0].error?.code).toBe("AGENT_RATE_LIMITED");
+    expect(result.failed[0].error?.message).toBe("429 Too Many Requests");
+  });
+
+  it("does not blame the agent for failures that only quote task output", async () => {
+    const error = "Tests failed: heap snapshot hit the network mock's rate limit (timeout 5s)";
+    const runner = vi.fn(async (job: { task: Task }) =>
+      job.task.id === "task-1"
+        ? makeExecutionResult({ success: false, exitCode: 1, error })
+        : makeExecutionResult(),
+    );
+    const engine = new ExecutionEngine(
+      [createMockAgent("primary"), createMockAgent("secondary")],
+      createEventBus(),
+      { concurrency: 1, maxAttempts: 1, routing: "fallback", runner },
+    );
+    engine.enqueue(makePlan([makeTask({ id: "task-1" }), makeTask({ id: "task-2" })]));
+
+    const result = await engine.run();
+
+    expect(result.failed[0].error?.code).toBe("AGENT_EXECUTION_FAILED");
+    expect(engine.getCircuitState("primary")).toBe("closed");
+    expect(result.jobs.map((job) => job.workerId)).toEqual(["primary", "primary"]);
+  });
+
+  it("keeps AGENT_TOKEN_LIMIT from the result and does not retry it", async () => {
+    const engine = new ExecutionEngine([createMockAgent("agent-budget")], createEventBus(), {
+      maxAttempts: 3,
+    });
+    engine.enqueue(makePlan([makeTask({ id: "task-over-budget" })]));
+
+    vi.mocked(executeTask).mockResolvedValueOnce(
+      makeExecutionResult({
+        success: false,
+        exitCode: 1,
+        error: "Token budget of 1000 exceeded (1200 tokens used); agent aborted.",
+        errorCode: "AGENT_TOKEN_LIMIT",
+      }),
+    );
+
+    const result = await engine.run();
+
+    expect(result.failed[0].error?.code).toBe("AGENT_TOKEN_LIMIT");
+    expect(result.failed[0].attempts).toBe(1);
+  });
+
+  it("uses a custom runner instead of the sandbox worker", async () => {
+    const eventBus = createEventBus();
+    const runner = vi.fn().mockResolvedValue(makeExecutionResult({ totalTokensUsed: 42 }));
+    const engine = new ExecutionEngine([createMockAgent("agent-runner")], eventBus, { runner });
+    const [job] = engine.enqueue(makePlan([makeTask({ id: "task-runner" })]));
+
+    const completed = vi.fn();
+    eventBus.on("execution:completed", completed);
+
+    const result = await engine.run();
+
+    expect(runner).toHaveBeenCalledWith(job, expect.objectContaining({ id: "agent-runner" }));
+    expect(vi.mocked(createSandbox)).not.toHaveBeenCalled();
+    expect(vi.mocked(executeTask)).not.toHaveBeenCalled();
+    expect(result.completed[0].result?.totalTokensUsed).toBe(42);
+    expect(completed).toHaveBeenCalledWith({ jobId: job.id, result: job.result });
+  });
+
+  it("skips agents whose circuit is open", async () => {
+    const agentA = createMockAgent("agent-a");
+    const agentB = createMockAgent("agent-b");
+    const runner = vi.fn(async (_job: unknown, agent: AgentProvider) =>
+      agent.id === "agent-a"
+        ? makeExecutionResult({
+            success: false,
+            exitCode: 1,
+            error: "Claude execution timed out for job-1",
+          })
+        : makeExecutionResult(),
+    );
+    const engine = new ExecutionEngine([agentA, agentB], createEventBus(), {
+      concurrency: 1,
+      maxAttempts: 1,
+      runner,
+    });
+    engine.enqueue(
+      makePlan([
+        makeTask({ id: "task-1" }),
+        makeTask({ id: "task-2" }),
+        makeTask({ id: "task-3" }),
+        makeTask({ id: "task-4" }),
+        makeTask({ id: "task-5" }),
+        makeTask({ id: "task-6" }),
+        makeTask({ id: "task-7" }),
+      ]),
+    );
+
+    const result = await engine.run();
+
+    expect(engine.getCircuitState("agent-a")).toBe("open");
+    expect(engine.getCircuitState("agent-b")).toBe("closed");
+    expect(result.jobs.map((job) => job.workerId)).toEqual([
+      "agent-a",
+      "agent-b",
+      "agent-a",
+      "agent-b",
+      "agent-a",
+      "agent-b",
+      "agent-b",
+    ]);
+  });
+
+  it("fallback routing sends every job to the first healthy agent of the chain", async () => {
+    const runner = vi.fn(async () => makeExecutionResult());
+    const engine = new ExecutionEngine(
+      [createMockAgent("primary"), createMockAgent("secondary")],
+      createEventBus(),
+      { concurrency: 1, routing: "fallback", runner },
+    );
+    engine.enqueue(makePlan([makeTask({ id: "task-1" }), makeTask({ id: "task-2" })]));
+
+    const result = await engine.run();
+
+    expect(result.jobs.map((job) => job.workerId)).toEqual(["primary", "primary"]);
+  });
+
+  it("routes tasks owned by a role to its agent and leaves the rest to the chain", async () => {
+    const chain = [createMockAgent("primary"), createMockAgent("secondary")];
+    const roleRouter = new RoleRouter(
+      [{ id: "qa", name: "QA", agent: "tester", repos: ["web"], taskSources: ["test-gap"] }],
+      [...chain, createMockAgent("tester")],
+    );
+    const runRepo = async (repoFullName: string) => {
+      const engine = new ExecutionEngine(chain, createEventBus(), {
+        concurrency: 1,
+        routing: "fallback",
+        repoFullName,
+        roleRouter,
+        runner: vi.fn(async () => makeExecutionResult()),
+      });
+      engine.enqueue(
+        makePlan([makeTask({ id: "task-1", source: "test-gap" }), makeTask({ id: "task-2" })]),
+      );
+      const result = await engine.run();
+      return result.jobs.map((job) => job.workerId);
+    };
+
+    expect(await runRepo("acme/web")).toEqual(["tester", "tester"]);
+    expect(await runRepo("acme/api")).toEqual(["primary", "primary"]);
+  });
+
+  it("fallback routing moves a rate-limited job and the remaining ones to the next agent", async () => {
+    const runner = vi.fn(async (_job: unknown, agent: AgentProvider) =>
+      agent.id === "primary"
+        ? makeExecutionResult({ success: false, exitCode: 1, error: "429 Too Many Requests" })
+        : makeExecutionResult(),
+    );
+    const engine = new ExecutionEngine(
+      [createMockAgent("primary"), createMockAgent("secondary")],
+      createEventBus(),
+      { concurrency: 1, maxAttempts: 1, routing: "fallback", runner },
+    );
+    engine.enqueue(
+      makePlan([
+        makeTask({ id: "task-1" }),
+        makeTask({ id: "task-2" }),
+        makeTask({ id: "task-3" }),
+      ]),
+    );
+
+    const result = await engine.run();
+
+    expect(vi.mocked(delay)).not.toHaveBeenCalled();
+    expect(engine.getCircuitState("primary")).toBe("open");
+    expect(result.completed).toHaveLength(3);
+    expect(result.jobs.map((job) => job.workerId)).toEqual(["secondary", "secondary", "secondary"]);
+    expect(runner.mock.calls.map(([, agent]) => agent.id)).toEqual([
+      "primary",
+      "secondary",
+      "secondary",
+      "secondary",
+    ]);
+  });
+
+  it("fallback routing fails the job once the whole chain is unavailable", async () => {
+    const runner = vi.fn(async () => {
+      throw executionError("AGENT_NOT_AVAILABLE", "CLI missing");
+    });
+    const engine = new ExecutionEngine(
+      [createMockAgent("primary"), createMockAgent("secondary")],
+      createEventBus(),
+      { maxAttempts: 1, routing: "fallback", runner },
+    );
+    engine.enqueue(makePlan([makeTask({ id: "task-1" })]));
+
+    const result = await engine.run();
+
+    expect(runner).toHaveBeenCalledTimes(2);
+    expect(result.failed[0].error?.code).toBe("AGENT_NOT_AVAILABLE");
+  });
+
+  it("keeps running tasks after several finish without changes", async () => {
+    const runner = vi.fn().mockResolvedValue(
+      makeExecutionResult({
+        success: false,
+        exitCode: 0,
+        filesChanged: [],
+        error: "Agent exited with code 0 without real file changes.",
+      }),
+    );
+    const engine = new ExecutionEngine([createMockAgent()], createEventBus(), {
+      concurrency: 1,
+      maxAttempts: 1,
+      runner,
+    });
+    engine.enqueue(makePlan([1, 2, 3, 4, 5].map((n) => makeTask({ id: `task-${n}` }))));
+
+    const result = await engine.run();
+
+    expect(runner).toHaveBeenCalledTimes(5);
+    expect(engine.getCircuitState("test-agent")).toBe("closed");
+    expect(result.failed.map((job) => job.error?.code)).toEqual(
+      Array(5).fill("AGENT_EXECUTION_FAILED"),
+    );
+  });
+
+  it("fails jobs with AGENT_NOT_AVAILABLE once every circuit is open", async () => {
+    const runner = vi.fn().mockRejectedValue(new Error("agent process crashed"));
+    const engine = new ExecutionEngine([createMockAgent()], createEventBus(), {
+      concurrency: 1,
+      maxAttempts: 1,
+      runner,
+    });
+    engine.enqueue(
+      makePlan([
+        makeTask({ id: "task-1" }),
+        makeTask({ id: "task-2" }),
+        makeTask({ id: "task-3" }),
+        makeTask({ id: "task-4" }),
+      ]),
+    );
+
+    const result = await engine.run();
+
+    expect(runner).toHaveBeenCalledTimes(3);
+    expect(result.failed).toHaveLength(4);
+    expect(result.failed[3].error?.code).toBe("AGENT_NOT_AVAILABLE");
+  });
 });
 
 describe("isTransientError", () => {
@@ -577,4 +864,11 @@ describe("CircuitBreaker", () => {
     expect(cb.getState()).toBe("closed");
     expect(cb.isOpen()).toBe(false);
   });
+  it("trip() opens the circuit without waiting for the failure threshold", () => {
+    const cb = new CircuitBreaker();
+    cb.trip();
+
+    expect(cb.getState()).toBe("open");
+    expect(cb.isOpen()).toBe(true);
+  });
 });
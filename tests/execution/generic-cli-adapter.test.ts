@@ -0,0 +1,203 @@
+import { Readable } from "node:stream";
+
+import { execa } from "execa";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { type CustomAgentConfig, OacConfigSchema } from "../../src/core/index.js";
+
+import type { AgentEvent, AgentExecuteParams } from "../../src/execution/agents/agent.interface.js";
+import { GenericCliAdapter } from "../../src/execution/agents/generic-cli.adapter.js";
+import { adapterRegistry, registerCustomAgents } from "../../src/execution/agents/registry.js";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+interface MockSettledResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  timedOut?: boolean;
+}
+
+function makeParams(overrides: Partial<AgentExecuteParams> = {}): AgentExecuteParams {
+  return {
+    executionId: "exec-custom-1",
+    workingDirectory: "/tmp/workdir",
+    prompt: "Fix the issue",
+    targetFiles: ["src/file.ts"],
+    tokenBudget: 5_000,
+    allowCommits: false,
+    timeoutMs: 30_000,
+    env: { TEST_ENV: "1" },
+    ...overrides,
+  };
+}
+
+function makeConfig(agent: Record<string, unknown>): CustomAgentConfig {
+  const config = OacConfigSchema.parse({ provider: { customAgents: { custom: agent } } });
+  return config.provider.customAgents.custom as CustomAgentConfig;
+}
+
+function mockSubprocess(stdoutLines: string[], settled: Partial<MockSettledResult> = {}): void {
+  const promise = Promise.resolve({ exitCode: 0, stdout: "", stderr: "", ...settled });
+  vi.mocked(execa).mockImplementationOnce(
+    () =>
+      Object.assign(promise, {
+        stdout: Readable.from(stdoutLines.map((line) => `${line}\n`)),
+        stderr: Readable.from([]),
+        pid: 4321,
+        kill: vi.fn().mockReturnValue(true),
+      }) as unknown as ReturnType<typeof execa>,
+  );
+}
+
+async function collectEvents(events: AsyncIterable<AgentEvent>): Promise<AgentEvent[]> {
+  const collected: AgentEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("GenericCliAdapter", () => {
+  it("uses the config key as id and the optional name for display", () => {
+    const adapter = new GenericCliAdapter("aider", makeConfig({ command: "aider", name: "Aider" }));
+    expect(adapter.id).toBe("aider");
+    expect(adapter.name).toBe("Aider");
+  });
+
+  it("probes the configured version command", async () => {
+    vi.mocked(execa).mockImplementationOnce(
+      () =>
+        Promise.resolve({
+          exitCode: 0,
+          stdout: "aider v0.82.1\n",
+          stderr: "",
+        }) as unknown as ReturnType<typeof execa>,
+    );
+
+    const adapter = new GenericCliAdapter(
+      "aider",
+      makeConfig({ command: "aider", versionArgs: ["version"] }),
+    );
+    const result = await adapter.checkAvailability();
+
+    expect(execa).toHaveBeenCalledWith("aider", ["version"], { reject: false, stdin: "ignore" });
+    expect(result).toEqual({ available: true, version: "0.82.1" });
+  });
+
+  it("fills the argv template and filters the environment with passEnv", async () => {
+    vi.stubEnv("OAC_TEST_ALLOWED", "yes");
+    vi.stubEnv("OAC_TEST_SECRET", "no");
+    mockSubprocess([]);
+
+    const adapter = new GenericCliAdapter(
+      "agent",
+      makeConfig({
+        command: "my-agent",
+        args: ["--dir", "{cwd}", "--message", "Task: {prompt}"],
+        env: { AGENT_MODE: "batch" },
+        passEnv: ["OAC_TEST_ALLOWED"],
+      }),
+    );
+    await adapter.execute(makeParams()).result;
+
+    const [command, args, options] = vi.mocked(execa).mock.calls[0] as unknown as [
+      string,
+      string[],
+      { env: Record<string, string>; extendEnv: boolean; cwd: string },
+    ];
+    expect(command).toBe("my-agent");
+    expect(args).toEqual(["--dir", "/tmp/workdir", "--message", "Task: Fix the issue"]);
+    expect(options.cwd).toBe("/tmp/workdir");
+    expect(options.extendEnv).toBe(false);
+    expect(options.env).toMatchObject({
+      OAC_TEST_ALLOWED: "yes",
+      AGENT_MODE: "batch",
+      TEST_ENV: "1",
+      OAC_TOKEN_BUDGET: "5000",
+      OAC_ALLOW_COMMITS: "false",
+    });
+    expect(options.env.OAC_TEST_SECRET).toBeUndefined();
+  });
+
+  it("reads token counts from plain text output", async () => {
+    mockSubprocess(["Working...", "Tokens: input tokens: 1200, output tokens: 300"]);
+
+    const adapter = new GenericCliAdapter("agent", makeConfig({ command: "my-agent" }));
+    const execution = adapter.execute(makeParams());
+    const events = await collectEvents(execution.events);
+    const result = await execution.result;
+
+    expect(events).toContainEqual({
+      type: "tokens",
+      inputTokens: 1200,
+      outputTokens: 300,
+      cumulativeTokens: 1500,
+    });
+    expect(result).toMatchObject({ success: true, exitCode: 0, totalTokensUsed: 1500 });
+  });
+
+  it("maps JSON lines to token, file edit and error events via field paths", async () => {
+    mockSubprocess([
+      "starting up",
+      JSON.stringify({ type: "usage", usage: { in: 100, out: 40 } }),
+      JSON.stringify({ type: "edit", file: { path: "src/a.ts", op: "create" } }),
+      JSON.stringify({ type: "read", file: { path: "src/b.ts" } }),
+      JSON.stringify({ type: "edit", file: { path: "src/c.ts", op: "patch" } }),
+      JSON.stringify({ type: "warning", detail: "rate limited, backing off" }),
+    ]);
+
+    const adapter = new GenericCliAdapter(
+      "agent",
+      makeConfig({
+        command: "my-agent",
+        output: {
+          format: "jsonl",
+          tokens: { input: "usage.in", output: "usage.out" },
+          fileEdit: { path: "file.path", action: "file.op", when: { type: "edit" } },
+          error: "detail",
+        },
+      }),
+    );
+    const execution = adapter.execute(makeParams());
+    const events = await collectEvents(execution.events);
+    const result = await execution.result;
+
+    expect(events.filter((event) => event.type === "file_edit")).toEqual([
+      { type: "file_edit", path: "src/a.ts", action: "create" },
+      { type: "file_edit", path: "src/c.ts", action: "modify" },
+    ]);
+    expect(events).toContainEqual({
+      type: "error",
+      message: "rate limited, backing off",
+      recoverable: true,
+    });
+    expect(result.filesChanged).toEqual(["src/a.ts", "src/c.ts"]);
+    expect(result.totalTokensUsed).toBe(140);
+  });
+
+  it("reports the tail of stderr when the process exits non-zero", async () => {
+    mockSubprocess([], { exitCode: 2, stderr: "boom\nfatal: no model configured" });
+
+    const adapter = new GenericCliAdapter("agent", makeConfig({ command: "my-agent" }));
+    const result = await adapter.execute(makeParams()).result;
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(2);
+    expect(result.error).toBe("boom\nfatal: no model configured");
+  });
+
+  it("registers custom agents under their config keys", () => {
+    registerCustomAgents({ "in-house": makeConfig({ command: "in-house-agent" }) });
+
+    const adapter = adapterRegistry.get("in-house")?.();
+    expect(adapter).toBeInstanceOf(GenericCliAdapter);
+    expect(adapter?.id).toBe("in-house");
+  });
+});
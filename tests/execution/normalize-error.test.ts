@@ -1,7 +1,11 @@
 import { describe, expect, it } from "vitest";
 
 import { OacError, executionError } from "../../src/core/index.js";
-import { normalizeExecutionError, toErrorMessage } from "../../src/execution/normalize-error.js";
+import {
+  inferExecutionErrorCode,
+  normalizeExecutionError,
+  toErrorMessage,
+} from "../../src/execution/normalize-error.js";
 
 describe("toErrorMessage", () => {
   it("returns message from Error instances", () => {
@@ -54,6 +58,12 @@ describe("normalizeExecutionError", () => {
     expect(result.code).toBe("AGENT_OOM");
   });
 
+  it("detects rate-limit errors", () => {
+    const result = normalizeExecutionError(new Error("429 Too Many Requests"), ctx);
+    expect(result.code).toBe("AGENT_RATE_LIMITED");
+    expect(result.severity).toBe("recoverable");
+  });
+
   it("detects network errors (ECONN)", () => {
     const result = normalizeExecutionError(new Error("ECONNREFUSED"), ctx);
     expect(result.code).toBe("NETWORK_ERROR");
@@ -133,3 +143,28 @@ describe("normalizeExecutionError", () => {
     expect(result.cause).toBe(original);
   });
 });
+
+describe("inferExecutionErrorCode", () => {
+  it("maps known failure messages to error codes", () => {
+    expect(inferExecutionErrorCode("Claude execution timed out for job-1")).toBe("AGENT_TIMEOUT");
+    expect(inferExecutionErrorCode("Codex execution rate-limited for job-1")).toBe(
+      "AGENT_RATE_LIMITED",
+    );
+    expect(inferExecutionErrorCode("getaddrinfo ENOTFOUND api.example.com")).toBe("NETWORK_ERROR");
+    expect(inferExecutionErrorCode("FATAL ERROR: JavaScript heap out of memory")).toBe("AGENT_OOM");
+    expect(
+      inferExecutionErrorCode("fatal: Unable to create '/repo/.git/index.lock': File exists."),
+    ).toBe("GIT_LOCK_FAILED");
+  });
+
+  it("returns undefined for unrecognized messages", () => {
+    expect(inferExecutionErrorCode("Task failed")).toBeUndefined();
+  });
+
+  it("ignores failure class words quoted from task output", () => {
+    expect(
+      inferExecutionErrorCode("2 tests failed in heap.test.ts: network request timed out"),
+    ).toBeUndefined();
+    expect(inferExecutionErrorCode("Lint failed in src/rate-limit.ts")).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { Epic, Task } from "../../src/core/index.js";
+import {
+  PROMPT_TEMPLATE_DIR,
+  buildEpicPrompt,
+  buildTaskPrompt,
+  loadPromptTemplates,
+  renderTemplate,
+} from "../../src/execution/prompts.js";
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "task-1",
+    source: "lint",
+    title: "Fix lint warning",
+    description: "Fix one lint warning in the codebase.",
+    targetFiles: ["src/file.ts"],
+    priority: 50,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: {},
+    discoveredAt: "2026-02-16T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("renderTemplate", () => {
+  it("renders variables, sections and inverted sections", () => {
+    const template =
+      "Hi {{name}}!\n{{#files}}\nFiles:\n{{files}}\n{{/files}}\n{{^files}}\nNo files.\n{{/files}}\nBye";
+
+    expect(renderTemplate(template, { name: "oac", files: "a.ts" })).toBe(
+      "Hi oac!\nFiles:\na.ts\nBye",
+    );
+    expect(renderTemplate(template, { name: "oac", files: "" })).toBe("Hi oac!\nNo files.\nBye");
+  });
+
+  it("renders unknown variables empty and never parses inserted values", () => {
+    expect(renderTemplate("[{{missing}}] {{value}}", { value: "{{name}}" })).toBe("[] {{name}}");
+  });
+});
+
+describe("buildTaskPrompt", () => {
+  it("includes the instructions for the task source", () => {
+    const prompt = buildTaskPrompt(makeTask());
+
+    expect(prompt).toContain("Task ID: task-1");
+    expect(prompt).toContain("Fix the reported lint problems:");
+    expect(prompt).toContain("Target files:\nsrc/file.ts");
+    expect(prompt).not.toContain("No target files specified.");
+  });
+
+  it("renders the linked issue and asks the agent to search when no files are given", () => {
+    const prompt = buildTaskPrompt(
+      makeTask({
+        source: "github-issue",
+        targetFiles: [],
+        linkedIssue: {
+          number: 12,
+          url: "https://github.com/acme/app/issues/12",
+          labels: ["bug", "good first issue"],
+        },
+      }),
+    );
+
+    expect(prompt).toContain("GitHub Issue #12: https://github.com/acme/app/issues/12");
+    expect(prompt).toContain("Labels: bug, good first issue");
+    expect(prompt).toContain("You MUST resolve this GitHub issue with actual code changes:");
+    expect(prompt).toContain("No target files specified.");
+  });
+
+  it("uses overridden task and source templates", () => {
+    const prompt = buildTaskPrompt(makeTask(), {
+      task: "{{title}} ({{priority}})\n{{instructions}}",
+      lint: "Only touch {{targetFiles}}.",
+    });
+
+    expect(prompt).toBe("Fix lint warning (50)\nOnly touch src/file.ts.");
+  });
+
+  it("renders the repo guide from task metadata", () => {
+    const prompt = buildTaskPrompt(
+      makeTask({ metadata: { repoGuide: { content: "Use pnpm.", digest: "d1" } } }),
+    );
+
+    expect(prompt).toContain("Repository contribution guide (from .oac/README.md — MUST FOLLOW):");
+    expect(prompt).toContain("Use pnpm.");
+    expect(prompt).toContain("Guide digest: d1");
+  });
+});
+
+describe("buildEpicPrompt", () => {
+  it("lists the subtasks and context files", () => {
+    const epic: Epic = {
+      id: "epic-1",
+      title: "Harden parser",
+      description: "Parser fixes.",
+      scope: "parser",
+      subtasks: [
+        makeTask({ title: "Fix null check", targetFiles: ["src/parser.ts"] }),
+        makeTask({ id: "task-2", title: "Add tests", description: "", targetFiles: [] }),
+      ],
+      contextFiles: ["src/lexer.ts"],
+      status: "pending",
+      priority: 70,
+      estimatedTokens: 1_000,
+      createdAt: "2026-02-16T00:00:00.000Z",
+      metadata: {},
+    };
+
+    const prompt = buildEpicPrompt(epic);
+
+    expect(prompt).toContain("Epic: Harden parser");
+    expect(prompt).toContain("Scope: parser module");
+    expect(prompt).toContain("Subtasks (2):");
+    expect(prompt).toContain("  1. Fix null check [src/parser.ts]");
+    expect(prompt).toContain("  2. Add tests");
+    expect(prompt).toContain("Context files to read for understanding:\n  - src/lexer.ts");
+    expect(buildEpicPrompt(epic, { epic: "{{id}}: {{subtaskCount}}" })).toBe("epic-1: 2");
+  });
+});
+
+describe("loadPromptTemplates", () => {
+  let repoPath: string | undefined;
+
+  afterEach(async () => {
+    if (repoPath) await rm(repoPath, { recursive: true, force: true });
+    repoPath = undefined;
+  });
+
+  it("reads repo templates and lets the config override them", async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "oac-prompts-"));
+    await mkdir(join(repoPath, PROMPT_TEMPLATE_DIR), { recursive: true });
+    await writeFile(join(repoPath, PROMPT_TEMPLATE_DIR, "lint.md"), "Repo lint rules.");
+    await writeFile(join(repoPath, PROMPT_TEMPLATE_DIR, "todo.md"), "Repo todo rules.");
+    await writeFile(join(repoPath, PROMPT_TEMPLATE_DIR, "unknown.md"), "Ignored.");
+
+    const templates = await loadPromptTemplates(repoPath, { todo: "Config todo rules." });
+
+    expect(templates).toEqual({ lint: "Repo lint rules.", todo: "Config todo rules." });
+  });
+});
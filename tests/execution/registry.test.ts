@@ -52,6 +52,7 @@ describe("AdapterRegistry", () => {
     expect(ids).toContain("claude-code");
     expect(ids).toContain("codex");
     expect(ids).toContain("opencode");
+    expect(ids).toContain("replay");
   });
 
   it("register adds a new custom adapter factory", () => {
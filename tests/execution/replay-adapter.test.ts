@@ -0,0 +1,180 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { OacError } from "../../src/core/index.js";
+
+import type {
+  AgentEvent,
+  AgentExecuteParams,
+  AgentProvider,
+  AgentResult,
+} from "../../src/execution/agents/agent.interface.js";
+import { adapterRegistry } from "../../src/execution/agents/registry.js";
+import {
+  ReplayAdapter,
+  type ReplayFixture,
+  replayFixturePath,
+} from "../../src/execution/agents/replay.adapter.js";
+import { AsyncEventQueue } from "../../src/execution/agents/shared.js";
+
+let repoPath = "";
+let fixtureDir = "";
+
+function makeParams(overrides: Partial<AgentExecuteParams> = {}): AgentExecuteParams {
+  return {
+    executionId: "exec-replay-1",
+    workingDirectory: repoPath,
+    prompt: "Fix the greeting",
+    targetFiles: ["greeting.txt"],
+    tokenBudget: 5_000,
+    allowCommits: false,
+    timeoutMs: 30_000,
+    ...overrides,
+  };
+}
+
+/** Stands in for a real CLI: edits the worktree and streams a few events. */
+function createEditingAgent(): AgentProvider {
+  return {
+    id: "claude-code",
+    name: "Fake Agent",
+    checkAvailability: async () => ({ available: true, version: "1.0.0" }),
+    execute: (params) => {
+      const events = new AsyncEventQueue<AgentEvent>();
+      const result = (async (): Promise<AgentResult> => {
+        events.push({ type: "output", content: "editing", stream: "stdout" });
+        await writeFile(join(params.workingDirectory, "greeting.txt"), "hello, world\n");
+        await writeFile(join(params.workingDirectory, "notes.md"), "# Notes\n");
+        events.push({ type: "file_edit", path: "greeting.txt", action: "modify" });
+        events.push({ type: "file_edit", path: "notes.md", action: "create" });
+        events.push({ type: "tokens", inputTokens: 80, outputTokens: 20, cumulativeTokens: 100 });
+        events.close();
+        return {
+          success: true,
+          exitCode: 0,
+          totalTokensUsed: 100,
+          filesChanged: ["greeting.txt", "notes.md"],
+          duration: 5,
+        };
+      })();
+      return { executionId: params.executionId, providerId: "claude-code", events, result };
+    },
+    estimateTokens: async () => {
+      throw new Error("not implemented");
+    },
+    abort: async () => {},
+  };
+}
+
+async function collectEvents(events: AsyncIterable<AgentEvent>): Promise<AgentEvent[]> {
+  const collected: AgentEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+async function git(args: string[]): Promise<string> {
+  const { stdout } = await execa("git", args, { cwd: repoPath });
+  return stdout;
+}
+
+beforeEach(async () => {
+  repoPath = await mkdtemp(join(tmpdir(), "oac-replay-repo-"));
+  fixtureDir = await mkdtemp(join(tmpdir(), "oac-replay-fixtures-"));
+  await git(["init", "-q"]);
+  await git(["config", "user.email", "dev@example.com"]);
+  await git(["config", "user.name", "Dev Example"]);
+  await writeFile(join(repoPath, "greeting.txt"), "hello\n");
+  await git(["add", "-A"]);
+  await git(["commit", "-q", "-m", "init"]);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(repoPath, { recursive: true, force: true });
+  await rm(fixtureDir, { recursive: true, force: true });
+});
+
+describe("ReplayAdapter", () => {
+  it("records events, result and patch, then replays them onto a clean sandbox", async () => {
+    const recorder = new ReplayAdapter({ mode: "record", fixtureDir, inner: createEditingAgent() });
+    const recording = recorder.execute(makeParams());
+    const recordedEvents = await collectEvents(recording.events);
+    await recording.result;
+
+    const fixture = JSON.parse(
+      await readFile(replayFixturePath(fixtureDir, "Fix the greeting"), "utf8"),
+    ) as ReplayFixture;
+    expect(fixture.providerId).toBe("claude-code");
+    expect(fixture.events.map((entry) => entry.event)).toEqual(recordedEvents);
+    expect(fixture.patch).toContain("+++ b/notes.md");
+    expect(await git(["status", "--porcelain"])).toBe(" M greeting.txt\n?? notes.md");
+
+    await git(["checkout", "--", "."]);
+    await git(["clean", "-fdq"]);
+
+    const player = new ReplayAdapter({ mode: "replay", fixtureDir, speed: 0 });
+    const replay = player.execute(makeParams({ executionId: "exec-replay-2" }));
+    const replayedEvents = await collectEvents(replay.events);
+    const result = await replay.result;
+
+    expect(replayedEvents).toEqual(recordedEvents);
+    expect(result).toMatchObject({
+      success: true,
+      totalTokensUsed: 100,
+      filesChanged: ["greeting.txt", "notes.md"],
+    });
+    expect(await readFile(join(repoPath, "greeting.txt"), "utf8")).toBe("hello, world\n");
+    expect(await readFile(join(repoPath, "notes.md"), "utf8")).toBe("# Notes\n");
+  });
+
+  it("fails with a clear error when no fixture matches the prompt", async () => {
+    const player = new ReplayAdapter({ mode: "replay", fixtureDir, speed: 0 });
+    const execution = player.execute(makeParams({ prompt: "Something never recorded" }));
+
+    await expect(execution.result).rejects.toBeInstanceOf(OacError);
+    await expect(execution.result).rejects.toThrow(/No replay fixture/);
+  });
+
+  it("stops replaying when aborted", async () => {
+    const fixture: ReplayFixture = {
+      version: 1,
+      providerId: "claude-code",
+      prompt: "Slow task",
+      recordedAt: new Date(0).toISOString(),
+      events: [
+        { at: 0, event: { type: "output", content: "start", stream: "stdout" } },
+        { at: 60_000, event: { type: "output", content: "late", stream: "stdout" } },
+      ],
+      result: { success: true, exitCode: 0, totalTokensUsed: 1, filesChanged: [], duration: 1 },
+      patch: "",
+    };
+    await writeFile(replayFixturePath(fixtureDir, "Slow task"), JSON.stringify(fixture));
+
+    const player = new ReplayAdapter({ mode: "replay", fixtureDir });
+    const execution = player.execute(makeParams({ prompt: "Slow task" }));
+    setTimeout(() => void player.abort("exec-replay-1"), 20);
+
+    const events = await collectEvents(execution.events);
+    const result = await execution.result;
+
+    expect(events).toEqual([{ type: "output", content: "start", stream: "stdout" }]);
+    expect(result).toMatchObject({ success: false, error: "Replay aborted." });
+  });
+
+  it("is registered as the replay provider and configured from the environment", async () => {
+    vi.stubEnv("OAC_REPLAY_DIR", fixtureDir);
+    expect(await adapterRegistry.get("replay")?.().checkAvailability()).toEqual({
+      available: true,
+      version: "replay",
+    });
+
+    vi.stubEnv("OAC_REPLAY_MODE", "record");
+    vi.stubEnv("OAC_REPLAY_PROVIDER", "replay");
+    expect(() => adapterRegistry.get("replay")?.()).toThrow(/not a recordable provider/);
+  });
+});
@@ -287,6 +287,91 @@ describe("executeTask", () => {
     expect(progressEvents.every((event) => event.jobId === "progress-1")).toBe(true);
   });
 
+  it("warns and asks the agent to wrap up at the warn threshold", async () => {
+    const agent = { ...createMockAgent(), wrapUp: vi.fn().mockResolvedValue(undefined) };
+    const eventBus = createEventBus();
+    const stages: string[] = [];
+    eventBus.on("execution:progress", (event) => stages.push(event.stage));
+    const events: AgentEvent[] = [];
+
+    mockExecution(
+      agent,
+      [
+        { type: "tokens", inputTokens: 500, outputTokens: 100, cumulativeTokens: 600 },
+        { type: "tokens", inputTokens: 700, outputTokens: 150, cumulativeTokens: 850 },
+      ],
+      Promise.resolve(makeAgentResult({ totalTokensUsed: 850, filesChanged: ["src/file.ts"] })),
+    );
+
+    const result = await executeTask(agent, makeTask(), makeSandbox(), eventBus, {
+      executionId: "budget-warn",
+      tokenBudget: 1_000,
+      warnThreshold: 0.8,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(agent.wrapUp).toHaveBeenCalledTimes(1);
+    expect(agent.wrapUp).toHaveBeenCalledWith("budget-warn");
+    expect(agent.abort).not.toHaveBeenCalled();
+    expect(stages).toContain("budget:warning");
+    expect(events.some((event) => event.type === "error")).toBe(false);
+    expect(result.success).toBe(true);
+    expect(result.errorCode).toBeUndefined();
+  });
+
+  it("aborts the agent and reports AGENT_TOKEN_LIMIT once the budget is exceeded", async () => {
+    const agent = createMockAgent();
+    const eventBus = createEventBus();
+
+    mockExecution(
+      agent,
+      [
+        { type: "file_edit", path: "src/file.ts", action: "modify" },
+        { type: "tokens", inputTokens: 1_000, outputTokens: 200, cumulativeTokens: 1_200 },
+      ],
+      Promise.reject(new Error("terminated")),
+    );
+
+    const result = await executeTask(agent, makeTask(), makeSandbox(), eventBus, {
+      executionId: "budget-abort",
+      tokenBudget: 1_000,
+    });
+
+    expect(agent.abort).toHaveBeenCalledWith("budget-abort");
+    expect(result).toMatchObject({
+      success: false,
+      totalTokensUsed: 1_200,
+      filesChanged: ["src/file.ts"],
+      errorCode: "AGENT_TOKEN_LIMIT",
+      error: "Token budget of 1000 exceeded (1200 tokens used); agent aborted.",
+    });
+  });
+
+  it("only warns about an exceeded budget when enforcement is off", async () => {
+    const agent = createMockAgent();
+    const events: AgentEvent[] = [];
+
+    mockExecution(
+      agent,
+      [{ type: "tokens", inputTokens: 1_000, outputTokens: 200, cumulativeTokens: 1_200 }],
+      Promise.resolve(makeAgentResult({ totalTokensUsed: 1_200 })),
+    );
+
+    const result = await executeTask(agent, makeTask(), makeSandbox(), createEventBus(), {
+      tokenBudget: 1_000,
+      enforceBudget: false,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(agent.abort).not.toHaveBeenCalled();
+    expect(events).toContainEqual({
+      type: "error",
+      message: "Token budget of 1000 exceeded (1200 used).",
+      recoverable: true,
+    });
+    expect(result.success).toBe(true);
+  });
+
   it("normalizes timeout errors to AGENT_TIMEOUT", async () => {
     const agent = createMockAgent();
     const task = makeTask({ id: "task-timeout" });
@@ -0,0 +1,143 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type OacEventBus, type Task, createEventBus } from "../../src/core/index.js";
+import { DelegationManager, OrganizationSchema } from "../../src/organization/index.js";
+
+const organization = OrganizationSchema.parse({
+  roles: [{ id: "backend", name: "Backend", agent: "codex", repos: ["acme/api"] }],
+});
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "task-1",
+    source: "custom",
+    title: "Expose the export endpoint",
+    description: "The web client needs an export endpoint.",
+    targetFiles: [],
+    priority: 40,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: {},
+    discoveredAt: "2026-02-16T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+let dir = "";
+let filePath = "";
+let eventBus: OacEventBus;
+
+function createManager(): DelegationManager {
+  return new DelegationManager(eventBus, organization, { filePath });
+}
+
+async function request(manager: DelegationManager, priority = 60) {
+  return manager.requestDelegation({
+    sourceRepo: "acme/web",
+    targetRepo: "acme/api",
+    task: makeTask(),
+    reason: "Needs an API change",
+    priority,
+  });
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "oac-delegations-"));
+  filePath = join(dir, "delegations.json");
+  eventBus = createEventBus();
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("DelegationManager", () => {
+  it("persists delegations across manager instances", async () => {
+    const requested = vi.fn();
+    eventBus.on("delegation:requested", requested);
+
+    const { id } = await request(createManager());
+
+    const record = await createManager().getDelegation(id.slice(0, 8));
+    expect(record).toMatchObject({ id, status: "pending", resolvedBy: "codex" });
+    expect(requested).toHaveBeenCalledOnce();
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toMatchObject({ version: 1 });
+  });
+
+  it("walks the pending, accepted and completed lifecycle", async () => {
+    const manager = createManager();
+    const accepted = vi.fn();
+    const completed = vi.fn();
+    eventBus.on("delegation:accepted", accepted);
+    eventBus.on("delegation:completed", completed);
+    const { id } = await request(manager);
+
+    await manager.acceptDelegation(id, "claude-code");
+    expect(accepted).toHaveBeenCalledWith({ delegationId: id, assignedAgent: "claude-code" });
+    expect((await manager.getAcceptedDelegations("ACME/api")).map((r) => r.id)).toEqual([id]);
+    await expect(manager.rejectDelegation(id, "too late")).rejects.toThrow("is not pending");
+
+    const result = {
+      success: true,
+      exitCode: 0,
+      totalTokensUsed: 900,
+      filesChanged: ["a.ts"],
+      duration: 5,
+    };
+    const record = await manager.completeDelegation(
+      id,
+      result,
+      "https://github.com/acme/api/pull/7",
+    );
+
+    expect(completed).toHaveBeenCalledOnce();
+    expect(record.status).toBe("completed");
+    expect(record.result).toMatchObject({
+      success: true,
+      prUrl: "https://github.com/acme/api/pull/7",
+    });
+    expect(record.history.map((entry) => entry.event)).toEqual([
+      "requested",
+      "accepted",
+      "completed",
+    ]);
+    expect(await manager.getAcceptedDelegations("acme/api")).toEqual([]);
+  });
+
+  it("lists by priority and filters by status and repo", async () => {
+    const manager = createManager();
+    const low = await request(manager, 20);
+    const high = await request(manager, 80);
+    await manager.rejectDelegation(low.id, "Out of scope");
+
+    expect((await manager.listDelegations()).map((r) => r.id)).toEqual([high.id, low.id]);
+    expect((await manager.listDelegations({ status: "rejected" }))[0]?.history[1]).toMatchObject({
+      event: "rejected",
+      detail: "Out of scope",
+    });
+    expect(await manager.listDelegations({ repo: "acme/other" })).toEqual([]);
+    expect(await manager.getPendingDelegations()).toHaveLength(1);
+  });
+
+  it("reports each history entry once per repo contribution log", async () => {
+    const manager = createManager();
+    const { id } = await request(manager);
+    await manager.acceptDelegation(id);
+
+    const forTarget = await manager.getUnloggedActivity("acme/api");
+    expect(forTarget.map((item) => item.event)).toEqual(["requested", "accepted"]);
+    expect(forTarget[0]).toMatchObject({
+      delegationId: id,
+      taskTitle: "Expose the export endpoint",
+    });
+
+    await manager.markActivityLogged("acme/api", forTarget);
+    expect(await manager.getUnloggedActivity("acme/api")).toEqual([]);
+    expect(await manager.getUnloggedActivity("acme/web")).toHaveLength(2);
+    expect(await manager.getUnloggedActivity("acme/docs")).toEqual([]);
+  });
+});
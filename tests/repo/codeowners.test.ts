@@ -0,0 +1,62 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { ownersForFiles, parseCodeowners, readCodeowners } from "../../src/repo/codeowners.js";
+
+const CODEOWNERS = `# Default owners
+*                 @acme/core
+*.md              @docs-team writer@example.com
+/src/api/         @alice
+docs/*            @bob
+**/generated/**   @acme/bots
+/src/api/legacy/
+`;
+
+describe("parseCodeowners", () => {
+  it("skips comments and email owners", () => {
+    expect(parseCodeowners(CODEOWNERS).slice(0, 2)).toEqual([
+      { pattern: "*", owners: ["acme/core"] },
+      { pattern: "*.md", owners: ["docs-team"] },
+    ]);
+  });
+});
+
+describe("ownersForFiles", () => {
+  const rules = parseCodeowners(CODEOWNERS);
+
+  it("uses the last matching rule per file", () => {
+    expect(ownersForFiles(rules, ["src/index.ts"])).toEqual(["acme/core"]);
+    expect(ownersForFiles(rules, ["src/api/users.ts"])).toEqual(["alice"]);
+    expect(ownersForFiles(rules, ["packages/web/README.md"])).toEqual(["docs-team"]);
+    expect(ownersForFiles(rules, ["src/api/legacy/old.ts"])).toEqual([]);
+  });
+
+  it("matches directories, single-level wildcards and double stars", () => {
+    expect(ownersForFiles(rules, ["docs/setup.txt"])).toEqual(["bob"]);
+    expect(ownersForFiles(rules, ["docs/guides/setup.txt"])).toEqual(["acme/core"]);
+    expect(ownersForFiles(rules, ["lib/generated/types/a.ts"])).toEqual(["acme/bots"]);
+    expect(ownersForFiles(rules, ["src/index.ts", "src/api/users.ts"])).toEqual([
+      "acme/core",
+      "alice",
+    ]);
+  });
+});
+
+describe("readCodeowners", () => {
+  let repoPath: string | undefined;
+
+  afterEach(async () => {
+    if (repoPath) await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("reads .github/CODEOWNERS and returns [] without one", async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "oac-codeowners-"));
+    expect(await readCodeowners(repoPath)).toEqual([]);
+
+    await mkdir(join(repoPath, ".github"));
+    await writeFile(join(repoPath, ".github", "CODEOWNERS"), "/src/ @alice\n");
+    expect(await readCodeowners(repoPath)).toEqual([{ pattern: "/src/", owners: ["alice"] }]);
+  });
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ResolvedRepo } from "../../src/repo/types.js";
+
+const octokitMocks = vi.hoisted(() => ({
+  create: vi.fn(),
+  createFork: vi.fn(),
+  get: vi.fn(),
+  mergeUpstream: vi.fn(),
+}));
+
+const clonerMocks = vi.hoisted(() => ({
+  ensureRemote: vi.fn(),
+}));
+
+vi.mock("@octokit/rest", () => ({
+  Octokit: vi.fn().mockImplementation((options: unknown) => {
+    octokitMocks.create(options);
+    return {
+      repos: {
+        createFork: octokitMocks.createFork,
+        get: octokitMocks.get,
+        mergeUpstream: octokitMocks.mergeUpstream,
+      },
+    };
+  }),
+}));
+
+vi.mock("../../src/repo/cloner.js", () => ({
+  ensureRemote: clonerMocks.ensureRemote,
+}));
+
+import { FORK_REMOTE_NAME, needsFork, prepareFork } from "../../src/repo/fork.js";
+
+function makeRepo(push = false): ResolvedRepo {
+  return {
+    fullName: "upstream/project",
+    owner: "upstream",
+    name: "project",
+    localPath: "/tmp/upstream/project",
+    worktreePath: "/tmp/upstream/.oac-worktrees/main",
+    meta: {
+      defaultBranch: "main",
+      language: "TypeScript",
+      languages: {},
+      size: 1,
+      stars: 0,
+      openIssuesCount: 0,
+      topics: [],
+      license: null,
+      isArchived: false,
+      isFork: false,
+      permissions: { push, pull: true, admin: false },
+    },
+    git: {
+      headSha: "abc1234",
+      remoteUrl: "https://github.com/upstream/project.git",
+      isShallowClone: true,
+    },
+  };
+}
+
+function forkData(owner = "contributor") {
+  return {
+    data: {
+      owner: { login: owner },
+      name: "project",
+      full_name: `${owner}/project`,
+      clone_url: `https://github.com/${owner}/project.git`,
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  octokitMocks.createFork.mockResolvedValue(forkData());
+  octokitMocks.get.mockResolvedValue({ data: {} });
+  octokitMocks.mergeUpstream.mockResolvedValue({ data: {} });
+  clonerMocks.ensureRemote.mockResolvedValue(undefined);
+});
+
+describe("needsFork", () => {
+  it("returns true only when push permission is missing", () => {
+    expect(needsFork(makeRepo(false))).toBe(true);
+    expect(needsFork(makeRepo(true))).toBe(false);
+  });
+});
+
+describe("prepareFork", () => {
+  it("forks under the authenticated user, syncs, and adds the fork remote", async () => {
+    const repo = makeRepo();
+
+    const fork = await prepareFork(repo, { token: "tok" });
+
+    expect(octokitMocks.create).toHaveBeenCalledWith({ auth: "tok" });
+    expect(octokitMocks.createFork).toHaveBeenCalledWith({
+      owner: "upstream",
+      repo: "project",
+      default_branch_only: true,
+    });
+    expect(octokitMocks.mergeUpstream).toHaveBeenCalledWith({
+      owner: "contributor",
+      repo: "project",
+      branch: "main",
+    });
+    expect(clonerMocks.ensureRemote).toHaveBeenCalledWith(
+      "/tmp/upstream/project",
+      FORK_REMOTE_NAME,
+      "https://github.com/contributor/project.git",
+    );
+    expect(fork).toEqual({
+      owner: "contributor",
+      name: "project",
+      fullName: "contributor/project",
+      remoteName: FORK_REMOTE_NAME,
+      remoteUrl: "https://github.com/contributor/project.git",
+      synced: true,
+      syncError: undefined,
+    });
+    expect(repo.fork).toBe(fork);
+  });
+
+  it("forks into the configured organization", async () => {
+    octokitMocks.createFork.mockResolvedValue(forkData("my-org"));
+
+    const fork = await prepareFork(makeRepo(), { organization: "my-org" });
+
+    expect(octokitMocks.createFork).toHaveBeenCalledWith(
+      expect.objectContaining({ organization: "my-org" }),
+    );
+    expect(fork.owner).toBe("my-org");
+  });
+
+  it("waits until the newly created fork is available", async () => {
+    const notFound = Object.assign(new Error("Not Found"), { status: 404 });
+    octokitMocks.get.mockRejectedValueOnce(notFound).mockResolvedValueOnce({ data: {} });
+
+    await prepareFork(makeRepo(), { pollIntervalMs: 1 });
+
+    expect(octokitMocks.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports a failed sync without throwing", async () => {
+    octokitMocks.mergeUpstream.mockRejectedValue(new Error("merge conflict"));
+
+    const fork = await prepareFork(makeRepo());
+
+    expect(fork.synced).toBe(false);
+    expect(fork.syncError).toBe("merge conflict");
+  });
+
+  it("wraps fork creation failures with a helpful message", async () => {
+    octokitMocks.createFork.mockRejectedValue(new Error("Resource not accessible"));
+
+    await expect(prepareFork(makeRepo())).rejects.toThrow(
+      'Failed to fork "upstream/project" into the authenticated user',
+    );
+  });
+});
@@ -121,6 +121,48 @@ describe("valid ContributionLog passes validation", () => {
     expect(result.success).toBe(true);
   });
 
+  it("validates a task with validation gate results", () => {
+    const log = makeValidLog({
+      tasks: [
+        {
+          taskId: "task-gated",
+          title: "Gated task",
+          source: "lint",
+          complexity: "simple",
+          status: "success",
+          tokensUsed: 2_000,
+          duration: 30,
+          filesChanged: ["src/a.ts"],
+          validation: {
+            passed: false,
+            action: "draft",
+            gates: [
+              {
+                gate: "lint",
+                command: "pnpm run lint",
+                status: "passed",
+                exitCode: 0,
+                durationMs: 1_200,
+              },
+              {
+                gate: "test",
+                command: "pnpm run test",
+                status: "failed",
+                exitCode: 1,
+                durationMs: 8_000,
+                timedOut: false,
+                output: "1 test failed",
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    const result = contributionLogSchema.safeParse(log);
+    expect(result.success).toBe(true);
+  });
+
   it("accepts all valid task sources", () => {
     const sources = [
       "lint",
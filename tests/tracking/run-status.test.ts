@@ -0,0 +1,221 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { executionError } from "../../src/core/errors.js";
+import { createEventBus } from "../../src/core/event-bus.js";
+import type { Task } from "../../src/core/types.js";
+import {
+  RUN_STATUS_STALE_AFTER_MS,
+  type RunStatus,
+  createRunStatusWriter,
+  isRunStatusStale,
+  resolveRunStatusPath,
+} from "../../src/tracking/run-status.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  const dirs = tempDirs.splice(0);
+  await Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+async function createTempDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "oac-run-status-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+function makeTask(id: string, title = `Task ${id}`): Task {
+  return {
+    id,
+    source: "lint",
+    title,
+    description: "",
+    targetFiles: [],
+    priority: 50,
+    complexity: "simple",
+    executionMode: "new-pr",
+    metadata: {},
+    discoveredAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+async function readStatus(repoPath: string): Promise<RunStatus> {
+  return JSON.parse(await readFile(resolveRunStatusPath(repoPath), "utf8")) as RunStatus;
+}
+
+describe("createRunStatusWriter", () => {
+  it("writes the initial status file on start", async () => {
+    const repoPath = await createTempDir();
+    const writer = createRunStatusWriter({
+      repoPath,
+      runId: "run-1",
+      agent: "claude-code",
+      eventBus: createEventBus(),
+    });
+
+    await writer.start();
+    const status = await readStatus(repoPath);
+    await writer.finish();
+
+    expect(status.runId).toBe("run-1");
+    expect(status.agent).toBe("claude-code");
+    expect(status.pid).toBe(process.pid);
+    expect(status.tasks).toEqual([]);
+    expect(status.finishedAt).toBeUndefined();
+  });
+
+  it("tracks task lifecycle, tokens, stage and PR url from bus events", async () => {
+    const repoPath = await createTempDir();
+    const eventBus = createEventBus();
+    const writer = createRunStatusWriter({ repoPath, runId: "run-2", agent: "codex", eventBus });
+    await writer.start();
+
+    eventBus.emit("task:selected", { task: makeTask("a"), reason: "planned" });
+    eventBus.emit("task:selected", { task: makeTask("b"), reason: "planned" });
+    eventBus.emit("execution:started", { jobId: "job-a", task: makeTask("a"), agent: "codex" });
+    eventBus.emit("execution:progress", { jobId: "job-a", tokensUsed: 1_200, stage: "tool:Edit" });
+
+    let snapshot = writer.snapshot();
+    expect(snapshot.tasks.map((t) => t.status)).toEqual(["running", "pending"]);
+    expect(snapshot.tasks[0].stage).toBe("tool:Edit");
+    expect(snapshot.tasks[0].tokensUsed).toBe(1_200);
+
+    eventBus.emit("execution:completed", {
+      jobId: "job-a",
+      result: {
+        success: true,
+        exitCode: 0,
+        totalTokensUsed: 1_500,
+        filesChanged: ["src/a.ts"],
+        duration: 10,
+      },
+    });
+    eventBus.emit("pr:created", { jobId: "job-a", prUrl: "https://github.com/o/r/pull/1" });
+    eventBus.emit("execution:started", { jobId: "job-b", task: makeTask("b"), agent: "codex" });
+    eventBus.emit("execution:failed", {
+      jobId: "job-b",
+      error: executionError("AGENT_TIMEOUT", "timed out"),
+    });
+
+    await writer.finish();
+
+    const status = await readStatus(repoPath);
+    expect(status.tasks[0]).toMatchObject({
+      taskId: "a",
+      status: "completed",
+      tokensUsed: 1_500,
+      prUrl: "https://github.com/o/r/pull/1",
+    });
+    expect(status.tasks[1]).toMatchObject({ taskId: "b", status: "failed", error: "timed out" });
+    expect(status.tokensUsed).toBe(1_500);
+    expect(status.finishedAt).toBeDefined();
+
+    snapshot = writer.snapshot();
+    expect(snapshot.finishedAt).toBe(status.finishedAt);
+  });
+
+  it("marks tasks that never started as aborted on finish", async () => {
+    const repoPath = await createTempDir();
+    const eventBus = createEventBus();
+    const writer = createRunStatusWriter({ repoPath, runId: "run-4", agent: "codex", eventBus });
+    await writer.start();
+
+    eventBus.emit("task:selected", { task: makeTask("a"), reason: "planned" });
+    eventBus.emit("task:selected", { task: makeTask("queued"), reason: "planned" });
+    eventBus.emit("execution:started", { jobId: "job-a", task: makeTask("a"), agent: "codex" });
+    eventBus.emit("execution:failed", {
+      jobId: "job-a",
+      error: executionError("AGENT_EXECUTION_FAILED", "Execution aborted by user."),
+    });
+    await writer.finish();
+
+    const status = await readStatus(repoPath);
+    expect(status.tasks.map((t) => [t.taskId, t.status])).toEqual([
+      ["a", "failed"],
+      ["queued", "aborted"],
+    ]);
+    expect(status.tasks[1]?.completedAt).toBe(status.finishedAt);
+  });
+
+  it("keeps same-id tasks of different repos apart when qualifying ids", async () => {
+    const repoPath = await createTempDir();
+    const eventBus = createEventBus();
+    const writer = createRunStatusWriter({
+      repoPath,
+      runId: "run-5",
+      agent: "codex",
+      eventBus,
+      qualifyTaskIds: true,
+    });
+    await writer.start();
+
+    eventBus.emit("task:selected", { task: makeTask("a"), reason: "planned", repo: "acme/web" });
+    eventBus.emit("task:selected", { task: makeTask("a"), reason: "planned", repo: "acme/api" });
+    eventBus.emit("execution:started", {
+      jobId: "job-api",
+      task: makeTask("a"),
+      agent: "codex",
+      repo: "acme/api",
+    });
+    eventBus.emit("execution:failed", {
+      jobId: "job-api",
+      error: executionError("AGENT_TIMEOUT", "timed out"),
+    });
+    await writer.finish();
+
+    const status = await readStatus(repoPath);
+    expect(status.tasks.map((t) => [t.taskId, t.status])).toEqual([
+      ["acme/web::a", "aborted"],
+      ["acme/api::a", "failed"],
+    ]);
+  });
+
+  it("stops listening to the bus after finish", async () => {
+    const repoPath = await createTempDir();
+    const eventBus = createEventBus();
+    const writer = createRunStatusWriter({ repoPath, runId: "run-3", agent: "codex", eventBus });
+    await writer.start();
+    await writer.finish();
+
+    eventBus.emit("task:selected", { task: makeTask("late"), reason: "planned" });
+
+    expect(writer.snapshot().tasks).toEqual([]);
+    expect(eventBus.listenerCount("execution:progress")).toBe(0);
+  });
+});
+
+describe("isRunStatusStale", () => {
+  const base: RunStatus = {
+    runId: "run",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    agent: "claude-code",
+    tasks: [],
+  };
+
+  it("never treats finished runs as stale", () => {
+    expect(isRunStatusStale({ ...base, pid: 999_999_999, finishedAt: base.startedAt })).toBe(false);
+  });
+
+  it("detects runs whose owning process is gone", () => {
+    expect(
+      isRunStatusStale({ ...base, pid: 999_999_999, updatedAt: new Date().toISOString() }),
+    ).toBe(true);
+  });
+
+  it("detects runs that stopped sending heartbeats", () => {
+    const now = Date.parse("2026-01-01T01:00:00.000Z");
+    const updatedAt = new Date(now - RUN_STATUS_STALE_AFTER_MS - 1).toISOString();
+    expect(isRunStatusStale({ ...base, pid: process.pid, updatedAt }, now)).toBe(true);
+    expect(
+      isRunStatusStale({ ...base, pid: process.pid, updatedAt: new Date(now).toISOString() }, now),
+    ).toBe(false);
+  });
+
+  it("does not flag legacy files without a heartbeat", () => {
+    expect(isRunStatusStale(base)).toBe(false);
+  });
+});